@@ -0,0 +1,104 @@
+import { accountService } from '../src/services/AccountService';
+import DataService from '../src/services/DataService';
+import { apiClient } from '../src/services/ApiClient';
+import { calendarService, CalendarAdapter } from '../src/services/CalendarService';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+jest.mock('expo-constants', () => ({
+  __esModule: true,
+  default: { expoConfig: { extra: { api: { latencyMs: 0 } } } },
+}));
+
+jest.mock('../src/utils/netInfo', () => ({
+  netInfo: {
+    addEventListener: jest.fn(),
+    fetch: jest.fn(async () => ({ isConnected: true, type: 'wifi' })),
+  },
+}));
+
+const busyStart = new Date('2030-03-04T09:00:00.000Z');
+const busyEnd = new Date('2030-03-04T10:30:00.000Z');
+
+const calendarAdapter: CalendarAdapter = {
+  requestPermission: async () => true,
+  findCalendar: async () => 'calendar-1',
+  createCalendar: async () => 'calendar-1',
+  createEvent: async () => 'event-1',
+  updateEvent: async () => {},
+  deleteEvent: async () => {},
+  getBusyIntervals: async () => [{ start: busyStart, end: busyEnd }],
+};
+
+describe('AccountService', () => {
+  beforeAll(async () => {
+    // Let the offline service's initial network check settle so it knows it's online
+    await new Promise(resolve => setTimeout(resolve, 0));
+  });
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('links a newly registered coach to a listing whose roster they can open', async () => {
+    const user = await accountService.register('Ana Coach', 'ana@example.com', 'coach');
+    const coachId = user.coachProfile?.coachId;
+
+    expect(coachId).toBeDefined();
+    expect(await apiClient.getCoach(coachId!)).toMatchObject({ id: coachId, name: 'Ana Coach' });
+    await expect(DataService.getGroupRosters(coachId!)).resolves.toEqual([]);
+  });
+
+  it('leaves clients and already linked coaches alone', async () => {
+    const createCoach = jest.spyOn(apiClient, 'createCoach');
+    const client = await accountService.register('Sam Client', 'sam@example.com', 'client');
+    const coach = await accountService.register('Bo Coach', 'bo@example.com', 'coach');
+
+    expect(client.coachProfile).toBeUndefined();
+    expect(await accountService.linkCoachListing(coach)).toBe(coach);
+    expect(createCoach).toHaveBeenCalledTimes(1);
+  });
+
+  it("publishes a newly registered coach's busy times to their listing", async () => {
+    calendarService.setAdapter(calendarAdapter);
+    const user = await accountService.register('Cy Coach', 'cy@example.com', 'coach');
+
+    await accountService.publishBusyTimes(user, true);
+    expect((await apiClient.getCoach(user.coachProfile!.coachId!)).busyTimes).toEqual([
+      { startsAt: busyStart.toISOString(), endsAt: busyEnd.toISOString() },
+    ]);
+
+    await accountService.publishBusyTimes(user, false);
+    expect((await apiClient.getCoach(user.coachProfile!.coachId!)).busyTimes).toEqual([]);
+  });
+
+  it("carries a registered coach's name and location changes over to their listing", async () => {
+    const user = await accountService.register('Di Coach', 'di@example.com', 'coach');
+    const coachId = user.coachProfile!.coachId!;
+    await DataService.getCoach(coachId);
+
+    const saved = await accountService.saveProfile(user, {
+      ...user,
+      name: 'Diana Coach',
+      preferences: { ...user.preferences, location: 'Lisbon' },
+    });
+
+    expect(saved.name).toBe('Diana Coach');
+    expect(await DataService.getCoach(coachId)).toMatchObject({ name: 'Diana Coach', location: 'Lisbon' });
+  });
+
+  it("doesn't touch the listing when only account details change", async () => {
+    const user = await accountService.register('Ed Coach', 'ed@example.com', 'coach');
+    const updateCoachProfile = jest.spyOn(apiClient, 'updateCoachProfile');
+
+    await accountService.saveProfile(user, { ...user, email: 'ed@work.example.com' });
+
+    expect(updateCoachProfile).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,188 @@
+import { BaseApiClient, decodeCoach, decodeList, decodeSession } from '../src/services/BaseApiClient';
+import { FetchApiClient } from '../src/services/FetchApiClient';
+import { MockApiClient } from '../src/services/MockApiClient';
+import type { ApiClientConfig, HttpMethod } from '../src/services/ApiClient';
+import { AppError } from '../src/utils/errorHandling';
+import { TimeSlot } from '../src/types';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+const config: ApiClientConfig = { adapter: 'mock', baseUrl: 'http://api.test', timeoutMs: 1000, latencyMs: 0 };
+
+const slot: TimeSlot = {
+  id: 'slot-1',
+  date: '2025-03-01',
+  start: '10:00',
+  end: '11:00',
+} as TimeSlot;
+
+/**
+ * Records what the shared pipeline hands to the transport
+ */
+class RecordingApiClient extends BaseApiClient {
+  calls: Array<{ method: HttpMethod; path: string; body: unknown; headers: Record<string, string> }> = [];
+
+  constructor(private responses: Record<string, unknown> | unknown[] = {}) {
+    super(config);
+  }
+
+  protected async send(method: HttpMethod, path: string, body: unknown, headers: Record<string, string>) {
+    this.calls.push({ method, path, body, headers });
+    return Array.isArray(this.responses) ? this.responses : this.responses[path] ?? {};
+  }
+
+  protected async sendFile() {
+    return { url: 'https://files.test/1' };
+  }
+}
+
+const expectAppError = async (promise: Promise<unknown>, type: AppError['type'], statusCode?: number) => {
+  const error = await promise.then(() => null, (caught: unknown) => caught);
+  expect(error).toBeInstanceOf(AppError);
+  expect(error).toEqual(expect.objectContaining({ type, ...(statusCode && { statusCode }) }));
+};
+
+describe('response decoding', () => {
+  it('accepts bare lists and data envelopes', () => {
+    const coach = { id: 1, name: 'Sarah', specialty: 'Career', price: 100 };
+
+    expect(decodeList([coach], decodeCoach, 'coaches')[0].id).toBe('1');
+    expect(decodeList({ data: [coach] }, decodeCoach, 'coaches')).toHaveLength(1);
+  });
+
+  it('rejects malformed responses as server errors naming the missing field', () => {
+    expect(() => decodeList({ items: [] }, decodeCoach, 'coaches')).toThrow('Malformed coaches list');
+    expect(() => decodeCoach({ id: '1', name: 'Sarah', price: 100 })).toThrow('missing "specialty"');
+    expect(() => decodeSession({ id: 's1', coachId: 'c1', status: 'upcoming', timeSlot: {} }))
+      .toThrow(expect.objectContaining({ type: 'server' }));
+  });
+
+  it('fills in defaults for optional coach collections', () => {
+    const coach = decodeCoach({ id: '1', name: 'Sarah', specialty: 'Career', price: 100, timeZone: 'UTC' });
+
+    expect(coach).toEqual(expect.objectContaining({ availability: [], languages: [], tags: [], reviews: [] }));
+  });
+});
+
+describe('BaseApiClient', () => {
+  it('adds auth and idempotency headers to writes', async () => {
+    const client = new RecordingApiClient();
+    client.setAuthTokenProvider(async () => 'token-1');
+
+    await client.request('/sessions', { method: 'POST', body: { id: 's1' }, idempotencyKey: 'key-1' });
+
+    expect(client.calls[0].headers).toEqual(expect.objectContaining({
+      Authorization: 'Bearer token-1',
+      'Content-Type': 'application/json',
+      'Idempotency-Key': 'key-1',
+    }));
+  });
+
+  it('leaves out the auth header when there is no token', async () => {
+    const client = new RecordingApiClient([]);
+
+    await client.getCoaches();
+
+    expect(client.calls[0]).toEqual(expect.objectContaining({ method: 'GET', path: '/coaches' }));
+    expect(client.calls[0].headers.Authorization).toBeUndefined();
+  });
+});
+
+describe('BaseApiClient time zones', () => {
+  const bareSlot = { id: 'slot-1', date: '2025-03-01', start: '10:00', end: '11:00', available: false };
+  const coach = { id: 'c1', name: 'Sarah', specialty: 'Career', price: 100, timeZone: 'Asia/Tokyo' };
+
+  it("reads slots sent without a time zone in the coach's zone", async () => {
+    const client = new RecordingApiClient({
+      '/coaches': [coach],
+      '/users/u1/sessions': [{ id: 's1', coachId: 'c1', status: 'upcoming', timeSlot: bareSlot }],
+    });
+
+    const [session] = await client.getSessions('u1');
+
+    expect(session.timeSlot.timeZone).toBe('Asia/Tokyo');
+    expect(session.timeSlot.startsAt).toBe('2025-03-01T01:00:00.000Z');
+  });
+
+  it('only looks the coach up when the slot has no time zone of its own', async () => {
+    const client = new RecordingApiClient({
+      '/sessions/s1': { id: 's1', coachId: 'c1', status: 'upcoming', timeSlot: { ...bareSlot, timeZone: 'UTC' } },
+    });
+
+    const session = await client.getSession('s1');
+
+    expect(session.timeSlot.startsAt).toBe('2025-03-01T10:00:00.000Z');
+    expect(client.calls.map(call => call.path)).toEqual(['/sessions/s1']);
+  });
+});
+
+describe('FetchApiClient error mapping', () => {
+  const respond = (status: number, body: unknown) => {
+    global.fetch = jest.fn(async () => ({
+      ok: status < 400,
+      status,
+      text: async () => JSON.stringify(body),
+    })) as unknown as typeof fetch;
+  };
+  const client = new FetchApiClient({ ...config, adapter: 'fetch' });
+
+  it('maps rejected requests to validation errors and outages to server errors', async () => {
+    respond(422, { message: 'Slot is no longer available' });
+    await expectAppError(client.request('/sessions', { method: 'POST', body: {} }), 'validation', 422);
+
+    respond(404, {});
+    await expectAppError(client.request('/sessions/missing'), 'server', 404);
+
+    respond(503, {});
+    await expectAppError(client.request('/coaches'), 'server', 503);
+
+    respond(401, {});
+    await expectAppError(client.request('/coaches'), 'authentication');
+  });
+
+  it('maps a failed connection to a network error', async () => {
+    global.fetch = jest.fn(async () => {
+      throw new TypeError('Network request failed');
+    }) as unknown as typeof fetch;
+
+    await expectAppError(client.getCoaches(), 'network');
+  });
+});
+
+describe('MockApiClient', () => {
+  let client: MockApiClient;
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    client = new MockApiClient(config);
+    await client.reset();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('serves the fixtures through the typed endpoints', async () => {
+    const coaches = await client.getCoaches();
+
+    expect(coaches.length).toBeGreaterThan(0);
+    expect(coaches[0].timeZone).toEqual(expect.any(String));
+  });
+
+  it('reports unknown routes and missing records as 404s', async () => {
+    await expectAppError(client.request('/nowhere'), 'server', 404);
+    await expectAppError(client.getSession('missing'), 'server', 404);
+  });
+
+  it('rejects writes for coaches that do not exist', async () => {
+    await expectAppError(client.reserveSlot('missing', slot, 'u1'), 'server', 404);
+  });
+
+  it('fails every request as a network error when told to', async () => {
+    const flaky = new MockApiClient({ ...config, failureRate: 1 });
+
+    await expectAppError(flaky.getCoaches(), 'network');
+  });
+});
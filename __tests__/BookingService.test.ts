@@ -0,0 +1,347 @@
+import DataService from '../src/services/DataService';
+import NotificationService from '../src/services/NotificationService';
+import { bookingService } from '../src/services/BookingService';
+import { OfflineAction, offlineDataService } from '../src/services/OfflineDataService';
+import { paymentService } from '../src/services/PaymentService';
+import { BookedSession, Coach, TimeSlot } from '../src/types';
+import { createNetworkError, createValidationError } from '../src/utils/errorHandling';
+
+jest.mock('../src/services/DataService', () => ({
+  __esModule: true,
+  default: {
+    getCoach: jest.fn(),
+    rescheduleSession: jest.fn(),
+    reserveSlot: jest.fn(),
+    releaseSlot: jest.fn(),
+    createSession: jest.fn(),
+    updateSession: jest.fn(),
+    clearSessionCache: jest.fn(),
+    redeemPackageCredit: jest.fn(),
+    restorePackageCredit: jest.fn(),
+  },
+}));
+jest.mock('../src/services/OfflineDataService', () => ({
+  offlineDataService: {
+    getNetworkStatus: jest.fn(() => ({ isConnected: true, type: 'wifi' })),
+    getData: jest.fn(async () => null),
+    storeData: jest.fn(),
+    removeData: jest.fn(),
+    queueAction: jest.fn(async (action: object) => ({ ...action, id: `action_${Math.random()}` })),
+    removePendingActions: jest.fn(),
+    getDeadLetters: jest.fn(async () => []),
+    registerActionHandler: jest.fn(),
+  },
+}));
+jest.mock('../src/services/PaymentService', () => ({
+  paymentService: {
+    capturePayment: jest.fn(async (paymentIntentId: string) => ({ success: true, paymentIntentId })),
+    cancelPayment: jest.fn(async (paymentIntentId: string) => ({ success: true, paymentIntentId })),
+  },
+}));
+jest.mock('../src/services/NotificationService', () => ({
+  __esModule: true,
+  default: { cancelSessionNotifications: jest.fn(), scheduleSessionReminder: jest.fn() },
+}));
+jest.mock('../src/services/CalendarService', () => ({ calendarService: { syncSession: jest.fn() } }));
+jest.mock('../src/services/AnalyticsService', () => ({ analyticsService: { track: jest.fn() } }));
+
+const dataService = DataService as jest.Mocked<typeof DataService>;
+
+// Registered when the booking service is created, before any test clears the mocks
+const [, , replayCapture] = (offlineDataService.registerActionHandler as jest.Mock).mock.calls
+  .find(([entity, type]) => entity === 'payment' && type === 'update');
+
+const slot = (id: string): TimeSlot => ({
+  id,
+  date: '2030-03-01',
+  start: '10:00',
+  end: '11:00',
+  available: true,
+  startsAt: '2030-03-01T10:00:00.000Z',
+  endsAt: '2030-03-01T11:00:00.000Z',
+  timeZone: 'UTC',
+});
+
+const coach = { id: 'c1', name: 'Sarah', price: 100, availability: [slot('a'), slot('b'), slot('c')] } as Coach;
+
+const request = {
+  userId: 'u1',
+  coach,
+  slots: [slot('a'), slot('b'), slot('c')],
+  payment: {
+    sessionId: 'p1',
+    coachId: 'c1',
+    amount: 300,
+    currency: 'USD',
+    sessionType: '3 Sessions',
+    description: 'Three sessions',
+    scheduledDate: '2030-03-01T10:00:00.000Z',
+  },
+  paymentIntentId: 'pi_1',
+};
+
+describe('BookingService.bookSessions', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    dataService.reserveSlot.mockResolvedValue(coach);
+    dataService.createSession.mockImplementation(async session => session);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('captures the payment only after every slot is booked', async () => {
+    const sessions = await bookingService.bookSessions(request);
+
+    expect(sessions).toHaveLength(3);
+    expect(paymentService.capturePayment).toHaveBeenCalledWith('pi_1', 300);
+    expect(dataService.createSession.mock.invocationCallOrder[2])
+      .toBeLessThan((paymentService.capturePayment as jest.Mock).mock.invocationCallOrder[0]);
+  });
+
+  it('releases the slots reserved so far and cancels the payment when a slot fails mid-batch', async () => {
+    dataService.reserveSlot
+      .mockResolvedValueOnce(coach)
+      .mockResolvedValueOnce(coach)
+      .mockRejectedValueOnce(createValidationError('This time slot is no longer available.'));
+
+    await expect(bookingService.bookSessions(request)).rejects.toThrow('no longer available');
+
+    expect(dataService.releaseSlot.mock.calls).toEqual([['c1', 'a'], ['c1', 'b']]);
+    expect(dataService.updateSession).toHaveBeenCalledTimes(2);
+    expect(dataService.updateSession.mock.calls.map(([session]) => session.status)).toEqual(['cancelled', 'cancelled']);
+    expect(paymentService.capturePayment).not.toHaveBeenCalled();
+    expect(paymentService.cancelPayment).toHaveBeenCalledWith('pi_1');
+  });
+
+  it('rolls the whole booking back when the capture fails', async () => {
+    (paymentService.capturePayment as jest.Mock).mockResolvedValueOnce({ success: false, error: 'Card declined' });
+
+    await expect(bookingService.bookSessions(request)).rejects.toThrow('Card declined');
+
+    expect(dataService.releaseSlot).toHaveBeenCalledTimes(3);
+    expect(paymentService.cancelPayment).toHaveBeenCalledWith('pi_1');
+  });
+
+  it('gives back every package credit when a slot fails', async () => {
+    const packageCredit = { id: 'credit_1', coachId: 'c1', paymentIntentId: 'pi_pkg', pricePerSession: 90 };
+    dataService.createSession
+      .mockImplementationOnce(async session => session)
+      .mockRejectedValueOnce(createValidationError('Session already exists.'));
+
+    await expect(bookingService.bookSessions({
+      userId: 'u1',
+      coach,
+      slots: request.slots,
+      packageCredit: packageCredit as never,
+    })).rejects.toThrow('already exists');
+
+    expect(dataService.restorePackageCredit).toHaveBeenCalledWith(packageCredit, 3);
+    expect(dataService.releaseSlot.mock.calls).toEqual([['c1', 'a'], ['c1', 'b']]);
+    expect(paymentService.cancelPayment).not.toHaveBeenCalled();
+  });
+
+  it('queues only the session when the slot was reserved before the connection dropped', async () => {
+    dataService.createSession
+      .mockImplementationOnce(async session => session)
+      .mockRejectedValueOnce(createNetworkError())
+      .mockImplementationOnce(async session => session);
+
+    const sessions = await bookingService.bookSessions(request);
+
+    const queued = (offlineDataService.queueAction as jest.Mock).mock.calls.map(([action]) => action);
+    expect(queued).toEqual([
+      expect.objectContaining({ type: 'create', entity: 'session', entityId: sessions[1].id }),
+      expect.objectContaining({ entity: 'payment', entityId: 'pi_1' }),
+    ]);
+    expect(offlineDataService.storeData).not.toHaveBeenCalledWith('c1', 'coach', expect.anything());
+    expect(dataService.reserveSlot).toHaveBeenCalledTimes(3);
+    expect(paymentService.capturePayment).not.toHaveBeenCalled();
+  });
+
+  it('queues the reservation with the session when the slot was never reserved', async () => {
+    dataService.reserveSlot.mockRejectedValueOnce(createNetworkError());
+
+    await bookingService.bookSessions({ ...request, slots: [slot('a')] });
+
+    const queued = (offlineDataService.queueAction as jest.Mock).mock.calls.map(([action]) => action);
+    expect(queued).toEqual([
+      expect.objectContaining({ entity: 'coach', data: expect.objectContaining({ reserveSlot: expect.objectContaining({ id: 'a' }) }) }),
+      expect.objectContaining({ entity: 'session', type: 'create' }),
+      expect.objectContaining({ entity: 'payment', type: 'update' }),
+    ]);
+  });
+
+  it('holds the charge until the queued sessions reach the server', async () => {
+    dataService.reserveSlot.mockRejectedValueOnce(createNetworkError());
+
+    const sessions = await bookingService.bookSessions(request);
+
+    expect(paymentService.capturePayment).not.toHaveBeenCalled();
+    const capture: OfflineAction = (offlineDataService.queueAction as jest.Mock).mock.calls
+      .map(([action]) => action)
+      .find(action => action.entity === 'payment');
+    expect(capture).toEqual(expect.objectContaining({
+      entityId: 'pi_1',
+      data: { amount: 300, sessionIds: sessions.map(session => session.id) },
+    }));
+
+    await replayCapture(capture);
+    expect(paymentService.capturePayment).toHaveBeenCalledWith('pi_1', 300);
+  });
+
+  it("doesn't charge on replay when one of the booking's sessions couldn't be booked", async () => {
+    (offlineDataService.getDeadLetters as jest.Mock).mockResolvedValueOnce([
+      { action: { entity: 'session', entityId: 's2' }, error: 'Slot taken', errorType: 'validation', failedAt: '' },
+    ]);
+
+    await expect(replayCapture({
+      id: 'action_1',
+      type: 'update',
+      entity: 'payment',
+      entityId: 'pi_1',
+      data: { amount: 300, sessionIds: ['s1', 's2'] },
+      timestamp: '',
+      retryCount: 0,
+    })).rejects.toThrow('could not be booked');
+    expect(paymentService.capturePayment).not.toHaveBeenCalled();
+  });
+
+  it('drops the sessions queued offline and gives their seats back when a later slot fails', async () => {
+    dataService.reserveSlot
+      .mockRejectedValueOnce(createNetworkError())
+      .mockResolvedValueOnce(coach)
+      .mockRejectedValueOnce(createValidationError('This time slot is no longer available.'));
+    let storedCoach: Coach | null = null;
+    (offlineDataService.storeData as jest.Mock).mockImplementation(async (id, type, data) => {
+      if (type === 'coach') storedCoach = data;
+    });
+    (offlineDataService.getData as jest.Mock).mockImplementation(async () => storedCoach);
+
+    await expect(bookingService.bookSessions(request)).rejects.toThrow('no longer available');
+
+    const queuedIds = await Promise.all(
+      (offlineDataService.queueAction as jest.Mock).mock.results.map(result => result.value)
+    ).then(actions => actions.map(action => action.id));
+    expect(queuedIds).toHaveLength(2);
+    expect(offlineDataService.removePendingActions).toHaveBeenCalledWith(queuedIds);
+    const [queuedSession] = (offlineDataService.queueAction as jest.Mock).mock.calls
+      .map(([action]) => action)
+      .filter(action => action.entity === 'session');
+    expect(offlineDataService.removeData).toHaveBeenCalledWith([queuedSession.entityId]);
+    expect(storedCoach!.availability.find(s => s.id === 'a')).toEqual(expect.objectContaining({ available: true }));
+    expect(paymentService.capturePayment).not.toHaveBeenCalled();
+    expect(paymentService.cancelPayment).toHaveBeenCalledWith('pi_1');
+  });
+
+  it('rejects a card booking without an authorized payment', async () => {
+    await expect(bookingService.bookSessions({ ...request, paymentIntentId: undefined }))
+      .rejects.toThrow('Please pay for the sessions');
+    expect(dataService.reserveSlot).not.toHaveBeenCalled();
+  });
+});
+
+describe('BookingService.rescheduleSession', () => {
+  const session: BookedSession = {
+    id: 's1',
+    coachId: 'c1',
+    coachName: 'Sarah',
+    timeSlot: { ...slot('a'), available: false },
+    status: 'upcoming',
+    price: 100,
+    notes: 'Bring the CV',
+    userId: 'u1',
+    paymentIntentId: 'pi_1',
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    (offlineDataService.getNetworkStatus as jest.Mock).mockReturnValue({ isConnected: true, type: 'wifi' });
+    dataService.getCoach.mockResolvedValue({ ...coach, maxReschedules: 2 });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('swaps the slots in one request and moves the reminders', async () => {
+    const moved = { ...session, timeSlot: { ...slot('b'), available: false }, rescheduleCount: 1 };
+    dataService.rescheduleSession.mockResolvedValue(moved);
+
+    const result = await bookingService.rescheduleSession(session, slot('b'));
+
+    expect(result).toBe(moved);
+    expect(dataService.rescheduleSession).toHaveBeenCalledWith(session, slot('b'));
+    expect(dataService.reserveSlot).not.toHaveBeenCalled();
+    expect(dataService.releaseSlot).not.toHaveBeenCalled();
+    expect(NotificationService.cancelSessionNotifications).toHaveBeenCalledWith('s1');
+    expect(NotificationService.scheduleSessionReminder).toHaveBeenCalledWith(
+      's1', 'Sarah', new Date(slot('b').startsAt), 60, 'UTC'
+    );
+  });
+
+  it('frees the old slot and takes the new one locally when offline, queued as one action', async () => {
+    (offlineDataService.getNetworkStatus as jest.Mock).mockReturnValue({ isConnected: false, type: 'none' });
+    (offlineDataService.getData as jest.Mock).mockResolvedValueOnce({
+      ...coach,
+      availability: [{ ...slot('a'), available: false }, slot('b'), slot('c')],
+    });
+
+    const result = await bookingService.rescheduleSession(session, slot('b'));
+
+    expect(result).toEqual(expect.objectContaining({
+      timeSlot: expect.objectContaining({ id: 'b', available: false }),
+      notes: 'Bring the CV',
+      paymentIntentId: 'pi_1',
+      rescheduleCount: 1,
+    }));
+    const storedCoach = (offlineDataService.storeData as jest.Mock).mock.calls.find(([id]) => id === 'c1')[2];
+    expect(storedCoach.availability.map((s: TimeSlot) => [s.id, s.available])).toEqual([
+      ['a', true],
+      ['b', false],
+      ['c', true],
+    ]);
+    expect(offlineDataService.queueAction).toHaveBeenCalledTimes(1);
+    expect(offlineDataService.queueAction).toHaveBeenCalledWith(expect.objectContaining({
+      entity: 'session',
+      entityId: 's1',
+      data: { reschedule: expect.objectContaining({ id: 'b' }) },
+    }));
+  });
+
+  it('moves a seat between group slots locally when offline instead of opening the old slot', async () => {
+    (offlineDataService.getNetworkStatus as jest.Mock).mockReturnValue({ isConnected: false, type: 'none' });
+    const groupSlot = (id: string, bookedCount: number): TimeSlot => ({ ...slot(id), capacity: 4, bookedCount });
+    (offlineDataService.getData as jest.Mock).mockResolvedValueOnce({
+      ...coach,
+      availability: [groupSlot('a', 3), groupSlot('b', 3)],
+    });
+
+    await bookingService.rescheduleSession({ ...session, timeSlot: groupSlot('a', 3) }, groupSlot('b', 3));
+
+    const storedCoach = (offlineDataService.storeData as jest.Mock).mock.calls.find(([id]) => id === 'c1')[2];
+    expect(storedCoach.availability.map((s: TimeSlot) => [s.id, s.bookedCount, s.available])).toEqual([
+      ['a', 2, true],
+      ['b', 4, false],
+    ]);
+  });
+
+  it('refuses once the coach limit is used up', async () => {
+    await expect(bookingService.rescheduleSession({ ...session, rescheduleCount: 2 }, slot('b')))
+      .rejects.toThrow('reschedule limit');
+    expect(dataService.rescheduleSession).not.toHaveBeenCalled();
+  });
+
+  it('refuses slots that have already started', async () => {
+    const past = { ...slot('b'), startsAt: '2020-03-01T10:00:00.000Z', endsAt: '2020-03-01T11:00:00.000Z' };
+
+    await expect(bookingService.rescheduleSession(session, past)).rejects.toThrow('in the future');
+    expect(dataService.rescheduleSession).not.toHaveBeenCalled();
+  });
+});
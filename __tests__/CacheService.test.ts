@@ -0,0 +1,109 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { CACHE_INDEX_KEY, CacheService } from '../src/services/CacheService';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+// Roughly 1 KB once wrapped in a cache entry
+const payload = (fill: string) => fill.repeat(1000);
+
+describe('CacheService', () => {
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('serves repeat reads from memory and counts hits and misses', async () => {
+    const cache = new CacheService();
+    await cache.set('coaches_list', [{ id: 'c1' }]);
+    const multiGet = jest.spyOn(AsyncStorage, 'multiGet');
+
+    expect(await cache.get('coaches_list')).toEqual([{ id: 'c1' }]);
+    expect(await cache.get('missing')).toBeNull();
+
+    expect(multiGet).toHaveBeenCalledWith(['lazycoach_cache_missing']);
+    expect(multiGet).not.toHaveBeenCalledWith(['lazycoach_cache_coaches_list']);
+    expect(await cache.getStats()).toMatchObject({ hits: 1, misses: 1, evictions: 0 });
+  });
+
+  it('evicts the least recently used entries once a prefix is over budget', async () => {
+    jest.useFakeTimers({ now: 1_000 });
+    const cache = new CacheService({ defaultBudget: 2500 });
+    await cache.set('a', payload('a'));
+    jest.advanceTimersByTime(10);
+    await cache.set('b', payload('b'));
+    jest.advanceTimersByTime(10);
+    // Reading "a" makes "b" the oldest
+    await cache.get('a');
+    jest.advanceTimersByTime(10);
+    await cache.set('c', payload('c'));
+
+    expect(await AsyncStorage.getItem('lazycoach_cache_b')).toBeNull();
+    expect(await AsyncStorage.getItem('lazycoach_cache_a')).not.toBeNull();
+    expect(await AsyncStorage.getItem('lazycoach_cache_c')).not.toBeNull();
+    expect((await cache.getStats()).evictions).toBe(1);
+  });
+
+  it('keeps budgets per prefix and skips entries that could never fit', async () => {
+    const cache = new CacheService({ budgets: { small_: 500 } });
+    await cache.set('big', payload('x'), { prefix: 'small_' });
+    await cache.set('big', payload('x'));
+
+    expect(await cache.get('big', { prefix: 'small_' })).toBeNull();
+    expect(await cache.get('big')).toEqual(payload('x'));
+  });
+
+  it('picks up sizes from the persisted index after a restart', async () => {
+    jest.useFakeTimers({ now: 1_000 });
+    await new CacheService({ defaultBudget: 2500 }).set('a', payload('a'));
+    expect(JSON.parse((await AsyncStorage.getItem(CACHE_INDEX_KEY))!)).toHaveProperty('lazycoach_cache_a');
+
+    jest.advanceTimersByTime(10);
+    const restarted = new CacheService({ defaultBudget: 2500 });
+    await restarted.set('b', payload('b'));
+    jest.advanceTimersByTime(10);
+    await restarted.set('c', payload('c'));
+
+    expect(await AsyncStorage.getItem('lazycoach_cache_a')).toBeNull();
+    expect(await restarted.get('b')).toEqual(payload('b'));
+  });
+
+  it('drops expired entries from both tiers', async () => {
+    jest.useFakeTimers({ now: 1_000 });
+    const cache = new CacheService();
+    await cache.set('sessions_u1', [], { ttl: 100 });
+    jest.advanceTimersByTime(101);
+
+    expect(await cache.get('sessions_u1')).toBeNull();
+    expect(await AsyncStorage.getItem('lazycoach_cache_sessions_u1')).toBeNull();
+  });
+
+  it('still hands out expired entries as stale for revalidation', async () => {
+    jest.useFakeTimers({ now: 1_000 });
+    const cache = new CacheService();
+    await cache.set('coaches_list', ['c1'], { ttl: 100 });
+    jest.advanceTimersByTime(101);
+
+    expect(await cache.getEntry('coaches_list')).toEqual({ data: ['c1'], stale: true });
+    expect(await AsyncStorage.getItem('lazycoach_cache_coaches_list')).not.toBeNull();
+  });
+
+  it('removes every entry carrying an invalidated tag', async () => {
+    const cache = new CacheService();
+    await cache.set('coaches_list', ['c1', 'c2'], { tags: ['coaches', 'coach:c1', 'coach:c2'] });
+    await cache.set('search_fit', ['c2'], { tags: ['search'] });
+    await cache.set('sessions_u1', [], { tags: ['sessions:user:u1'] });
+
+    expect((await cache.invalidateTags(['coach:c2', 'search'])).sort()).toEqual(['coaches_list', 'search_fit']);
+    expect(await cache.get('coaches_list')).toBeNull();
+    expect(await cache.get('search_fit')).toBeNull();
+    expect(await cache.get('sessions_u1')).toEqual([]);
+  });
+});
@@ -0,0 +1,106 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { calendarService, CalendarAdapter, CalendarEventDetails } from '../src/services/CalendarService';
+import { createTimeSlot } from '../src/utils/timeSlots';
+import { BookedSession } from '../src/types';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+class FakeCalendarAdapter implements CalendarAdapter {
+  calendars: Record<string, string> = {};
+  events: Record<string, CalendarEventDetails & { calendarId: string }> = {};
+  permission = true;
+  private nextId = 1;
+
+  async requestPermission(): Promise<boolean> {
+    return this.permission;
+  }
+
+  async findCalendar(title: string): Promise<string | null> {
+    return Object.keys(this.calendars).find(id => this.calendars[id] === title) ?? null;
+  }
+
+  async createCalendar(title: string): Promise<string> {
+    const id = `calendar-${this.nextId++}`;
+    this.calendars[id] = title;
+    return id;
+  }
+
+  async createEvent(calendarId: string, details: CalendarEventDetails): Promise<string> {
+    const id = `event-${this.nextId++}`;
+    this.events[id] = { ...details, calendarId };
+    return id;
+  }
+
+  async updateEvent(eventId: string, details: CalendarEventDetails): Promise<void> {
+    if (!this.events[eventId]) throw new Error('Event not found');
+    this.events[eventId] = { ...this.events[eventId], ...details };
+  }
+
+  async deleteEvent(eventId: string): Promise<void> {
+    delete this.events[eventId];
+  }
+
+  async getBusyIntervals(): Promise<{ start: Date; end: Date }[]> {
+    return [];
+  }
+}
+
+const session: BookedSession = {
+  id: 'session-1',
+  coachId: '1',
+  coachName: 'Sarah Johnson',
+  timeSlot: createTimeSlot('1-1', '2025-03-10', '09:00', '10:00', 'America/New_York', false),
+  status: 'upcoming',
+  price: 80,
+  notes: 'Career transition plan',
+  sessionType: 'Coaching Session',
+};
+
+describe('CalendarService', () => {
+  let adapter: FakeCalendarAdapter;
+
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+    adapter = new FakeCalendarAdapter();
+    calendarService.setAdapter(adapter);
+  });
+
+  it('creates an event in a dedicated LazyCoach calendar', async () => {
+    await expect(calendarService.syncSession(session)).resolves.toBe(true);
+
+    const [event] = Object.values(adapter.events);
+    expect(adapter.calendars[event.calendarId]).toBe('LazyCoach');
+    expect(event.title).toBe('Coaching Session with Sarah Johnson');
+    expect(event.startDate.toISOString()).toBe('2025-03-10T13:00:00.000Z');
+    expect(event.notes).toContain('Career transition plan');
+    expect(event.url).toBe('lazycoach://sessions/session-1');
+  });
+
+  it('updates the same event when a session is rescheduled', async () => {
+    await calendarService.syncSession(session);
+    await calendarService.syncSession({
+      ...session,
+      timeSlot: createTimeSlot('1-2', '2025-03-11', '10:00', '11:00', 'America/New_York', false),
+    });
+
+    const events = Object.values(adapter.events);
+    expect(events).toHaveLength(1);
+    expect(events[0].startDate.toISOString()).toBe('2025-03-11T14:00:00.000Z');
+  });
+
+  it('deletes the event when a session is cancelled', async () => {
+    await calendarService.syncSession(session);
+    await calendarService.syncSession({ ...session, status: 'cancelled' });
+
+    expect(Object.keys(adapter.events)).toHaveLength(0);
+  });
+
+  it('skips syncing without calendar permission', async () => {
+    adapter.permission = false;
+
+    await expect(calendarService.syncSession(session)).resolves.toBe(false);
+    expect(Object.keys(adapter.events)).toHaveLength(0);
+  });
+});
@@ -0,0 +1,217 @@
+import DataService from '../src/services/DataService';
+import { cancellationService } from '../src/services/CancellationService';
+import { SyncableData, offlineDataService } from '../src/services/OfflineDataService';
+import { paymentService } from '../src/services/PaymentService';
+import { createTimeSlot } from '../src/utils/timeSlots';
+import { createValidationError } from '../src/utils/errorHandling';
+import { BookedSession } from '../src/types';
+
+jest.mock('../src/services/DataService', () => ({
+  __esModule: true,
+  default: {
+    getCoach: jest.fn(async () => ({ id: '1' })),
+    updateSession: jest.fn(async session => session),
+    releaseSlot: jest.fn(),
+    clearSessionCache: jest.fn(),
+    getPackageCredits: jest.fn(),
+    restorePackageCredit: jest.fn(),
+  },
+}));
+jest.mock('../src/services/OfflineDataService', () => ({
+  offlineDataService: {
+    getNetworkStatus: jest.fn(() => ({ isConnected: true, type: 'wifi' })),
+    storeData: jest.fn(),
+    queueAction: jest.fn(),
+    getDataByType: jest.fn(async () => []),
+    addSyncListener: jest.fn(),
+  },
+}));
+jest.mock('../src/services/PaymentService', () => ({
+  paymentService: {
+    processRefund: jest.fn(async (paymentIntentId: string) => ({ success: true, paymentIntentId })),
+  },
+}));
+jest.mock('../src/services/NotificationService', () => ({
+  __esModule: true,
+  default: { cancelSessionNotifications: jest.fn() },
+}));
+jest.mock('../src/services/CalendarService', () => ({ calendarService: { removeSession: jest.fn() } }));
+jest.mock('../src/services/AnalyticsService', () => ({ analyticsService: { track: jest.fn() } }));
+
+const dataService = DataService as jest.Mocked<typeof DataService>;
+const processRefund = paymentService.processRefund as jest.Mock;
+
+// Registered when the service is created, before any test clears the mocks
+const [[onSync]] = (offlineDataService.addSyncListener as jest.Mock).mock.calls;
+
+const session: BookedSession = {
+  id: 'session-1',
+  coachId: '1',
+  coachName: 'Sarah Johnson',
+  timeSlot: createTimeSlot('1-1', '2030-03-10', '10:00', '11:00', 'UTC', false),
+  status: 'upcoming',
+  price: 80,
+  userId: 'u1',
+  paymentIntentId: 'pi_1',
+};
+
+describe('CancellationService.cancelSession', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (offlineDataService.getNetworkStatus as jest.Mock).mockReturnValue({ isConnected: true, type: 'wifi' });
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('stores the cancellation before refunding, then records the refund', async () => {
+    const result = await cancellationService.cancelSession(session, 'Cancelled by client');
+
+    expect(result).toEqual(expect.objectContaining({ refunded: true, refundPending: false }));
+    expect(dataService.updateSession.mock.invocationCallOrder[0]).toBeLessThan(processRefund.mock.invocationCallOrder[0]);
+    expect(dataService.updateSession.mock.calls.map(([saved]) => [saved.status, saved.refundStatus])).toEqual([
+      ['cancelled', 'pending'],
+      ['cancelled', 'refunded'],
+    ]);
+    expect(dataService.releaseSlot).toHaveBeenCalledWith('1', '1-1');
+  });
+
+  it('does not refund when the cancellation cannot be stored', async () => {
+    dataService.updateSession.mockRejectedValueOnce(createValidationError('Session has already started.'));
+
+    await expect(cancellationService.cancelSession(session, 'Cancelled by client')).rejects.toThrow('already started');
+
+    expect(processRefund).not.toHaveBeenCalled();
+  });
+
+  it('refunds once the cancellation is queued offline', async () => {
+    (offlineDataService.getNetworkStatus as jest.Mock).mockReturnValue({ isConnected: false, type: 'none' });
+
+    const result = await cancellationService.cancelSession(session, 'Cancelled by client');
+
+    expect(offlineDataService.queueAction).toHaveBeenCalledWith(expect.objectContaining({
+      entity: 'session',
+      data: expect.objectContaining({ status: 'cancelled', refundStatus: 'pending' }),
+    }));
+    expect((offlineDataService.queueAction as jest.Mock).mock.invocationCallOrder[0])
+      .toBeLessThan(processRefund.mock.invocationCallOrder[0]);
+    expect(result.refunded).toBe(true);
+  });
+
+  it('keeps the cancellation with the refund pending when the refund fails', async () => {
+    processRefund.mockResolvedValueOnce({ success: false, error: 'Refund declined' });
+
+    const result = await cancellationService.cancelSession(session, 'Cancelled by client');
+
+    expect(result).toEqual(expect.objectContaining({ refunded: false, refundPending: true }));
+    expect(result.session).toEqual(expect.objectContaining({ status: 'cancelled', refundStatus: 'pending', refundAmount: 80 }));
+    expect(dataService.updateSession).toHaveBeenCalledTimes(1);
+  });
+
+  it('rejects sessions that are not upcoming', async () => {
+    await expect(cancellationService.cancelSession({ ...session, status: 'completed' }, 'Too late'))
+      .rejects.toThrow('Only upcoming sessions');
+    expect(dataService.updateSession).not.toHaveBeenCalled();
+  });
+
+  describe('sessions paid from a package', () => {
+    const packageSession: BookedSession = { ...session, paymentIntentId: 'pi_pkg', packageCreditId: 'credit_1' };
+    const credit = { id: 'credit_1', remainingSessions: 2 };
+
+    beforeEach(() => {
+      dataService.getPackageCredits.mockResolvedValue([credit as never]);
+    });
+
+    it('returns the credit only after the cancellation is stored', async () => {
+      const result = await cancellationService.cancelSession(packageSession, 'Cancelled by client');
+
+      expect(result).toEqual(expect.objectContaining({ creditRestored: true, refunded: false, refundPending: false }));
+      expect(dataService.restorePackageCredit).toHaveBeenCalledWith(credit, 1);
+      expect(dataService.updateSession.mock.invocationCallOrder[0])
+        .toBeLessThan(dataService.restorePackageCredit.mock.invocationCallOrder[0]);
+      expect(processRefund).not.toHaveBeenCalled();
+    });
+
+    it('keeps the credit when the cancellation cannot be stored', async () => {
+      dataService.updateSession.mockRejectedValueOnce(createValidationError('Session has already started.'));
+
+      await expect(cancellationService.cancelSession(packageSession, 'Cancelled by client')).rejects.toThrow();
+
+      expect(dataService.restorePackageCredit).not.toHaveBeenCalled();
+    });
+
+    it('keeps the cancellation with the credit pending when it cannot be returned', async () => {
+      dataService.restorePackageCredit.mockRejectedValueOnce(createValidationError('This package has expired.'));
+
+      const result = await cancellationService.cancelSession(packageSession, 'Cancelled by client');
+
+      expect(result).toEqual(expect.objectContaining({ creditRestored: false, refundPending: true }));
+      expect(result.session).toEqual(expect.objectContaining({ status: 'cancelled', refundStatus: 'pending' }));
+    });
+  });
+});
+
+describe('CancellationService.retryPendingRefunds', () => {
+  const owedSession: BookedSession = {
+    ...session,
+    status: 'cancelled',
+    refundAmount: 80,
+    refundStatus: 'pending',
+  };
+
+  const storeSessions = (records: Array<Pick<SyncableData, 'data' | 'syncStatus'>>) => {
+    (offlineDataService.getDataByType as jest.Mock).mockImplementation(
+      async (_type: string, filter: (record: SyncableData) => boolean) =>
+        records.filter(record => filter(record as SyncableData)).map(record => record.data)
+    );
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (offlineDataService.getNetworkStatus as jest.Mock).mockReturnValue({ isConnected: true, type: 'wifi' });
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('refunds a session left pending once the next sync completes, and records it', async () => {
+    storeSessions([{ data: owedSession, syncStatus: 'synced' }]);
+
+    onSync('completed');
+    const settled = await cancellationService.retryPendingRefunds();
+
+    expect(processRefund).toHaveBeenCalledTimes(1);
+    expect(processRefund).toHaveBeenCalledWith('pi_1', 80);
+    expect(settled).toEqual([expect.objectContaining({ id: 'session-1', refundStatus: 'refunded' })]);
+    expect(dataService.updateSession).toHaveBeenCalledWith(expect.objectContaining({ refundStatus: 'refunded' }));
+  });
+
+  it('leaves cancellations that have not reached the server and failed refunds pending', async () => {
+    storeSessions([
+      { data: { ...owedSession, id: 'queued' }, syncStatus: 'pending' },
+      { data: owedSession, syncStatus: 'synced' },
+    ]);
+    processRefund.mockResolvedValueOnce({ success: false, error: 'Refund declined' });
+
+    await expect(cancellationService.retryPendingRefunds()).resolves.toEqual([]);
+
+    expect(processRefund).toHaveBeenCalledTimes(1);
+    expect(dataService.updateSession).not.toHaveBeenCalled();
+  });
+
+  it('returns package credits that could not be given back before', async () => {
+    storeSessions([{ data: { ...owedSession, refundAmount: 0, packageCreditId: 'credit_1' }, syncStatus: 'synced' }]);
+    dataService.getPackageCredits.mockResolvedValue([{ id: 'credit_1' } as never]);
+
+    await cancellationService.retryPendingRefunds();
+
+    expect(dataService.restorePackageCredit).toHaveBeenCalledWith({ id: 'credit_1' }, 1);
+    expect(processRefund).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,134 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import DataService, { cacheTags, dataCacheKeys } from '../src/services/DataService';
+import CacheService from '../src/services/CacheService';
+import { apiClient } from '../src/services/ApiClient';
+import { BookedSession, Coach } from '../src/types';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+jest.mock('../src/utils/netInfo', () => ({
+  netInfo: {
+    addEventListener: jest.fn(),
+    fetch: jest.fn(async () => ({ isConnected: true, type: 'wifi' })),
+  },
+}));
+
+const session = (id: string): BookedSession => ({ id, userId: 'u1' } as BookedSession);
+
+describe('DataService reads', () => {
+  beforeAll(async () => {
+    // Let the offline service's initial network check settle so it knows it's online
+    await new Promise(resolve => setTimeout(resolve, 0));
+  });
+
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('shares one API request between concurrent reads of the same data', async () => {
+    const getSessions = jest.spyOn(apiClient, 'getSessions').mockResolvedValue([session('s1')]);
+
+    const [first, second] = await Promise.all([
+      DataService.getSessions('dedupe-user'),
+      DataService.getSessions('dedupe-user'),
+    ]);
+
+    expect(getSessions).toHaveBeenCalledTimes(1);
+    expect(first).toEqual([session('s1')]);
+    expect(second).toBe(first);
+  });
+
+  it('returns stale data straight away and publishes the revalidated copy', async () => {
+    await CacheService.set(dataCacheKeys.sessions('stale-user'), [session('old')], { ttl: 1 });
+    await new Promise(resolve => setTimeout(resolve, 5));
+    jest.spyOn(apiClient, 'getSessions').mockResolvedValue([session('new')]);
+
+    const published = new Promise<BookedSession[]>(resolve => {
+      const unsubscribe = DataService.subscribe<BookedSession[]>(dataCacheKeys.sessions('stale-user'), data => {
+        unsubscribe();
+        resolve(data);
+      });
+    });
+    const onCacheResult = jest.fn();
+
+    expect(await DataService.getSessions('stale-user', { onCacheResult })).toEqual([session('old')]);
+    expect(onCacheResult).toHaveBeenCalledWith(true);
+    expect(await published).toEqual([session('new')]);
+    expect(await CacheService.get(dataCacheKeys.sessions('stale-user'))).toEqual([session('new')]);
+  });
+
+  it('reports a miss when the data had to come from the API', async () => {
+    jest.spyOn(apiClient, 'getSessions').mockResolvedValue([]);
+    const onCacheResult = jest.fn();
+
+    await DataService.getSessions('fresh-user', { onCacheResult });
+
+    expect(onCacheResult).toHaveBeenCalledWith(false);
+  });
+
+  it('refetches a subscribed list when a booking invalidates it', async () => {
+    const getSessions = jest.spyOn(apiClient, 'getSessions')
+      .mockResolvedValueOnce([])
+      .mockResolvedValueOnce([session('booked')]);
+    jest.spyOn(apiClient, 'createSession').mockResolvedValue({ ...session('booked'), userId: 'booking-user' });
+    await DataService.getSessions('booking-user');
+
+    const refreshed = new Promise<BookedSession[]>(resolve => {
+      const unsubscribe = DataService.subscribe<BookedSession[]>(dataCacheKeys.sessions('booking-user'), data => {
+        unsubscribe();
+        resolve(data);
+      });
+    });
+    await DataService.createSession(session('booked'));
+
+    expect(await refreshed).toEqual([session('booked')]);
+    expect(getSessions).toHaveBeenCalledTimes(2);
+  });
+
+  it('drops cached searches and coach lists when a coach is reviewed', async () => {
+    const coach = { id: 'coach-1', name: 'Ana', specialty: 'Fitness', tags: [], rating: 4, price: 50 } as unknown as Coach;
+    await CacheService.set(dataCacheKeys.coaches(), [coach], { tags: [cacheTags.coaches, cacheTags.coach(coach.id)] });
+    await CacheService.set(dataCacheKeys.search('ana'), [coach], { tags: [cacheTags.search] });
+    await CacheService.set(dataCacheKeys.sessions('u1'), [], { tags: [cacheTags.sessions('u1')] });
+    jest.spyOn(apiClient, 'submitReview').mockResolvedValue({ ...coach, rating: 4.5 });
+
+    await DataService.submitReview(coach.id, {
+      id: 'review-1', userId: 'u1', userName: 'Sam', rating: 5, comment: '', date: '2025-03-01T10:00:00Z',
+    });
+
+    expect(await CacheService.get(dataCacheKeys.coaches())).toBeNull();
+    expect(await CacheService.get(dataCacheKeys.search('ana'))).toBeNull();
+    expect(await CacheService.get(dataCacheKeys.sessions('u1'))).toEqual([]);
+  });
+
+  it('drops searches showing a coach when one of its slots is booked', async () => {
+    const coach = { id: 'coach-2', name: 'Bo', specialty: 'Career', tags: [], rating: 4, price: 60 } as unknown as Coach;
+    jest.spyOn(apiClient, 'getCoaches').mockResolvedValue([coach]);
+    jest.spyOn(apiClient, 'reserveSlot').mockResolvedValue(coach);
+    await DataService.searchCoaches('bo');
+    expect(await CacheService.get(dataCacheKeys.search('bo'))).toEqual([coach]);
+
+    await DataService.reserveSlot(coach.id, { id: 'slot-1' } as Coach['availability'][number], 'u1');
+
+    expect(await CacheService.get(dataCacheKeys.search('bo'))).toBeNull();
+  });
+
+  it('forgets how to refetch invalidated reads nobody is subscribed to', async () => {
+    const refetchers = (DataService as unknown as { refetchers: Map<string, unknown> }).refetchers;
+    jest.spyOn(apiClient, 'getSessions').mockResolvedValue([]);
+    await DataService.getSessions('idle-user');
+    expect(refetchers.has(dataCacheKeys.sessions('idle-user'))).toBe(true);
+
+    await DataService.clearSessionCache('idle-user');
+
+    expect(refetchers.has(dataCacheKeys.sessions('idle-user'))).toBe(false);
+  });
+});
@@ -0,0 +1,106 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { LocalDataStore } from '../src/services/LocalDataStore';
+import type { SyncableData } from '../src/services/OfflineDataService';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+const record = (id: string, type: SyncableData['type'], data: Record<string, unknown>): SyncableData => ({
+  id,
+  type,
+  data: { id, ...data },
+  lastModified: '2025-03-01T10:00:00Z',
+  syncStatus: 'synced',
+});
+
+const ids = (records: SyncableData[]) => records.map(r => r.id);
+
+describe('LocalDataStore', () => {
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('keeps each record under its own key and indexes it', async () => {
+    const store = new LocalDataStore();
+    await store.put([
+      record('c1', 'coach', { specialty: 'Fitness' }),
+      record('m1', 'message', { conversationId: 'conv-1' }),
+      record('m2', 'message', { conversationId: 'conv-2' }),
+    ]);
+
+    expect(await AsyncStorage.getItem('offline_record:c1')).not.toBeNull();
+    expect(ids((await store.query('type', 'message')).items)).toEqual(['m1', 'm2']);
+    expect(ids((await store.query('conversation', 'conv-2')).items)).toEqual(['m2']);
+    expect(ids((await store.query('specialty', 'fitness')).items)).toEqual(['c1']);
+  });
+
+  it('moves a record between indexes when it changes', async () => {
+    const store = new LocalDataStore();
+    await store.put([record('c1', 'coach', { specialty: 'Fitness' })]);
+    await store.put([record('c1', 'coach', { specialty: 'Nutrition' })]);
+
+    expect((await store.query('specialty', 'Fitness')).total).toBe(0);
+    expect(ids((await store.query('specialty', 'Nutrition')).items)).toEqual(['c1']);
+  });
+
+  it('reads an index a page at a time', async () => {
+    const store = new LocalDataStore();
+    await store.put(['m1', 'm2', 'm3'].map(id => record(id, 'message', { conversationId: 'conv-1' })));
+
+    const first = await store.query('conversation', 'conv-1', { limit: 2 });
+    const second = await store.query('conversation', 'conv-1', { offset: first.nextOffset!, limit: 2 });
+
+    expect(ids(first.items)).toEqual(['m1', 'm2']);
+    expect(first).toMatchObject({ total: 3, nextOffset: 2 });
+    expect(ids(second.items)).toEqual(['m3']);
+    expect(second.nextOffset).toBeNull();
+  });
+
+  it('pages back from the newest record', async () => {
+    const store = new LocalDataStore();
+    await store.put(['m1', 'm2', 'm3'].map(id => record(id, 'message', { conversationId: 'conv-1' })));
+
+    const first = await store.query('conversation', 'conv-1', { limit: 2, newestFirst: true });
+    const second = await store.query('conversation', 'conv-1', {
+      offset: first.nextOffset!,
+      limit: 2,
+      newestFirst: true,
+    });
+
+    expect(ids(first.items)).toEqual(['m3', 'm2']);
+    expect(ids(second.items)).toEqual(['m1']);
+    expect(second.nextOffset).toBeNull();
+  });
+
+  it('keeps a conversation in message time order when older messages arrive late', async () => {
+    const store = new LocalDataStore();
+    const message = (id: string, timestamp: string) => record(id, 'message', { conversationId: 'conv-1', timestamp });
+    await store.put([message('m2', '2025-03-01T10:02:00Z'), message('m4', '2025-03-01T10:04:00Z')]);
+    await store.put([message('m1', '2025-03-01T10:01:00Z')]);
+    await store.put([message('m3', '2025-03-01T10:03:00Z'), message('m5', '2025-03-01T10:05:00Z')]);
+
+    const newest = await store.query('conversation', 'conv-1', { limit: 3, newestFirst: true });
+
+    expect(ids(newest.items)).toEqual(['m5', 'm4', 'm3']);
+    expect(ids((await store.query('conversation', 'conv-1')).items)).toEqual(['m1', 'm2', 'm3', 'm4', 'm5']);
+  });
+
+  it('migrates the old single-blob format on first use', async () => {
+    await AsyncStorage.setItem('offline_data', JSON.stringify({
+      s1: record('s1', 'session', {}),
+      m1: record('m1', 'message', { conversationId: 'conv-1' }),
+    }));
+
+    const store = new LocalDataStore();
+
+    expect((await store.get('s1'))?.type).toBe('session');
+    expect(ids((await store.query('conversation', 'conv-1')).items)).toEqual(['m1']);
+    expect(await AsyncStorage.getItem('offline_data')).toBeNull();
+  });
+});
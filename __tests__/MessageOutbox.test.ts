@@ -0,0 +1,200 @@
+import { MAX_SEND_ATTEMPTS, MessageOutbox, OUTBOX_STORAGE_KEY } from '../src/services/MessageOutbox';
+import type { ConnectionListener, ConnectionStatus } from '../src/services/RealtimeMessagingService';
+import { SimpleStorage } from '../src/utils/storage';
+import { createAttachment } from '../src/utils/attachments';
+import { ChatAttachment, ChatMessage, MessageStatus } from '../src/types';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+// The outbox is given its dependencies; the app-wide instances aren't needed
+jest.mock('../src/services/RealtimeMessagingService', () => ({
+  realtimeMessagingService: { addConnectionListener: () => () => {} },
+}));
+jest.mock('../src/services/OfflineDataService', () => ({ offlineDataService: {} }));
+jest.mock('../src/services/ApiClient', () => ({ apiClient: {} }));
+
+const createMessaging = (initialStatus: ConnectionStatus) => {
+  let status = initialStatus;
+  let listener: ConnectionListener = () => {};
+  return {
+    sendMessage: jest.fn<Promise<void>, [string, ChatMessage]>(async () => {}),
+    getConnectionStatus: () => status,
+    addConnectionListener: (next: ConnectionListener) => {
+      listener = next;
+      return () => {};
+    },
+    setStatus: (next: ConnectionStatus) => {
+      status = next;
+      listener(next);
+    },
+  };
+};
+
+const message = (id: string): ChatMessage => ({
+  id,
+  senderId: 'user-1',
+  text: id,
+  timestamp: '2025-03-01T10:00:00Z',
+});
+
+const settle = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('MessageOutbox', () => {
+  let storage: SimpleStorage;
+  let statuses: Array<[string, MessageStatus | undefined]>;
+  const history = { saveConversationMessages: jest.fn(async (): Promise<ChatMessage[]> => []) };
+  const uploader = {
+    uploadAttachment: jest.fn(async (attachment: ChatAttachment, onProgress?: (progress: number) => void) => {
+      onProgress?.(0.5);
+      return { ...attachment, uri: `https://files.example.com/${attachment.id}`, uploaded: true };
+    }),
+  };
+  const outboxes: MessageOutbox[] = [];
+
+  const createOutbox = (messaging: ReturnType<typeof createMessaging>) => {
+    const outbox = new MessageOutbox(messaging, history, storage, () => 0, uploader);
+    outbox.subscribe((_conversationId, updated) => statuses.push([updated.id, updated.status]));
+    outboxes.push(outbox);
+    return outbox;
+  };
+
+  beforeEach(() => {
+    storage = new SimpleStorage({ memoryOnly: true });
+    statuses = [];
+    uploader.uploadAttachment.mockClear();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    outboxes.splice(0).forEach(outbox => outbox.dispose());
+    jest.restoreAllMocks();
+  });
+
+  it('keeps a message sending until the server acks it as sent', async () => {
+    const messaging = createMessaging('connected');
+    const outbox = createOutbox(messaging);
+
+    await outbox.send('conv-1', message('m1'));
+    await settle();
+
+    // Delivered and read are left to the recipient's receipts
+    expect(statuses).toEqual([['m1', 'sending'], ['m1', 'sent']]);
+    expect(await outbox.getEntries('conv-1')).toEqual([]);
+    expect(history.saveConversationMessages).toHaveBeenLastCalledWith('conv-1', [
+      expect.objectContaining({ id: 'm1', status: 'sent' }),
+    ]);
+  });
+
+  it('holds messages while offline and sends them in order on reconnect', async () => {
+    const messaging = createMessaging('disconnected');
+    const outbox = createOutbox(messaging);
+    await outbox.send('conv-1', message('m1'));
+    await outbox.send('conv-1', message('m2'));
+    expect(messaging.sendMessage).not.toHaveBeenCalled();
+
+    messaging.setStatus('connected');
+    await settle();
+    await outbox.flush('conv-1');
+
+    expect(messaging.sendMessage.mock.calls.map(([, sent]) => sent.id)).toEqual(['m1', 'm2']);
+  });
+
+  it('keeps unsent messages across a restart', async () => {
+    await createOutbox(createMessaging('disconnected')).send('conv-1', message('m1'));
+    expect(JSON.parse((await storage.getItem(OUTBOX_STORAGE_KEY))!)['conv-1']).toHaveLength(1);
+
+    const messaging = createMessaging('connected');
+    await createOutbox(messaging).flushAll();
+
+    expect(messaging.sendMessage).toHaveBeenCalledWith('conv-1', expect.objectContaining({ id: 'm1' }));
+  });
+
+  it('marks a message failed after its last attempt and sends it again on retry', async () => {
+    jest.useFakeTimers();
+    const messaging = createMessaging('connected');
+    messaging.sendMessage.mockRejectedValue(new Error('ack timeout'));
+    const outbox = createOutbox(messaging);
+
+    await outbox.send('conv-1', message('m1'));
+    for (let attempt = 1; attempt < MAX_SEND_ATTEMPTS; attempt++) {
+      await jest.runOnlyPendingTimersAsync();
+    }
+    jest.useRealTimers();
+    await settle();
+
+    expect(messaging.sendMessage).toHaveBeenCalledTimes(MAX_SEND_ATTEMPTS);
+    expect(statuses[statuses.length - 1]).toEqual(['m1', 'failed']);
+
+    messaging.sendMessage.mockResolvedValue(undefined);
+    await outbox.retry('conv-1', 'm1');
+    await settle();
+
+    expect(statuses[statuses.length - 1]).toEqual(['m1', 'sent']);
+  });
+
+  it('sends a message once even if it is queued twice under the same id', async () => {
+    const messaging = createMessaging('disconnected');
+    const outbox = createOutbox(messaging);
+    await outbox.send('conv-1', message('m1'));
+    await outbox.send('conv-1', message('m1'));
+
+    expect(await outbox.getEntries('conv-1')).toHaveLength(1);
+    expect(await outbox.remove('conv-1', 'm1')).toBe(true);
+    expect(await outbox.getEntries('conv-1')).toEqual([]);
+  });
+
+  describe('attachments', () => {
+    const withDocument = (id: string): ChatMessage => ({
+      ...message(id),
+      type: 'attachment',
+      attachments: [createAttachment('document', {
+        uri: 'file:///cache/worksheet.pdf',
+        name: 'worksheet.pdf',
+        mimeType: 'application/pdf',
+        sizeBytes: 1024,
+      })],
+    });
+
+    it('uploads attachments before sending the message that points at them', async () => {
+      const messaging = createMessaging('connected');
+      const outbox = createOutbox(messaging);
+
+      await outbox.send('conv-1', withDocument('m1'));
+      await settle();
+
+      expect(statuses.map(([, status]) => status)).toEqual(['uploading', 'uploading', 'uploading', 'sending', 'sent']);
+      const [, sent] = messaging.sendMessage.mock.calls[0];
+      expect(sent.attachments![0]).toEqual(expect.objectContaining({
+        uri: expect.stringMatching(/^https:\/\/files\.example\.com\//),
+        uploaded: true,
+      }));
+    });
+
+    it('does not upload a file again when only the send is retried', async () => {
+      jest.useFakeTimers();
+      const messaging = createMessaging('connected');
+      messaging.sendMessage.mockRejectedValueOnce(new Error('ack timeout'));
+      const outbox = createOutbox(messaging);
+
+      await outbox.send('conv-1', withDocument('m1'));
+      await jest.runOnlyPendingTimersAsync();
+      jest.useRealTimers();
+      await settle();
+
+      expect(messaging.sendMessage).toHaveBeenCalledTimes(2);
+      expect(uploader.uploadAttachment).toHaveBeenCalledTimes(1);
+    });
+
+    it('refuses to queue a file over the size limit', async () => {
+      const outbox = createOutbox(createMessaging('disconnected'));
+      const tooLarge = withDocument('m1');
+      tooLarge.attachments![0].sizeBytes = 50 * 1024 * 1024;
+
+      await expect(outbox.send('conv-1', tooLarge)).rejects.toThrow('Documents can be up to 15 MB');
+      expect(await outbox.getEntries('conv-1')).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,319 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { OfflineDataService } from '../src/services/OfflineDataService';
+import { SyncStatus, SyncStatusStore } from '../src/services/SyncStatusStore';
+import { AppError, createNetworkError, createValidationError } from '../src/utils/errorHandling';
+import { netInfo } from '../src/utils/netInfo';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+jest.mock('../src/utils/netInfo', () => ({
+  netInfo: {
+    addEventListener: jest.fn(),
+    fetch: jest.fn(async () => ({ isConnected: true, type: 'wifi' })),
+  },
+}));
+
+const services: OfflineDataService[] = [];
+
+const createService = async (store?: SyncStatusStore): Promise<OfflineDataService> => {
+  const service = new OfflineDataService(store);
+  services.push(service);
+  // Let the initial network check settle so the service knows it's online
+  await new Promise(resolve => setTimeout(resolve, 0));
+  return service;
+};
+
+// Queueing while online starts a sync straight away; this resolves when it finishes
+const nextSync = (service: OfflineDataService): Promise<void> =>
+  new Promise(resolve => {
+    const listener = (status: 'started' | 'completed' | 'failed') => {
+      if (status === 'started') return;
+      service.removeSyncListener(listener);
+      resolve();
+    };
+    service.addSyncListener(listener);
+  });
+
+const queueAndSync = async (
+  service: OfflineDataService,
+  action: Parameters<OfflineDataService['queueAction']>[0]
+): Promise<void> => {
+  const synced = nextSync(service);
+  await service.queueAction(action);
+  await synced;
+};
+
+const getPendingCount = async (): Promise<number> =>
+  JSON.parse((await AsyncStorage.getItem('pending_actions')) ?? '[]').length;
+
+describe('OfflineDataService sync', () => {
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    services.splice(0).forEach(service => service.stopRetryScheduler());
+    jest.restoreAllMocks();
+  });
+
+  it('replays queued actions through the registered handler', async () => {
+    const service = await createService();
+    const handler = jest.fn(async () => {});
+    service.registerActionHandler('session', 'create', handler);
+
+    await queueAndSync(service, { type: 'create', entity: 'session', entityId: 's1', data: { id: 's1' } });
+
+    expect(handler).toHaveBeenCalledWith(expect.objectContaining({ entityId: 's1', data: { id: 's1' } }));
+    expect(await getPendingCount()).toBe(0);
+    expect(await service.getDeadLetters()).toEqual([]);
+  });
+
+  it('dead-letters permanent failures without retrying them', async () => {
+    const service = await createService();
+    const handler = jest.fn(async () => {
+      throw createValidationError('This slot is no longer available.');
+    });
+    service.registerActionHandler('coach', 'update', handler);
+
+    await queueAndSync(service, { type: 'update', entity: 'coach', entityId: 'c1', data: { releaseSlotId: 'x' } });
+
+    const [deadLetter] = await service.getDeadLetters();
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(deadLetter).toMatchObject({ errorType: 'validation', error: 'This slot is no longer available.' });
+    expect(await getPendingCount()).toBe(0);
+  });
+
+  it('dead-letters actions the server refuses for lack of sign-in', async () => {
+    const service = await createService();
+    const handler = jest.fn(async () => {
+      throw new AppError('Your session has expired.', 'authentication', 401);
+    });
+    service.registerActionHandler('session', 'update', handler);
+
+    await queueAndSync(service, { type: 'update', entity: 'session', entityId: 's1', data: { id: 's1' } });
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect((await service.getDeadLetters())[0]).toMatchObject({ errorType: 'authentication' });
+    expect(await getPendingCount()).toBe(0);
+  });
+
+  it('refuses to queue actions nothing can replay', async () => {
+    const service = await createService();
+
+    await expect(
+      service.queueAction({ type: 'delete', entity: 'conversation', entityId: 'conv-1' })
+    ).rejects.toMatchObject({ type: 'validation' });
+    expect(await getPendingCount()).toBe(0);
+  });
+
+  it('takes back queued actions that have not synced yet', async () => {
+    (netInfo.fetch as jest.Mock).mockResolvedValueOnce({ isConnected: false, type: 'none' });
+    const service = await createService();
+    service.registerActionHandler('session', 'create', jest.fn(async () => {}));
+
+    const kept = await service.queueAction({ type: 'create', entity: 'session', entityId: 's1', data: { id: 's1' } });
+    const dropped = await service.queueAction({ type: 'create', entity: 'session', entityId: 's2', data: { id: 's2' } });
+    await service.removePendingActions([dropped.id]);
+
+    const pending = JSON.parse((await AsyncStorage.getItem('pending_actions')) ?? '[]');
+    expect(pending.map((action: { id: string }) => action.id)).toEqual([kept.id]);
+    expect(service.getSyncStatus().pendingActionsCount).toBe(1);
+  });
+
+  it('backs off transient failures and gives up after the last retry', async () => {
+    const service = await createService();
+    const handler = jest.fn(async () => {
+      throw createNetworkError();
+    });
+    service.registerActionHandler('message', 'create', handler);
+
+    await queueAndSync(service, { type: 'create', entity: 'message', entityId: 'm1', data: { id: 'm1' } });
+    const [pending] = JSON.parse((await AsyncStorage.getItem('pending_actions')) ?? '[]');
+    expect(new Date(pending.nextAttemptAt).getTime()).toBeGreaterThan(Date.now());
+
+    // Not due yet, so a regular sync leaves it alone
+    await service.syncPendingActions();
+    expect(handler).toHaveBeenCalledTimes(1);
+
+    for (let attempt = 2; attempt <= 5; attempt++) {
+      await service.forceSyncAll();
+    }
+
+    expect(handler).toHaveBeenCalledTimes(5);
+    expect(await getPendingCount()).toBe(0);
+    expect((await service.getDeadLetters())[0]).toMatchObject({ errorType: 'network', action: { retryCount: 5 } });
+  });
+
+  it('holds back actions that depend on one that failed', async () => {
+    const store = new SyncStatusStore();
+    const updates: SyncStatus[] = [];
+    store.subscribe(status => updates.push(status));
+    const service = await createService(store);
+    const sentMessages = jest.fn(async () => {});
+    service.registerActionHandler('conversation', 'create', async () => {
+      throw createNetworkError();
+    });
+    service.registerActionHandler('message', 'create', sentMessages);
+    service.registerActionHandler('session', 'create', async () => {});
+
+    await AsyncStorage.setItem('pending_actions', JSON.stringify([
+      { id: 'a1', type: 'create', entity: 'conversation', entityId: 'conv-1', timestamp: '2025-03-01T10:00:00Z', retryCount: 0 },
+      { id: 'a2', type: 'create', entity: 'message', entityId: 'm1', data: { conversationId: 'conv-1' }, timestamp: '2025-03-01T10:00:01Z', retryCount: 0 },
+      { id: 'a3', type: 'create', entity: 'session', entityId: 's1', timestamp: '2025-03-01T10:00:02Z', retryCount: 0 },
+    ]));
+    await service.syncPendingActions();
+
+    const pending = JSON.parse((await AsyncStorage.getItem('pending_actions')) ?? '[]');
+    expect(sentMessages).not.toHaveBeenCalled();
+    expect(pending.map((action: { id: string }) => action.id)).toEqual(['a1', 'a2']);
+    // The held-back message still counts, so progress reaches the total
+    expect(updates.some(status => status.progress?.completed === 3 && status.progress.total === 3)).toBe(true);
+  });
+
+  it('keeps every conflict found by actions synced side by side', async () => {
+    const service = await createService();
+    service.registerActionHandler('session', 'update', async () => {});
+    service.registerServerStateFetcher('session', async action => ({
+      data: { id: action.entityId, status: 'upcoming' },
+      lastModified: '2025-03-01T11:00:00Z',
+    }));
+
+    await AsyncStorage.setItem('pending_actions', JSON.stringify(['s1', 's2', 's3'].map(entityId => ({
+      id: `a-${entityId}`,
+      type: 'update',
+      entity: 'session',
+      entityId,
+      data: { id: entityId, status: 'cancelled' },
+      timestamp: '2025-03-01T10:00:00Z',
+      retryCount: 0,
+      baseLastModified: '2025-03-01T10:00:00Z',
+    }))));
+    await service.syncPendingActions();
+
+    const conflicts = await service.getConflicts();
+    expect(conflicts.map(conflict => conflict.entityId).sort()).toEqual(['s1', 's2', 's3']);
+  });
+
+  it('can send a dead-lettered action again under its original id', async () => {
+    const service = await createService();
+    service.registerActionHandler('session', 'update', async () => {
+      throw createValidationError('Rejected');
+    });
+    await queueAndSync(service, { type: 'update', entity: 'session', entityId: 's1', data: { id: 's1' } });
+    const [deadLetter] = await service.getDeadLetters();
+
+    const handler = jest.fn(async () => {});
+    service.registerActionHandler('session', 'update', handler);
+    const synced = nextSync(service);
+    await service.retryDeadLetter(deadLetter.action.id);
+    await synced;
+
+    expect(handler).toHaveBeenCalledWith(expect.objectContaining({ id: deadLetter.action.id }));
+    expect(await service.getDeadLetters()).toEqual([]);
+  });
+
+  it('publishes queue length and sync progress without polling', async () => {
+    const store = new SyncStatusStore();
+    const updates: SyncStatus[] = [];
+    store.subscribe(status => updates.push(status));
+    const service = await createService(store);
+    service.registerActionHandler('session', 'create', async () => {});
+
+    await queueAndSync(service, { type: 'create', entity: 'session', entityId: 's1', data: { id: 's1' } });
+
+    expect(updates.some(status => status.pendingCount === 1)).toBe(true);
+    expect(updates.some(status => status.progress?.total === 1)).toBe(true);
+    expect(store.getSnapshot()).toMatchObject({ isOnline: true, isSyncing: false, pendingCount: 0, progress: null });
+    expect(store.getSnapshot().lastSyncAt).not.toBeNull();
+  });
+
+  it('sends a kept reschedule again without writing the command over the stored session', async () => {
+    const service = await createService();
+    const handler = jest.fn(async () => {});
+    service.registerActionHandler('session', 'update', handler);
+    const session = { id: 's1', status: 'upcoming', updatedAt: '2025-03-01T11:00:00Z' };
+    await service.cacheServerData('s1', 'session', session);
+    const reschedule = { reschedule: { id: 'slot-2', date: '2025-03-05', start: '10:00', end: '11:00' } };
+    await AsyncStorage.setItem('sync_conflicts', JSON.stringify([{
+      id: 'conflict-1',
+      entity: 'session',
+      entityId: 's1',
+      action: { id: 'a1', type: 'update', entity: 'session', entityId: 's1', data: reschedule, timestamp: '2025-03-01T10:00:00Z', retryCount: 0 },
+      strategy: 'server-wins',
+      localData: reschedule,
+      serverData: session,
+      serverLastModified: '2025-03-01T11:00:00Z',
+      detectedAt: '2025-03-01T11:05:00Z',
+    }]));
+
+    const synced = nextSync(service);
+    await service.resolveConflict('conflict-1', 'local');
+    await synced;
+
+    expect(handler).toHaveBeenCalledWith(expect.objectContaining({ entityId: 's1', data: reschedule }));
+    expect(await service.getData('s1')).toEqual(session);
+    expect(await service.getConflicts()).toEqual([]);
+  });
+});
+
+describe('OfflineDataService conversation history', () => {
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    services.splice(0).forEach(service => service.stopRetryScheduler());
+    jest.restoreAllMocks();
+  });
+
+  const message = (id: string, minute: number, isRead = false) => ({
+    id,
+    senderId: 'coach-1',
+    text: id,
+    timestamp: `2025-03-01T10:${String(minute).padStart(2, '0')}:00Z`,
+    isRead,
+  });
+
+  it('pages a conversation newest first without mixing up conversations', async () => {
+    const service = await createService();
+    await service.saveConversationMessages('conv-1', [message('m2', 2), message('m1', 1), message('m3', 3)]);
+    // Same message id in another conversation is a different message
+    await service.saveConversationMessages('conv-2', [message('m1', 5)]);
+
+    const first = await service.getConversationMessagesPage('conv-1', { limit: 2 });
+    const second = await service.getConversationMessagesPage('conv-1', { offset: first.nextOffset!, limit: 2 });
+
+    expect(first.items.map(m => m.id)).toEqual(['m3', 'm2']);
+    expect(second.items.map(m => m.id)).toEqual(['m1']);
+    expect((await service.getConversationMessages('conv-2')).map(m => m.timestamp)).toEqual(['2025-03-01T10:05:00Z']);
+  });
+
+  it('adds only messages it is missing from the server copy', async () => {
+    const service = await createService();
+    await service.saveConversationMessages('conv-1', [message('m1', 1, true)]);
+
+    const added = await service.addMissingConversationMessages('conv-1', [message('m1', 1), message('m2', 2)]);
+
+    expect(added.map(m => m.id)).toEqual(['m2']);
+    // The local read flag wins over the server's stale copy
+    expect((await service.getConversationMessages('conv-1')).map(m => m.isRead)).toEqual([true, false]);
+  });
+
+  it('applies receipts to stored messages without moving their status backwards', async () => {
+    const service = await createService();
+    await service.saveConversationMessages('conv-1', [{ ...message('m1', 1), status: 'sending' as const }]);
+
+    const updated = await service.updateConversationMessages('conv-1', ['m1', 'unknown'], { status: 'read' });
+    // A late ack from the sender's outbox arrives after the recipient has read it
+    await service.saveConversationMessages('conv-1', [{ ...message('m1', 1), status: 'sent' as const }]);
+
+    expect(updated.map(m => m.id)).toEqual(['m1']);
+    expect((await service.getConversationMessages('conv-1')).map(m => m.status)).toEqual(['read']);
+  });
+});
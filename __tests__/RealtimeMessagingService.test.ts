@@ -0,0 +1,268 @@
+import { WebSocket } from 'ws';
+import {
+  MessageListener,
+  RealtimeConfig,
+  RealtimeMessagingService,
+  realtimeMessagingService,
+} from '../src/services/RealtimeMessagingService';
+import { MessagingTransport, MessagingTransportHandlers, RealtimeFrame } from '../src/services/MessagingTransport';
+import { WebSocketLike, WebSocketTransport } from '../src/services/WebSocketTransport';
+import { offlineDataService } from '../src/services/OfflineDataService';
+import { ChatMessage } from '../src/types';
+import { startRelayServer } from '../scripts/realtimeRelayServer';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+jest.mock('../src/utils/netInfo', () => ({
+  netInfo: {
+    addEventListener: jest.fn(),
+    fetch: jest.fn(async () => ({ isConnected: true, type: 'wifi' })),
+  },
+}));
+
+jest.mock('../src/services/NotificationService', () => ({
+  __esModule: true,
+  default: { sendMessageNotification: jest.fn(async () => {}) },
+}));
+
+const config: RealtimeConfig = {
+  adapter: 'websocket',
+  url: '',
+  heartbeatIntervalMs: 50,
+  heartbeatTimeoutMs: 100,
+  ackTimeoutMs: 1000,
+  reconnectBaseDelayMs: 10,
+};
+
+const waitFor = async (condition: () => boolean, timeoutMs = 2000): Promise<void> => {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error('Timed out waiting for condition');
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+};
+
+const createListener = (): jest.Mocked<Required<MessageListener>> => ({
+  onMessageReceived: jest.fn(),
+  onTypingStart: jest.fn(),
+  onTypingStop: jest.fn(),
+  onUserOnlineStatus: jest.fn(),
+  onReadReceipt: jest.fn(),
+  onMessageStatusChanged: jest.fn(),
+});
+
+const message = (id: string, senderId: string): ChatMessage => ({
+  id,
+  senderId,
+  text: `hello from ${senderId}`,
+  timestamp: '2025-03-01T10:00:00Z',
+});
+
+describe('RealtimeMessagingService over WebSocket', () => {
+  let relay: Awaited<ReturnType<typeof startRelayServer>>;
+  const services: RealtimeMessagingService[] = [];
+
+  const connectAs = async (userId: string): Promise<RealtimeMessagingService> => {
+    const service = new RealtimeMessagingService(
+      { ...config, url: relay.url },
+      new WebSocketTransport({
+        url: relay.url,
+        // The same mock session token the app stores at sign-in
+        getAuthToken: async () => `mock_token_${userId}`,
+        createSocket: url => new WebSocket(url) as unknown as WebSocketLike,
+      })
+    );
+    services.push(service);
+    await waitFor(() => service.getConnectionStatus() === 'connected');
+    return service;
+  };
+
+  beforeAll(async () => {
+    realtimeMessagingService.disconnect();
+    relay = await startRelayServer();
+  });
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    services.splice(0).forEach(service => service.disconnect());
+    jest.restoreAllMocks();
+  });
+
+  afterAll(async () => {
+    await relay.close();
+  });
+
+  it('delivers messages to the other side and resolves once the server acks', async () => {
+    const client = await connectAs('client-1');
+    const coach = await connectAs('coach-1');
+    const listener = createListener();
+    coach.addListener(listener);
+
+    await client.sendMessage('conv-1', message('m1', 'client-1'));
+
+    await waitFor(() => listener.onMessageReceived.mock.calls.length === 1);
+    expect(listener.onMessageReceived).toHaveBeenCalledWith(message('m1', 'client-1'), 'conv-1');
+    // Stored before listeners hear about it, unread until someone opens the chat
+    expect((await offlineDataService.getConversationMessagesPage('conv-1')).items).toEqual([
+      expect.objectContaining({ id: 'm1', isRead: false }),
+    ]);
+  });
+
+  it('stores a resent message without telling the user about it again', async () => {
+    const client = await connectAs('client-1');
+    const coach = await connectAs('coach-1');
+    const listener = createListener();
+    const senderListener = createListener();
+    coach.addListener(listener);
+    client.addListener(senderListener);
+
+    await client.sendMessage('conv-3', message('m4', 'client-1'));
+    await waitFor(() => listener.onMessageReceived.mock.calls.length === 1);
+    await offlineDataService.updateConversationMessages('conv-3', ['m4'], { isRead: true });
+
+    // The sender never saw the ack, so it sends the same message again
+    await client.sendMessage('conv-3', message('m4', 'client-1'));
+    // The recipient still confirms delivery, once it has stored the copy
+    await waitFor(() => senderListener.onMessageStatusChanged.mock.calls.length === 2);
+
+    expect(listener.onMessageReceived).toHaveBeenCalledTimes(1);
+    expect(await offlineDataService.getConversationMessages('conv-3')).toEqual([
+      expect.objectContaining({ id: 'm4', isRead: true }),
+    ]);
+  });
+
+  it('relays typing and read receipts stamped with the sender', async () => {
+    const client = await connectAs('client-1');
+    const coach = await connectAs('coach-1');
+    const listener = createListener();
+    client.addListener(listener);
+
+    coach.startTyping('conv-1');
+    coach.stopTyping('conv-1');
+    await coach.markMessagesAsRead('conv-1', ['m1', 'm2']);
+
+    await waitFor(() => listener.onReadReceipt.mock.calls.length === 1);
+    expect(listener.onTypingStart).toHaveBeenCalledWith('conv-1', 'coach-1');
+    expect(listener.onTypingStop).toHaveBeenCalledWith('conv-1', 'coach-1');
+    expect(listener.onReadReceipt).toHaveBeenCalledWith('conv-1', 'coach-1', ['m1', 'm2'], expect.any(String));
+  });
+
+  it('moves a sent message to delivered and then read from the recipient\'s receipts', async () => {
+    const client = await connectAs('client-1');
+    const coach = await connectAs('coach-1');
+    const listener = createListener();
+    client.addListener(listener);
+    await offlineDataService.saveConversationMessages('conv-2', [{ ...message('m3', 'client-1'), status: 'sent' }]);
+
+    await client.sendMessage('conv-2', message('m3', 'client-1'));
+    await waitFor(() => listener.onMessageStatusChanged.mock.calls.length === 1);
+    expect(listener.onMessageStatusChanged).toHaveBeenCalledWith('conv-2', ['m3'], 'delivered');
+
+    await coach.markMessagesAsRead('conv-2', ['m3']);
+    await waitFor(() => listener.onMessageStatusChanged.mock.calls.length === 2);
+    expect(listener.onMessageStatusChanged).toHaveBeenLastCalledWith('conv-2', ['m3'], 'read');
+    expect((await offlineDataService.getConversationMessages('conv-2')).map(m => m.status)).toEqual(['read']);
+  });
+
+  it('tracks presence as other users connect and leave', async () => {
+    const client = await connectAs('client-1');
+    const coach = await connectAs('coach-1');
+
+    await waitFor(() => client.getUserOnlineStatus('coach-1'));
+    expect(coach.getUserOnlineStatus('client-1')).toBe(true);
+
+    coach.disconnect();
+    await waitFor(() => !client.getUserOnlineStatus('coach-1'));
+  });
+
+  it('reconnects with backoff after the connection drops', async () => {
+    const client = await connectAs('client-1');
+
+    relay.dropConnections();
+    await waitFor(() => client.getConnectionStatus() === 'disconnected');
+    await waitFor(() => client.getConnectionStatus() === 'connected');
+
+    await expect(client.sendMessage('conv-1', message('m2', 'client-1'))).resolves.toBeUndefined();
+  });
+});
+
+describe('RealtimeMessagingService read receipts', () => {
+  it('holds read receipts made while offline and sends them on reconnect', () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    const sent: RealtimeFrame[] = [];
+    let handlers: MessagingTransportHandlers | null = null;
+    const transport: MessagingTransport = {
+      name: 'manual',
+      open: next => {
+        handlers = next;
+      },
+      send: frame => {
+        sent.push(frame);
+      },
+      close: jest.fn(),
+    };
+    const service = new RealtimeMessagingService(config, transport);
+
+    service.markMessagesAsRead('conv-1', ['m1']);
+    service.markMessagesAsRead('conv-1', ['m2']);
+    expect(sent).toEqual([]);
+
+    handlers!.onOpen();
+    expect(sent).toEqual([
+      { type: 'read_receipt', conversationId: 'conv-1', messageIds: ['m1', 'm2'], readAt: expect.any(String) },
+    ]);
+
+    service.disconnect();
+    jest.restoreAllMocks();
+  });
+});
+
+describe('RealtimeMessagingService heartbeat', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('treats a missing pong as a dead connection and reopens the transport', () => {
+    const sent: RealtimeFrame[] = [];
+    let opens = 0;
+    const transport: MessagingTransport = {
+      name: 'silent',
+      open: (handlers: MessagingTransportHandlers) => {
+        opens++;
+        handlers.onOpen();
+      },
+      send: frame => {
+        sent.push(frame);
+      },
+      close: jest.fn(),
+    };
+    const service = new RealtimeMessagingService(config, transport);
+
+    jest.advanceTimersByTime(config.heartbeatIntervalMs);
+    expect(sent).toEqual([{ type: 'ping', sentAt: expect.any(Number) }]);
+
+    jest.advanceTimersByTime(config.heartbeatTimeoutMs);
+    expect(transport.close).toHaveBeenCalled();
+    expect(service.getConnectionStatus()).toBe('disconnected');
+
+    jest.advanceTimersByTime(config.reconnectBaseDelayMs * 2);
+    expect(opens).toBe(2);
+    expect(service.getConnectionStatus()).toBe('connected');
+
+    service.disconnect();
+  });
+});
@@ -0,0 +1,75 @@
+import { SimpleStorage } from '../src/utils/storage';
+import {
+  SCHEMA_VERSIONS_KEY,
+  StorageMigration,
+  StorageMigrationRunner,
+  storageMigrations,
+} from '../src/services/StorageMigrations';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+describe('StorageMigrationRunner', () => {
+  let storage: SimpleStorage;
+
+  beforeEach(() => {
+    storage = new SimpleStorage({ memoryOnly: true });
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('runs pending migrations in version order and records each namespace version', async () => {
+    const calls: string[] = [];
+    const migration = (version: number): StorageMigration => ({
+      namespace: 'cache',
+      version,
+      description: `v${version}`,
+      migrate: async () => {
+        calls.push(`v${version}`);
+      },
+    });
+    await storage.setItem(SCHEMA_VERSIONS_KEY, JSON.stringify({ cache: 1 }));
+
+    const result = await new StorageMigrationRunner(storage, [migration(3), migration(1), migration(2)]).run();
+
+    expect(calls).toEqual(['v2', 'v3']);
+    expect(result.applied).toEqual(['cache@2', 'cache@3']);
+    expect(JSON.parse((await storage.getItem(SCHEMA_VERSIONS_KEY))!)).toEqual({ cache: 3 });
+  });
+
+  it('stops a namespace at a failed migration so it can be retried next launch', async () => {
+    const runner = new StorageMigrationRunner(storage, [
+      { namespace: 'theme', version: 1, description: 'ok', migrate: async () => {} },
+      { namespace: 'theme', version: 2, description: 'broken', migrate: async () => { throw new Error('boom'); } },
+      { namespace: 'theme', version: 3, description: 'later', migrate: async () => {} },
+      { namespace: 'auth', version: 1, description: 'other namespace', migrate: async () => {} },
+    ]);
+
+    const result = await runner.run();
+
+    expect(result.failed).toEqual([{ migration: 'theme@2', error: 'boom' }]);
+    expect(await runner.getVersions()).toEqual({ theme: 1, auth: 1 });
+  });
+
+  it('upgrades stored data from before versioning', async () => {
+    await storage.setItem('user', JSON.stringify({ id: 'u1', email: 'a@b.c', name: 'Ana' }));
+    await storage.setItem('coach_verification_1', '{not json');
+    await storage.setItem('lazycoach_cache_coaches_list', JSON.stringify({ data: [] }));
+    await storage.setItem('lazycoach_theme', 'neon');
+
+    const result = await new StorageMigrationRunner(storage, storageMigrations).run();
+    const user = JSON.parse((await storage.getItem('user'))!);
+
+    expect(result.failed).toEqual([]);
+    expect(user).toMatchObject({ id: 'u1', userType: 'client', bookedSessions: [] });
+    expect(user.preferences.specialty).toEqual([]);
+    expect(await storage.getItem('coach_verification_1')).toBeNull();
+    expect(await storage.getItem('lazycoach_cache_coaches_list')).toBeNull();
+    expect(await storage.getItem('lazycoach_theme')).toBeNull();
+  });
+});
@@ -0,0 +1,60 @@
+import {
+  ATTACHMENT_REQUIREMENTS,
+  createAttachment,
+  getUploadProgress,
+  guessMimeType,
+  validateAttachment,
+} from '../src/utils/attachments';
+import { getMessageText } from '../src/utils/chatHistory';
+import { AppError } from '../src/utils/errorHandling';
+import { ChatMessage } from '../src/types';
+
+const voiceNote = (changes = {}) =>
+  createAttachment('audio', {
+    uri: 'file:///cache/note.m4a',
+    mimeType: 'audio/m4a',
+    sizeBytes: 200 * 1024,
+    durationMs: 12000,
+    ...changes,
+  });
+
+describe('validateAttachment', () => {
+  it('accepts files within the limits for their kind', () => {
+    expect(() => validateAttachment(voiceNote())).not.toThrow();
+  });
+
+  it('rejects files over the size limit with a validation error', () => {
+    const tooLarge = voiceNote({ sizeBytes: ATTACHMENT_REQUIREMENTS.audio.maxSizeBytes + 1024 * 1024 });
+
+    expect(() => validateAttachment(tooLarge)).toThrow(AppError);
+    expect(() => validateAttachment(tooLarge)).toThrow('Voice notes can be up to 5 MB; this one is 6 MB.');
+  });
+
+  it('rejects voice notes that are too long and files of the wrong type', () => {
+    expect(() => validateAttachment(voiceNote({ durationMs: 6 * 60 * 1000 }))).toThrow('up to 5:00 long');
+    expect(() => validateAttachment(voiceNote({ mimeType: 'application/pdf' }))).toThrow("can't be sent as a voice note");
+  });
+});
+
+describe('attachment helpers', () => {
+  it('guesses a MIME type from the file name', () => {
+    expect(guessMimeType('Worksheet.PDF')).toBe('application/pdf');
+    expect(guessMimeType('file:///cache/recording.m4a?x=1')).toBe('audio/m4a');
+    expect(guessMimeType('archive.zip')).toBe('application/octet-stream');
+  });
+
+  it('weights upload progress by file size', () => {
+    const small = { ...voiceNote({ sizeBytes: 100 }), uploaded: true };
+    const large = { ...voiceNote({ sizeBytes: 300 }), uploadProgress: 0.5 };
+    const message: ChatMessage = { id: 'm1', senderId: 'u1', timestamp: '', attachments: [small, large] };
+
+    expect(getUploadProgress(message)).toBeCloseTo(0.625);
+  });
+
+  it('describes an attachment-only message for previews', () => {
+    const message: ChatMessage = { id: 'm1', senderId: 'u1', timestamp: '', attachments: [voiceNote()] };
+
+    expect(getMessageText(message)).toBe('Voice note (0:12)');
+    expect(getMessageText({ ...message, text: 'Listen to this' })).toBe('Listen to this');
+  });
+});
@@ -0,0 +1,124 @@
+import { expandAvailability, getGeneratedSlotId } from '../src/utils/availabilityEngine';
+import { createTimeSlot } from '../src/utils/timeSlots';
+import { AvailabilitySchedule, Coach } from '../src/types';
+
+const schedule: AvailabilitySchedule = {
+  rules: [{ id: 'weekday-mornings', weekdays: [1, 2, 3, 4], start: '09:00', end: '12:00', slotMinutes: 60 }],
+  exceptions: [],
+  bufferMinutes: 0,
+};
+
+const makeCoach = (overrides: Partial<Coach> = {}): Pick<Coach, 'id' | 'timeZone' | 'availability' | 'schedule'> => ({
+  id: '1',
+  timeZone: 'America/New_York',
+  availability: [],
+  schedule,
+  ...overrides,
+});
+
+// Monday 2025-03-03 through Sunday 2025-03-09, New York time
+const week = {
+  from: new Date('2025-03-03T05:00:00Z'),
+  to: new Date('2025-03-10T04:00:00Z'),
+};
+const now = new Date('2025-03-01T00:00:00Z');
+
+describe('expandAvailability', () => {
+  it('expands weekly rules into hourly slots on matching days', () => {
+    const slots = expandAvailability(makeCoach(), week, { now });
+
+    expect(slots).toHaveLength(12);
+    expect(slots[0]).toMatchObject({
+      id: getGeneratedSlotId('1', '2025-03-03', '09:00'),
+      start: '09:00',
+      end: '10:00',
+      startsAt: '2025-03-03T14:00:00.000Z',
+      available: true,
+    });
+    expect(slots.some(slot => slot.date === '2025-03-07')).toBe(false);
+  });
+
+  it('leaves a buffer between sessions', () => {
+    const slots = expandAvailability(makeCoach({ schedule: { ...schedule, bufferMinutes: 15 } }), week, { now });
+    const monday = slots.filter(slot => slot.date === '2025-03-03').map(slot => slot.start);
+
+    expect(monday).toEqual(['09:00', '10:15']);
+  });
+
+  it('applies vacations and extra hours', () => {
+    const coach = makeCoach({
+      schedule: {
+        ...schedule,
+        exceptions: [
+          { id: 'vacation', date: '2025-03-04', type: 'unavailable', reason: 'Vacation' },
+          { id: 'dentist', date: '2025-03-05', type: 'unavailable', start: '10:00', end: '11:00' },
+          { id: 'saturday', date: '2025-03-08', type: 'extra', start: '13:00', end: '15:00' },
+        ],
+      },
+    });
+    const slots = expandAvailability(coach, week, { now });
+
+    expect(slots.filter(slot => slot.date === '2025-03-04')).toHaveLength(0);
+    expect(slots.filter(slot => slot.date === '2025-03-05').map(slot => slot.start)).toEqual(['09:00', '11:00']);
+    expect(slots.filter(slot => slot.date === '2025-03-08').map(slot => slot.start)).toEqual(['13:00', '14:00']);
+  });
+
+  it('excludes booked slots and their buffer', () => {
+    const booked = createTimeSlot(getGeneratedSlotId('1', '2025-03-03', '10:00'), '2025-03-03', '10:00', '11:00', 'America/New_York', false);
+    const coach = makeCoach({
+      availability: [booked],
+      schedule: {
+        rules: [
+          { id: 'early', weekdays: [1], start: '09:00', end: '10:00', slotMinutes: 60 },
+          { id: 'late', weekdays: [1], start: '10:00', end: '13:00', slotMinutes: 60 },
+        ],
+        exceptions: [],
+        bufferMinutes: 15,
+      },
+    });
+    const monday = expandAvailability(coach, week, { now })
+      .filter(slot => slot.date === '2025-03-03')
+      .map(slot => slot.start);
+
+    // 09:00-10:00 ends inside the 15 minutes kept free before the booking at 10:00
+    expect(monday).toEqual(['11:15']);
+  });
+
+  it('drops slots that have already started', () => {
+    const slots = expandAvailability(makeCoach(), week, { now: new Date('2025-03-03T15:30:00Z') });
+
+    expect(slots[0].startsAt).toBe('2025-03-03T16:00:00.000Z');
+  });
+
+  it('falls back to the flat availability list without a schedule', () => {
+    const open = createTimeSlot('1-1', '2025-03-05', '09:00', '10:00', 'America/New_York');
+    const slots = expandAvailability(makeCoach({ schedule: undefined, availability: [open] }), week, { now });
+
+    expect(slots).toEqual([open]);
+  });
+
+  it('keeps group slots open until every seat is taken', () => {
+    const workshop = {
+      id: 'workshop',
+      start: '10:00',
+      end: '11:30',
+      slotMinutes: 90,
+      capacity: 10,
+      seatPrice: 35,
+      title: 'Mindfulness Workshop',
+    };
+    const slotId = getGeneratedSlotId('1', '2025-03-08', '10:00');
+    const partlyBooked = { ...createTimeSlot(slotId, '2025-03-08', '10:00', '11:30', 'America/New_York'), capacity: 10, bookedCount: 7 };
+    const coach = makeCoach({ schedule: { ...schedule, rules: [{ ...workshop, weekdays: [6 as const] }] }, availability: [partlyBooked] });
+
+    expect(expandAvailability(coach, week, { now })).toEqual([
+      expect.objectContaining({ id: slotId, capacity: 10, bookedCount: 7, seatPrice: 35, available: true }),
+    ]);
+
+    const full = makeCoach({
+      schedule: coach.schedule,
+      availability: [{ ...partlyBooked, bookedCount: 10, available: false }],
+    });
+    expect(expandAvailability(full, week, { now })).toEqual([]);
+  });
+});
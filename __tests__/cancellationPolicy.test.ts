@@ -0,0 +1,44 @@
+import { calculateRefund, DEFAULT_CANCELLATION_POLICY } from '../src/utils/cancellationPolicy';
+import { createTimeSlot } from '../src/utils/timeSlots';
+import { BookedSession } from '../src/types';
+
+const session: BookedSession = {
+  id: 'session-1',
+  coachId: '1',
+  coachName: 'Sarah Johnson',
+  timeSlot: createTimeSlot('1-1', '2025-03-10', '10:00', '11:00', 'UTC', false),
+  status: 'upcoming',
+  price: 80,
+};
+
+describe('calculateRefund', () => {
+  it('refunds in full outside the policy window', () => {
+    const quote = calculateRefund(session, DEFAULT_CANCELLATION_POLICY, new Date('2025-03-08T10:00:00Z'));
+
+    expect(quote.type).toBe('full');
+    expect(quote.amount).toBe(80);
+  });
+
+  it('refunds partially inside the window before the start', () => {
+    const quote = calculateRefund(session, DEFAULT_CANCELLATION_POLICY, new Date('2025-03-10T04:00:00Z'));
+
+    expect(quote.type).toBe('partial');
+    expect(quote.percent).toBe(50);
+    expect(quote.amount).toBe(40);
+  });
+
+  it('refunds nothing once the session has started', () => {
+    const quote = calculateRefund(session, DEFAULT_CANCELLATION_POLICY, new Date('2025-03-10T10:30:00Z'));
+
+    expect(quote.type).toBe('none');
+    expect(quote.amount).toBe(0);
+  });
+
+  it('uses a coach specific policy', () => {
+    const policy = { fullRefundWindowHours: 48, partialRefundPercent: 25 };
+    const quote = calculateRefund(session, policy, new Date('2025-03-09T10:00:00Z'));
+
+    expect(quote.type).toBe('partial');
+    expect(quote.amount).toBe(20);
+  });
+});
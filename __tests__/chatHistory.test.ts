@@ -0,0 +1,80 @@
+import { advanceStatus, applyConversationSummary, mergeMessages, summarizeMessages } from '../src/utils/chatHistory';
+import { ChatMessage, Conversation } from '../src/types';
+
+const message = (id: string, timestamp: string, changes: Partial<ChatMessage> = {}): ChatMessage => ({
+  id,
+  senderId: 'coach-1',
+  text: `message ${id}`,
+  timestamp,
+  ...changes,
+});
+
+describe('mergeMessages', () => {
+  it('de-duplicates by id and keeps the history in time order', () => {
+    const history = [message('m1', '2025-03-01T10:00:00Z'), message('m3', '2025-03-01T10:10:00Z')];
+
+    const merged = mergeMessages(history, [
+      message('m2', '2025-03-01T10:05:00Z'),
+      message('m3', '2025-03-01T10:10:00Z'),
+    ]);
+
+    expect(merged.map(m => m.id)).toEqual(['m1', 'm2', 'm3']);
+  });
+
+  it('updates the copy already held when a message is seen again', () => {
+    const history = [message('m1', '2025-03-01T10:00:00Z', { status: 'sending', senderName: 'You' })];
+
+    const [merged] = mergeMessages(history, [{ ...history[0], status: 'sent', senderName: undefined }]);
+
+    expect(merged.status).toBe('sent');
+  });
+
+  it('keeps a receipt status when a stale copy arrives after it', () => {
+    const history = [message('m1', '2025-03-01T10:00:00Z', { status: 'read' })];
+
+    const [merged] = mergeMessages(history, [{ ...history[0], status: 'sent' }]);
+
+    expect(merged.status).toBe('read');
+  });
+
+  it('keeps a message read when it is sent again unread', () => {
+    const history = [message('m1', '2025-03-01T10:00:00Z', { isRead: true })];
+
+    const [merged] = mergeMessages(history, [{ ...history[0], isRead: false }]);
+
+    expect(merged.isRead).toBe(true);
+  });
+});
+
+describe('advanceStatus', () => {
+  it('only moves a message forward through sent, delivered and read', () => {
+    expect(advanceStatus('sent', 'delivered')).toBe('delivered');
+    expect(advanceStatus('read', 'delivered')).toBe('read');
+    expect(advanceStatus(undefined, 'sending')).toBe('sending');
+  });
+
+  it('lets a failed send be retried and a retry fail, but not undo an ack', () => {
+    expect(advanceStatus('failed', 'sending')).toBe('sending');
+    expect(advanceStatus('sending', 'failed')).toBe('failed');
+    expect(advanceStatus('sent', 'failed')).toBe('sent');
+  });
+});
+
+describe('summarizeMessages', () => {
+  it('takes the latest message and counts unread ones from other people', () => {
+    const summary = summarizeMessages([
+      message('m2', '2025-03-01T10:05:00Z', { isRead: false }),
+      message('m1', '2025-03-01T10:00:00Z', { isRead: true }),
+      message('m3', '2025-03-01T10:10:00Z', { senderId: 'user-1', isRead: false, text: 'See you then' }),
+      message('m4', '2025-03-01T09:00:00Z', { type: 'system', isRead: false }),
+    ], 'user-1');
+
+    expect(summary).toEqual({ lastMessage: 'See you then', lastMessageTime: '2025-03-01T10:10:00Z', unreadCount: 1 });
+  });
+
+  it('leaves a conversation alone when there is no stored history', () => {
+    const conversation = { id: 'c1', lastMessage: 'hi', unreadCount: 3 } as Conversation;
+
+    expect(applyConversationSummary(conversation, [], 'user-1')).toBe(conversation);
+  });
+});
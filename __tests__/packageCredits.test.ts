@@ -0,0 +1,58 @@
+import {
+  getCreditExpiry,
+  getPackagePricePerSession,
+  getPackageSavingsPercent,
+  selectCreditForBooking,
+} from '../src/utils/packageCredits';
+import { PackageCredit } from '../src/types';
+
+const now = new Date('2025-03-01T12:00:00Z');
+
+const credit = (overrides: Partial<PackageCredit>): PackageCredit => ({
+  id: 'credit-1',
+  packageId: '1-pack-5',
+  packageName: '5-Session Pack',
+  coachId: '1',
+  coachName: 'Sarah Johnson',
+  userId: 'user-1',
+  totalSessions: 5,
+  remainingSessions: 5,
+  pricePerSession: 72,
+  paymentIntentId: 'pi_1',
+  purchasedAt: '2025-02-01T12:00:00Z',
+  expiresAt: '2025-05-01T12:00:00Z',
+  ...overrides,
+});
+
+describe('package pricing', () => {
+  it('splits the package price across its sessions', () => {
+    expect(getPackagePricePerSession({ price: 680, sessionCount: 10 })).toBe(68);
+  });
+
+  it('reports the discount against single sessions', () => {
+    expect(getPackageSavingsPercent({ price: 360, sessionCount: 5 }, 80)).toBe(10);
+  });
+
+  it('expires credits after the validity period', () => {
+    expect(getCreditExpiry(now, 90).toISOString()).toBe('2025-05-30T12:00:00.000Z');
+  });
+});
+
+describe('selectCreditForBooking', () => {
+  it('uses the credit that expires soonest', () => {
+    const later = credit({ id: 'later', expiresAt: '2025-08-01T12:00:00Z' });
+    const sooner = credit({ id: 'sooner', expiresAt: '2025-04-01T12:00:00Z' });
+
+    expect(selectCreditForBooking([later, sooner], '1', 1, now)?.id).toBe('sooner');
+  });
+
+  it('skips expired, exhausted and other coaches\' credits', () => {
+    const credits = [
+      credit({ id: 'expired', expiresAt: '2025-02-28T12:00:00Z' }),
+      credit({ id: 'short', remainingSessions: 1 }),
+      credit({ id: 'other-coach', coachId: '2' }),
+    ];
+
+    expect(selectCreditForBooking(credits, '1', 2, now)).toBeNull();
+  });
+});
@@ -0,0 +1,34 @@
+import { DEFAULT_MAX_RESCHEDULES, getRemainingReschedules, getRescheduleLimit } from '../src/utils/reschedulePolicy';
+import { BookedSession } from '../src/types';
+
+const session = (rescheduleCount?: number): BookedSession => ({ id: 's1', rescheduleCount } as BookedSession);
+
+describe('getRescheduleLimit', () => {
+  it('falls back to the default when the coach sets no limit', () => {
+    expect(getRescheduleLimit(null)).toBe(DEFAULT_MAX_RESCHEDULES);
+    expect(getRescheduleLimit({})).toBe(DEFAULT_MAX_RESCHEDULES);
+  });
+
+  it('uses the coach limit, including zero', () => {
+    expect(getRescheduleLimit({ maxReschedules: 5 })).toBe(5);
+    expect(getRescheduleLimit({ maxReschedules: 0 })).toBe(0);
+  });
+});
+
+describe('getRemainingReschedules', () => {
+  it('counts down from the limit as the session is rescheduled', () => {
+    const coach = { maxReschedules: 3 };
+
+    expect(getRemainingReschedules(session(), coach)).toBe(3);
+    expect(getRemainingReschedules(session(1), coach)).toBe(2);
+    expect(getRemainingReschedules(session(3), coach)).toBe(0);
+  });
+
+  it('never goes below zero when the coach lowers the limit', () => {
+    expect(getRemainingReschedules(session(2), { maxReschedules: 1 })).toBe(0);
+  });
+
+  it('has no limit when the coach allows unlimited reschedules', () => {
+    expect(getRemainingReschedules(session(10), { maxReschedules: -1 })).toBe(Infinity);
+  });
+});
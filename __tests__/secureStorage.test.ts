@@ -0,0 +1,102 @@
+import { randomBytes } from 'crypto';
+import { SimpleStorage } from '../src/utils/storage';
+import {
+  isEncryptedValue,
+  SECURE_STORE_VALUE_LIMIT,
+  SecureStorage,
+  SecureStoreBackend,
+} from '../src/utils/secureStorage';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+const createSecureStore = (available = true) => {
+  const items = new Map<string, string>();
+  const backend: SecureStoreBackend = {
+    isAvailableAsync: async () => available,
+    getItemAsync: async key => items.get(key) ?? null,
+    setItemAsync: async (key, value) => {
+      items.set(key, value);
+    },
+    deleteItemAsync: async key => {
+      items.delete(key);
+    },
+  };
+  return { items, backend };
+};
+
+describe('SecureStorage', () => {
+  let plain: SimpleStorage;
+  let secure: ReturnType<typeof createSecureStore>;
+  let storage: SecureStorage;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    plain = new SimpleStorage({ memoryOnly: true });
+    secure = createSecureStore();
+    storage = new SecureStorage({
+      plainStorage: plain,
+      secureStore: secure.backend,
+      randomBytes: length => new Uint8Array(randomBytes(length)),
+    });
+    storage.markSensitive('user');
+    storage.markSensitivePrefix('coach_verification_');
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('keeps small sensitive values in SecureStore and everything else in plain storage', async () => {
+    await storage.setItem('user', '{"id":"u1"}');
+    await storage.setItem('theme', 'dark');
+
+    expect(secure.items.get('user')).toBe('{"id":"u1"}');
+    expect(await plain.getItem('user')).toBeNull();
+    expect(await plain.getItem('theme')).toBe('dark');
+    expect(await storage.getItem('user')).toBe('{"id":"u1"}');
+    expect((await storage.getAllKeys()).sort()).toEqual(['theme', 'user']);
+  });
+
+  it('encrypts values too large for SecureStore under a key held there', async () => {
+    const verification = JSON.stringify({ personalInfo: { address: 'x'.repeat(SECURE_STORE_VALUE_LIMIT) } });
+    await storage.setItem('coach_verification_c1', verification);
+    const stored = await plain.getItem('coach_verification_c1');
+
+    expect(isEncryptedValue(stored)).toBe(true);
+    expect(stored).not.toContain('personalInfo');
+    expect(secure.items.has('storage_encryption_key')).toBe(true);
+    expect(await storage.getItem('coach_verification_c1')).toBe(verification);
+  });
+
+  it('refuses ciphertext copied to a different key', async () => {
+    await storage.setItem('coach_verification_c1', 'x'.repeat(SECURE_STORE_VALUE_LIMIT + 1));
+    await plain.setItem('coach_verification_c2', (await plain.getItem('coach_verification_c1'))!);
+
+    expect(await storage.getItem('coach_verification_c2')).toBeNull();
+  });
+
+  it('moves plaintext records written before they were marked sensitive', async () => {
+    await plain.setItem('user', '{"id":"u1"}');
+    await plain.setItem('coach_verification_c1', 'y'.repeat(SECURE_STORE_VALUE_LIMIT + 1));
+    await plain.setItem('theme', 'dark');
+
+    expect(await storage.secureExistingRecords()).toBe(2);
+    expect(await plain.getItem('user')).toBeNull();
+    expect(isEncryptedValue(await plain.getItem('coach_verification_c1'))).toBe(true);
+    expect(await plain.getItem('theme')).toBe('dark');
+    expect(await storage.getItem('user')).toBe('{"id":"u1"}');
+  });
+
+  it('falls back to plain storage where SecureStore is unavailable', async () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const fallback = new SecureStorage({ plainStorage: plain, secureStore: createSecureStore(false).backend });
+    fallback.markSensitive('user');
+
+    await fallback.setItem('user', '{"id":"u1"}');
+
+    expect(await plain.getItem('user')).toBe('{"id":"u1"}');
+  });
+});
@@ -0,0 +1,94 @@
+import {
+  SyncConflict,
+  getLocalEntity,
+  hasServerChanged,
+  mergeLastWriterWins,
+  resolveConflict,
+} from '../src/utils/syncConflicts';
+import type { OfflineAction } from '../src/services/OfflineDataService';
+
+const action = (overrides: Partial<OfflineAction>): OfflineAction => ({
+  id: 'action-1',
+  type: 'update',
+  entity: 'user',
+  entityId: 'user-1',
+  timestamp: '2025-03-01T10:00:00Z',
+  retryCount: 0,
+  ...overrides,
+});
+
+describe('hasServerChanged', () => {
+  it('flags server versions newer than the local base', () => {
+    const server = { data: {}, lastModified: '2025-03-01T11:00:00Z' };
+
+    expect(hasServerChanged('2025-03-01T10:00:00Z', server)).toBe(true);
+    expect(hasServerChanged('2025-03-01T11:00:00Z', server)).toBe(false);
+  });
+
+  it('lets edits through when either version is unknown', () => {
+    expect(hasServerChanged(undefined, { data: {}, lastModified: '2025-03-01T11:00:00Z' })).toBe(false);
+    expect(hasServerChanged('2025-03-01T10:00:00Z', { data: {} })).toBe(false);
+  });
+});
+
+describe('mergeLastWriterWins', () => {
+  it('keeps newer server fields and reports the local values that lost', () => {
+    const { merged, overwrittenFields } = mergeLastWriterWins(
+      { name: 'Local', bio: 'Same' },
+      { name: 'Server', bio: 'Same', email: 'a@b.c' },
+      '2025-03-01T10:00:00Z',
+      '2025-03-01T11:00:00Z'
+    );
+
+    expect(merged).toEqual({ name: 'Server', bio: 'Same', email: 'a@b.c' });
+    expect(overwrittenFields).toEqual(['name']);
+  });
+});
+
+describe('resolveConflict', () => {
+  it('drops stale session changes in favour of the server and asks for review', () => {
+    const resolution = resolveConflict(
+      'server-wins',
+      action({ entity: 'session', data: { status: 'cancelled' } }),
+      { data: { status: 'upcoming' }, lastModified: '2025-03-01T11:00:00Z' }
+    );
+
+    expect(resolution).toMatchObject({ outcome: 'discard', data: { status: 'upcoming' }, needsReview: true });
+  });
+
+  it('only sends messages the server is missing', () => {
+    const serverMessages = [{ id: 'm1', timestamp: '2025-03-01T09:00:00Z' }];
+
+    const duplicate = resolveConflict('union', action({ entity: 'message', data: { id: 'm1' } }), {
+      data: serverMessages,
+    });
+    const fresh = resolveConflict('union', action({ entity: 'message', data: { id: 'm2' } }), {
+      data: serverMessages,
+    });
+
+    expect(duplicate.outcome).toBe('discard');
+    expect(fresh).toMatchObject({ outcome: 'apply', data: { id: 'm2' }, needsReview: false });
+  });
+});
+
+describe('getLocalEntity', () => {
+  const conflict = (localData: object): SyncConflict => ({
+    id: 'conflict-1',
+    entity: 'user',
+    entityId: 'user-1',
+    action: action({ data: localData }),
+    strategy: 'last-writer-wins',
+    localData: localData as SyncConflict['localData'],
+    serverData: { id: 'user-1', name: 'Server', email: 'a@b.c' },
+    detectedAt: '2025-03-01T11:05:00Z',
+  });
+
+  it('lays the local edit over the server copy', () => {
+    expect(getLocalEntity(conflict({ name: 'Local' }))).toEqual({ id: 'user-1', name: 'Local', email: 'a@b.c' });
+  });
+
+  it('has no entity to store for command payloads', () => {
+    expect(getLocalEntity(conflict({ reschedule: { id: 'slot-2' } }))).toBeNull();
+    expect(getLocalEntity(conflict({ releaseSlotId: 'slot-1' }))).toBeNull();
+  });
+});
@@ -0,0 +1,58 @@
+import { getBackoffDelay, planSyncBatches } from '../src/utils/syncQueue';
+import type { OfflineAction } from '../src/services/OfflineDataService';
+
+const action = (id: string, overrides: Partial<OfflineAction>): OfflineAction => ({
+  id,
+  type: 'create',
+  entity: 'session',
+  entityId: id,
+  timestamp: '2025-03-01T10:00:00Z',
+  retryCount: 0,
+  ...overrides,
+});
+
+const ids = (actions: OfflineAction[]) => actions.map(a => a.id);
+
+describe('getBackoffDelay', () => {
+  it('doubles the window with each retry, up to the cap', () => {
+    expect(getBackoffDelay(1, () => 0)).toBe(1000);
+    expect(getBackoffDelay(1, () => 1)).toBe(2000);
+    expect(getBackoffDelay(3, () => 1)).toBe(8000);
+    expect(getBackoffDelay(20, () => 1)).toBe(5 * 60 * 1000);
+  });
+});
+
+describe('planSyncBatches', () => {
+  const now = new Date('2025-03-01T12:00:00Z').getTime();
+
+  it('puts a message after the conversation it belongs to', () => {
+    const { batches } = planSyncBatches([
+      action('conversation', { entity: 'conversation', entityId: 'conv-1' }),
+      action('message', { entity: 'message', entityId: 'm1', data: { conversationId: 'conv-1' } }),
+      action('unrelated', { entity: 'session', entityId: 's1' }),
+    ], now);
+
+    expect(batches.map(ids)).toEqual([['conversation', 'unrelated'], ['message']]);
+  });
+
+  it('captures a payment only after every session it pays for', () => {
+    const { batches } = planSyncBatches([
+      action('s1', { entityId: 's1', data: { id: 's1', coachId: 'c1' } }),
+      action('s2', { entityId: 's2', data: { id: 's2', coachId: 'c1' } }),
+      action('capture', { type: 'update', entity: 'payment', entityId: 'pi_1', data: { sessionIds: ['s1', 's2'] } }),
+    ], now);
+
+    expect(batches.map(ids)).toEqual([['s1'], ['s2'], ['capture']]);
+  });
+
+  it('defers actions still backing off along with everything queued behind them', () => {
+    const { batches, deferred } = planSyncBatches([
+      action('reserve', { entity: 'coach', entityId: 'c1', nextAttemptAt: '2025-03-01T12:05:00Z' }),
+      action('book', { entity: 'session', entityId: 's1', data: { coachId: 'c1' } }),
+      action('other-coach', { entity: 'coach', entityId: 'c2', nextAttemptAt: '2025-03-01T11:55:00Z' }),
+    ], now);
+
+    expect(ids(deferred)).toEqual(['reserve', 'book']);
+    expect(batches.map(ids)).toEqual([['other-coach']]);
+  });
+});
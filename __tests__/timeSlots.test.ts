@@ -0,0 +1,43 @@
+import {
+  createTimeSlot,
+  formatCoachLocalTime,
+  formatSlotTimeRange,
+  getSlotLocalDate,
+  normalizeTimeSlot,
+  zonedTimeToUtc,
+} from '../src/utils/timeSlots';
+
+describe('zonedTimeToUtc', () => {
+  it('converts a coach wall-clock time to a UTC instant', () => {
+    expect(zonedTimeToUtc('2025-01-15', '09:00', 'America/New_York').toISOString()).toBe('2025-01-15T14:00:00.000Z');
+    expect(zonedTimeToUtc('2025-01-15', '09:00', 'America/Los_Angeles').toISOString()).toBe('2025-01-15T17:00:00.000Z');
+  });
+
+  it('follows daylight saving time', () => {
+    expect(zonedTimeToUtc('2025-07-15', '09:00', 'America/New_York').toISOString()).toBe('2025-07-15T13:00:00.000Z');
+  });
+});
+
+describe('time slot rendering', () => {
+  const slot = createTimeSlot('1-1', '2025-01-15', '09:00', '10:00', 'America/New_York');
+
+  it('renders in the viewer zone', () => {
+    expect(formatSlotTimeRange(slot, 'America/Los_Angeles')).toBe('6:00 AM - 7:00 AM');
+  });
+
+  it('shows the coach time only when the zones differ', () => {
+    expect(formatCoachLocalTime(slot, 'America/Los_Angeles')).toBe('9:00 AM - 10:00 AM EST');
+    expect(formatCoachLocalTime(slot, 'America/New_York')).toBeNull();
+  });
+
+  it('groups slots by the viewer calendar day', () => {
+    const lateSlot = createTimeSlot('1-2', '2025-01-15', '23:30', '23:59', 'America/Los_Angeles');
+    expect(getSlotLocalDate(lateSlot, 'America/Los_Angeles')).toBe('2025-01-15');
+    expect(getSlotLocalDate(lateSlot, 'Europe/London')).toBe('2025-01-16');
+  });
+
+  it('fills in instants for slots stored without them', () => {
+    const legacy = { id: 'old', date: '2025-01-15', start: '09:00', end: '10:00', available: true };
+    expect(normalizeTimeSlot(legacy, 'America/Chicago').startsAt).toBe('2025-01-15T15:00:00.000Z');
+  });
+});
@@ -0,0 +1,59 @@
+import { findNextInLine, isHeldForSomeoneElse, isHoldExpired } from '../src/utils/waitlist';
+import { createTimeSlot } from '../src/utils/timeSlots';
+import { WaitlistEntry } from '../src/types';
+
+const slot = createTimeSlot('1-2025-03-10-0900', '2025-03-10', '09:00', '10:00', 'UTC');
+
+const entry = (overrides: Partial<WaitlistEntry>): WaitlistEntry => ({
+  id: 'entry-1',
+  coachId: '1',
+  coachName: 'Sarah Johnson',
+  userId: 'user-1',
+  status: 'waiting',
+  joinedAt: '2025-03-01T10:00:00Z',
+  ...overrides,
+});
+
+describe('findNextInLine', () => {
+  it('offers the slot to whoever joined first', () => {
+    const entries = [
+      entry({ id: 'second', joinedAt: '2025-03-02T10:00:00Z' }),
+      entry({ id: 'first', joinedAt: '2025-03-01T10:00:00Z' }),
+    ];
+
+    expect(findNextInLine(entries, '1', slot)?.id).toBe('first');
+  });
+
+  it('skips entries whose dates miss the slot or who let it lapse', () => {
+    const entries = [
+      entry({ id: 'other-day', fromDate: '2025-03-11', toDate: '2025-03-12' }),
+      entry({ id: 'lapsed', passedSlotIds: [slot.id] }),
+      entry({ id: 'holding', status: 'offered' }),
+      entry({ id: 'in-range', fromDate: '2025-03-10', toDate: '2025-03-10', joinedAt: '2025-03-05T10:00:00Z' }),
+    ];
+
+    expect(findNextInLine(entries, '1', slot)?.id).toBe('in-range');
+  });
+
+  it('returns null when nobody is waiting for the coach', () => {
+    expect(findNextInLine([entry({ coachId: '2' })], '1', slot)).toBeNull();
+  });
+});
+
+describe('holds', () => {
+  const held = { ...slot, available: false, heldFor: 'user-1', holdExpiresAt: '2025-03-01T10:30:00Z' };
+
+  it('keeps a live hold for its holder only', () => {
+    const now = new Date('2025-03-01T10:15:00Z');
+
+    expect(isHeldForSomeoneElse(held, 'user-1', now)).toBe(false);
+    expect(isHeldForSomeoneElse(held, 'user-2', now)).toBe(true);
+  });
+
+  it('lets a hold lapse at its expiry', () => {
+    const now = new Date('2025-03-01T10:30:00Z');
+
+    expect(isHoldExpired(held, now)).toBe(true);
+    expect(isHeldForSomeoneElse(held, 'user-2', now)).toBe(false);
+  });
+});
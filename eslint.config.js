@@ -26,6 +26,17 @@ export default [
       'no-unused-vars': 'off'
     }
   },
+  {
+    files: ['scripts/**/*.js'],
+    languageOptions: {
+      sourceType: 'commonjs',
+      globals: {
+        console: 'readonly',
+        process: 'readonly',
+        URL: 'readonly'
+      }
+    }
+  },
   {
     ignores: ['node_modules/', 'ios/', 'android/', 'build/', 'dist/']
   }
@@ -0,0 +1,107 @@
+/**
+ * Local relay server for the realtime messaging protocol.
+ *
+ * Each connection is identified by its `token` query parameter, the app's
+ * `mock_token_<userId>` session token. Pings are
+ * answered with pongs, messages are acknowledged to the sender, and message,
+ * typing, delivery-receipt and read-receipt frames are relayed to every other
+ * connection with the sender's id stamped on them. Presence frames go out as users connect and
+ * disconnect.
+ *
+ * Run with `npm run realtime:relay` and set `extra.realtime.adapter` to
+ * `websocket` in app.json to use it from the app. The integration tests start
+ * it on a random port through `startRelayServer`.
+ */
+const { WebSocketServer, WebSocket } = require('ws');
+
+const RELAYED_TYPES = ['message', 'typing', 'delivery_receipt', 'read_receipt'];
+const MOCK_TOKEN_PREFIX = 'mock_token_';
+
+// The app signs in with mock session tokens, which carry the user's id after a fixed prefix
+function getUserId(token) {
+  if (!token) return 'anonymous';
+  return token.startsWith(MOCK_TOKEN_PREFIX) ? token.slice(MOCK_TOKEN_PREFIX.length) : token;
+}
+
+function startRelayServer({ port = 0 } = {}) {
+  const server = new WebSocketServer({ port });
+  const users = new Map();
+
+  const sendTo = (socket, frame) => {
+    if (socket.readyState === WebSocket.OPEN) {
+      socket.send(JSON.stringify(frame));
+    }
+  };
+
+  const broadcast = (sender, frame) => {
+    server.clients.forEach(client => {
+      if (client !== sender) sendTo(client, frame);
+    });
+  };
+
+  server.on('connection', (socket, request) => {
+    const userId = getUserId(new URL(request.url, 'ws://localhost').searchParams.get('token'));
+    users.set(socket, userId);
+
+    // Tell the newcomer who is already here, then tell everyone else about them
+    new Set(users.values()).forEach(id => {
+      if (id !== userId) sendTo(socket, { type: 'presence', userId: id, isOnline: true });
+    });
+    broadcast(socket, { type: 'presence', userId, isOnline: true });
+
+    socket.on('message', data => {
+      let frame;
+      try {
+        frame = JSON.parse(data.toString());
+      } catch {
+        return;
+      }
+
+      if (frame.type === 'ping') {
+        sendTo(socket, { type: 'pong', sentAt: frame.sentAt });
+        return;
+      }
+      if (!RELAYED_TYPES.includes(frame.type)) {
+        return;
+      }
+
+      broadcast(socket, frame.type === 'message' ? frame : { ...frame, userId });
+      if (frame.type === 'message') {
+        sendTo(socket, { type: 'ack', conversationId: frame.conversationId, messageId: frame.message.id });
+      }
+    });
+
+    socket.on('close', () => {
+      users.delete(socket);
+      if (![...users.values()].includes(userId)) {
+        broadcast(socket, { type: 'presence', userId, isOnline: false });
+      }
+    });
+  });
+
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.once('listening', () => {
+      const address = server.address();
+      resolve({
+        url: `ws://localhost:${address.port}`,
+        port: address.port,
+        // Drop every connection without a close handshake, as a network failure would
+        dropConnections: () => server.clients.forEach(client => client.terminate()),
+        close: () =>
+          new Promise(done => {
+            server.clients.forEach(client => client.terminate());
+            server.close(() => done());
+          }),
+      });
+    });
+  });
+}
+
+module.exports = { startRelayServer };
+
+if (require.main === module) {
+  startRelayServer({ port: Number(process.env.PORT) || 4001 }).then(({ url }) => {
+    console.log(`[RealtimeRelay] Listening on ${url}`);
+  });
+}
@@ -1,30 +1,29 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { View, Text, StyleSheet, TouchableOpacity, ScrollView } from 'react-native';
-
-interface TimeSlot {
-  id: string;
-  start: string;
-  end: string;
-  available: boolean;
-}
+import { TimeSlot } from '../types';
+import { formatCoachLocalTime, formatSlotTimeRange } from '../utils/timeSlots';
+import { formatSeatsLeft, isGroupSlot } from '../utils/groupSessions';
 
 interface AvailabilityPickerProps {
+  // Slots to offer, usually one day of the coach's expanded availability
+  slots: TimeSlot[];
   onSelectionChange?: (selectedSlots: string[]) => void;
 }
 
 export const AvailabilityPicker: React.FC<AvailabilityPickerProps> = ({
+  slots,
   onSelectionChange,
 }) => {
   const [selectedSlots, setSelectedSlots] = useState<string[]>([]);
 
-  const timeSlots: TimeSlot[] = [
-    { id: '9-10', start: '09:00', end: '10:00', available: true },
-    { id: '10-11', start: '10:00', end: '11:00', available: true },
-    { id: '11-12', start: '11:00', end: '12:00', available: false },
-    { id: '14-15', start: '14:00', end: '15:00', available: true },
-    { id: '15-16', start: '15:00', end: '16:00', available: true },
-    { id: '16-17', start: '16:00', end: '17:00', available: true },
-  ];
+  // Drop selections that are no longer offered, e.g. after picking another day
+  useEffect(() => {
+    const stillOffered = selectedSlots.filter(id => slots.some(slot => slot.id === id));
+    if (stillOffered.length !== selectedSlots.length) {
+      setSelectedSlots(stillOffered);
+      onSelectionChange?.(stillOffered);
+    }
+  }, [slots, selectedSlots, onSelectionChange]);
 
   const toggleSlot = (slotId: string): void => {
     const updatedSelection = selectedSlots.includes(slotId)
@@ -38,6 +37,7 @@ export const AvailabilityPicker: React.FC<AvailabilityPickerProps> = ({
   const renderTimeSlot = (slot: TimeSlot): React.ReactElement => {
     const isSelected = selectedSlots.includes(slot.id);
     const isDisabled = !slot.available;
+    const coachTime = formatCoachLocalTime(slot);
 
     return (
       <TouchableOpacity
@@ -55,8 +55,18 @@ export const AvailabilityPicker: React.FC<AvailabilityPickerProps> = ({
           isSelected && styles.selectedText,
           isDisabled && styles.disabledText,
         ]}>
-          {slot.start} - {slot.end}
+          {formatSlotTimeRange(slot)}
         </Text>
+        {coachTime && (
+          <Text style={[styles.coachTimeText, isSelected && styles.selectedText]}>
+            Coach: {coachTime}
+          </Text>
+        )}
+        {isGroupSlot(slot) && (
+          <Text style={[styles.seatsText, isSelected && styles.selectedText]}>
+            👥 {slot.title ? `${slot.title} · ` : ''}{formatSeatsLeft(slot)}
+          </Text>
+        )}
       </TouchableOpacity>
     );
   };
@@ -65,7 +75,11 @@ export const AvailabilityPicker: React.FC<AvailabilityPickerProps> = ({
     <View style={styles.container}>
       <Text style={styles.title}>Select Available Time Slots</Text>
       <ScrollView contentContainerStyle={styles.slotsContainer}>
-        {timeSlots.map(renderTimeSlot)}
+        {slots.length === 0 ? (
+          <Text style={styles.emptyText}>No open times on this day. Try another date.</Text>
+        ) : (
+          slots.map(renderTimeSlot)
+        )}
       </ScrollView>
     </View>
   );
@@ -111,4 +125,23 @@ const styles = StyleSheet.create({
   disabledText: {
     color: '#999',
   },
+  emptyText: {
+    fontSize: 14,
+    textAlign: 'center',
+    color: '#666',
+    paddingVertical: 12,
+  },
+  coachTimeText: {
+    fontSize: 12,
+    textAlign: 'center',
+    color: '#666',
+    marginTop: 2,
+  },
+  seatsText: {
+    fontSize: 12,
+    textAlign: 'center',
+    color: '#0066CC',
+    fontWeight: '500',
+    marginTop: 4,
+  },
 });
\ No newline at end of file
@@ -7,7 +7,8 @@ import {
   TouchableOpacity,
 } from 'react-native';
 import { useTheme } from '../context/ThemeContext';
-import { useOfflineData } from '../hooks/useOfflineData';
+import { useOfflineData, useSyncStatus } from '../hooks/useOfflineData';
+import { describePendingChanges } from '../services/SyncStatusStore';
 import { ColorScheme } from '../theme/colors';
 
 export interface NetworkStatusProps {
@@ -22,14 +23,18 @@ export const NetworkStatus: React.FC<NetworkStatusProps> = ({
   onSyncPress,
 }) => {
   const { theme } = useTheme();
-  const { isOnline, isSyncing, networkType, forceSyncAll } = useOfflineData();
+  const { forceSyncAll } = useOfflineData();
+  const syncStatus = useSyncStatus();
+  const { isOnline, isSyncing, networkType, pendingCount } = syncStatus;
+  const pendingText = describePendingChanges(syncStatus);
   const [visible, setVisible] = useState(false);
   const [fadeAnim] = useState(new Animated.Value(0));
 
   const styles = createStyles(theme);
 
   useEffect(() => {
-    const shouldShow = !isOnline || (showWhenOnline && isOnline);
+    // Unsynced changes are worth showing even when the connection is fine
+    const shouldShow = !isOnline || showWhenOnline || pendingCount > 0;
     
     if (shouldShow !== visible) {
       setVisible(shouldShow);
@@ -40,7 +45,7 @@ export const NetworkStatus: React.FC<NetworkStatusProps> = ({
         useNativeDriver: true,
       }).start();
     }
-  }, [isOnline, showWhenOnline, visible, fadeAnim]);
+  }, [isOnline, showWhenOnline, pendingCount, visible, fadeAnim]);
 
   const handleSyncPress = async () => {
     if (onSyncPress) {
@@ -61,7 +66,9 @@ export const NetworkStatus: React.FC<NetworkStatusProps> = ({
   const getStatusInfo = () => {
     if (!isOnline) {
       return {
-        text: 'Offline - Changes will sync when connected',
+        text: pendingText
+          ? `Offline - ${pendingText}`
+          : 'Offline - Changes will sync when connected',
         backgroundColor: theme.warning,
         textColor: '#fff',
         icon: '📱',
@@ -71,7 +78,7 @@ export const NetworkStatus: React.FC<NetworkStatusProps> = ({
 
     if (isSyncing) {
       return {
-        text: 'Syncing changes...',
+        text: pendingText ?? 'Syncing changes...',
         backgroundColor: theme.info,
         textColor: '#fff',
         icon: '🔄',
@@ -79,6 +86,16 @@ export const NetworkStatus: React.FC<NetworkStatusProps> = ({
       };
     }
 
+    if (pendingText) {
+      return {
+        text: pendingText,
+        backgroundColor: theme.info,
+        textColor: '#fff',
+        icon: '⏳',
+        showSyncButton: true,
+      };
+    }
+
     return {
       text: `Connected via ${networkType}`,
       backgroundColor: theme.success,
@@ -0,0 +1,95 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Alert } from 'react-native';
+import { useTheme } from '../context/ThemeContext';
+import { useSyncConflicts } from '../hooks/useOfflineData';
+import { describeConflict, SyncConflict } from '../utils/syncConflicts';
+import { getErrorMessage } from '../utils/errorHandling';
+import { ColorScheme } from '../theme/colors';
+
+/**
+ * Offline changes that lost to a newer server update, waiting for the user to pick a side
+ */
+export const SyncConflictsBanner: React.FC = () => {
+  const { theme } = useTheme();
+  const { conflicts, keepLocal, keepServer } = useSyncConflicts();
+  const styles = createStyles(theme);
+
+  if (conflicts.length === 0) {
+    return null;
+  }
+
+  const conflict = conflicts[0];
+
+  const settle = async (resolve: (conflictId: string) => Promise<void>, target: SyncConflict) => {
+    try {
+      await resolve(target.id);
+    } catch (error) {
+      Alert.alert('Sync Error', getErrorMessage(error));
+    }
+  };
+
+  const handlePress = () => {
+    Alert.alert('Review change', describeConflict(conflict), [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Keep server version', onPress: () => settle(keepServer, conflict) },
+      { text: 'Keep my change', onPress: () => settle(keepLocal, conflict) },
+    ]);
+  };
+
+  return (
+    <TouchableOpacity
+      style={styles.container}
+      onPress={handlePress}
+      accessibilityRole="button"
+      accessibilityLabel="Review changes that need attention"
+    >
+      <Text style={styles.icon}>⚠️</Text>
+      <View style={styles.details}>
+        <Text style={styles.title}>
+          {conflicts.length === 1 ? '1 change needs review' : `${conflicts.length} changes need review`}
+        </Text>
+        <Text style={styles.description} numberOfLines={2}>
+          {describeConflict(conflict)}
+        </Text>
+      </View>
+      <Text style={styles.action}>Review</Text>
+    </TouchableOpacity>
+  );
+};
+
+const createStyles = (theme: ColorScheme) => StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginHorizontal: 20,
+    marginTop: 12,
+    padding: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: theme.warning,
+    backgroundColor: theme.card,
+  },
+  icon: {
+    fontSize: 18,
+    marginRight: 10,
+  },
+  details: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: theme.text,
+  },
+  description: {
+    fontSize: 12,
+    marginTop: 2,
+    color: theme.textSecondary,
+  },
+  action: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: theme.primary,
+    marginLeft: 8,
+  },
+});
@@ -0,0 +1,185 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { View, Text, StyleSheet, Image, TouchableOpacity, Linking } from 'react-native';
+import { Audio, AVPlaybackStatus } from 'expo-av';
+import { useTheme } from '../../context/ThemeContext';
+import { ColorScheme } from '../../theme/colors';
+import { ChatAttachment } from '../../types';
+import { formatDuration, formatFileSize } from '../../utils/attachments';
+
+interface MessageAttachmentProps {
+  attachment: ChatAttachment;
+  // Sender's own bubbles are dark, so their contents are drawn light
+  isFromUser: boolean;
+}
+
+const THUMBNAIL_WIDTH = 200;
+
+const openAttachment = (attachment: ChatAttachment): void => {
+  Linking.openURL(attachment.uri).catch(error => {
+    console.error('[MessageAttachment] Failed to open attachment:', error);
+  });
+};
+
+export const MessageAttachment: React.FC<MessageAttachmentProps> = ({ attachment, isFromUser }) => {
+  const { theme } = useTheme();
+  const styles = createStyles(theme, isFromUser);
+
+  switch (attachment.kind) {
+    case 'image': {
+      const aspectRatio = attachment.width && attachment.height ? attachment.width / attachment.height : 4 / 3;
+      return (
+        <TouchableOpacity
+          onPress={() => openAttachment(attachment)}
+          accessibilityRole="imagebutton"
+          accessibilityLabel="Open photo"
+        >
+          <Image
+            source={{ uri: attachment.uri }}
+            style={[styles.thumbnail, { aspectRatio }]}
+            resizeMode="cover"
+          />
+        </TouchableOpacity>
+      );
+    }
+    case 'audio':
+      return <VoiceNotePlayer attachment={attachment} styles={styles} />;
+    case 'document':
+      return (
+        <TouchableOpacity
+          style={styles.row}
+          onPress={() => openAttachment(attachment)}
+          accessibilityRole="button"
+          accessibilityLabel={`Open ${attachment.name ?? 'document'}`}
+        >
+          <Text style={styles.icon}>📄</Text>
+          <View style={styles.details}>
+            <Text style={styles.title} numberOfLines={1}>
+              {attachment.name ?? 'Document'}
+            </Text>
+            <Text style={styles.caption}>{formatFileSize(attachment.sizeBytes)}</Text>
+          </View>
+        </TouchableOpacity>
+      );
+  }
+};
+
+interface VoiceNotePlayerProps {
+  attachment: ChatAttachment;
+  styles: ReturnType<typeof createStyles>;
+}
+
+/**
+ * Play and pause a voice note. The sound is only loaded the first time it's played.
+ */
+const VoiceNotePlayer: React.FC<VoiceNotePlayerProps> = ({ attachment, styles }) => {
+  const soundRef = useRef<Audio.Sound | null>(null);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [positionMs, setPositionMs] = useState(0);
+  const durationMs = attachment.durationMs ?? 0;
+
+  useEffect(() => () => {
+    soundRef.current?.unloadAsync().catch(() => {});
+    soundRef.current = null;
+  }, []);
+
+  const handleStatus = (status: AVPlaybackStatus): void => {
+    if (!status.isLoaded) return;
+
+    setIsPlaying(status.isPlaying);
+    setPositionMs(status.positionMillis);
+    if (status.didJustFinish) {
+      soundRef.current?.setPositionAsync(0).catch(() => {});
+      setPositionMs(0);
+    }
+  };
+
+  const togglePlayback = async (): Promise<void> => {
+    try {
+      if (!soundRef.current) {
+        await Audio.setAudioModeAsync({ playsInSilentModeIOS: true });
+        const { sound } = await Audio.Sound.createAsync({ uri: attachment.uri }, { shouldPlay: true }, handleStatus);
+        soundRef.current = sound;
+      } else if (isPlaying) {
+        await soundRef.current.pauseAsync();
+      } else {
+        await soundRef.current.playAsync();
+      }
+    } catch (error) {
+      console.error('[MessageAttachment] Failed to play voice note:', error);
+    }
+  };
+
+  const progress = durationMs > 0 ? Math.min(positionMs / durationMs, 1) : 0;
+
+  return (
+    <View style={styles.row}>
+      <TouchableOpacity
+        style={styles.playButton}
+        onPress={togglePlayback}
+        accessibilityRole="button"
+        accessibilityLabel={isPlaying ? 'Pause voice note' : 'Play voice note'}
+      >
+        <Text style={styles.icon}>{isPlaying ? '⏸' : '▶️'}</Text>
+      </TouchableOpacity>
+      <View style={styles.details}>
+        <View style={styles.track}>
+          <View style={[styles.trackFill, { width: `${Math.round(progress * 100)}%` }]} />
+        </View>
+        <Text style={styles.caption}>
+          {formatDuration(isPlaying || positionMs > 0 ? positionMs : durationMs)}
+        </Text>
+      </View>
+    </View>
+  );
+};
+
+const createStyles = (theme: ColorScheme, isFromUser: boolean) => {
+  const foreground = isFromUser ? '#fff' : theme.text;
+  const muted = isFromUser ? 'rgba(255, 255, 255, 0.8)' : theme.textSecondary;
+
+  return StyleSheet.create({
+    thumbnail: {
+      width: THUMBNAIL_WIDTH,
+      borderRadius: 12,
+      backgroundColor: theme.border,
+      marginBottom: 4,
+    },
+    row: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      minWidth: 180,
+      marginBottom: 4,
+    },
+    icon: {
+      fontSize: 22,
+      marginRight: 8,
+      color: foreground,
+    },
+    details: {
+      flex: 1,
+    },
+    title: {
+      fontSize: 15,
+      fontWeight: '600',
+      color: foreground,
+    },
+    caption: {
+      fontSize: 12,
+      marginTop: 2,
+      color: muted,
+    },
+    playButton: {
+      padding: 2,
+    },
+    track: {
+      height: 4,
+      borderRadius: 2,
+      backgroundColor: isFromUser ? 'rgba(255, 255, 255, 0.35)' : theme.border,
+      overflow: 'hidden',
+    },
+    trackFill: {
+      height: '100%',
+      backgroundColor: foreground,
+    },
+  });
+};
@@ -1,5 +1,5 @@
 import React from 'react';
-import { View, Text, StyleSheet, Animated } from 'react-native';
+import { View, Text, StyleSheet, Animated, TouchableOpacity } from 'react-native';
 import { useTheme } from '../../context/ThemeContext';
 import { ColorScheme } from '../../theme/colors';
 import { MessageStatus } from '../../types';
@@ -7,17 +7,31 @@ import { MessageStatus } from '../../types';
 interface MessageStatusIndicatorProps {
   status: MessageStatus;
   size?: 'small' | 'medium';
+  // 0 to 1, shown while attachments upload
+  uploadProgress?: number;
+  // Offered on failed messages
+  onRetry?: () => void;
+  onDelete?: () => void;
 }
 
 export const MessageStatusIndicator: React.FC<MessageStatusIndicatorProps> = ({
   status,
   size = 'small',
+  uploadProgress = 0,
+  onRetry,
+  onDelete,
 }) => {
   const { theme } = useTheme();
   const styles = createStyles(theme, size);
 
   const getStatusConfig = () => {
     switch (status) {
+      case 'uploading':
+        return {
+          icon: '⇡',
+          color: theme.textSecondary,
+          text: `Uploading ${Math.round(uploadProgress * 100)}%`,
+        };
       case 'sending':
         return {
           icon: '⏳',
@@ -63,6 +77,63 @@ export const MessageStatusIndicator: React.FC<MessageStatusIndicatorProps> = ({
     return null;
   }
 
+  if (status === 'failed' && (onRetry || onDelete)) {
+    return (
+      <View style={styles.container}>
+        {onRetry && (
+          <TouchableOpacity
+            style={styles.action}
+            onPress={onRetry}
+            accessibilityRole="button"
+            accessibilityLabel="Retry sending message"
+          >
+            <Text style={[styles.icon, { color: statusConfig.color }]}>
+              {statusConfig.icon}
+            </Text>
+            <Text style={[styles.actionText, { color: statusConfig.color }]}>Tap to retry</Text>
+          </TouchableOpacity>
+        )}
+        {onDelete && (
+          <TouchableOpacity
+            style={styles.action}
+            onPress={onDelete}
+            accessibilityRole="button"
+            accessibilityLabel="Delete unsent message"
+          >
+            <Text style={[styles.actionText, { color: statusConfig.color }]}>Delete</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    );
+  }
+
+  if (status === 'uploading') {
+    return (
+      <View
+        style={styles.container}
+        accessibilityRole="progressbar"
+        accessibilityValue={{ min: 0, max: 100, now: Math.round(uploadProgress * 100) }}
+      >
+        <Text style={[styles.icon, { color: statusConfig.color }]}>
+          {statusConfig.icon}
+        </Text>
+        <View style={[styles.progressTrack, { borderColor: statusConfig.color }]}>
+          <View
+            style={[
+              styles.progressFill,
+              { backgroundColor: statusConfig.color, width: `${Math.round(uploadProgress * 100)}%` },
+            ]}
+          />
+        </View>
+        {size === 'medium' && (
+          <Text style={[styles.text, { color: statusConfig.color }]}>
+            {statusConfig.text}
+          </Text>
+        )}
+      </View>
+    );
+  }
+
   return (
     <View style={styles.container}>
       <Text style={[styles.icon, { color: statusConfig.color }]}>
@@ -107,5 +178,27 @@ const createStyles = (theme: ColorScheme, size: 'small' | 'medium') => {
       fontSize: config.textSize,
       fontWeight: '500',
     },
+    action: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      marginLeft: config.spacing,
+    },
+    actionText: {
+      fontSize: config.textSize,
+      fontWeight: '600',
+      marginLeft: 2,
+    },
+    progressTrack: {
+      width: 32,
+      height: 4,
+      borderRadius: 2,
+      borderWidth: StyleSheet.hairlineWidth,
+      overflow: 'hidden',
+      marginLeft: config.spacing,
+      marginRight: size === 'medium' ? 4 : 0,
+    },
+    progressFill: {
+      height: '100%',
+    },
   });
 };
\ No newline at end of file
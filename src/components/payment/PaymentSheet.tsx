@@ -19,6 +19,8 @@ interface PaymentSheetProps {
   onClose: () => void;
   onSuccess: (paymentIntentId: string) => void;
   sessionPayment: SessionPayment;
+  // Only authorize the payment; whoever handles onSuccess captures or cancels it
+  captureLater?: boolean;
 }
 
 const PaymentSheet: React.FC<PaymentSheetProps> = ({
@@ -26,6 +28,7 @@ const PaymentSheet: React.FC<PaymentSheetProps> = ({
   onClose,
   onSuccess,
   sessionPayment,
+  captureLater = false,
 }) => {
   const { theme } = useTheme();
   const [paymentMethods, setPaymentMethods] = useState<PaymentMethod[]>([]);
@@ -78,7 +81,8 @@ const PaymentSheet: React.FC<PaymentSheetProps> = ({
       setProcessing(true);
       const result = await paymentService.confirmPayment(
         paymentIntent.id,
-        selectedMethod.id
+        selectedMethod.id,
+        { captureLater }
       );
 
       if (result.success && result.paymentIntentId) {
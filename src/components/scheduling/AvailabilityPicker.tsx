@@ -8,14 +8,18 @@ import {
 } from 'react-native';
 import { useTheme } from '../../context/ThemeContext';
 import { ColorScheme } from '../../theme/colors';
+import { TimeSlot } from '../../types';
+import {
+  formatCoachLocalTime,
+  formatSlotTimeRange,
+  getDateInTimeZone,
+  getDeviceTimeZone,
+  getSlotLocalDate,
+  getSlotStartDate,
+} from '../../utils/timeSlots';
+import { formatSeatsLeft, isGroupSlot } from '../../utils/groupSessions';
 
-export interface TimeSlot {
-  id: string;
-  start: string;
-  end: string;
-  available: boolean;
-  date: string;
-}
+export type { TimeSlot };
 
 interface AvailabilityPickerProps {
   availableSlots: TimeSlot[];
@@ -23,6 +27,8 @@ interface AvailabilityPickerProps {
   onSlotSelect: (slot: TimeSlot) => void;
   minDate?: Date;
   maxDate?: Date;
+  // Zone the slots are rendered in; defaults to the device's
+  viewerTimeZone?: string;
 }
 
 export const AvailabilityPicker: React.FC<AvailabilityPickerProps> = ({
@@ -31,42 +37,47 @@ export const AvailabilityPicker: React.FC<AvailabilityPickerProps> = ({
   onSlotSelect,
   minDate = new Date(),
   maxDate = new Date(Date.now() + 30 * 24 * 60 * 60 * 1000), // 30 days
+  viewerTimeZone = getDeviceTimeZone(),
 }) => {
   const { theme } = useTheme();
   const styles = createStyles(theme);
   const [selectedDate, setSelectedDate] = useState<string>(
-    selectedSlot?.date || getNextAvailableDate()
+    selectedSlot ? getSlotLocalDate(selectedSlot, viewerTimeZone) : getNextAvailableDate()
   );
 
   function getNextAvailableDate(): string {
-    const today = new Date();
+    const today = getDateInTimeZone(new Date(), viewerTimeZone);
     const dates = getUniqueDates();
-    return dates.find(date => new Date(date) >= today) || dates[0] || today.toISOString().split('T')[0];
+    return dates.find(date => date >= today) || dates[0] || today;
   }
 
+  // Slots are grouped by the viewer's calendar day, which may differ from the coach's
   function getUniqueDates(): string[] {
-    const dates = [...new Set(availableSlots.map(slot => slot.date))];
-    return dates.sort((a, b) => new Date(a).getTime() - new Date(b).getTime());
+    const dates = [...new Set(availableSlots.map(slot => getSlotLocalDate(slot, viewerTimeZone)))];
+    return dates.sort();
   }
 
   function getAvailableSlotsForDate(date: string): TimeSlot[] {
     return availableSlots
-      .filter(slot => slot.date === date && slot.available)
-      .sort((a, b) => a.start.localeCompare(b.start));
+      .filter(slot => slot.available && getSlotLocalDate(slot, viewerTimeZone) === date)
+      .sort((a, b) => getSlotStartDate(a).getTime() - getSlotStartDate(b).getTime());
+  }
+
+  // Calendar dates are plain "YYYY-MM-DD" strings, so read them at local midnight
+  function toCalendarDate(dateString: string): Date {
+    return new Date(`${dateString}T00:00:00`);
   }
 
   function formatDate(dateString: string): string {
-    const date = new Date(dateString);
-    const today = new Date();
-    const tomorrow = new Date(today);
-    tomorrow.setDate(tomorrow.getDate() + 1);
+    const today = getDateInTimeZone(new Date(), viewerTimeZone);
+    const tomorrow = getDateInTimeZone(new Date(Date.now() + 24 * 60 * 60 * 1000), viewerTimeZone);
 
-    if (date.toDateString() === today.toDateString()) {
+    if (dateString === today) {
       return 'Today';
-    } else if (date.toDateString() === tomorrow.toDateString()) {
+    } else if (dateString === tomorrow) {
       return 'Tomorrow';
     } else {
-      return date.toLocaleDateString('en-US', { 
+      return toCalendarDate(dateString).toLocaleDateString('en-US', { 
         weekday: 'short',
         month: 'short', 
         day: 'numeric' 
@@ -74,16 +85,8 @@ export const AvailabilityPicker: React.FC<AvailabilityPickerProps> = ({
     }
   }
 
-  function formatTime(timeString: string): string {
-    const [hours, minutes] = timeString.split(':');
-    const hour = parseInt(hours, 10);
-    const ampm = hour >= 12 ? 'PM' : 'AM';
-    const displayHour = hour === 0 ? 12 : hour > 12 ? hour - 12 : hour;
-    return `${displayHour}:${minutes} ${ampm}`;
-  }
-
   function getTimeRange(slot: TimeSlot): string {
-    return `${formatTime(slot.start)} - ${formatTime(slot.end)}`;
+    return formatSlotTimeRange(slot, viewerTimeZone);
   }
 
   const uniqueDates = getUniqueDates();
@@ -114,7 +117,7 @@ export const AvailabilityPicker: React.FC<AvailabilityPickerProps> = ({
                 styles.dayText,
                 selectedDate === date && styles.selectedDayText,
               ]}>
-                {new Date(date).getDate()}
+                {toCalendarDate(date).getDate()}
               </Text>
             </TouchableOpacity>
           ))}
@@ -152,6 +155,22 @@ export const AvailabilityPicker: React.FC<AvailabilityPickerProps> = ({
                 ]}>
                   {getTimeRange(slot)}
                 </Text>
+                {formatCoachLocalTime(slot, viewerTimeZone) && (
+                  <Text style={[
+                    styles.coachTimeText,
+                    selectedSlot?.id === slot.id && styles.selectedTimeSlotText,
+                  ]}>
+                    Coach: {formatCoachLocalTime(slot, viewerTimeZone)}
+                  </Text>
+                )}
+                {isGroupSlot(slot) && (
+                  <Text style={[
+                    styles.seatsText,
+                    selectedSlot?.id === slot.id && styles.selectedTimeSlotText,
+                  ]}>
+                    {slot.title ? `${slot.title} · ` : ''}{formatSeatsLeft(slot)}
+                  </Text>
+                )}
               </TouchableOpacity>
             ))}
           </View>
@@ -164,12 +183,17 @@ export const AvailabilityPicker: React.FC<AvailabilityPickerProps> = ({
           <Text style={styles.summaryTitle}>Selected Session</Text>
           <View style={styles.summaryContent}>
             <Text style={styles.summaryDate}>
-              {formatDate(selectedSlot.date)}
+              {formatDate(getSlotLocalDate(selectedSlot, viewerTimeZone))}
             </Text>
             <Text style={styles.summaryTime}>
               {getTimeRange(selectedSlot)}
             </Text>
           </View>
+          {formatCoachLocalTime(selectedSlot, viewerTimeZone) && (
+            <Text style={styles.summaryCoachTime}>
+              Coach's local time: {formatCoachLocalTime(selectedSlot, viewerTimeZone)}
+            </Text>
+          )}
         </View>
       )}
     </View>
@@ -271,6 +295,17 @@ const createStyles = (theme: ColorScheme) => StyleSheet.create({
   selectedTimeSlotText: {
     color: 'white',
   },
+  coachTimeText: {
+    fontSize: 11,
+    color: theme.textMuted,
+    marginTop: 4,
+  },
+  seatsText: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: theme.primary,
+    marginTop: 4,
+  },
   summaryContainer: {
     backgroundColor: theme.surface,
     borderRadius: 12,
@@ -300,4 +335,9 @@ const createStyles = (theme: ColorScheme) => StyleSheet.create({
     fontWeight: '500',
     color: theme.primary,
   },
+  summaryCoachTime: {
+    fontSize: 13,
+    color: theme.textSecondary,
+    marginTop: 8,
+  },
 });
\ No newline at end of file
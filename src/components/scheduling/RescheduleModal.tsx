@@ -0,0 +1,169 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Modal,
+  SafeAreaView,
+  ScrollView,
+  Alert,
+} from 'react-native';
+import { useTheme } from '../../context/ThemeContext';
+import { ColorScheme } from '../../theme/colors';
+import { AvailabilityPicker } from './AvailabilityPicker';
+import { BookedSession, TimeSlot } from '../../types';
+import { getErrorMessage } from '../../utils/errorHandling';
+import { formatInTimeZone, formatSlotTimeRange, getSlotStartDate } from '../../utils/timeSlots';
+
+interface RescheduleModalProps {
+  visible: boolean;
+  session: BookedSession | null;
+  availableSlots: TimeSlot[];
+  remainingReschedules: number;
+  onClose: () => void;
+  onConfirm: (slot: TimeSlot) => Promise<void>;
+}
+
+export const RescheduleModal: React.FC<RescheduleModalProps> = ({
+  visible,
+  session,
+  availableSlots,
+  remainingReschedules,
+  onClose,
+  onConfirm,
+}) => {
+  const { theme } = useTheme();
+  const styles = createStyles(theme);
+  const [selectedSlot, setSelectedSlot] = useState<TimeSlot | undefined>();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // The session's own slot is reserved, so only other open slots are offered
+  const slots = availableSlots.filter(slot => slot.id !== session?.timeSlot.id);
+
+  const handleClose = (): void => {
+    setSelectedSlot(undefined);
+    onClose();
+  };
+
+  const handleConfirm = async (): Promise<void> => {
+    if (!selectedSlot) return;
+
+    setIsSubmitting(true);
+    try {
+      await onConfirm(selectedSlot);
+      setSelectedSlot(undefined);
+    } catch (error) {
+      Alert.alert('Error', getErrorMessage(error) || 'Failed to reschedule session. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" presentationStyle="pageSheet">
+      <SafeAreaView style={styles.container}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={handleClose} disabled={isSubmitting}>
+            <Text style={styles.cancelButton}>Cancel</Text>
+          </TouchableOpacity>
+          <Text style={styles.title}>Reschedule</Text>
+          <TouchableOpacity onPress={handleConfirm} disabled={isSubmitting || !selectedSlot}>
+            <Text style={[
+              styles.confirmButton,
+              (isSubmitting || !selectedSlot) && styles.confirmButtonDisabled,
+            ]}>
+              {isSubmitting ? 'Saving...' : 'Confirm'}
+            </Text>
+          </TouchableOpacity>
+        </View>
+
+        {session && (
+          <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+            <View style={styles.currentSection}>
+              <Text style={styles.currentLabel}>Currently booked with {session.coachName}</Text>
+              <Text style={styles.currentSlot}>
+                {formatInTimeZone(getSlotStartDate(session.timeSlot), {
+                  weekday: 'short',
+                  month: 'short',
+                  day: 'numeric',
+                })} · {formatSlotTimeRange(session.timeSlot)}
+              </Text>
+              {Number.isFinite(remainingReschedules) && (
+                <Text style={styles.limitText}>
+                  {remainingReschedules === 1
+                    ? 'This is the last time this session can be rescheduled.'
+                    : `This session can be rescheduled ${remainingReschedules} more times.`}
+                </Text>
+              )}
+            </View>
+
+            <AvailabilityPicker
+              availableSlots={slots}
+              selectedSlot={selectedSlot}
+              onSlotSelect={setSelectedSlot}
+            />
+          </ScrollView>
+        )}
+      </SafeAreaView>
+    </Modal>
+  );
+};
+
+const createStyles = (theme: ColorScheme) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.background,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.border,
+  },
+  cancelButton: {
+    color: theme.textSecondary,
+    fontSize: 16,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: theme.text,
+  },
+  confirmButton: {
+    color: theme.primary,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  confirmButtonDisabled: {
+    color: theme.textMuted,
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+  },
+  currentSection: {
+    backgroundColor: theme.surface,
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 24,
+  },
+  currentLabel: {
+    fontSize: 14,
+    color: theme.textSecondary,
+    marginBottom: 4,
+  },
+  currentSlot: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: theme.text,
+  },
+  limitText: {
+    fontSize: 13,
+    color: theme.textMuted,
+    marginTop: 8,
+  },
+});
@@ -1,12 +1,18 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
-import { storage } from '../utils/storage';
+import { secureStorage } from '../utils/secureStorage';
+import { AUTH_TOKEN_STORAGE_KEY, USER_STORAGE_KEY } from '../utils/storageKeys';
+import { accountService } from '../services/AccountService';
 import { User, UserType } from '../types';
 
+secureStorage.markSensitive(USER_STORAGE_KEY);
+
 interface AuthContextType {
   user: User | null;
   login: (email: string, password: string) => Promise<void>;
   register: (name: string, email: string, password: string, userType: UserType) => Promise<void>;
   logout: () => void;
+  // Replace the signed-in user's details, e.g. after a profile edit
+  updateUser: (user: User) => Promise<void>;
   isLoading: boolean;
 }
 
@@ -35,9 +41,11 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
 
   const loadUserFromStorage = async (): Promise<void> => {
     try {
-      const storedUser = await storage.getItem('user');
+      const storedUser = await secureStorage.getItem(USER_STORAGE_KEY);
       if (storedUser) {
-        setUser(JSON.parse(storedUser));
+        const parsed: User = JSON.parse(storedUser);
+        setUser(parsed);
+        linkStoredCoach(parsed);
       }
     } catch (error) {
       console.error('Failed to load user from storage:', error);
@@ -46,9 +54,22 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     }
   };
 
+  // Coach accounts made before listings were linked get one the next time they open the app
+  const linkStoredCoach = (stored: User): void => {
+    accountService.linkCoachListing(stored)
+      .then(async linked => {
+        if (linked === stored) return;
+        setUser(linked);
+        await saveUserToStorage(linked);
+      })
+      .catch(error => console.error('Failed to link coach listing:', error));
+  };
+
   const saveUserToStorage = async (user: User): Promise<void> => {
     try {
-      await storage.setItem('user', JSON.stringify(user));
+      await secureStorage.setItem(USER_STORAGE_KEY, JSON.stringify(user));
+      // Mock session token, sent as the Authorization header by the API client
+      await secureStorage.setItem(AUTH_TOKEN_STORAGE_KEY, `mock_token_${user.id}`);
     } catch (error) {
       console.error('Failed to save user to storage:', error);
     }
@@ -56,7 +77,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
 
   const clearUserFromStorage = async (): Promise<void> => {
     try {
-      await storage.removeItem('user');
+      await secureStorage.multiRemove([USER_STORAGE_KEY, AUTH_TOKEN_STORAGE_KEY]);
     } catch (error) {
       console.error('Failed to clear user from storage:', error);
     }
@@ -94,34 +115,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   const register = async (name: string, email: string, password: string, userType: UserType): Promise<void> => {
     setIsLoading(true);
     try {
-      // Simulate API call
-      await new Promise(resolve => setTimeout(resolve, 1000));
-      
-      // Mock successful registration
-      const userData: User = {
-        id: Date.now().toString(),
-        email,
-        name,
-        userType,
-        preferences: {
-          specialty: [],
-          priceRange: [0, 500],
-          location: '',
-        },
-        bookedSessions: [],
-        // Add coach profile if user is registering as a coach
-        ...(userType === 'coach' && {
-          coachProfile: {
-            specialties: [],
-            hourlyRate: 0,
-            bio: '',
-            rating: 0,
-            totalSessions: 0,
-            verified: false,
-            verificationStatus: 'pending' as const,
-          }
-        })
-      };
+      const userData = await accountService.register(name, email, userType);
       
       setUser(userData);
       await saveUserToStorage(userData);
@@ -137,8 +131,13 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     await clearUserFromStorage();
   };
 
+  const updateUser = async (updated: User): Promise<void> => {
+    setUser(updated);
+    await saveUserToStorage(updated);
+  };
+
   return (
-    <AuthContext.Provider value={{ user, login, register, logout, isLoading }}>
+    <AuthContext.Provider value={{ user, login, register, logout, updateUser, isLoading }}>
       {children}
     </AuthContext.Provider>
   );
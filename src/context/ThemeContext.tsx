@@ -1,6 +1,7 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
 import { useColorScheme } from 'react-native';
 import { storage } from '../utils/storage';
+import { AUTO_THEME_STORAGE_KEY, THEME_STORAGE_KEY } from '../utils/storageKeys';
 import { ColorScheme, ThemeName, themes } from '../theme/colors';
 
 interface ThemeContextType {
@@ -31,9 +32,6 @@ interface ThemeProviderProps {
   children: ReactNode;
 }
 
-const THEME_STORAGE_KEY = 'lazycoach_theme';
-const AUTO_THEME_STORAGE_KEY = 'lazycoach_auto_theme';
-
 export const ThemeProvider: React.FC<ThemeProviderProps> = ({ children }) => {
   const systemColorScheme = useColorScheme();
   const [themeName, setThemeName] = useState<ThemeName>('light');
@@ -0,0 +1,173 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import * as ImagePicker from 'expo-image-picker';
+import * as DocumentPicker from 'expo-document-picker';
+import * as FileSystem from 'expo-file-system';
+import { Audio } from 'expo-av';
+import { ChatAttachment } from '../types';
+import { ATTACHMENT_REQUIREMENTS, createAttachment, guessMimeType, validateAttachment } from '../utils/attachments';
+import { createValidationError } from '../utils/errorHandling';
+
+export interface UseChatAttachmentsResult {
+  // Each resolves to null if the user cancels, and throws a validation error if the file is over its limits
+  pickImage: () => Promise<ChatAttachment | null>;
+  takePhoto: () => Promise<ChatAttachment | null>;
+  pickDocument: () => Promise<ChatAttachment | null>;
+  isRecording: boolean;
+  recordingDurationMs: number;
+  startRecording: () => Promise<void>;
+  stopRecording: () => Promise<ChatAttachment | null>;
+  cancelRecording: () => Promise<void>;
+}
+
+/**
+ * Pickers don't always report a file's size, so fall back to asking the file system
+ */
+async function getFileSize(uri: string, reported?: number | null): Promise<number> {
+  if (reported) {
+    return reported;
+  }
+  const info = await FileSystem.getInfoAsync(uri);
+  return info.exists ? info.size : 0;
+}
+
+async function toImageAttachment(asset: ImagePicker.ImagePickerAsset): Promise<ChatAttachment> {
+  const attachment = createAttachment('image', {
+    uri: asset.uri,
+    name: asset.fileName ?? undefined,
+    mimeType: asset.mimeType ?? guessMimeType(asset.fileName ?? asset.uri),
+    sizeBytes: await getFileSize(asset.uri, asset.fileSize),
+    width: asset.width,
+    height: asset.height,
+  });
+  validateAttachment(attachment);
+  return attachment;
+}
+
+/**
+ * Photos, documents and voice notes for a chat message, checked against the
+ * attachment limits before they're handed back
+ */
+export function useChatAttachments(): UseChatAttachmentsResult {
+  const [isRecording, setIsRecording] = useState(false);
+  const [recordingDurationMs, setRecordingDurationMs] = useState(0);
+  const recordingRef = useRef<Audio.Recording | null>(null);
+
+  // Don't leave the microphone on if the chat closes mid-recording
+  useEffect(() => () => {
+    recordingRef.current?.stopAndUnloadAsync().catch(() => {});
+    recordingRef.current = null;
+  }, []);
+
+  const pickImage = useCallback(async () => {
+    const result = await ImagePicker.launchImageLibraryAsync({
+      mediaTypes: ['images'],
+      quality: 0.8,
+    });
+    return result.canceled ? null : toImageAttachment(result.assets[0]);
+  }, []);
+
+  const takePhoto = useCallback(async () => {
+    const { status } = await ImagePicker.requestCameraPermissionsAsync();
+    if (status !== 'granted') {
+      throw createValidationError('Camera permission is required to take photos.');
+    }
+
+    const result = await ImagePicker.launchCameraAsync({ quality: 0.8 });
+    return result.canceled ? null : toImageAttachment(result.assets[0]);
+  }, []);
+
+  const pickDocument = useCallback(async () => {
+    const result = await DocumentPicker.getDocumentAsync({
+      type: ATTACHMENT_REQUIREMENTS.document.acceptedMimeTypes,
+      copyToCacheDirectory: true,
+    });
+    if (result.canceled || !result.assets[0]) {
+      return null;
+    }
+
+    const asset = result.assets[0];
+    const attachment = createAttachment('document', {
+      uri: asset.uri,
+      name: asset.name,
+      mimeType: asset.mimeType ?? guessMimeType(asset.name),
+      sizeBytes: await getFileSize(asset.uri, asset.size),
+    });
+    validateAttachment(attachment);
+    return attachment;
+  }, []);
+
+  const startRecording = useCallback(async () => {
+    if (recordingRef.current) return;
+
+    const { status } = await Audio.requestPermissionsAsync();
+    if (status !== 'granted') {
+      throw createValidationError('Microphone permission is required to record voice notes.');
+    }
+
+    await Audio.setAudioModeAsync({ allowsRecordingIOS: true, playsInSilentModeIOS: true });
+    const { recording } = await Audio.Recording.createAsync(
+      Audio.RecordingOptionsPresets.HIGH_QUALITY,
+      recordingStatus => {
+        setRecordingDurationMs(recordingStatus.durationMillis);
+        // Stop at the limit rather than record something that can't be sent
+        const maxDurationMs = ATTACHMENT_REQUIREMENTS.audio.maxDurationMs;
+        if (maxDurationMs && recordingStatus.durationMillis >= maxDurationMs) {
+          recordingRef.current?.pauseAsync().catch(() => {});
+        }
+      },
+      250
+    );
+    recordingRef.current = recording;
+    setRecordingDurationMs(0);
+    setIsRecording(true);
+  }, []);
+
+  /**
+   * Finish the recording in progress and release the microphone
+   */
+  const finishRecording = useCallback(async (): Promise<{ uri: string | null; durationMs: number } | null> => {
+    const recording = recordingRef.current;
+    if (!recording) return null;
+
+    recordingRef.current = null;
+    setIsRecording(false);
+    const { durationMillis } = await recording.getStatusAsync();
+    await recording.stopAndUnloadAsync();
+    await Audio.setAudioModeAsync({ allowsRecordingIOS: false });
+    return { uri: recording.getURI(), durationMs: durationMillis };
+  }, []);
+
+  const stopRecording = useCallback(async () => {
+    const finished = await finishRecording();
+    if (!finished?.uri) {
+      return null;
+    }
+
+    const attachment = createAttachment('audio', {
+      uri: finished.uri,
+      mimeType: guessMimeType(finished.uri),
+      sizeBytes: await getFileSize(finished.uri),
+      durationMs: finished.durationMs,
+    });
+    validateAttachment(attachment);
+    return attachment;
+  }, [finishRecording]);
+
+  const cancelRecording = useCallback(async () => {
+    const finished = await finishRecording();
+    if (finished?.uri) {
+      await FileSystem.deleteAsync(finished.uri, { idempotent: true });
+    }
+  }, [finishRecording]);
+
+  return {
+    pickImage,
+    takePhoto,
+    pickDocument,
+    isRecording,
+    recordingDurationMs,
+    startRecording,
+    stopRecording,
+    cancelRecording,
+  };
+}
@@ -0,0 +1,139 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { ChatMessage } from '../types';
+import DataService from '../services/DataService';
+import { offlineDataService } from '../services/OfflineDataService';
+import { CHAT_HISTORY_PAGE_SIZE, mergeMessages } from '../utils/chatHistory';
+
+export interface UseChatHistoryResult {
+  // Oldest first, ready to render
+  messages: ChatMessage[];
+  loading: boolean;
+  loadingOlder: boolean;
+  hasOlder: boolean;
+  loadOlder: () => Promise<void>;
+  saveMessages: (messages: ChatMessage[]) => Promise<void>;
+  updateMessages: (messageIds: string[], changes: Partial<ChatMessage>) => Promise<void>;
+  removeMessages: (messageIds: string[]) => Promise<void>;
+  // Show changes that something else has already stored
+  applyMessages: (messages: ChatMessage[]) => void;
+}
+
+/**
+ * A conversation's stored message history, read a page at a time from the
+ * newest end and topped up with anything the server has that the device doesn't
+ */
+export function useChatHistory(conversationId: string): UseChatHistoryResult {
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [loadingOlder, setLoadingOlder] = useState(false);
+  const [nextOffset, setNextOffset] = useState<number | null>(null);
+  // Latest history, for merging without waiting on a render
+  const messagesRef = useRef<ChatMessage[]>([]);
+  const loadingOlderRef = useRef(false);
+
+  const merge = useCallback((incoming: ChatMessage[]) => {
+    messagesRef.current = mergeMessages(messagesRef.current, incoming);
+    setMessages(messagesRef.current);
+  }, []);
+
+  useEffect(() => {
+    if (!conversationId) return;
+
+    let cancelled = false;
+    messagesRef.current = [];
+    setMessages([]);
+    setLoading(true);
+
+    const load = async () => {
+      try {
+        const page = await offlineDataService.getConversationMessagesPage(conversationId, {
+          limit: CHAT_HISTORY_PAGE_SIZE,
+        });
+        if (cancelled) return;
+        merge(page.items);
+        setNextOffset(page.nextOffset);
+        // Stored history is shown while the server is checked for anything newer
+        setLoading(false);
+
+        const added = await offlineDataService.addMissingConversationMessages(
+          conversationId,
+          await DataService.getMessages(conversationId)
+        );
+        if (cancelled || added.length === 0) return;
+
+        const latest = await offlineDataService.getConversationMessagesPage(conversationId, {
+          limit: CHAT_HISTORY_PAGE_SIZE,
+        });
+        if (cancelled) return;
+        merge(latest.items);
+        setNextOffset(latest.nextOffset);
+      } catch (error) {
+        console.error('Failed to load messages:', error);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [conversationId, merge]);
+
+  const loadOlder = useCallback(async () => {
+    if (nextOffset === null || loadingOlderRef.current) return;
+
+    loadingOlderRef.current = true;
+    setLoadingOlder(true);
+    try {
+      const page = await offlineDataService.getConversationMessagesPage(conversationId, {
+        offset: nextOffset,
+        limit: CHAT_HISTORY_PAGE_SIZE,
+      });
+      merge(page.items);
+      setNextOffset(page.nextOffset);
+    } finally {
+      loadingOlderRef.current = false;
+      setLoadingOlder(false);
+    }
+  }, [conversationId, nextOffset, merge]);
+
+  const saveMessages = useCallback(async (incoming: ChatMessage[]) => {
+    merge(incoming);
+    const ids = new Set(incoming.map(message => message.id));
+    // Store the merged copies so a partial update doesn't drop fields
+    await offlineDataService.saveConversationMessages(
+      conversationId,
+      messagesRef.current.filter(message => ids.has(message.id))
+    );
+  }, [conversationId, merge]);
+
+  const updateMessages = useCallback(async (messageIds: string[], changes: Partial<ChatMessage>) => {
+    const ids = new Set(messageIds);
+    const updated = messagesRef.current
+      .filter(message => ids.has(message.id))
+      .map(message => ({ ...message, ...changes }));
+    if (updated.length > 0) {
+      await saveMessages(updated);
+    }
+  }, [saveMessages]);
+
+  const removeMessages = useCallback(async (messageIds: string[]) => {
+    const ids = new Set(messageIds);
+    messagesRef.current = messagesRef.current.filter(message => !ids.has(message.id));
+    setMessages(messagesRef.current);
+    await offlineDataService.removeConversationMessages(conversationId, messageIds);
+  }, [conversationId]);
+
+  return {
+    messages,
+    loading,
+    loadingOlder,
+    hasOlder: nextOffset !== null,
+    loadOlder,
+    saveMessages,
+    updateMessages,
+    removeMessages,
+    applyMessages: merge,
+  };
+}
@@ -1,5 +1,5 @@
 import { useState, useEffect, useCallback } from 'react';
-import DataService, { DataServiceOptions } from '../services/DataService';
+import DataService, { DataServiceOptions, dataCacheKeys } from '../services/DataService';
 import { Coach, BookedSession, Conversation, ChatMessage } from '../types';
 
 interface UseDataServiceResult<T> {
@@ -21,15 +21,14 @@ export function useCoaches(options: DataServiceOptions = {}): UseDataServiceResu
     setError(null);
     
     try {
-      const startTime = Date.now();
+      let fromCache = false;
       const coaches = await DataService.getCoaches({ 
         ...options, 
-        forceRefresh 
+        forceRefresh,
+        onCacheResult: hit => { fromCache = hit; },
       });
-      const loadTime = Date.now() - startTime;
       
-      // If load time is very fast, it's likely from cache
-      setIsCached(loadTime < 100);
+      setIsCached(fromCache);
       setData(coaches);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load coaches');
@@ -44,6 +43,12 @@ export function useCoaches(options: DataServiceOptions = {}): UseDataServiceResu
     fetchData();
   }, [fetchData]);
 
+  // Revalidated data arrives after the cached copy has already been shown
+  useEffect(() => DataService.subscribe<Coach[]>(dataCacheKeys.coaches(), coaches => {
+    setData(coaches);
+    setIsCached(false);
+  }), []);
+
   return { data, loading, error, refresh, isCached };
 }
 
@@ -60,14 +65,14 @@ export function useCoach(id: string, options: DataServiceOptions = {}): UseDataS
     setError(null);
     
     try {
-      const startTime = Date.now();
+      let fromCache = false;
       const coach = await DataService.getCoach(id, { 
         ...options, 
-        forceRefresh 
+        forceRefresh,
+        onCacheResult: hit => { fromCache = hit; },
       });
-      const loadTime = Date.now() - startTime;
       
-      setIsCached(loadTime < 100);
+      setIsCached(fromCache);
       setData(coach);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load coach');
@@ -98,14 +103,14 @@ export function useSessions(userId: string, options: DataServiceOptions = {}): U
     setError(null);
     
     try {
-      const startTime = Date.now();
+      let fromCache = false;
       const sessions = await DataService.getSessions(userId, { 
         ...options, 
-        forceRefresh 
+        forceRefresh,
+        onCacheResult: hit => { fromCache = hit; },
       });
-      const loadTime = Date.now() - startTime;
       
-      setIsCached(loadTime < 100);
+      setIsCached(fromCache);
       setData(sessions);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load sessions');
@@ -120,6 +125,14 @@ export function useSessions(userId: string, options: DataServiceOptions = {}): U
     fetchData();
   }, [fetchData]);
 
+  useEffect(() => {
+    if (!userId) return;
+    return DataService.subscribe<BookedSession[]>(dataCacheKeys.sessions(userId), fresh => {
+      setData(fresh);
+      setIsCached(false);
+    });
+  }, [userId]);
+
   return { data, loading, error, refresh, isCached };
 }
 
@@ -136,14 +149,14 @@ export function useConversations(userId: string, options: DataServiceOptions = {
     setError(null);
     
     try {
-      const startTime = Date.now();
+      let fromCache = false;
       const conversations = await DataService.getConversations(userId, { 
         ...options, 
-        forceRefresh 
+        forceRefresh,
+        onCacheResult: hit => { fromCache = hit; },
       });
-      const loadTime = Date.now() - startTime;
       
-      setIsCached(loadTime < 100);
+      setIsCached(fromCache);
       setData(conversations);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load conversations');
@@ -158,6 +171,14 @@ export function useConversations(userId: string, options: DataServiceOptions = {
     fetchData();
   }, [fetchData]);
 
+  useEffect(() => {
+    if (!userId) return;
+    return DataService.subscribe<Conversation[]>(dataCacheKeys.conversations(userId), fresh => {
+      setData(fresh);
+      setIsCached(false);
+    });
+  }, [userId]);
+
   return { data, loading, error, refresh, isCached };
 }
 
@@ -174,14 +195,14 @@ export function useMessages(conversationId: string, options: DataServiceOptions
     setError(null);
     
     try {
-      const startTime = Date.now();
+      let fromCache = false;
       const messages = await DataService.getMessages(conversationId, { 
         ...options, 
-        forceRefresh 
+        forceRefresh,
+        onCacheResult: hit => { fromCache = hit; },
       });
-      const loadTime = Date.now() - startTime;
       
-      setIsCached(loadTime < 100);
+      setIsCached(fromCache);
       setData(messages);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load messages');
@@ -196,6 +217,14 @@ export function useMessages(conversationId: string, options: DataServiceOptions
     fetchData();
   }, [fetchData]);
 
+  useEffect(() => {
+    if (!conversationId) return;
+    return DataService.subscribe<ChatMessage[]>(dataCacheKeys.messages(conversationId), fresh => {
+      setData(fresh);
+      setIsCached(false);
+    });
+  }, [conversationId]);
+
   return { data, loading, error, refresh, isCached };
 }
 
@@ -216,17 +245,16 @@ export function useSearchCoaches(
     setError(null);
     
     try {
-      const startTime = Date.now();
+      let fromCache = false;
       const coaches = await DataService.searchCoaches(
         query,
         specialty,
         priceRange,
         minRating,
-        options
+        { ...options, onCacheResult: hit => { fromCache = hit; } }
       );
-      const loadTime = Date.now() - startTime;
       
-      setIsCached(loadTime < 100);
+      setIsCached(fromCache);
       setData(coaches);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to search coaches');
@@ -248,5 +276,13 @@ export function useSearchCoaches(
     }
   }, [query, specialty, priceRange, minRating, fetchData]);
 
+  useEffect(() => {
+    if (!query.trim()) return;
+    return DataService.subscribe<Coach[]>(dataCacheKeys.search(query, specialty, priceRange, minRating), coaches => {
+      setData(coaches);
+      setIsCached(false);
+    });
+  }, [query, specialty, priceRange, minRating]);
+
   return { data, loading, error, refresh, isCached };
 }
\ No newline at end of file
@@ -1,7 +1,10 @@
 import { useEffect, useState, useCallback } from 'react';
+import { AppState, Linking } from 'react-native';
 import * as Notifications from 'expo-notifications';
 import NotificationService, { NotificationData } from '../services/NotificationService';
+import { waitlistService } from '../services/WaitlistService';
 import { useAuth } from '../context/AuthContext';
+import { getWaitlistOfferDeepLink } from '../navigation/linking';
 
 export interface UseNotificationsResult {
   isInitialized: boolean;
@@ -10,7 +13,8 @@ export interface UseNotificationsResult {
     sessionId: string,
     coachName: string,
     sessionDateTime: Date,
-    reminderMinutes?: number
+    reminderMinutes?: number,
+    coachTimeZone?: string
   ) => Promise<string | null>;
   cancelSessionNotifications: (sessionId: string) => Promise<void>;
   clearAllNotifications: () => Promise<void>;
@@ -71,6 +75,11 @@ export function useNotifications(): UseNotificationsResult {
         } else if (data?.type === 'message_received') {
           // Navigate to messages screen
           console.log('Message notification tapped:', data);
+        } else if (data?.type === 'waitlist_offer' && data.coachId && data.slotId) {
+          // Open the coach on the held slot through the app's own link, so navigation stays in one place
+          Linking.openURL(getWaitlistOfferDeepLink(data.coachId, data.slotId)).catch(error =>
+            console.error('Failed to open waitlist offer:', error)
+          );
         }
       }
     );
@@ -81,12 +90,33 @@ export function useNotifications(): UseNotificationsResult {
     };
   }, [isInitialized]);
 
+  // Check for waitlist holds now and whenever the app comes back to the foreground
+  useEffect(() => {
+    if (!isInitialized || !user) return;
+
+    const checkForOffers = () => {
+      waitlistService.checkForOffers(user.id).catch(error =>
+        console.error('Failed to check waitlist offers:', error)
+      );
+    };
+
+    checkForOffers();
+    const subscription = AppState.addEventListener('change', state => {
+      if (state === 'active') {
+        checkForOffers();
+      }
+    });
+
+    return () => subscription.remove();
+  }, [isInitialized, user]);
+
   const scheduleSessionReminder = useCallback(
     async (
       sessionId: string,
       coachName: string,
       sessionDateTime: Date,
-      reminderMinutes: number = 60
+      reminderMinutes: number = 60,
+      coachTimeZone?: string
     ): Promise<string | null> => {
       if (!isInitialized) {
         console.warn('Notifications not initialized');
@@ -99,7 +129,8 @@ export function useNotifications(): UseNotificationsResult {
           sessionId,
           coachName,
           sessionDateTime,
-          reminderMinutes
+          reminderMinutes,
+          coachTimeZone
         );
 
         // Schedule a "starting soon" notification
@@ -1,10 +1,19 @@
-import { useEffect, useState, useCallback, useRef } from 'react';
+import { useCallback, useSyncExternalStore } from 'react';
 import { offlineDataService, SyncableData } from '../services/OfflineDataService';
+import { SyncStatus, syncStatusStore } from '../services/SyncStatusStore';
 import { Coach, ChatMessage, Conversation } from '../types';
+import { SyncConflict } from '../utils/syncConflicts';
+
+/**
+ * Live network and sync status; re-renders only when it changes
+ */
+export const useSyncStatus = (): SyncStatus =>
+  useSyncExternalStore(syncStatusStore.subscribe, syncStatusStore.getSnapshot);
 
 export interface UseOfflineDataResult {
   isOnline: boolean;
   isSyncing: boolean;
+  pendingCount: number;
   forceSyncAll: () => Promise<void>;
   searchCoachesOffline: (query: string, specialty?: string, priceRange?: [number, number]) => Promise<Coach[]>;
   getConversationMessages: (conversationId: string) => Promise<ChatMessage[]>;
@@ -21,47 +30,7 @@ export interface UseOfflineDataResult {
 }
 
 export const useOfflineData = (): UseOfflineDataResult => {
-  const [isOnline, setIsOnline] = useState(false);
-  const [isSyncing, setIsSyncing] = useState(false);
-  const [networkType, setNetworkType] = useState('unknown');
-  const syncListenerRef = useRef<((status: 'started' | 'completed' | 'failed') => void) | null>(null);
-
-  useEffect(() => {
-    // Create sync listener
-    const syncListener = (status: 'started' | 'completed' | 'failed') => {
-      switch (status) {
-        case 'started':
-          setIsSyncing(true);
-          break;
-        case 'completed':
-        case 'failed':
-          setIsSyncing(false);
-          break;
-      }
-    };
-
-    syncListenerRef.current = syncListener;
-    offlineDataService.addSyncListener(syncListener);
-
-    // Poll network status
-    const networkStatusInterval = setInterval(() => {
-      const status = offlineDataService.getNetworkStatus();
-      setIsOnline(status.isConnected);
-      setNetworkType(status.type);
-    }, 1000);
-
-    // Initial network status check
-    const initialStatus = offlineDataService.getNetworkStatus();
-    setIsOnline(initialStatus.isConnected);
-    setNetworkType(initialStatus.type);
-
-    return () => {
-      if (syncListenerRef.current) {
-        offlineDataService.removeSyncListener(syncListenerRef.current);
-      }
-      clearInterval(networkStatusInterval);
-    };
-  }, []);
+  const { isOnline, isSyncing, pendingCount, networkType } = useSyncStatus();
 
   const forceSyncAll = useCallback(async () => {
     try {
@@ -142,6 +111,7 @@ export const useOfflineData = (): UseOfflineDataResult => {
   return {
     isOnline,
     isSyncing,
+    pendingCount,
     networkType,
     forceSyncAll,
     searchCoachesOffline,
@@ -151,4 +121,37 @@ export const useOfflineData = (): UseOfflineDataResult => {
     queueAction,
     clearOfflineData,
   };
-};
\ No newline at end of file
+};
+
+export interface UseSyncConflictsResult {
+  conflicts: SyncConflict[];
+  keepLocal: (conflictId: string) => Promise<void>;
+  keepServer: (conflictId: string) => Promise<void>;
+}
+
+/**
+ * Sync conflicts that need the user to choose between their change and the server's
+ */
+export const useSyncConflicts = (): UseSyncConflictsResult => {
+  const { conflicts } = useSyncStatus();
+
+  const keepLocal = useCallback(async (conflictId: string) => {
+    try {
+      await offlineDataService.resolveConflict(conflictId, 'local');
+    } catch (error) {
+      console.error('Failed to resolve conflict:', error);
+      throw error;
+    }
+  }, []);
+
+  const keepServer = useCallback(async (conflictId: string) => {
+    try {
+      await offlineDataService.resolveConflict(conflictId, 'server');
+    } catch (error) {
+      console.error('Failed to resolve conflict:', error);
+      throw error;
+    }
+  }, []);
+
+  return { conflicts, keepLocal, keepServer };
+};
@@ -1,5 +1,5 @@
 import { useEffect, useState, useCallback, useRef } from 'react';
-import { ChatMessage } from '../types';
+import { ChatMessage, MessageStatus } from '../types';
 import { realtimeMessagingService, MessageListener } from '../services/RealtimeMessagingService';
 
 export interface UseRealtimeMessagingResult {
@@ -17,6 +17,8 @@ export interface UseRealtimeMessagingCallbacks {
   onTypingStart?: (conversationId: string, userId: string) => void;
   onTypingStop?: (conversationId: string, userId: string) => void;
   onUserOnlineStatus?: (userId: string, isOnline: boolean) => void;
+  onReadReceipt?: (conversationId: string, userId: string, messageIds: string[], readAt: string) => void;
+  onMessageStatusChanged?: (conversationId: string, messageIds: string[], status: MessageStatus) => void;
   onConnectionStatusChange?: (status: 'connected' | 'disconnected' | 'connecting') => void;
 }
 
@@ -46,6 +48,12 @@ export const useRealtimeMessaging = (callbacks?: UseRealtimeMessagingCallbacks):
       onUserOnlineStatus: (userId: string, isOnline: boolean) => {
         callbacksRef.current?.onUserOnlineStatus?.(userId, isOnline);
       },
+      onReadReceipt: (conversationId: string, userId: string, messageIds: string[], readAt: string) => {
+        callbacksRef.current?.onReadReceipt?.(conversationId, userId, messageIds, readAt);
+      },
+      onMessageStatusChanged: (conversationId: string, messageIds: string[], status: MessageStatus) => {
+        callbacksRef.current?.onMessageStatusChanged?.(conversationId, messageIds, status);
+      },
     };
 
     // Add listener to service
@@ -12,7 +12,9 @@ import { MessagesScreen } from '../screens/messages/MessagesScreen';
 import { ChatScreen } from '../screens/messages/ChatScreen';
 import { UserProfileScreen } from '../screens/profile/UserProfileScreen';
 import { CoachVerificationScreen } from '../screens/coach/CoachVerificationScreen';
+import { GroupRosterScreen } from '../screens/coach/GroupRosterScreen';
 import { Loading } from '../components/Loading';
+import { linking } from './linking';
 
 const AuthStack = createStackNavigator<AuthStackParamList>();
 const MainStack = createStackNavigator<MainStackParamList>();
@@ -33,6 +35,7 @@ const MainStackNavigator = (): React.ReactElement => (
     <MainStack.Screen name="Chat" component={ChatScreen} />
     <MainStack.Screen name="UserProfile" component={UserProfileScreen} />
     <MainStack.Screen name="CoachVerification" component={CoachVerificationScreen} />
+    <MainStack.Screen name="GroupRoster" component={GroupRosterScreen} />
   </MainStack.Navigator>
 );
 
@@ -44,7 +47,7 @@ export const AppNavigator: React.FC = () => {
   }
 
   return (
-    <NavigationContainer>
+    <NavigationContainer linking={user ? linking : undefined}>
       {user ? <MainStackNavigator /> : <AuthStackNavigator />}
     </NavigationContainer>
   );
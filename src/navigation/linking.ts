@@ -0,0 +1,29 @@
+import Constants from 'expo-constants';
+import type { LinkingOptions } from '@react-navigation/native';
+import { MainStackParamList } from '../types/navigation';
+
+const APP_SCHEME = (Constants.expoConfig?.scheme as string | undefined) ?? 'lazycoach';
+
+/**
+ * Link that opens the app on a booked session, e.g. from a calendar event
+ */
+export function getSessionDeepLink(sessionId: string): string {
+  return `${APP_SCHEME}://sessions/${encodeURIComponent(sessionId)}`;
+}
+
+/**
+ * Link that opens a coach on a slot held for the user from their waitlist
+ */
+export function getWaitlistOfferDeepLink(coachId: string, slotId: string): string {
+  return `${APP_SCHEME}://coaches/${encodeURIComponent(coachId)}/${encodeURIComponent(slotId)}`;
+}
+
+export const linking: LinkingOptions<MainStackParamList> = {
+  prefixes: [`${APP_SCHEME}://`],
+  config: {
+    screens: {
+      MySessions: 'sessions/:sessionId?',
+      CoachDetail: 'coaches/:coachId/:slotId?',
+    },
+  },
+};
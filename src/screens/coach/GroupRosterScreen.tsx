@@ -0,0 +1,248 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  SafeAreaView,
+  RefreshControl,
+} from 'react-native';
+import { useAuth } from '../../context/AuthContext';
+import { useTheme } from '../../context/ThemeContext';
+import { useMainNavigation } from '../../hooks/useNavigation';
+import { ColorScheme } from '../../theme/colors';
+import { GroupRoster } from '../../types';
+import DataService from '../../services/DataService';
+import { Loading } from '../../components/LoadingStates';
+import { ErrorDisplay } from '../../components/ErrorDisplay';
+import { getErrorMessage } from '../../utils/errorHandling';
+import { formatSeatsLeft, getSlotCapacity } from '../../utils/groupSessions';
+import { formatInTimeZone, formatSlotTimeRange, getSlotStartDate } from '../../utils/timeSlots';
+
+export const GroupRosterScreen: React.FC = () => {
+  const navigation = useMainNavigation();
+  const { user } = useAuth();
+  const { theme } = useTheme();
+  const styles = createStyles(theme);
+  const [rosters, setRosters] = useState<GroupRoster[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Rosters belong to the coach listing, which has its own id
+  const coachId = user?.coachProfile?.coachId;
+
+  const loadRosters = async (): Promise<void> => {
+    if (!user) return;
+    if (!coachId) {
+      setError('Your account is not linked to a coach profile yet.');
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    try {
+      setRosters(await DataService.getGroupRosters(coachId));
+      setError(null);
+    } catch (err) {
+      console.error('Error loading group rosters:', err);
+      setError(getErrorMessage(err) || 'Failed to load your group sessions.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadRosters();
+  }, [user?.id, coachId]);
+
+  if (loading && rosters.length === 0 && !error) {
+    return <Loading message="Loading rosters..." />;
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => navigation.goBack()}>
+          <Text style={styles.backButtonText}>← Back</Text>
+        </TouchableOpacity>
+        <Text style={styles.title}>Workshop Rosters</Text>
+      </View>
+
+      {error ? (
+        <ErrorDisplay
+          title="Failed to load rosters"
+          message={error}
+          onRetry={loadRosters}
+          retryText="Try Again"
+        />
+      ) : (
+        <ScrollView
+          style={styles.content}
+          refreshControl={<RefreshControl refreshing={loading} onRefresh={loadRosters} />}
+          showsVerticalScrollIndicator={false}
+        >
+          {rosters.length === 0 ? (
+            <View style={styles.emptyState}>
+              <Text style={styles.emptyTitle}>No bookings yet</Text>
+              <Text style={styles.emptyText}>
+                Clients who book a seat in one of your group sessions will appear here.
+              </Text>
+            </View>
+          ) : (
+            rosters.map(({ slot, attendees }) => (
+              <View key={slot.id} style={styles.rosterCard}>
+                <View style={styles.rosterHeader}>
+                  <View style={styles.rosterInfo}>
+                    <Text style={styles.workshopTitle}>{slot.title ?? 'Group Session'}</Text>
+                    <Text style={styles.workshopTime}>
+                      {formatInTimeZone(getSlotStartDate(slot), {
+                        weekday: 'short',
+                        month: 'short',
+                        day: 'numeric',
+                      })} · {formatSlotTimeRange(slot)}
+                    </Text>
+                  </View>
+                  <View style={styles.seatBadge}>
+                    <Text style={styles.seatBadgeText}>
+                      {attendees.length}/{getSlotCapacity(slot)}
+                    </Text>
+                  </View>
+                </View>
+
+                <Text style={styles.seatsLeft}>{formatSeatsLeft(slot)}</Text>
+
+                {attendees.length === 0 ? (
+                  <Text style={styles.noAttendees}>No one has booked a seat yet.</Text>
+                ) : (
+                  attendees.map((attendee, index) => (
+                    <View key={attendee.sessionId} style={styles.attendeeRow}>
+                      <Text style={styles.attendeeIndex}>{index + 1}.</Text>
+                      <Text style={styles.attendeeName}>{attendee.userName}</Text>
+                      {attendee.bookedAt && (
+                        <Text style={styles.attendeeBooked}>
+                          {new Date(attendee.bookedAt).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+                        </Text>
+                      )}
+                    </View>
+                  ))
+                )}
+              </View>
+            ))
+          )}
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+};
+
+const createStyles = (theme: ColorScheme) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.background,
+  },
+  header: {
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+    backgroundColor: theme.surface,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.border,
+  },
+  backButtonText: {
+    fontSize: 16,
+    color: theme.primary,
+    fontWeight: '500',
+    paddingVertical: 8,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: theme.text,
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: 48,
+  },
+  emptyTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: theme.text,
+    marginBottom: 8,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: theme.textSecondary,
+    textAlign: 'center',
+  },
+  rosterCard: {
+    backgroundColor: theme.surface,
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+  },
+  rosterHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+  },
+  rosterInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+  workshopTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: theme.text,
+  },
+  workshopTime: {
+    fontSize: 14,
+    color: theme.textSecondary,
+    marginTop: 2,
+  },
+  seatBadge: {
+    backgroundColor: theme.primary,
+    borderRadius: 12,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+  },
+  seatBadgeText: {
+    color: 'white',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  seatsLeft: {
+    fontSize: 13,
+    color: theme.textMuted,
+    marginTop: 8,
+    marginBottom: 12,
+  },
+  noAttendees: {
+    fontSize: 14,
+    color: theme.textMuted,
+  },
+  attendeeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderTopWidth: 1,
+    borderTopColor: theme.border,
+  },
+  attendeeIndex: {
+    width: 24,
+    fontSize: 14,
+    color: theme.textMuted,
+  },
+  attendeeName: {
+    flex: 1,
+    fontSize: 15,
+    color: theme.text,
+  },
+  attendeeBooked: {
+    fontSize: 12,
+    color: theme.textMuted,
+  },
+});
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import {
   View,
   Text,
@@ -11,7 +11,7 @@ import {
 import { RouteProp } from '@react-navigation/native';
 import { useTheme } from '../../context/ThemeContext';
 import { AvailabilityPicker } from '../../components/AvailabilityPicker';
-import { Coach, Review } from '../../types';
+import { Coach, PackageCredit, Review, SessionPackage, TimeSlot, WaitlistEntry } from '../../types';
 import { MainStackParamList } from '../../types/navigation';
 import { useMainNavigation } from '../../hooks/useNavigation';
 import { useNotifications } from '../../hooks/useNotifications';
@@ -19,6 +19,23 @@ import { ColorScheme } from '../../theme/colors';
 import PaymentSheet from '../../components/payment/PaymentSheet';
 import { SessionPayment, paymentService } from '../../services/PaymentService';
 import { analyticsService } from '../../services/AnalyticsService';
+import { bookingService } from '../../services/BookingService';
+import { packageService } from '../../services/PackageService';
+import { waitlistService } from '../../services/WaitlistService';
+import { useAuth } from '../../context/AuthContext';
+import {
+  formatInTimeZone,
+  formatSlotTimeRange,
+  getDateInTimeZone,
+  getSlotLocalDate,
+  getSlotStartDate,
+} from '../../utils/timeSlots';
+import DataService from '../../services/DataService';
+import { getErrorMessage } from '../../utils/errorHandling';
+import { getPackageSavingsPercent, selectCreditForBooking } from '../../utils/packageCredits';
+import { getSlotPrice } from '../../utils/groupSessions';
+import { Loading } from '../../components/LoadingStates';
+import { ErrorDisplay } from '../../components/ErrorDisplay';
 
 const FEATURE_FLAG_AVAILABILITY = true;
 
@@ -26,16 +43,105 @@ interface CoachDetailScreenProps {
   route: RouteProp<MainStackParamList, 'CoachDetail'>;
 }
 
-export const CoachDetailScreen: React.FC<CoachDetailScreenProps> = ({ route }) => {
+interface CoachDetailContentProps {
+  coach: Coach;
+  // A slot to start out selected, e.g. one held for the user from their waitlist
+  initialSlotId?: string;
+}
+
+const CoachDetailContent: React.FC<CoachDetailContentProps> = ({ coach, initialSlotId }) => {
   const navigation = useMainNavigation();
   const { theme } = useTheme();
-  const { coach } = route.params;
+  const { user } = useAuth();
   const { scheduleSessionReminder, isInitialized: notificationsInitialized } = useNotifications();
   const [selectedSlots, setSelectedSlots] = useState<string[]>([]);
   const [selectedDate, setSelectedDate] = useState<string>('');
   const [showReviews, setShowReviews] = useState(false);
   const [showPaymentSheet, setShowPaymentSheet] = useState(false);
   const [sessionPayment, setSessionPayment] = useState<SessionPayment | null>(null);
+  const [availableSlots, setAvailableSlots] = useState<TimeSlot[]>([]);
+  // Set while the payment sheet is buying a package rather than sessions
+  const [pendingPackage, setPendingPackage] = useState<SessionPackage | null>(null);
+  const [credits, setCredits] = useState<PackageCredit[]>([]);
+  const [waitlistEntry, setWaitlistEntry] = useState<WaitlistEntry | null>(null);
+  const packages = packageService.getPackages(coach);
+
+  const loadAvailability = async (): Promise<void> => {
+    try {
+      const slots = await DataService.getCoachAvailability(coach.id, {
+        from: new Date(),
+        to: new Date(Date.now() + 8 * 24 * 60 * 60 * 1000),
+      }, { forceRefresh: true, holderId: user?.id });
+      setAvailableSlots(slots);
+    } catch (error) {
+      console.error('Error loading coach availability:', error);
+    }
+  };
+
+  const loadCredits = async (): Promise<void> => {
+    if (!user) return;
+    try {
+      const userCredits = await packageService.getCredits(user.id, { forceRefresh: true });
+      setCredits(userCredits.filter(credit => credit.coachId === coach.id));
+    } catch (error) {
+      console.error('Error loading package credits:', error);
+    }
+  };
+
+  const loadWaitlistEntry = async (): Promise<void> => {
+    if (!user) return;
+    try {
+      const [entry] = await waitlistService.getActiveEntries(user.id, coach.id);
+      setWaitlistEntry(entry ?? null);
+    } catch (error) {
+      console.error('Error loading waitlist:', error);
+    }
+  };
+
+  useEffect(() => {
+    loadAvailability();
+    loadCredits();
+    loadWaitlistEntry();
+  }, [coach.id]);
+
+  // Select the offered slot the first time it shows up, but not again after a booking reloads the slots
+  const initialSlotApplied = useRef(false);
+  useEffect(() => {
+    const initialSlot = availableSlots.find(slot => slot.id === initialSlotId);
+    if (!initialSlot || initialSlotApplied.current) return;
+
+    initialSlotApplied.current = true;
+    setSelectedDate(getSlotLocalDate(initialSlot));
+    setSelectedSlots([initialSlot.id]);
+  }, [availableSlots, initialSlotId]);
+
+  const handleJoinWaitlist = async (): Promise<void> => {
+    if (!user) return;
+
+    // Joining from an empty day only waits for that day; otherwise for any time
+    const range = selectedDate ? { fromDate: selectedDate, toDate: selectedDate } : {};
+    try {
+      const entry = await waitlistService.joinWaitlist(user.id, coach, range);
+      setWaitlistEntry(entry);
+      Alert.alert(
+        "You're on the Waitlist",
+        `We'll notify you as soon as a slot with ${coach.name} opens up and hold it for you for a short time.`
+      );
+    } catch (error) {
+      Alert.alert('Error', getErrorMessage(error) || 'Failed to join the waitlist. Please try again.');
+    }
+  };
+
+  const handleLeaveWaitlist = async (): Promise<void> => {
+    if (!waitlistEntry) return;
+    try {
+      await waitlistService.leaveWaitlist(waitlistEntry);
+      setWaitlistEntry(null);
+      await loadAvailability();
+    } catch (error) {
+      Alert.alert('Error', getErrorMessage(error) || 'Failed to leave the waitlist. Please try again.');
+    }
+  };
 
   const handleAvailabilityChange = (slots: string[]): void => {
     setSelectedSlots(slots);
@@ -51,7 +157,7 @@ export const CoachDetailScreen: React.FC<CoachDetailScreenProps> = ({ route }) =
       const date = new Date();
       date.setDate(date.getDate() + i);
       dates.push({
-        date: date.toISOString().split('T')[0],
+        date: getDateInTimeZone(date),
         display: date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' }),
         dayName: date.toLocaleDateString('en-US', { weekday: 'short' })
       });
@@ -59,12 +165,27 @@ export const CoachDetailScreen: React.FC<CoachDetailScreenProps> = ({ route }) =
     return dates;
   };
 
+  const slotsForSelectedDate = availableSlots.filter(slot => getSlotLocalDate(slot) === selectedDate);
+
+  const buildSelectedTimeSlots = (): TimeSlot[] => {
+    return availableSlots.filter(slot => selectedSlots.includes(slot.id));
+  };
+
   const calculateTotalPrice = (): number => {
-    return selectedSlots.length * (coach.price || 80);
+    return buildSelectedTimeSlots().reduce((total, slot) => total + getSlotPrice(slot, coach), 0);
   };
 
+  const creditForSelection = selectCreditForBooking(credits, coach.id, selectedSlots.length);
+
   const styles = createStyles(theme);
 
+  const handleBuyPackage = (pkg: SessionPackage): void => {
+    if (!user) return;
+    setPendingPackage(pkg);
+    setSessionPayment(packageService.buildPackagePayment(coach, pkg));
+    setShowPaymentSheet(true);
+  };
+
   const handleBookSession = async (): Promise<void> => {
     if (selectedSlots.length === 0) {
       Alert.alert('Please select at least one time slot', 'Choose your preferred session time to continue.');
@@ -76,6 +197,24 @@ export const CoachDetailScreen: React.FC<CoachDetailScreenProps> = ({ route }) =
       return;
     }
 
+    if (creditForSelection) {
+      const sessionCount = selectedSlots.length;
+      Alert.alert(
+        'Use Package Credits?',
+        `Book ${sessionCount} session${sessionCount !== 1 ? 's' : ''} from your ${creditForSelection.packageName} (${creditForSelection.remainingSessions} left)?`,
+        [
+          { text: 'Cancel', style: 'cancel' },
+          { text: `Pay $${calculateTotalPrice()}`, onPress: () => startPayment() },
+          { text: 'Use Credits', onPress: () => completeBooking({ packageCredit: creditForSelection }) },
+        ]
+      );
+      return;
+    }
+
+    await startPayment();
+  };
+
+  const startPayment = async (): Promise<void> => {
     const totalPrice = calculateTotalPrice();
     
     // Check if user has payment methods
@@ -108,9 +247,7 @@ export const CoachDetailScreen: React.FC<CoachDetailScreenProps> = ({ route }) =
     analyticsService.trackBooking(coach.id, 'Personal Training', totalPrice);
 
     // Create session payment details
-    const sessionDateTime = new Date(selectedDate);
-    const [startHour] = selectedSlots[0].split('-');
-    sessionDateTime.setHours(parseInt(startHour.padStart(2, '0')), 0, 0, 0);
+    const sessionDateTime = getSlotStartDate(buildSelectedTimeSlots()[0]);
 
     const payment: SessionPayment = {
       sessionId: `${coach.id}-${selectedDate}-${Date.now()}`,
@@ -127,24 +264,60 @@ export const CoachDetailScreen: React.FC<CoachDetailScreenProps> = ({ route }) =
   };
 
   const handlePaymentSuccess = async (paymentIntentId: string): Promise<void> => {
+    if (!user || !sessionPayment) return;
+
+    if (pendingPackage) {
+      await completePackagePurchase(pendingPackage, paymentIntentId);
+      return;
+    }
+
+    await completeBooking({ payment: sessionPayment, paymentIntentId });
+  };
+
+  const completePackagePurchase = async (pkg: SessionPackage, paymentIntentId: string): Promise<void> => {
+    if (!user) return;
+
     try {
-      // Create session details for each selected slot
-      for (let i = 0; i < selectedSlots.length; i++) {
-        const slot = selectedSlots[i];
-        const sessionId = `${coach.id}-${selectedDate}-${slot}-${Date.now()}-${i}`;
-        
-        // Parse the slot time (e.g., "9-10" -> "09:00")
-        const [startHour] = slot.split('-');
-        const sessionDateTime = new Date(selectedDate);
-        sessionDateTime.setHours(parseInt(startHour.padStart(2, '0')), 0, 0, 0);
-        
-        // Schedule notifications if available
-        if (notificationsInitialized) {
+      const credit = await packageService.purchasePackage(user.id, coach, pkg, paymentIntentId);
+      Alert.alert(
+        'Package Purchased!',
+        `You have ${credit.totalSessions} sessions with ${coach.name} to book before ${new Date(credit.expiresAt).toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' })}.`
+      );
+      await loadCredits();
+    } catch (error) {
+      console.error('Error recording package after payment:', error);
+      Alert.alert('Purchase Error', 'Payment was successful but there was an issue adding your package. Please contact support.');
+    } finally {
+      setPendingPackage(null);
+      setSessionPayment(null);
+    }
+  };
+
+  const completeBooking = async (
+    billing: { payment: SessionPayment; paymentIntentId: string } | { packageCredit: PackageCredit }
+  ): Promise<void> => {
+    if (!user) return;
+
+    const usingCredit = 'packageCredit' in billing;
+
+    try {
+      const bookedSessions = await bookingService.bookSessions({
+        userId: user.id,
+        userName: user.name,
+        coach,
+        slots: buildSelectedTimeSlots(),
+        ...billing,
+      });
+
+      // Schedule notifications if available
+      if (notificationsInitialized) {
+        for (const session of bookedSessions) {
           await scheduleSessionReminder(
-            sessionId,
+            session.id,
             coach.name,
-            sessionDateTime,
-            60 // 1 hour reminder
+            getSlotStartDate(session.timeSlot),
+            60, // 1 hour reminder
+            session.timeSlot.timeZone
           );
         }
       }
@@ -153,8 +326,9 @@ export const CoachDetailScreen: React.FC<CoachDetailScreenProps> = ({ route }) =
       analyticsService.track('session_booked_successfully', {
         coachId: coach.id,
         sessionCount: selectedSlots.length,
-        totalAmount: calculateTotalPrice(),
-        paymentIntentId,
+        totalAmount: usingCredit ? 0 : calculateTotalPrice(),
+        paymentIntentId: usingCredit ? undefined : billing.paymentIntentId,
+        packageCreditId: usingCredit ? billing.packageCredit.id : undefined,
         scheduledDate: selectedDate,
       });
       
@@ -162,21 +336,31 @@ export const CoachDetailScreen: React.FC<CoachDetailScreenProps> = ({ route }) =
         ? 'Your session has been booked and reminders have been scheduled!'
         : 'Your session has been booked. Enable notifications to receive reminders.';
         
-      Alert.alert('Payment Successful!', notificationMessage);
+      Alert.alert(usingCredit ? 'Session Booked!' : 'Payment Successful!', notificationMessage);
       
       // Reset form
       setSelectedSlots([]);
       setSelectedDate('');
       setSessionPayment(null);
+      await loadAvailability();
+      await loadWaitlistEntry();
+      if (usingCredit) {
+        await loadCredits();
+      }
     } catch (error) {
-      console.error('Error completing booking after payment:', error);
-      Alert.alert('Booking Error', 'Payment was successful but there was an issue completing your booking. Please contact support.');
+      console.error('Error completing booking:', error);
+      if (usingCredit) {
+        Alert.alert('Booking Error', getErrorMessage(error) || 'Failed to book with your package. Please try again.');
+      } else {
+        Alert.alert('Booking Error', `${getErrorMessage(error)} Your card has not been charged.`);
+      }
     }
   };
 
   const handlePaymentCancel = (): void => {
     setShowPaymentSheet(false);
     setSessionPayment(null);
+    setPendingPackage(null);
   };
 
   return (
@@ -258,6 +442,33 @@ export const CoachDetailScreen: React.FC<CoachDetailScreenProps> = ({ route }) =
           ))}
         </View>
 
+        {packages.length > 0 && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Session Packages</Text>
+            {credits.map(credit => (
+              <Text key={credit.id} style={styles.creditBalance}>
+                🎟️ {credit.remainingSessions} of {credit.totalSessions} sessions left in your {credit.packageName} · expires {new Date(credit.expiresAt).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+              </Text>
+            ))}
+            {packages.map(pkg => {
+              const savings = getPackageSavingsPercent(pkg, coach.price);
+              return (
+                <View key={pkg.id} style={styles.packageCard}>
+                  <View style={styles.packageInfo}>
+                    <Text style={styles.packageName}>{pkg.name}</Text>
+                    <Text style={styles.packageDetails}>
+                      {pkg.sessionCount} sessions · valid {pkg.validityDays} days{savings > 0 ? ` · save ${savings}%` : ''}
+                    </Text>
+                  </View>
+                  <TouchableOpacity style={styles.packageButton} onPress={() => handleBuyPackage(pkg)}>
+                    <Text style={styles.packageButtonText}>${pkg.price}</Text>
+                  </TouchableOpacity>
+                </View>
+              );
+            })}
+          </View>
+        )}
+
         {FEATURE_FLAG_AVAILABILITY && (
           <View style={styles.section}>
             <Text style={styles.sectionTitle}>Book a Session</Text>
@@ -291,9 +502,52 @@ export const CoachDetailScreen: React.FC<CoachDetailScreenProps> = ({ route }) =
               </ScrollView>
             </View>
 
+            {waitlistEntry?.status === 'offered' && waitlistEntry.hold && (
+              <View style={styles.waitlistCard}>
+                <Text style={styles.waitlistTitle}>A slot opened up for you</Text>
+                <Text style={styles.waitlistText}>
+                  {formatInTimeZone(getSlotStartDate(waitlistEntry.hold.slot), { weekday: 'long', month: 'short', day: 'numeric' })} · {formatSlotTimeRange(waitlistEntry.hold.slot)} is held for you until {formatInTimeZone(new Date(waitlistEntry.hold.expiresAt), { hour: 'numeric', minute: '2-digit' })}.
+                </Text>
+                <TouchableOpacity onPress={handleLeaveWaitlist}>
+                  <Text style={styles.waitlistLink}>No thanks, leave the waitlist</Text>
+                </TouchableOpacity>
+              </View>
+            )}
+
+            {waitlistEntry?.status === 'waiting' && (
+              <View style={styles.waitlistCard}>
+                <Text style={styles.waitlistTitle}>You're on the waitlist</Text>
+                <Text style={styles.waitlistText}>
+                  {waitlistEntry.fromDate
+                    ? `We'll let you know if a slot opens up on ${new Date(`${waitlistEntry.fromDate}T00:00:00`).toLocaleDateString('en-US', { weekday: 'long', month: 'short', day: 'numeric' })}.`
+                    : `We'll let you know as soon as ${coach.name} has a free slot.`}
+                </Text>
+                <TouchableOpacity onPress={handleLeaveWaitlist}>
+                  <Text style={styles.waitlistLink}>Leave waitlist</Text>
+                </TouchableOpacity>
+              </View>
+            )}
+
+            {!waitlistEntry && (availableSlots.length === 0 || (selectedDate && slotsForSelectedDate.length === 0)) && (
+              <View style={styles.waitlistCard}>
+                <Text style={styles.waitlistTitle}>
+                  {availableSlots.length === 0 ? `${coach.name} is fully booked` : 'No times left on this day'}
+                </Text>
+                <Text style={styles.waitlistText}>
+                  Join the waitlist and we'll hold the next free slot for you.
+                </Text>
+                <TouchableOpacity style={styles.waitlistButton} onPress={handleJoinWaitlist}>
+                  <Text style={styles.waitlistButtonText}>Join Waitlist</Text>
+                </TouchableOpacity>
+              </View>
+            )}
+
             {selectedDate && (
               <View style={styles.timeSlotsContainer}>
-                <AvailabilityPicker onSelectionChange={handleAvailabilityChange} />
+                <AvailabilityPicker
+                  slots={slotsForSelectedDate}
+                  onSelectionChange={handleAvailabilityChange}
+                />
               </View>
             )}
             
@@ -301,13 +555,15 @@ export const CoachDetailScreen: React.FC<CoachDetailScreenProps> = ({ route }) =
               <View style={styles.selectionSummary}>
                 <View style={styles.bookingSummary}>
                   <Text style={styles.selectedInfo}>
-                    {selectedSlots.length} session{selectedSlots.length !== 1 ? 's' : ''} on {new Date(selectedDate).toLocaleDateString('en-US', { weekday: 'long', month: 'long', day: 'numeric' })}
+                    {selectedSlots.length} session{selectedSlots.length !== 1 ? 's' : ''} on {new Date(`${selectedDate}T00:00:00`).toLocaleDateString('en-US', { weekday: 'long', month: 'long', day: 'numeric' })}
+                  </Text>
+                  <Text style={styles.totalPrice}>
+                    {creditForSelection ? 'Covered by your package' : `Total: $${calculateTotalPrice()}`}
                   </Text>
-                  <Text style={styles.totalPrice}>Total: ${calculateTotalPrice()}</Text>
                 </View>
                 <TouchableOpacity style={styles.bookButton} onPress={handleBookSession}>
                   <Text style={styles.bookButtonText}>
-                    Book Session{selectedSlots.length !== 1 ? 's' : ''} - ${calculateTotalPrice()}
+                    Book Session{selectedSlots.length !== 1 ? 's' : ''}{creditForSelection ? '' : ` - $${calculateTotalPrice()}`}
                   </Text>
                 </TouchableOpacity>
               </View>
@@ -323,17 +579,132 @@ export const CoachDetailScreen: React.FC<CoachDetailScreenProps> = ({ route }) =
           onClose={handlePaymentCancel}
           onSuccess={handlePaymentSuccess}
           sessionPayment={sessionPayment}
+          // Sessions are only charged once every slot is booked
+          captureLater={!pendingPackage}
         />
       )}
     </SafeAreaView>
   );
 };
 
+export const CoachDetailScreen: React.FC<CoachDetailScreenProps> = ({ route }) => {
+  const { slotId } = route.params;
+  const coachId = 'coach' in route.params ? route.params.coach.id : route.params.coachId;
+  // Links only carry the coach's id, so the coach is loaded before the screen can show
+  const [coach, setCoach] = useState<Coach | null>('coach' in route.params ? route.params.coach : null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadCoach = async (): Promise<void> => {
+    setError(null);
+    try {
+      const loaded = await DataService.getCoach(coachId);
+      if (!loaded) {
+        setError('This coach is no longer available.');
+        return;
+      }
+      setCoach(loaded);
+    } catch (err) {
+      console.error('Error loading coach:', err);
+      setError(getErrorMessage(err));
+    }
+  };
+
+  useEffect(() => {
+    if (coach?.id !== coachId) {
+      loadCoach();
+    }
+  }, [coachId]);
+
+  if (error) {
+    return <ErrorDisplay title="Failed to load coach" message={error} onRetry={loadCoach} retryText="Try Again" />;
+  }
+  if (!coach || coach.id !== coachId) {
+    return <Loading message="Loading coach..." />;
+  }
+  return <CoachDetailContent key={coach.id} coach={coach} initialSlotId={slotId} />;
+};
+
 const createStyles = (theme: ColorScheme) => StyleSheet.create({
   container: {
     flex: 1,
     backgroundColor: theme.background,
   },
+  waitlistCard: {
+    backgroundColor: '#f0f7ff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+  },
+  waitlistTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: theme.text,
+    marginBottom: 4,
+  },
+  waitlistText: {
+    fontSize: 14,
+    color: '#666',
+    lineHeight: 20,
+  },
+  waitlistButton: {
+    backgroundColor: '#0066CC',
+    paddingVertical: 10,
+    borderRadius: 8,
+    alignItems: 'center',
+    marginTop: 12,
+  },
+  waitlistButtonText: {
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  waitlistLink: {
+    color: '#0066CC',
+    fontSize: 14,
+    fontWeight: '500',
+    marginTop: 10,
+  },
+  creditBalance: {
+    fontSize: 14,
+    color: '#0066CC',
+    fontWeight: '500',
+    marginBottom: 12,
+  },
+  packageCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#e9ecef',
+    marginBottom: 8,
+  },
+  packageInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+  packageName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: theme.text,
+  },
+  packageDetails: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 2,
+  },
+  packageButton: {
+    backgroundColor: '#0066CC',
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 8,
+  },
+  packageButtonText: {
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: '600',
+  },
   header: {
     paddingHorizontal: 20,
     paddingVertical: 12,
@@ -16,6 +16,7 @@ import { FilterModal, FilterOptions } from '../../components/search/FilterModal'
 import { ErrorDisplay } from '../../components/ErrorDisplay';
 import { LoadingList } from '../../components/LoadingStates';
 import { NetworkStatus } from '../../components/NetworkStatus';
+import { SyncConflictsBanner } from '../../components/SyncConflictsBanner';
 import { Coach } from '../../types';
 import { useSearchCoaches } from '../../hooks/useDataService';
 import { useOfflineData } from '../../hooks/useOfflineData';
@@ -113,6 +114,8 @@ export const HomeScreen: React.FC = () => {
         </TouchableOpacity>
       </View>
 
+      <SyncConflictsBanner />
+
       <SearchBar
         value={searchQuery}
         onChangeText={setSearchQuery}
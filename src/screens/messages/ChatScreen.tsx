@@ -8,64 +8,33 @@ import {
   SafeAreaView,
   KeyboardAvoidingView,
   Platform,
+  ActivityIndicator,
+  Alert,
+  NativeSyntheticEvent,
+  NativeScrollEvent,
 } from 'react-native';
 import { RouteProp } from '@react-navigation/native';
 import { useAuth } from '../../context/AuthContext';
 import { MainStackParamList } from '../../types/navigation';
 import { useMainNavigation } from '../../hooks/useNavigation';
 import { WorkaroundTextInput } from '../../components/WorkaroundTextInput';
-import { Conversation, ChatMessage, MessageStatus } from '../../types';
+import { Conversation, ChatMessage, ChatAttachment, MessageStatus } from '../../types';
 import { Loading } from '../../components/Loading';
 import { NetworkStatus } from '../../components/NetworkStatus';
 import { useRealtimeMessaging } from '../../hooks/useRealtimeMessaging';
-import { useOfflineData } from '../../hooks/useOfflineData';
+import { useChatHistory } from '../../hooks/useChatHistory';
 import { useAnalytics } from '../../hooks/useAnalytics';
 import { useScreenPerformance } from '../../hooks/usePerformance';
+import { useChatAttachments } from '../../hooks/useChatAttachments';
 import { TypingIndicator } from '../../components/messaging/TypingIndicator';
 import { MessageStatusIndicator } from '../../components/messaging/MessageStatusIndicator';
+import { MessageAttachment } from '../../components/messaging/MessageAttachment';
+import { isUnread } from '../../utils/chatHistory';
+import { formatDuration, getUploadProgress } from '../../utils/attachments';
+import { createClientMessageId, messageOutbox } from '../../services/MessageOutbox';
 
-const mockMessages: ChatMessage[] = [
-  {
-    id: '1',
-    senderId: '1',
-    senderName: 'Sarah Johnson',
-    message: 'Hi! Thanks for booking a session with me. Looking forward to working together!',
-    timestamp: '2025-01-10T10:00:00Z',
-    type: 'text',
-  },
-  {
-    id: '2',
-    senderId: 'user-1',
-    senderName: 'You',
-    message: 'Thanks Sarah! I\'m excited to get started on my career goals.',
-    timestamp: '2025-01-10T10:05:00Z',
-    type: 'text',
-  },
-  {
-    id: '3',
-    senderId: '1',
-    senderName: 'Sarah Johnson',
-    message: 'Perfect! I\'ve prepared some questions for our session tomorrow. We\'ll focus on identifying your core strengths and mapping out a clear path forward.',
-    timestamp: '2025-01-10T10:10:00Z',
-    type: 'text',
-  },
-  {
-    id: '4',
-    senderId: 'system',
-    senderName: 'System',
-    message: 'Session scheduled for January 20, 2025 at 9:00 AM',
-    timestamp: '2025-01-10T10:11:00Z',
-    type: 'system',
-  },
-  {
-    id: '5',
-    senderId: '1',
-    senderName: 'Sarah Johnson',
-    message: 'Looking forward to our session tomorrow!',
-    timestamp: '2025-01-11T14:30:00Z',
-    type: 'text',
-  },
-];
+// How close to the top, in points, scrolling has to get before older messages load
+const LOAD_OLDER_THRESHOLD = 80;
 
 interface ChatScreenProps {
   route: RouteProp<MainStackParamList, 'Chat'>;
@@ -75,27 +44,36 @@ export const ChatScreen: React.FC<ChatScreenProps> = ({ route }) => {
   const navigation = useMainNavigation();
   const { user } = useAuth();
   const { conversation } = route.params;
-  const { queueAction } = useOfflineData();
   const { trackScreenView, trackMessage, trackAction } = useAnalytics();
   
   // Track screen performance
   useScreenPerformance('ChatScreen');
-  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const {
+    messages,
+    loading: isLoading,
+    loadingOlder,
+    hasOlder,
+    loadOlder,
+    saveMessages,
+    updateMessages,
+    removeMessages,
+    applyMessages,
+  } = useChatHistory(conversation.id);
   const [newMessage, setNewMessage] = useState('');
-  const [isLoading, setIsLoading] = useState(true);
   const [isTyping, setIsTyping] = useState(false);
   const [otherUserTyping, setOtherUserTyping] = useState(false);
   const scrollViewRef = useRef<ScrollView>(null);
   const typingTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const attachments = useChatAttachments();
 
   // Real-time messaging callbacks
   const handleMessageReceived = useCallback((message: ChatMessage, conversationId: string) => {
     if (conversationId === conversation.id) {
-      setMessages(prev => [...prev, message]);
       // Mark message as read automatically when chat is open
-      realtimeMessaging.markMessagesAsRead(conversationId, [message.id]);
+      saveMessages([{ ...message, isRead: true }]);
+      realtimeMessaging.markMessagesAsRead(conversationId, [message.id]).catch(() => {});
     }
-  }, [conversation.id]);
+  }, [conversation.id, saveMessages]);
 
   const handleTypingStart = useCallback((conversationId: string, userId: string) => {
     if (conversationId === conversation.id && userId !== user?.id) {
@@ -114,31 +92,53 @@ export const ChatScreen: React.FC<ChatScreenProps> = ({ route }) => {
     console.log(`User ${userId} is ${isOnline ? 'online' : 'offline'}`);
   }, []);
 
+  // Receipts from the other side; the service has already stored the new status
+  const handleMessageStatusChanged = useCallback((conversationId: string, messageIds: string[], status: MessageStatus) => {
+    if (conversationId !== conversation.id) return;
+
+    const ids = new Set(messageIds);
+    applyMessages(messages.filter(message => ids.has(message.id)).map(message => ({ ...message, status })));
+  }, [conversation.id, messages, applyMessages]);
+
   const realtimeMessaging = useRealtimeMessaging({
     onMessageReceived: handleMessageReceived,
     onTypingStart: handleTypingStart,
     onTypingStop: handleTypingStop,
     onUserOnlineStatus: handleUserOnlineStatus,
+    onMessageStatusChanged: handleMessageStatusChanged,
   });
 
   useEffect(() => {
-    loadMessages();
     trackScreenView('ChatScreen');
   }, [trackScreenView]);
 
+  // The outbox stores each status change itself; this just shows it
+  useEffect(() => messageOutbox.subscribe((conversationId, message) => {
+    if (conversationId === conversation.id) {
+      applyMessages([message]);
+    }
+  }), [conversation.id, applyMessages]);
+
+  // Only follow the conversation down when a new message arrives, not when older ones load
+  const newestMessageId = messages[messages.length - 1]?.id;
   useEffect(() => {
     scrollToBottom();
-  }, [messages]);
+  }, [newestMessageId]);
 
-  const loadMessages = async (): Promise<void> => {
-    setIsLoading(true);
-    try {
-      await new Promise(resolve => setTimeout(resolve, 1000));
-      setMessages(mockMessages);
-    } catch (error) {
-      console.error('Failed to load messages:', error);
-    } finally {
-      setIsLoading(false);
+  // Anything unread in the history has now been seen
+  useEffect(() => {
+    if (isLoading || !user) return;
+
+    const unreadIds = messages.filter(message => isUnread(message, user.id)).map(message => message.id);
+    if (unreadIds.length > 0) {
+      updateMessages(unreadIds, { isRead: true });
+      realtimeMessaging.markMessagesAsRead(conversation.id, unreadIds).catch(() => {});
+    }
+  }, [isLoading, messages, user, conversation.id, updateMessages]);
+
+  const handleScroll = (event: NativeSyntheticEvent<NativeScrollEvent>): void => {
+    if (event.nativeEvent.contentOffset.y < LOAD_OLDER_THRESHOLD && hasOlder && !loadingOlder) {
+      loadOlder();
     }
   };
 
@@ -153,7 +153,7 @@ export const ChatScreen: React.FC<ChatScreenProps> = ({ route }) => {
 
     const messageText = newMessage.trim();
     const message: ChatMessage = {
-      id: Date.now().toString(),
+      id: createClientMessageId(),
       senderId: user.id,
       senderName: user.name,
       text: messageText,
@@ -164,8 +164,6 @@ export const ChatScreen: React.FC<ChatScreenProps> = ({ route }) => {
       isRead: false,
     };
 
-    // Add message optimistically to UI
-    setMessages(prev => [...prev, message]);
     const isFirstMessage = messages.length === 0;
     setNewMessage('');
     
@@ -181,35 +179,81 @@ export const ChatScreen: React.FC<ChatScreenProps> = ({ route }) => {
       isFirstMessage,
     });
 
+    // Shows up straight away as sending, and goes out as soon as the connection allows
+    await messageOutbox.send(conversation.id, message);
+  };
+
+  const sendAttachment = async (attachment: ChatAttachment): Promise<void> => {
+    if (!user) return;
+
+    const message: ChatMessage = {
+      id: createClientMessageId(),
+      senderId: user.id,
+      senderName: user.name,
+      timestamp: new Date().toISOString(),
+      type: 'attachment',
+      attachments: [attachment],
+      isRead: false,
+    };
+
+    trackAction('attachment_sent', 'chat_input', {
+      kind: attachment.kind,
+      sizeBytes: attachment.sizeBytes,
+      conversationId: conversation.id,
+    });
+
+    // Limits are checked when the file is picked, and again here before anything is queued
     try {
-      // Update status to sent
-      updateMessageStatus(message.id, 'sent');
-      
-      // Send message through real-time service
-      await realtimeMessaging.sendMessage(conversation.id, message);
-      
-      // Update status to delivered
-      updateMessageStatus(message.id, 'delivered');
+      await messageOutbox.send(conversation.id, message);
     } catch (error) {
-      console.error('Failed to send message:', error);
-      // Update status to failed
-      updateMessageStatus(message.id, 'failed');
-      
-      // Queue for offline sync
-      await queueAction({
-        type: 'create',
-        entity: 'message',
-        entityId: message.id,
-        data: { ...message, conversationId: conversation.id },
-      });
+      Alert.alert('Can\'t send attachment', (error as Error).message);
+    }
+  };
+
+  /**
+   * Run one of the attachment pickers and send what it returns
+   */
+  const attach = async (pick: () => Promise<ChatAttachment | null>): Promise<void> => {
+    try {
+      const attachment = await pick();
+      if (attachment) {
+        await sendAttachment(attachment);
+      }
+    } catch (error) {
+      console.error('[ChatScreen] Failed to attach file:', error);
+      Alert.alert('Can\'t attach file', (error as Error).message || 'Please try again.');
+    }
+  };
+
+  const showAttachmentOptions = (): void => {
+    Alert.alert(
+      'Add attachment',
+      'Send a photo or a document',
+      [
+        { text: 'Camera', onPress: () => attach(attachments.takePhoto) },
+        { text: 'Photo Library', onPress: () => attach(attachments.pickImage) },
+        { text: 'Document', onPress: () => attach(attachments.pickDocument) },
+        { text: 'Cancel', style: 'cancel' },
+      ]
+    );
+  };
+
+  const startVoiceNote = async (): Promise<void> => {
+    try {
+      await attachments.startRecording();
+    } catch (error) {
+      console.error('[ChatScreen] Failed to start recording:', error);
+      Alert.alert('Can\'t record', (error as Error).message || 'Please try again.');
     }
   };
 
-  // Update message status
-  const updateMessageStatus = (messageId: string, status: MessageStatus) => {
-    setMessages(prev => prev.map(msg => 
-      msg.id === messageId ? { ...msg, status } : msg
-    ));
+  const retryMessage = (messageId: string): void => {
+    messageOutbox.retry(conversation.id, messageId);
+  };
+
+  const deleteMessage = async (messageId: string): Promise<void> => {
+    await messageOutbox.remove(conversation.id, messageId);
+    await removeMessages([messageId]);
   };
 
   // Handle typing indicator
@@ -292,12 +336,17 @@ export const ChatScreen: React.FC<ChatScreenProps> = ({ route }) => {
               styles.messageBubble,
               isFromUser ? styles.userMessageBubble : styles.coachMessageBubble
             ]}>
-              <Text style={[
-                styles.messageText,
-                isFromUser ? styles.userMessageText : styles.coachMessageText
-              ]}>
-                {message.text || message.message}
-              </Text>
+              {message.attachments?.map(attachment => (
+                <MessageAttachment key={attachment.id} attachment={attachment} isFromUser={isFromUser} />
+              ))}
+              {!!(message.text || message.message) && (
+                <Text style={[
+                  styles.messageText,
+                  isFromUser ? styles.userMessageText : styles.coachMessageText
+                ]}>
+                  {message.text || message.message}
+                </Text>
+              )}
               <View style={styles.messageFooter}>
                 <Text style={[
                   styles.messageTime,
@@ -309,6 +358,9 @@ export const ChatScreen: React.FC<ChatScreenProps> = ({ route }) => {
                   <MessageStatusIndicator 
                     status={message.status} 
                     size="small"
+                    uploadProgress={getUploadProgress(message)}
+                    onRetry={() => retryMessage(message.id)}
+                    onDelete={() => deleteMessage(message.id)}
                   />
                 )}
               </View>
@@ -353,7 +405,14 @@ export const ChatScreen: React.FC<ChatScreenProps> = ({ route }) => {
           style={styles.messagesContainer}
           contentContainerStyle={styles.messagesContent}
           showsVerticalScrollIndicator={false}
+          onScroll={handleScroll}
+          scrollEventThrottle={200}
+          // Keep the visible messages in place when older ones are added above
+          maintainVisibleContentPosition={{ minIndexForVisible: 0 }}
         >
+          {loadingOlder && (
+            <ActivityIndicator style={styles.olderMessagesLoader} size="small" color="#666" />
+          )}
           {messages.map((message, index) => renderMessage(message, index))}
           
           {/* Typing indicator */}
@@ -363,23 +422,61 @@ export const ChatScreen: React.FC<ChatScreenProps> = ({ route }) => {
           />
         </ScrollView>
 
-        <View style={styles.inputContainer}>
-          <WorkaroundTextInput
-            style={styles.textInput}
-            value={newMessage}
-            onChangeText={handleTextChange}
-            placeholder="Type a message..."
-            multiline
-            maxLength={1000}
-          />
-          <TouchableOpacity
-            style={[styles.sendButton, !newMessage.trim() && styles.sendButtonDisabled]}
-            onPress={sendMessage}
-            disabled={!newMessage.trim()}
-          >
-            <Text style={styles.sendButtonText}>Send</Text>
-          </TouchableOpacity>
-        </View>
+        {attachments.isRecording ? (
+          <View style={styles.inputContainer}>
+            <Text style={styles.recordingIndicator}>●</Text>
+            <Text style={styles.recordingText}>
+              Recording {formatDuration(attachments.recordingDurationMs)}
+            </Text>
+            <TouchableOpacity
+              style={styles.attachButton}
+              onPress={attachments.cancelRecording}
+              accessibilityRole="button"
+              accessibilityLabel="Discard voice note"
+            >
+              <Text style={styles.recordingCancelText}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.sendButton}
+              onPress={() => attach(attachments.stopRecording)}
+            >
+              <Text style={styles.sendButtonText}>Send</Text>
+            </TouchableOpacity>
+          </View>
+        ) : (
+          <View style={styles.inputContainer}>
+            <TouchableOpacity
+              style={styles.attachButton}
+              onPress={showAttachmentOptions}
+              accessibilityRole="button"
+              accessibilityLabel="Add attachment"
+            >
+              <Text style={styles.attachButtonText}>📎</Text>
+            </TouchableOpacity>
+            <WorkaroundTextInput
+              style={styles.textInput}
+              value={newMessage}
+              onChangeText={handleTextChange}
+              placeholder="Type a message..."
+              multiline
+              maxLength={1000}
+            />
+            {newMessage.trim() ? (
+              <TouchableOpacity style={styles.sendButton} onPress={sendMessage}>
+                <Text style={styles.sendButtonText}>Send</Text>
+              </TouchableOpacity>
+            ) : (
+              <TouchableOpacity
+                style={styles.sendButton}
+                onPress={startVoiceNote}
+                accessibilityRole="button"
+                accessibilityLabel="Record voice note"
+              >
+                <Text style={styles.sendButtonText}>🎤</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        )}
       </KeyboardAvoidingView>
     </SafeAreaView>
   );
@@ -429,6 +526,9 @@ const styles = StyleSheet.create({
   messagesContent: {
     padding: 16,
   },
+  olderMessagesLoader: {
+    marginBottom: 8,
+  },
   dateContainer: {
     alignItems: 'center',
     marginVertical: 16,
@@ -528,8 +628,29 @@ const styles = StyleSheet.create({
     paddingVertical: 12,
     borderRadius: 20,
   },
-  sendButtonDisabled: {
-    backgroundColor: '#ccc',
+  attachButton: {
+    paddingVertical: 12,
+    marginRight: 8,
+  },
+  attachButtonText: {
+    fontSize: 20,
+  },
+  recordingIndicator: {
+    color: '#dc3545',
+    fontSize: 14,
+    paddingVertical: 14,
+    marginRight: 8,
+  },
+  recordingText: {
+    flex: 1,
+    fontSize: 16,
+    color: '#333',
+    paddingVertical: 12,
+  },
+  recordingCancelText: {
+    fontSize: 16,
+    color: '#666',
+    marginRight: 4,
   },
   sendButtonText: {
     color: 'white',
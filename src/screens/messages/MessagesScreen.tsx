@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useCallback } from 'react';
 import {
   View,
   Text,
@@ -8,40 +8,15 @@ import {
   SafeAreaView,
   RefreshControl,
 } from 'react-native';
+import { useFocusEffect } from '@react-navigation/native';
 import { useAuth } from '../../context/AuthContext';
 import { Conversation } from '../../types';
 import { Loading } from '../../components/Loading';
 import { useMainNavigation } from '../../hooks/useNavigation';
-
-const mockConversations: Conversation[] = [
-  {
-    id: '1',
-    coachId: '1',
-    coachName: 'Sarah Johnson',
-    lastMessage: 'Looking forward to our session tomorrow!',
-    lastMessageTime: '2025-01-11T14:30:00Z',
-    unreadCount: 2,
-    messages: [],
-  },
-  {
-    id: '2',
-    coachId: '2',
-    coachName: 'Michael Chen',
-    lastMessage: 'Here are the resources I mentioned...',
-    lastMessageTime: '2025-01-10T16:45:00Z',
-    unreadCount: 0,
-    messages: [],
-  },
-  {
-    id: '3',
-    coachId: '3',
-    coachName: 'Emily Rodriguez',
-    lastMessage: 'Thanks for the great session!',
-    lastMessageTime: '2025-01-09T11:20:00Z',
-    unreadCount: 1,
-    messages: [],
-  },
-];
+import { useRealtimeMessaging } from '../../hooks/useRealtimeMessaging';
+import DataService from '../../services/DataService';
+import { offlineDataService } from '../../services/OfflineDataService';
+import { applyConversationSummary } from '../../utils/chatHistory';
 
 export const MessagesScreen: React.FC = () => {
   const navigation = useMainNavigation();
@@ -50,25 +25,43 @@ export const MessagesScreen: React.FC = () => {
   const [isLoading, setIsLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
 
-  useEffect(() => {
-    loadConversations();
-  }, []);
+  const loadConversations = useCallback(async (forceRefresh = false): Promise<void> => {
+    if (!user) return;
 
-  const loadConversations = async (): Promise<void> => {
-    setIsLoading(true);
     try {
-      await new Promise(resolve => setTimeout(resolve, 1000));
-      setConversations(mockConversations);
+      const serverConversations = await DataService.getConversations(user.id, { forceRefresh });
+      // The stored history is the most up to date record of what was said and read on this device
+      const withHistory = await Promise.all(serverConversations.map(async conversation =>
+        applyConversationSummary(
+          conversation,
+          await offlineDataService.getConversationMessages(conversation.id),
+          user.id
+        )
+      ));
+      setConversations(withHistory.sort((a, b) =>
+        new Date(b.lastMessageTime).getTime() - new Date(a.lastMessageTime).getTime()
+      ));
     } catch (error) {
       console.error('Failed to load conversations:', error);
     } finally {
       setIsLoading(false);
     }
-  };
+  }, [user]);
+
+  // Returning from a chat can change its last message and unread count
+  useFocusEffect(useCallback(() => {
+    loadConversations();
+  }, [loadConversations]));
+
+  useRealtimeMessaging({
+    onMessageReceived: () => {
+      loadConversations();
+    },
+  });
 
   const onRefresh = async (): Promise<void> => {
     setRefreshing(true);
-    await loadConversations();
+    await loadConversations(true);
     setRefreshing(false);
   };
 
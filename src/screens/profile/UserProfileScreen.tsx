@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import {
   View,
   Text,
@@ -7,6 +7,7 @@ import {
   TouchableOpacity,
   SafeAreaView,
   Alert,
+  Switch,
 } from 'react-native';
 import { useAuth } from '../../context/AuthContext';
 import { useTheme } from '../../context/ThemeContext';
@@ -15,6 +16,10 @@ import { ThemeSelector } from '../../components/ThemeSelector';
 import { FilterOptions } from '../../components/search/FilterModal';
 import { useMainNavigation } from '../../hooks/useNavigation';
 import { ColorScheme } from '../../theme/colors';
+import { calendarService } from '../../services/CalendarService';
+import { accountService } from '../../services/AccountService';
+import { User } from '../../types';
+import { getErrorMessage } from '../../utils/errorHandling';
 
 const specialties = [
   'Life & Career Coach',
@@ -26,7 +31,7 @@ const specialties = [
 
 export const UserProfileScreen: React.FC = () => {
   const navigation = useMainNavigation();
-  const { user, logout } = useAuth();
+  const { user, logout, updateUser } = useAuth();
   const { theme, themeName, isAutoTheme, availableThemes } = useTheme();
   const [isEditing, setIsEditing] = useState(false);
   const [showThemeSelector, setShowThemeSelector] = useState(false);
@@ -40,9 +45,56 @@ export const UserProfileScreen: React.FC = () => {
     user?.preferences.priceRange || [0, 500]
   );
 
+  const [blockBusyTimes, setBlockBusyTimes] = useState(false);
+
+  // Publish the coach's busy calendar times up front so they stay current
+  const publishBusyTimes = async (enabled: boolean): Promise<void> => {
+    if (!user) return;
+    await accountService.publishBusyTimes(user, enabled);
+  };
+
+  useEffect(() => {
+    if (user?.userType !== 'coach') return;
+
+    calendarService.isBusyTimeBlockingEnabled().then(enabled => {
+      setBlockBusyTimes(enabled);
+      if (enabled) {
+        publishBusyTimes(true).catch(error =>
+          console.error('Error refreshing busy calendar times:', error)
+        );
+      }
+    });
+  }, [user?.id, user?.coachProfile?.coachId]);
+
+  const handleToggleBusyTimes = async (enabled: boolean): Promise<void> => {
+    setBlockBusyTimes(enabled);
+    try {
+      await publishBusyTimes(enabled);
+      await calendarService.setBusyTimeBlockingEnabled(enabled);
+    } catch (error) {
+      setBlockBusyTimes(!enabled);
+      Alert.alert('Error', getErrorMessage(error) || 'Failed to update your calendar settings.');
+    }
+  };
+
   const handleSave = async (): Promise<void> => {
+    if (!user) return;
+
+    const updated: User = {
+      ...user,
+      name: editedName.trim(),
+      email: editedEmail.trim(),
+      preferences: {
+        ...user.preferences,
+        location: editedLocation.trim(),
+        specialty: selectedSpecialties,
+        priceRange,
+      },
+    };
+
     try {
-      // TODO: Implement API call to update user profile
+      const saved = await accountService.saveProfile(user, updated);
+      await updateUser(saved);
       Alert.alert('Success', 'Profile updated successfully!');
       setIsEditing(false);
     } catch (error) {
@@ -258,6 +310,40 @@ export const UserProfileScreen: React.FC = () => {
           </View>
         )}
 
+        {user.userType === 'coach' && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Calendar</Text>
+
+            <View style={styles.verificationStatusContainer}>
+              <View style={styles.calendarToggleText}>
+                <Text style={styles.fieldLabel}>Block busy times</Text>
+                <Text style={styles.fieldValue}>
+                  Hide times that are busy in your device calendar from clients
+                </Text>
+              </View>
+              <Switch
+                value={blockBusyTimes}
+                onValueChange={handleToggleBusyTimes}
+                trackColor={{ false: theme.border, true: theme.primary }}
+              />
+            </View>
+          </View>
+        )}
+
+        {user.userType === 'coach' && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Group Sessions</Text>
+
+            <TouchableOpacity
+              style={styles.themeSelector}
+              onPress={() => navigation.navigate('GroupRoster')}
+            >
+              <Text style={styles.themeText}>Workshop rosters</Text>
+              <Text style={styles.chevron}>›</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>Appearance</Text>
           
@@ -502,6 +588,10 @@ const createStyles = (theme: ColorScheme) => StyleSheet.create({
     alignItems: 'center',
     justifyContent: 'space-between',
   },
+  calendarToggleText: {
+    flex: 1,
+    marginRight: 12,
+  },
   verificationStatus: {
     fontSize: 16,
     fontWeight: '600',
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
 import {
   View,
   Text,
@@ -9,71 +9,53 @@ import {
   RefreshControl,
   Alert,
 } from 'react-native';
+import { RouteProp } from '@react-navigation/native';
 import { useAuth } from '../../context/AuthContext';
-import { BookedSession } from '../../types';
+import { BookedSession, PackageCredit, TimeSlot } from '../../types';
+import { MainStackParamList } from '../../types/navigation';
 import { Loading } from '../../components/LoadingStates';
 import { ErrorDisplay } from '../../components/ErrorDisplay';
 import { ReviewModal } from '../../components/ReviewModal';
+import { RescheduleModal } from '../../components/scheduling/RescheduleModal';
 import { useMainNavigation } from '../../hooks/useNavigation';
 import { getCoachById } from '../../utils/mockData';
 import { useNotifications } from '../../hooks/useNotifications';
 import { useSessions } from '../../hooks/useDataService';
+import { cancellationService } from '../../services/CancellationService';
+import { bookingService } from '../../services/BookingService';
+import { packageService } from '../../services/PackageService';
+import DataService from '../../services/DataService';
+import { describeCreditReturn, describeRefund } from '../../utils/cancellationPolicy';
+import { getErrorMessage } from '../../utils/errorHandling';
+import { getRemainingReschedules } from '../../utils/reschedulePolicy';
+import { isGroupSlot } from '../../utils/groupSessions';
+import {
+  formatCoachLocalTime,
+  formatInTimeZone,
+  formatSlotTimeRange,
+  getSlotStartDate,
+} from '../../utils/timeSlots';
+
+interface MySessionsScreenProps {
+  route: RouteProp<MainStackParamList, 'MySessions'>;
+}
 
-const mockSessions: BookedSession[] = [
-  {
-    id: '1',
-    coachId: '1',
-    coachName: 'Sarah Johnson',
-    timeSlot: {
-      id: '1-1',
-      start: '09:00',
-      end: '10:00',
-      available: false,
-      date: '2025-01-20',
-    },
-    status: 'upcoming',
-    price: 80,
-    notes: 'Focus on career transition planning',
-  },
-  {
-    id: '2',
-    coachId: '2',
-    coachName: 'Michael Chen',
-    timeSlot: {
-      id: '2-1',
-      start: '16:00',
-      end: '17:00',
-      available: false,
-      date: '2025-01-18',
-    },
-    status: 'upcoming',
-    price: 120,
-    notes: 'Business strategy session',
-  },
-  {
-    id: '3',
-    coachId: '1',
-    coachName: 'Sarah Johnson',
-    timeSlot: {
-      id: '1-2',
-      start: '10:00',
-      end: '11:00',
-      available: false,
-      date: '2025-01-10',
-    },
-    status: 'completed',
-    price: 80,
-    notes: 'Great session on goal setting',
-  },
-];
-
-export const MySessionsScreen: React.FC = () => {
+export const MySessionsScreen: React.FC<MySessionsScreenProps> = ({ route }) => {
   const navigation = useMainNavigation();
+  const linkedSessionId = route.params?.sessionId;
   const { user } = useAuth();
-  const { cancelSessionNotifications, scheduledCount } = useNotifications();
+  const { scheduledCount } = useNotifications();
   const [activeTab, setActiveTab] = useState<'upcoming' | 'completed'>('upcoming');
   const [showReviewModal, setShowReviewModal] = useState(false);
   const [reviewingSession, setReviewingSession] = useState<BookedSession | null>(null);
+  const [reschedulingSession, setReschedulingSession] = useState<BookedSession | null>(null);
+  const [rescheduleSlots, setRescheduleSlots] = useState<TimeSlot[]>([]);
+  const [remainingReschedules, setRemainingReschedules] = useState(0);
+  const [credits, setCredits] = useState<PackageCredit[]>([]);
+  const scrollViewRef = useRef<ScrollView>(null);
+  // Where each session card sits in the list, so a deep link can scroll to it
+  const cardOffsets = useRef(new Map<string, number>());
+  const [highlightedSessionId, setHighlightedSessionId] = useState<string | null>(null);
 
   // Use the new data service with caching
   const { 
@@ -87,13 +69,60 @@ export const MySessionsScreen: React.FC = () => {
     cacheTTL: 2 * 60 * 1000 // 2 minute cache for fresh session data
   });
 
+  const loadCredits = useCallback(async (): Promise<void> => {
+    if (!user) return;
+    try {
+      setCredits(await packageService.getCredits(user.id, { forceRefresh: true }));
+    } catch (error) {
+      console.error('Error loading package credits:', error);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    loadCredits();
+  }, [loadCredits]);
+
+  // Show the session a deep link points at once it has loaded
+  useEffect(() => {
+    if (!linkedSessionId || !sessions) return;
+
+    const linked = sessions.find(session => session.id === linkedSessionId);
+    if (!linked) {
+      console.warn(`[MySessions] Linked session ${linkedSessionId} not found`);
+      return;
+    }
+    if (linked.status === 'upcoming' || linked.status === 'completed') {
+      setActiveTab(linked.status);
+    }
+    setHighlightedSessionId(linked.id);
+    navigation.setParams({ sessionId: undefined });
+  }, [linkedSessionId, sessions, navigation]);
+
+  // Cards already on screen won't lay out again, so scroll to where they were
+  useEffect(() => {
+    const offset = highlightedSessionId ? cardOffsets.current.get(highlightedSessionId) : undefined;
+    if (offset !== undefined) {
+      scrollViewRef.current?.scrollTo({ y: offset, animated: true });
+    }
+  }, [highlightedSessionId]);
+
+  const handleCardLayout = (sessionId: string, y: number): void => {
+    cardOffsets.current.set(sessionId, y);
+    if (sessionId === highlightedSessionId) {
+      scrollViewRef.current?.scrollTo({ y, animated: true });
+    }
+  };
+
+  const handleRefresh = async (): Promise<void> => {
+    await Promise.all([refresh(), loadCredits()]);
+  };
+
   const getFilteredSessions = (): BookedSession[] => {
     return (sessions || []).filter(session => session.status === activeTab);
   };
 
-  const formatDate = (dateString: string): string => {
-    const date = new Date(dateString);
-    return date.toLocaleDateString('en-US', {
+  const formatDate = (slot: TimeSlot): string => {
+    return formatInTimeZone(getSlotStartDate(slot), {
       weekday: 'long',
       year: 'numeric',
       month: 'long',
@@ -127,21 +156,38 @@ export const MySessionsScreen: React.FC = () => {
   };
 
   const handleSubmitReview = async (rating: number, comment: string): Promise<void> => {
-    if (!reviewingSession) return;
+    if (!reviewingSession || !user) return;
     
     try {
-      // TODO: Implement API call to submit review
-      await new Promise(resolve => setTimeout(resolve, 1000));
+      // Keyed by session so a retried submit doesn't add the review twice
+      await DataService.submitReview(reviewingSession.coachId, {
+        id: `review_${reviewingSession.id}`,
+        userId: user.id,
+        userName: user.name,
+        rating,
+        comment,
+        date: new Date().toISOString(),
+      });
       Alert.alert('Thank you!', 'Your review has been submitted successfully.');
     } catch (error) {
       throw new Error('Failed to submit review');
     }
   };
 
-  const handleCancelSession = (session: BookedSession): void => {
+  const handleCancelSession = async (session: BookedSession): Promise<void> => {
+    let refundMessage = '';
+    try {
+      const { refund, policy } = await cancellationService.quoteCancellation(session);
+      refundMessage = session.packageCreditId
+        ? `\n\n${describeCreditReturn(refund, policy)}`
+        : `\n\n${describeRefund(refund, policy)}`;
+    } catch (error) {
+      console.error('Error calculating refund:', error);
+    }
+
     Alert.alert(
       'Cancel Session',
-      `Are you sure you want to cancel your session with ${session.coachName}?`,
+      `Are you sure you want to cancel your session with ${session.coachName}?${refundMessage}`,
       [
         { text: 'Keep Session', style: 'cancel' },
         { 
@@ -149,17 +195,30 @@ export const MySessionsScreen: React.FC = () => {
           style: 'destructive',
           onPress: async () => {
             try {
-              // Cancel associated notifications
-              await cancelSessionNotifications(session.id);
-              
-              // TODO: Implement actual session cancellation API call
+              const { refund, refunded, refundPending, creditRestored } = await cancellationService.cancelSession(
+                session,
+                'Cancelled by client'
+              );
+
+              let refundText = 'No refund applies to this cancellation.';
+              if (creditRestored) {
+                refundText = 'The session has been returned to your package.';
+              } else if (refunded) {
+                refundText = `A refund of $${refund.amount.toFixed(2)} has been issued and should appear within 3-5 business days.`;
+              } else if (refundPending && session.packageCreditId) {
+                refundText = 'The session could not be returned to your package yet. Please contact support if it does not appear.';
+              } else if (refundPending) {
+                refundText = `Your refund of $${refund.amount.toFixed(2)} could not be issued yet. Please contact support if it doesn't arrive.`;
+              }
+
               Alert.alert(
                 'Session Cancelled', 
-                'Your session has been cancelled. Reminder notifications have been removed and you will receive a refund within 3-5 business days.'
+                `Your session has been cancelled and reminder notifications have been removed. ${refundText}`
               );
+              await handleRefresh();
             } catch (error) {
               console.error('Error cancelling session:', error);
-              Alert.alert('Error', 'Failed to cancel session. Please try again.');
+              Alert.alert('Error', getErrorMessage(error) || 'Failed to cancel session. Please try again.');
             }
           }
         }
@@ -167,6 +226,41 @@ export const MySessionsScreen: React.FC = () => {
     );
   };
 
+  const handleReschedule = async (session: BookedSession): Promise<void> => {
+    try {
+      const coach = await DataService.getCoach(session.coachId, { forceRefresh: true });
+      const remaining = getRemainingReschedules(session, coach);
+
+      if (remaining <= 0) {
+        Alert.alert(
+          'Reschedule Limit Reached',
+          `${session.coachName} doesn't allow this session to be rescheduled again. You can still cancel it or message your coach.`
+        );
+        return;
+      }
+
+      setRescheduleSlots(await DataService.getCoachAvailability(session.coachId));
+      setRemainingReschedules(remaining);
+      setReschedulingSession(session);
+    } catch (error) {
+      console.error('Error loading coach availability:', error);
+      Alert.alert('Error', getErrorMessage(error) || 'Failed to load availability. Please try again.');
+    }
+  };
+
+  const handleConfirmReschedule = async (slot: TimeSlot): Promise<void> => {
+    if (!reschedulingSession) return;
+
+    const rescheduled = await bookingService.rescheduleSession(reschedulingSession, slot);
+    setReschedulingSession(null);
+
+    Alert.alert(
+      'Session Rescheduled',
+      `Your session with ${rescheduled.coachName} has moved to ${formatDate(rescheduled.timeSlot)} at ${formatSlotTimeRange(rescheduled.timeSlot)}. Your reminders have been updated.`
+    );
+    await refresh();
+  };
+
   const handleBookAgain = (session: BookedSession): void => {
     const coach = getCoachById(session.coachId);
     if (coach) {
@@ -231,12 +325,39 @@ export const MySessionsScreen: React.FC = () => {
         />
       ) : (
         <ScrollView
+          ref={scrollViewRef}
           style={styles.content}
           refreshControl={
-            <RefreshControl refreshing={loading} onRefresh={refresh} />
+            <RefreshControl refreshing={loading} onRefresh={handleRefresh} />
           }
           showsVerticalScrollIndicator={false}
         >
+          {activeTab === 'upcoming' && credits.length > 0 && (
+            <View style={styles.creditsSection}>
+              <Text style={styles.creditsTitle}>Your Packages</Text>
+              {credits.map(credit => (
+                <View key={credit.id} style={styles.creditCard}>
+                  <View style={styles.creditInfo}>
+                    <Text style={styles.creditName}>{credit.packageName}</Text>
+                    <Text style={styles.creditCoach}>with {credit.coachName}</Text>
+                  </View>
+                  <View style={styles.creditBalance}>
+                    <Text style={styles.creditRemaining}>
+                      {credit.remainingSessions} of {credit.totalSessions} left
+                    </Text>
+                    <Text style={styles.creditExpiry}>
+                      Expires {formatInTimeZone(new Date(credit.expiresAt), {
+                        month: 'short',
+                        day: 'numeric',
+                        year: 'numeric',
+                      })}
+                    </Text>
+                  </View>
+                </View>
+              ))}
+            </View>
+          )}
+
           {filteredSessions.length === 0 ? (
           <View style={styles.emptyState}>
             <Text style={styles.emptyStateTitle}>
@@ -261,8 +382,9 @@ export const MySessionsScreen: React.FC = () => {
           filteredSessions.map((session) => (
             <TouchableOpacity
               key={session.id}
-              style={styles.sessionCard}
+              style={[styles.sessionCard, session.id === highlightedSessionId && styles.highlightedCard]}
               onPress={() => handleSessionPress(session)}
+              onLayout={event => handleCardLayout(session.id, event.nativeEvent.layout.y)}
             >
               <View style={styles.sessionHeader}>
                 <Text style={styles.coachName}>{session.coachName}</Text>
@@ -275,13 +397,23 @@ export const MySessionsScreen: React.FC = () => {
 
               <View style={styles.sessionDetails}>
                 <Text style={styles.sessionDate}>
-                  📅 {formatDate(session.timeSlot.date)}
+                  📅 {formatDate(session.timeSlot)}
                 </Text>
                 <Text style={styles.sessionTime}>
-                  🕐 {session.timeSlot.start} - {session.timeSlot.end}
+                  🕐 {formatSlotTimeRange(session.timeSlot)}
                 </Text>
+                {formatCoachLocalTime(session.timeSlot) && (
+                  <Text style={styles.coachTime}>
+                    Coach's time: {formatCoachLocalTime(session.timeSlot)}
+                  </Text>
+                )}
+                {isGroupSlot(session.timeSlot) && (
+                  <Text style={styles.sessionTime}>
+                    👥 {session.timeSlot.title ?? 'Group session'} · {session.timeSlot.capacity} seats
+                  </Text>
+                )}
                 <Text style={styles.sessionPrice}>
-                  💰 ${session.price}
+                  {session.packageCreditId ? '🎟️ Paid with package credit' : `💰 $${session.price}`}
                 </Text>
               </View>
 
@@ -301,6 +433,12 @@ export const MySessionsScreen: React.FC = () => {
                     >
                       <Text style={styles.actionButtonText}>Message Coach</Text>
                     </TouchableOpacity>
+                    <TouchableOpacity 
+                      style={styles.actionButton}
+                      onPress={() => handleReschedule(session)}
+                    >
+                      <Text style={styles.actionButtonText}>Reschedule</Text>
+                    </TouchableOpacity>
                     <TouchableOpacity 
                       style={[styles.actionButton, styles.cancelButton]}
                       onPress={() => handleCancelSession(session)}
@@ -342,6 +480,15 @@ export const MySessionsScreen: React.FC = () => {
         coachName={reviewingSession?.coachName || ''}
         onSubmit={handleSubmitReview}
       />
+
+      <RescheduleModal
+        visible={!!reschedulingSession}
+        session={reschedulingSession}
+        availableSlots={rescheduleSlots}
+        remainingReschedules={remainingReschedules}
+        onClose={() => setReschedulingSession(null)}
+        onConfirm={handleConfirmReschedule}
+      />
     </SafeAreaView>
   );
 };
@@ -351,6 +498,52 @@ const styles = StyleSheet.create({
     flex: 1,
     backgroundColor: '#f8f9fa',
   },
+  creditsSection: {
+    marginBottom: 16,
+  },
+  creditsTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 8,
+  },
+  creditCard: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 8,
+    borderLeftWidth: 4,
+    borderLeftColor: '#0066CC',
+  },
+  creditInfo: {
+    flex: 1,
+  },
+  creditName: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#333',
+  },
+  creditCoach: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 2,
+  },
+  creditBalance: {
+    alignItems: 'flex-end',
+  },
+  creditRemaining: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#0066CC',
+  },
+  creditExpiry: {
+    fontSize: 12,
+    color: '#999',
+    marginTop: 2,
+  },
   header: {
     padding: 20,
     backgroundColor: '#fff',
@@ -443,6 +636,10 @@ const styles = StyleSheet.create({
     shadowRadius: 4,
     elevation: 3,
   },
+  highlightedCard: {
+    borderWidth: 2,
+    borderColor: '#0066CC',
+  },
   sessionHeader: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -478,6 +675,11 @@ const styles = StyleSheet.create({
     color: '#333',
     marginBottom: 4,
   },
+  coachTime: {
+    fontSize: 14,
+    color: '#666',
+    marginBottom: 4,
+  },
   sessionPrice: {
     fontSize: 16,
     color: '#0066CC',
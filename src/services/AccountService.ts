@@ -0,0 +1,152 @@
+import DataService from './DataService';
+import { calendarService } from './CalendarService';
+import { offlineDataService } from './OfflineDataService';
+import { Coach, CoachProfileUpdate, User, UserType } from '../types';
+import { createValidationError } from '../utils/errorHandling';
+import { getDeviceTimeZone } from '../utils/timeSlots';
+
+const BUSY_TIME_WINDOW_DAYS = 30;
+
+/**
+ * The public listing a coach account starts out with, filled in from their profile
+ */
+function buildCoachListing(user: User): Coach {
+  const profile = user.coachProfile;
+  const price = profile?.hourlyRate ?? 0;
+  return {
+    id: `coach_${user.id}`,
+    name: user.name,
+    specialty: profile?.specialties[0] ?? '',
+    rating: 0,
+    sessions: 0,
+    price,
+    priceDisplay: `$${price}/hour`,
+    description: profile?.bio ?? '',
+    availability: [],
+    location: user.preferences.location,
+    timeZone: getDeviceTimeZone(),
+    experience: 0,
+    languages: [],
+    tags: [],
+    reviews: [],
+  };
+}
+
+class AccountService {
+  private static instance: AccountService;
+
+  private constructor() {}
+
+  public static getInstance(): AccountService {
+    if (!AccountService.instance) {
+      AccountService.instance = new AccountService();
+    }
+    return AccountService.instance;
+  }
+
+  /**
+   * Create a new account. Coaches also get the listing clients book them through.
+   */
+  async register(name: string, email: string, userType: UserType): Promise<User> {
+    const user: User = {
+      id: Date.now().toString(),
+      email,
+      name,
+      userType,
+      preferences: {
+        specialty: [],
+        priceRange: [0, 500],
+        location: '',
+      },
+      bookedSessions: [],
+      ...(userType === 'coach' && {
+        coachProfile: {
+          specialties: [],
+          hourlyRate: 0,
+          bio: '',
+          rating: 0,
+          totalSessions: 0,
+          verified: false,
+          verificationStatus: 'pending' as const,
+        },
+      }),
+    };
+    return this.linkCoachListing(user);
+  }
+
+  /**
+   * Give a coach account a listing of its own if it doesn't have one yet.
+   * Sessions, rosters and busy times all hang off the listing's id.
+   */
+  async linkCoachListing(user: User): Promise<User> {
+    if (user.userType !== 'coach' || !user.coachProfile || user.coachProfile.coachId) {
+      return user;
+    }
+
+    // Keyed by the account, so a retry after a lost response doesn't create a second listing
+    const listing = buildCoachListing(user);
+    const coach = await DataService.createCoach(listing, { idempotencyKey: listing.id });
+    console.log(`[AccountService] Linked coach account ${user.id} to listing ${coach.id}`);
+    return { ...user, coachProfile: { ...user.coachProfile, coachId: coach.id } };
+  }
+
+  /**
+   * Publish the times a coach is busy in their device calendars over the next few weeks,
+   * or clear them when blocking is turned off
+   */
+  async publishBusyTimes(user: User, enabled: boolean): Promise<Coach> {
+    // Busy times belong to the coach listing, which has its own id
+    const coachId = user.coachProfile?.coachId;
+    if (!coachId) {
+      throw createValidationError('Your account is not linked to a coach profile yet.');
+    }
+
+    const busyIntervals = enabled
+      ? await calendarService.getBusyIntervals({
+          from: new Date(),
+          to: new Date(Date.now() + BUSY_TIME_WINDOW_DAYS * 24 * 60 * 60 * 1000),
+        })
+      : [];
+
+    return DataService.updateBusyTimes(
+      coachId,
+      busyIntervals.map(interval => ({
+        startsAt: interval.start.toISOString(),
+        endsAt: interval.end.toISOString(),
+      }))
+    );
+  }
+
+  /**
+   * Save edits to a user's profile. A coach's name and location also appear on their
+   * listing, so changes to those go there too.
+   */
+  async saveProfile(current: User, updated: User): Promise<User> {
+    const coachId = updated.coachProfile?.coachId;
+    const listingChanges: CoachProfileUpdate | null =
+      updated.name !== current.name || updated.preferences.location !== current.preferences.location
+        ? { name: updated.name, location: updated.preferences.location }
+        : null;
+
+    if (!offlineDataService.getNetworkStatus().isConnected) {
+      await offlineDataService.queueAction({ type: 'update', entity: 'user', entityId: updated.id, data: updated });
+      if (coachId && listingChanges) {
+        await offlineDataService.queueAction({
+          type: 'update',
+          entity: 'coach',
+          entityId: coachId,
+          data: { profile: listingChanges },
+        });
+      }
+      return updated;
+    }
+
+    const saved = await DataService.updateUser(updated);
+    if (coachId && listingChanges) {
+      await DataService.updateCoachProfile(coachId, listingChanges);
+    }
+    return saved;
+  }
+}
+
+export const accountService = AccountService.getInstance();
@@ -0,0 +1,113 @@
+import Constants from 'expo-constants';
+import {
+  Coach,
+  BookedSession,
+  Conversation,
+  ChatMessage,
+  TimeSlot,
+  BusyTime,
+  PackageCredit,
+  WaitlistEntry,
+  GroupRoster,
+  Review,
+  CoachProfileUpdate,
+  User,
+  ChatAttachment,
+} from '../types';
+import { secureStorage } from '../utils/secureStorage';
+import { AUTH_TOKEN_STORAGE_KEY } from '../utils/storageKeys';
+import { FetchApiClient } from './FetchApiClient';
+import { MockApiClient } from './MockApiClient';
+
+export type ApiAdapter = 'mock' | 'fetch';
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+export interface ApiClientConfig {
+  adapter: ApiAdapter;
+  baseUrl: string;
+  timeoutMs: number;
+  // Mock adapter only: simulated round-trip latency and failure rate
+  latencyMs?: number;
+  failureRate?: number;
+}
+
+export interface ApiRequestOptions {
+  method?: HttpMethod;
+  body?: unknown;
+  headers?: Record<string, string>;
+  timeoutMs?: number;
+  // Lets the server recognise a retried write and return the original result
+  idempotencyKey?: string;
+}
+
+export type ApiWriteOptions = Pick<ApiRequestOptions, 'idempotencyKey'>;
+
+export type AuthTokenProvider = () => Promise<string | null> | string | null;
+
+// Fraction of the file sent so far, from 0 to 1
+export type UploadProgressListener = (progress: number) => void;
+
+export interface ApiClient {
+  readonly baseUrl: string;
+  setAuthTokenProvider(provider: AuthTokenProvider | null): void;
+  request<T>(path: string, options?: ApiRequestOptions): Promise<T>;
+  getCoaches(): Promise<Coach[]>;
+  getCoach(coachId: string): Promise<Coach>;
+  createCoach(coach: Coach, options?: ApiWriteOptions): Promise<Coach>;
+  getUser(userId: string): Promise<User>;
+  updateUser(user: User, options?: ApiWriteOptions): Promise<User>;
+  getSessions(userId: string): Promise<BookedSession[]>;
+  getSession(sessionId: string): Promise<BookedSession>;
+  createSession(session: BookedSession, options?: ApiWriteOptions): Promise<BookedSession>;
+  updateSession(session: BookedSession, options?: ApiWriteOptions): Promise<BookedSession>;
+  rescheduleSession(sessionId: string, slot: TimeSlot, options?: ApiWriteOptions): Promise<BookedSession>;
+  reserveSlot(coachId: string, slot: TimeSlot, userId?: string, options?: ApiWriteOptions): Promise<Coach>;
+  releaseSlot(coachId: string, slotId: string, options?: ApiWriteOptions): Promise<Coach>;
+  updateBusyTimes(coachId: string, busyTimes: BusyTime[]): Promise<Coach>;
+  updateCoachProfile(coachId: string, changes: CoachProfileUpdate): Promise<Coach>;
+  submitReview(coachId: string, review: Review, options?: ApiWriteOptions): Promise<Coach>;
+  getGroupRosters(coachId: string): Promise<GroupRoster[]>;
+  getPackageCredits(userId: string): Promise<PackageCredit[]>;
+  createPackageCredit(credit: PackageCredit): Promise<PackageCredit>;
+  redeemPackageCredit(creditId: string, sessions: number): Promise<PackageCredit>;
+  restorePackageCredit(creditId: string, sessions: number): Promise<PackageCredit>;
+  getWaitlist(userId: string): Promise<WaitlistEntry[]>;
+  joinWaitlist(entry: WaitlistEntry): Promise<WaitlistEntry>;
+  leaveWaitlist(entryId: string): Promise<WaitlistEntry>;
+  getConversations(userId: string): Promise<Conversation[]>;
+  getMessages(conversationId: string): Promise<ChatMessage[]>;
+  sendMessage(conversationId: string, message: ChatMessage, options?: ApiWriteOptions): Promise<ChatMessage>;
+  uploadAttachment(attachment: ChatAttachment, onProgress?: UploadProgressListener): Promise<ChatAttachment>;
+}
+
+secureStorage.markSensitive(AUTH_TOKEN_STORAGE_KEY);
+
+const DEFAULT_API_CONFIG: ApiClientConfig = {
+  adapter: 'mock',
+  baseUrl: 'http://localhost:4000',
+  timeoutMs: 10000,
+  latencyMs: 600,
+  failureRate: 0,
+};
+
+/**
+ * Read the API configuration from the `api` block of app.json extras
+ */
+export function getApiConfig(): ApiClientConfig {
+  const extra = (Constants.expoConfig?.extra ?? {}) as { api?: Partial<ApiClientConfig> };
+  return { ...DEFAULT_API_CONFIG, ...(extra.api ?? {}) };
+}
+
+/**
+ * Create the client for the adapter selected in app.json extras
+ */
+export function createApiClient(config: ApiClientConfig = getApiConfig()): ApiClient {
+  const client: ApiClient =
+    config.adapter === 'fetch' ? new FetchApiClient(config) : new MockApiClient(config);
+
+  client.setAuthTokenProvider(() => secureStorage.getItem(AUTH_TOKEN_STORAGE_KEY));
+  return client;
+}
+
+export const apiClient = createApiClient();
@@ -0,0 +1,439 @@
+import {
+  Coach,
+  BookedSession,
+  Conversation,
+  ChatMessage,
+  TimeSlot,
+  BusyTime,
+  PackageCredit,
+  WaitlistEntry,
+  GroupRoster,
+  Review,
+  CoachProfileUpdate,
+  ChatAttachment,
+  User,
+} from '../types';
+import { createServerError } from '../utils/errorHandling';
+import { getDeviceTimeZone, normalizeTimeSlot } from '../utils/timeSlots';
+import type {
+  ApiClient,
+  ApiClientConfig,
+  ApiRequestOptions,
+  ApiWriteOptions,
+  AuthTokenProvider,
+  HttpMethod,
+  UploadProgressListener,
+} from './ApiClient';
+
+/**
+ * Shared request pipeline for all adapters: header building, auth
+ * injection and decoding of the typed endpoints. Adapters only implement
+ * the transport in `send`.
+ */
+export abstract class BaseApiClient implements ApiClient {
+  private authTokenProvider: AuthTokenProvider | null = null;
+  // Time zones of the coaches seen so far, for slots the API sends without one
+  private coachTimeZones = new Map<string, string>();
+  private coachTimeZonesLoaded = false;
+
+  constructor(protected readonly config: ApiClientConfig) {}
+
+  get baseUrl(): string {
+    return this.config.baseUrl;
+  }
+
+  setAuthTokenProvider(provider: AuthTokenProvider | null): void {
+    this.authTokenProvider = provider;
+  }
+
+  protected abstract send(
+    method: HttpMethod,
+    path: string,
+    body: unknown,
+    headers: Record<string, string>,
+    timeoutMs: number
+  ): Promise<unknown>;
+
+  /**
+   * Upload a local file as a multipart POST, reporting progress as it goes
+   */
+  protected abstract sendFile(
+    path: string,
+    file: ChatAttachment,
+    headers: Record<string, string>,
+    onProgress: UploadProgressListener
+  ): Promise<unknown>;
+
+  async request<T>(path: string, options: ApiRequestOptions = {}): Promise<T> {
+    const { method = 'GET', body, timeoutMs = this.config.timeoutMs } = options;
+
+    const headers = await this.withAuth({
+      Accept: 'application/json',
+      ...(body !== undefined && { 'Content-Type': 'application/json' }),
+      ...(options.idempotencyKey && { 'Idempotency-Key': options.idempotencyKey }),
+      ...options.headers,
+    });
+
+    return (await this.send(method, path, body, headers, timeoutMs)) as T;
+  }
+
+  private async withAuth(headers: Record<string, string>): Promise<Record<string, string>> {
+    const token = this.authTokenProvider ? await this.authTokenProvider() : null;
+    return token ? { ...headers, Authorization: `Bearer ${token}` } : headers;
+  }
+
+  /**
+   * Decode a coach and remember its time zone for reading its sessions' slots
+   */
+  private readCoach(json: unknown): Coach {
+    const coach = decodeCoach(json);
+    this.coachTimeZones.set(coach.id, coach.timeZone);
+    return coach;
+  }
+
+  /**
+   * Time zone to read a slot in when the API leaves it off. Slots are wall-clock times
+   * in the coach's zone, so we look the coach up rather than assume the device's zone.
+   */
+  private async getSlotTimeZone(coachId: unknown, slot: unknown): Promise<string | undefined> {
+    if ((isObject(slot) && typeof slot.timeZone === 'string') || coachId === undefined) {
+      return undefined;
+    }
+    const id = String(coachId);
+    if (!this.coachTimeZones.has(id) && !this.coachTimeZonesLoaded) {
+      await this.getCoaches();
+    }
+    return this.coachTimeZones.get(id);
+  }
+
+  private async readSession(json: unknown): Promise<BookedSession> {
+    const timeZone = isObject(json) ? await this.getSlotTimeZone(json.coachId, json.timeSlot) : undefined;
+    return decodeSession(json, timeZone);
+  }
+
+  private async readWaitlistEntry(json: unknown): Promise<WaitlistEntry> {
+    const timeZone = isObject(json) && isObject(json.hold)
+      ? await this.getSlotTimeZone(json.coachId, json.hold.slot)
+      : undefined;
+    return decodeWaitlistEntry(json, timeZone);
+  }
+
+  /**
+   * Decode a list one item at a time, for decoders that may need to look something up
+   */
+  private async readList<T>(json: unknown, read: (value: unknown) => Promise<T>, entity: string): Promise<T[]> {
+    const decoded: T[] = [];
+    for (const value of decodeList(json, value => value, entity)) {
+      decoded.push(await read(value));
+    }
+    return decoded;
+  }
+
+  async getCoaches(): Promise<Coach[]> {
+    const json = await this.request<unknown>('/coaches');
+    const coaches = decodeList(json, value => this.readCoach(value), 'coaches');
+    this.coachTimeZonesLoaded = true;
+    return coaches;
+  }
+
+  async getCoach(coachId: string): Promise<Coach> {
+    const json = await this.request<unknown>(`/coaches/${encodeURIComponent(coachId)}`);
+    return this.readCoach(json);
+  }
+
+  async createCoach(coach: Coach, options: ApiWriteOptions = {}): Promise<Coach> {
+    const json = await this.request<unknown>('/coaches', { ...options, method: 'POST', body: coach });
+    return this.readCoach(json);
+  }
+
+  async getUser(userId: string): Promise<User> {
+    const json = await this.request<unknown>(`/users/${encodeURIComponent(userId)}`);
+    return decodeUser(json);
+  }
+
+  async updateUser(user: User, options: ApiWriteOptions = {}): Promise<User> {
+    const json = await this.request<unknown>(`/users/${encodeURIComponent(user.id)}`, {
+      ...options,
+      method: 'PUT',
+      body: user,
+    });
+    return decodeUser(json);
+  }
+
+  async getSessions(userId: string): Promise<BookedSession[]> {
+    const json = await this.request<unknown>(`/users/${encodeURIComponent(userId)}/sessions`);
+    return this.readList(json, value => this.readSession(value), 'sessions');
+  }
+
+  async getSession(sessionId: string): Promise<BookedSession> {
+    const json = await this.request<unknown>(`/sessions/${encodeURIComponent(sessionId)}`);
+    return this.readSession(json);
+  }
+
+  async createSession(session: BookedSession, options: ApiWriteOptions = {}): Promise<BookedSession> {
+    const json = await this.request<unknown>('/sessions', { ...options, method: 'POST', body: session });
+    return this.readSession(json);
+  }
+
+  async updateSession(session: BookedSession, options: ApiWriteOptions = {}): Promise<BookedSession> {
+    const json = await this.request<unknown>(`/sessions/${encodeURIComponent(session.id)}`, {
+      ...options,
+      method: 'PUT',
+      body: session,
+    });
+    return this.readSession(json);
+  }
+
+  async rescheduleSession(sessionId: string, slot: TimeSlot, options: ApiWriteOptions = {}): Promise<BookedSession> {
+    const json = await this.request<unknown>(`/sessions/${encodeURIComponent(sessionId)}/reschedule`, {
+      ...options,
+      method: 'POST',
+      body: { slot },
+    });
+    return this.readSession(json);
+  }
+
+  async reserveSlot(coachId: string, slot: TimeSlot, userId?: string, options: ApiWriteOptions = {}): Promise<Coach> {
+    const json = await this.request<unknown>(
+      `/coaches/${encodeURIComponent(coachId)}/slots/${encodeURIComponent(slot.id)}/reserve`,
+      { ...options, method: 'POST', body: { slot, userId } }
+    );
+    return this.readCoach(json);
+  }
+
+  async releaseSlot(coachId: string, slotId: string, options: ApiWriteOptions = {}): Promise<Coach> {
+    const json = await this.request<unknown>(
+      `/coaches/${encodeURIComponent(coachId)}/slots/${encodeURIComponent(slotId)}/release`,
+      { ...options, method: 'POST' }
+    );
+    return this.readCoach(json);
+  }
+
+  async updateBusyTimes(coachId: string, busyTimes: BusyTime[]): Promise<Coach> {
+    const json = await this.request<unknown>(`/coaches/${encodeURIComponent(coachId)}/busy-times`, {
+      method: 'PUT',
+      body: { busyTimes },
+    });
+    return this.readCoach(json);
+  }
+
+  async updateCoachProfile(coachId: string, changes: CoachProfileUpdate): Promise<Coach> {
+    const json = await this.request<unknown>(`/coaches/${encodeURIComponent(coachId)}`, {
+      method: 'PUT',
+      body: changes,
+    });
+    return this.readCoach(json);
+  }
+
+  async submitReview(coachId: string, review: Review, options: ApiWriteOptions = {}): Promise<Coach> {
+    const json = await this.request<unknown>(`/coaches/${encodeURIComponent(coachId)}/reviews`, {
+      ...options,
+      method: 'POST',
+      body: review,
+    });
+    return this.readCoach(json);
+  }
+
+  async getGroupRosters(coachId: string): Promise<GroupRoster[]> {
+    const json = await this.request<unknown>(`/coaches/${encodeURIComponent(coachId)}/rosters`);
+    return this.readList(
+      json,
+      async value => decodeGroupRoster(value, isObject(value) ? await this.getSlotTimeZone(coachId, value.slot) : undefined),
+      'group rosters'
+    );
+  }
+
+  async getPackageCredits(userId: string): Promise<PackageCredit[]> {
+    const json = await this.request<unknown>(`/users/${encodeURIComponent(userId)}/credits`);
+    return decodeList(json, decodePackageCredit, 'package credits');
+  }
+
+  async createPackageCredit(credit: PackageCredit): Promise<PackageCredit> {
+    const json = await this.request<unknown>('/credits', { method: 'POST', body: credit });
+    return decodePackageCredit(json);
+  }
+
+  async redeemPackageCredit(creditId: string, sessions: number): Promise<PackageCredit> {
+    const json = await this.request<unknown>(`/credits/${encodeURIComponent(creditId)}/redeem`, {
+      method: 'POST',
+      body: { sessions },
+    });
+    return decodePackageCredit(json);
+  }
+
+  async restorePackageCredit(creditId: string, sessions: number): Promise<PackageCredit> {
+    const json = await this.request<unknown>(`/credits/${encodeURIComponent(creditId)}/restore`, {
+      method: 'POST',
+      body: { sessions },
+    });
+    return decodePackageCredit(json);
+  }
+
+  async getWaitlist(userId: string): Promise<WaitlistEntry[]> {
+    const json = await this.request<unknown>(`/users/${encodeURIComponent(userId)}/waitlist`);
+    return this.readList(json, value => this.readWaitlistEntry(value), 'waitlist entries');
+  }
+
+  async joinWaitlist(entry: WaitlistEntry): Promise<WaitlistEntry> {
+    const json = await this.request<unknown>(`/coaches/${encodeURIComponent(entry.coachId)}/waitlist`, {
+      method: 'POST',
+      body: entry,
+    });
+    return this.readWaitlistEntry(json);
+  }
+
+  async leaveWaitlist(entryId: string): Promise<WaitlistEntry> {
+    const json = await this.request<unknown>(`/waitlist/${encodeURIComponent(entryId)}/leave`, { method: 'POST' });
+    return this.readWaitlistEntry(json);
+  }
+
+  async getConversations(userId: string): Promise<Conversation[]> {
+    const json = await this.request<unknown>(`/users/${encodeURIComponent(userId)}/conversations`);
+    return decodeList(json, decodeConversation, 'conversations');
+  }
+
+  async getMessages(conversationId: string): Promise<ChatMessage[]> {
+    const json = await this.request<unknown>(
+      `/conversations/${encodeURIComponent(conversationId)}/messages`
+    );
+    return decodeList(json, decodeMessage, 'messages');
+  }
+
+  async sendMessage(conversationId: string, message: ChatMessage, options: ApiWriteOptions = {}): Promise<ChatMessage> {
+    const json = await this.request<unknown>(`/conversations/${encodeURIComponent(conversationId)}/messages`, {
+      ...options,
+      method: 'POST',
+      body: message,
+    });
+    return decodeMessage(json);
+  }
+
+  /**
+   * Upload an attachment's file and return the attachment pointing at the server's copy.
+   * The attachment id doubles as the idempotency key, so a retried upload isn't stored twice.
+   */
+  async uploadAttachment(attachment: ChatAttachment, onProgress: UploadProgressListener = () => {}): Promise<ChatAttachment> {
+    const headers = await this.withAuth({ Accept: 'application/json', 'Idempotency-Key': attachment.id });
+    const json = await this.sendFile('/attachments', attachment, headers, onProgress);
+    return decodeUploadedAttachment(json, attachment);
+  }
+}
+
+// Response decoding
+
+type JsonObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is JsonObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+function requireFields(value: unknown, fields: string[], entity: string): JsonObject {
+  if (!isObject(value)) {
+    throw createServerError(`Malformed ${entity} in API response`);
+  }
+  const missing = fields.find(field => value[field] === undefined || value[field] === null);
+  if (missing) {
+    throw createServerError(`Malformed ${entity} in API response: missing "${missing}"`);
+  }
+  return value;
+}
+
+export function decodeList<T>(json: unknown, decode: (value: unknown) => T, entity: string): T[] {
+  // Accept both bare arrays and `{ data: [...] }` envelopes
+  const list = isObject(json) && Array.isArray(json.data) ? json.data : json;
+  if (!Array.isArray(list)) {
+    throw createServerError(`Malformed ${entity} list in API response`);
+  }
+  return list.map(decode);
+}
+
+export function decodeCoach(value: unknown): Coach {
+  const coach = requireFields(value, ['id', 'name', 'specialty', 'price'], 'coach');
+  const timeZone = typeof coach.timeZone === 'string' ? coach.timeZone : getDeviceTimeZone();
+  return {
+    ...(coach as unknown as Coach),
+    id: String(coach.id),
+    timeZone,
+    availability: Array.isArray(coach.availability)
+      ? (coach.availability as TimeSlot[]).map(slot => normalizeTimeSlot(slot, timeZone))
+      : [],
+    languages: Array.isArray(coach.languages) ? (coach.languages as string[]) : [],
+    tags: Array.isArray(coach.tags) ? (coach.tags as string[]) : [],
+    reviews: Array.isArray(coach.reviews) ? (coach.reviews as Coach['reviews']) : [],
+  };
+}
+
+export function decodeUser(value: unknown): User {
+  const user = requireFields(value, ['id', 'name', 'email'], 'user');
+  return { ...(user as unknown as User), id: String(user.id) };
+}
+
+/**
+ * Slots sent without a time zone are read in coachTimeZone, falling back to the device's
+ */
+export function decodeSession(value: unknown, coachTimeZone: string = getDeviceTimeZone()): BookedSession {
+  const session = requireFields(value, ['id', 'coachId', 'timeSlot', 'status'], 'session');
+  requireFields(session.timeSlot, ['id', 'date', 'start', 'end'], 'session time slot');
+  return {
+    ...(session as unknown as BookedSession),
+    id: String(session.id),
+    coachId: String(session.coachId),
+    timeSlot: normalizeTimeSlot(session.timeSlot as unknown as TimeSlot, coachTimeZone),
+  };
+}
+
+export function decodeGroupRoster(value: unknown, coachTimeZone: string = getDeviceTimeZone()): GroupRoster {
+  const roster = requireFields(value, ['slot', 'attendees'], 'group roster');
+  return {
+    slot: normalizeTimeSlot(roster.slot as unknown as TimeSlot, coachTimeZone),
+    attendees: Array.isArray(roster.attendees) ? (roster.attendees as GroupRoster['attendees']) : [],
+  };
+}
+
+export function decodePackageCredit(value: unknown): PackageCredit {
+  const credit = requireFields(
+    value,
+    ['id', 'packageId', 'coachId', 'userId', 'remainingSessions', 'expiresAt'],
+    'package credit'
+  );
+  return {
+    ...(credit as unknown as PackageCredit),
+    id: String(credit.id),
+    remainingSessions: Number(credit.remainingSessions),
+    totalSessions: Number(credit.totalSessions ?? credit.remainingSessions),
+  };
+}
+
+export function decodeWaitlistEntry(value: unknown, coachTimeZone: string = getDeviceTimeZone()): WaitlistEntry {
+  const entry = requireFields(value, ['id', 'coachId', 'userId', 'status'], 'waitlist entry');
+  const hold = entry.hold as WaitlistEntry['hold'] | undefined;
+  return {
+    ...(entry as unknown as WaitlistEntry),
+    hold: hold ? { ...hold, slot: normalizeTimeSlot(hold.slot, coachTimeZone) } : undefined,
+  };
+}
+
+export function decodeConversation(value: unknown): Conversation {
+  const conversation = requireFields(value, ['id', 'coachId'], 'conversation');
+  return {
+    ...(conversation as unknown as Conversation),
+    id: String(conversation.id),
+    unreadCount: Number(conversation.unreadCount ?? 0),
+    messages: Array.isArray(conversation.messages)
+      ? (conversation.messages as unknown[]).map(decodeMessage)
+      : [],
+  };
+}
+
+export function decodeUploadedAttachment(value: unknown, attachment: ChatAttachment): ChatAttachment {
+  const uploaded = requireFields(value, ['url'], 'attachment');
+  return { ...attachment, uri: String(uploaded.url), uploaded: true, uploadProgress: 1 };
+}
+
+export function decodeMessage(value: unknown): ChatMessage {
+  const message = requireFields(value, ['id', 'senderId', 'timestamp'], 'message');
+  return {
+    ...(message as unknown as ChatMessage),
+    id: String(message.id),
+    senderId: String(message.senderId),
+  };
+}
@@ -0,0 +1,462 @@
+import DataService from './DataService';
+import NotificationService from './NotificationService';
+import { calendarService } from './CalendarService';
+import { OfflineAction, offlineDataService } from './OfflineDataService';
+import { analyticsService } from './AnalyticsService';
+import { SessionPayment, paymentService } from './PaymentService';
+import { BookedSession, Coach, PackageCredit, TimeSlot } from '../types';
+import { AppError, createValidationError, handleApiError } from '../utils/errorHandling';
+import { getSlotStartDate } from '../utils/timeSlots';
+import { getRemainingReschedules } from '../utils/reschedulePolicy';
+import { getSlotCapacity, getSlotPrice, isGroupSlot } from '../utils/groupSessions';
+
+export interface BookingRequest {
+  userId: string;
+  userName?: string;
+  coach: Coach;
+  slots: TimeSlot[];
+  // Either an authorized payment for the slots, captured once they're all booked, or a package credit to draw them from
+  payment?: SessionPayment;
+  paymentIntentId?: string;
+  packageCredit?: PackageCredit;
+  notes?: string;
+  sessionType?: string;
+}
+
+// A session saved on this device to book once we're back online
+interface QueuedSession {
+  session: BookedSession;
+  actionIds: string[];
+  // Whether the locally stored coach had a seat taken for it
+  tookSeat: boolean;
+}
+
+// What a booking has done so far, so a failure part way through can be undone
+interface BookingProgress {
+  reserved: BookedSession[];
+  created: BookedSession[];
+  queued: QueuedSession[];
+}
+
+const DEFAULT_SESSION_TYPE = 'Coaching Session';
+
+function takeSeat(slot: TimeSlot): TimeSlot {
+  if (!isGroupSlot(slot)) {
+    return { ...slot, available: false };
+  }
+  const bookedCount = (slot.bookedCount ?? 0) + 1;
+  return { ...slot, bookedCount, available: bookedCount < getSlotCapacity(slot) };
+}
+
+function releaseSeat(slot: TimeSlot): TimeSlot {
+  if (!isGroupSlot(slot)) {
+    return { ...slot, available: true };
+  }
+  return { ...slot, bookedCount: Math.max((slot.bookedCount ?? 0) - 1, 0), available: true };
+}
+
+class BookingService {
+  private static instance: BookingService;
+
+  private constructor() {
+    offlineDataService.registerActionHandler('payment', 'update', action => this.captureQueuedPayment(action));
+  }
+
+  public static getInstance(): BookingService {
+    if (!BookingService.instance) {
+      BookingService.instance = new BookingService();
+    }
+    return BookingService.instance;
+  }
+
+  /**
+   * Turn a booking into persisted sessions, one per selected slot. Nothing is
+   * charged unless every slot is booked; a failure undoes the slots booked so far.
+   * Sessions queued offline hold the charge back until they reach the server.
+   */
+  async bookSessions(request: BookingRequest): Promise<BookedSession[]> {
+    const {
+      userId,
+      userName,
+      coach,
+      slots,
+      payment,
+      packageCredit,
+      notes,
+      sessionType = DEFAULT_SESSION_TYPE,
+    } = request;
+
+    if (slots.length === 0) {
+      throw createValidationError('Please select at least one time slot.');
+    }
+    if (!(payment && request.paymentIntentId) && !packageCredit) {
+      throw createValidationError('Please pay for the sessions or use a package.');
+    }
+
+    // Credits are drawn down before anything is booked, so a failed redemption books nothing
+    if (packageCredit) {
+      await this.redeemCredit(packageCredit, coach, slots.length);
+    }
+
+    const bookedAt = new Date().toISOString();
+    const paymentIntentId = packageCredit ? packageCredit.paymentIntentId : request.paymentIntentId;
+
+    // Split the payment by each slot's list price, so group seats and private sessions are priced apart
+    const listTotal = slots.reduce((sum, slot) => sum + getSlotPrice(slot, coach), 0);
+    const getSessionPrice = (slot: TimeSlot): number => {
+      if (packageCredit) return packageCredit.pricePerSession;
+      const share = listTotal > 0 ? getSlotPrice(slot, coach) / listTotal : 1 / slots.length;
+      return Math.round(payment!.amount * share * 100) / 100;
+    };
+
+    const sessions: BookedSession[] = slots.map((slot, index) => ({
+      id: `session_${Date.now()}_${index}_${Math.random().toString(36).substr(2, 9)}`,
+      coachId: coach.id,
+      coachName: coach.name,
+      timeSlot: { ...slot, available: false },
+      status: 'upcoming',
+      price: getSessionPrice(slot),
+      notes: notes || undefined,
+      sessionType: slot.title ?? sessionType,
+      userId,
+      userName,
+      paymentIntentId,
+      packageCreditId: packageCredit?.id,
+      bookedAt,
+    }));
+
+    const progress: BookingProgress = { reserved: [], created: [], queued: [] };
+    try {
+      for (const session of sessions) {
+        await this.persistSession(coach, session, progress);
+      }
+      // The card was only authorized, so charge it now that every slot is booked
+      if (!packageCredit && progress.queued.length > 0) {
+        await this.queueCapture(paymentIntentId!, payment!.amount, sessions);
+      } else if (!packageCredit) {
+        await this.capturePayment(paymentIntentId!, payment!.amount);
+      }
+    } catch (error) {
+      await this.rollBackBooking(coach, progress);
+      if (packageCredit) {
+        await this.restoreCredit(packageCredit, sessions.length);
+      } else {
+        await this.cancelPayment(paymentIntentId!);
+      }
+      throw error;
+    }
+    const queuedOffline = progress.queued.length;
+
+    await DataService.clearSessionCache(userId);
+
+    for (const session of sessions) {
+      await calendarService.syncSession(session);
+    }
+
+    analyticsService.track('sessions_persisted', {
+      coachId: coach.id,
+      sessionCount: sessions.length,
+      queuedOffline,
+      paymentIntentId,
+      packageCreditId: packageCredit?.id,
+    });
+
+    console.log(`[BookingService] Booked ${sessions.length} session(s) with ${coach.name} (${queuedOffline} queued offline)`);
+    return sessions;
+  }
+
+  /**
+   * Reschedules still available for a session under its coach's limit
+   */
+  async getRemainingReschedules(session: BookedSession): Promise<number> {
+    const coach = await DataService.getCoach(session.coachId);
+    return getRemainingReschedules(session, coach);
+  }
+
+  /**
+   * Move an upcoming session to a new slot, keeping its payment and notes.
+   * The old slot is freed and the new one reserved in a single request.
+   */
+  async rescheduleSession(session: BookedSession, slot: TimeSlot): Promise<BookedSession> {
+    if (session.status !== 'upcoming') {
+      throw createValidationError('Only upcoming sessions can be rescheduled.');
+    }
+    if (slot.id === session.timeSlot.id) {
+      throw createValidationError('Please pick a different time slot.');
+    }
+    if (!slot.available) {
+      throw createValidationError('This time slot is no longer available.');
+    }
+    if (getSlotStartDate(slot).getTime() <= Date.now()) {
+      throw createValidationError('Please pick a time slot in the future.');
+    }
+    if ((await this.getRemainingReschedules(session)) <= 0) {
+      throw createValidationError('This session has reached its reschedule limit.');
+    }
+
+    let rescheduled: BookedSession | null = null;
+    if (offlineDataService.getNetworkStatus().isConnected) {
+      try {
+        rescheduled = await DataService.rescheduleSession(session, slot);
+      } catch (error) {
+        const appError = handleApiError(error);
+        if (appError.type !== 'network') {
+          throw appError;
+        }
+        console.warn('[BookingService] Network error while rescheduling, queueing offline:', appError.message);
+      }
+    }
+
+    if (!rescheduled) {
+      rescheduled = await this.queueRescheduleOffline(session, slot);
+    }
+
+    await NotificationService.cancelSessionNotifications(session.id);
+    await NotificationService.scheduleSessionReminder(
+      rescheduled.id,
+      rescheduled.coachName,
+      getSlotStartDate(rescheduled.timeSlot),
+      60,
+      rescheduled.timeSlot.timeZone
+    );
+    await calendarService.syncSession(rescheduled);
+
+    if (session.userId) {
+      await DataService.clearSessionCache(session.userId);
+    }
+
+    analyticsService.track('session_rescheduled', {
+      sessionId: session.id,
+      coachId: session.coachId,
+      fromSlotId: session.timeSlot.id,
+      toSlotId: slot.id,
+      rescheduleCount: rescheduled.rescheduleCount ?? 0,
+    });
+
+    console.log(`[BookingService] Rescheduled session ${session.id} to ${slot.startsAt}`);
+    return rescheduled;
+  }
+
+  private async redeemCredit(credit: PackageCredit, coach: Coach, sessions: number): Promise<void> {
+    if (credit.coachId !== coach.id) {
+      throw createValidationError(`This package can only be used with ${credit.coachName}.`);
+    }
+    // The server keeps the balance, so credits can't be spent offline
+    if (!offlineDataService.getNetworkStatus().isConnected) {
+      throw new AppError('Package credits can only be used while online.', 'network');
+    }
+    await DataService.redeemPackageCredit(credit, sessions);
+  }
+
+  private async restoreCredit(credit: PackageCredit, sessions: number): Promise<void> {
+    try {
+      await DataService.restorePackageCredit(credit, sessions);
+    } catch (error) {
+      console.error('[BookingService] Failed to restore package credits:', error);
+    }
+  }
+
+  private async capturePayment(paymentIntentId: string, amount: number): Promise<void> {
+    const result = await paymentService.capturePayment(paymentIntentId, amount);
+    if (!result.success) {
+      throw new AppError(result.error || 'We could not charge your payment method. Please try again.');
+    }
+  }
+
+  /**
+   * Charge for a booking once the sessions queued for it are on the server
+   */
+  private async queueCapture(paymentIntentId: string, amount: number, sessions: BookedSession[]): Promise<void> {
+    await offlineDataService.queueAction({
+      type: 'update',
+      entity: 'payment',
+      entityId: paymentIntentId,
+      data: { amount, sessionIds: sessions.map(session => session.id) },
+    });
+    console.log(`[BookingService] Holding the charge for ${paymentIntentId} until the booking syncs`);
+  }
+
+  /**
+   * Replay a queued capture. It only runs after the booking's sessions have synced; one that
+   * could not be booked keeps the charge back with it until the session is retried.
+   */
+  private async captureQueuedPayment(action: OfflineAction): Promise<void> {
+    const { amount, sessionIds = [] } = action.data ?? {};
+    const unbooked = (await offlineDataService.getDeadLetters()).find(
+      letter => letter.action.entity === 'session' && sessionIds.includes(letter.action.entityId)
+    );
+    if (unbooked) {
+      throw createValidationError(`Session ${unbooked.action.entityId} could not be booked, so the payment was not charged.`);
+    }
+    await this.capturePayment(action.entityId, amount);
+  }
+
+  private async cancelPayment(paymentIntentId: string): Promise<void> {
+    const result = await paymentService.cancelPayment(paymentIntentId);
+    if (!result.success) {
+      console.error('[BookingService] Failed to cancel payment authorization:', result.error);
+    }
+  }
+
+  /**
+   * Undo a booking that failed part way: cancel the sessions the server created, give back
+   * the slots it reserved and drop the ones queued offline. Best effort, since we're
+   * already handling a failure.
+   */
+  private async rollBackBooking(coach: Coach, progress: BookingProgress): Promise<void> {
+    if (progress.queued.length > 0) {
+      await this.dropQueuedSessions(coach, progress.queued);
+    }
+    for (const session of progress.created) {
+      try {
+        await DataService.updateSession({ ...session, status: 'cancelled' });
+      } catch (error) {
+        console.error(`[BookingService] Failed to cancel session ${session.id} while rolling back:`, error);
+      }
+    }
+    for (const session of progress.reserved) {
+      try {
+        await DataService.releaseSlot(coach.id, session.timeSlot.id);
+      } catch (error) {
+        console.error(`[BookingService] Failed to release slot ${session.timeSlot.id} while rolling back:`, error);
+      }
+    }
+  }
+
+  private async dropQueuedSessions(coach: Coach, queued: QueuedSession[]): Promise<void> {
+    try {
+      await offlineDataService.removePendingActions(queued.flatMap(entry => entry.actionIds));
+      await offlineDataService.removeData(queued.map(entry => entry.session.id));
+
+      const seatSlotIds = queued.filter(entry => entry.tookSeat).map(entry => entry.session.timeSlot.id);
+      const localCoach = await offlineDataService.getData<Coach>(coach.id);
+      if (localCoach && seatSlotIds.length > 0) {
+        // One seat back per queued session, so two seats in the same group slot both return
+        const availability = seatSlotIds.reduce(
+          (slots, slotId) => slots.map(slot => (slot.id === slotId ? releaseSeat(slot) : slot)),
+          localCoach.availability
+        );
+        await offlineDataService.storeData(coach.id, 'coach', { ...localCoach, availability });
+      }
+    } catch (error) {
+      console.error('[BookingService] Failed to drop queued sessions while rolling back:', error);
+    }
+  }
+
+  /**
+   * Reserve the slot and create the session on the server, falling back to
+   * the offline queue when there is no connection
+   */
+  private async persistSession(coach: Coach, session: BookedSession, progress: BookingProgress): Promise<void> {
+    if (offlineDataService.getNetworkStatus().isConnected) {
+      try {
+        await DataService.reserveSlot(coach.id, session.timeSlot, session.userId);
+        progress.reserved.push(session);
+        await DataService.createSession(session);
+        progress.created.push(session);
+        return;
+      } catch (error) {
+        const appError = handleApiError(error);
+        if (appError.type !== 'network') {
+          throw appError;
+        }
+        console.warn('[BookingService] Network error while booking, queueing offline:', appError.message);
+      }
+    }
+
+    const queued: QueuedSession = { session, actionIds: [], tookSeat: false };
+    progress.queued.push(queued);
+    await this.queueSessionOffline(coach, queued, progress.reserved.includes(session));
+  }
+
+  /**
+   * Store the session locally and queue it for when we're back online. If the server
+   * already holds the slot for this session only the session itself is queued, so the
+   * replay doesn't take a second seat. What gets queued is recorded on `queued` as it goes.
+   */
+  private async queueSessionOffline(coach: Coach, queued: QueuedSession, slotReserved: boolean): Promise<void> {
+    const { session } = queued;
+    try {
+      if (!slotReserved) {
+        // Mirror the reservation on the locally stored coach so offline views stay consistent
+        const localCoach = (await offlineDataService.getData<Coach>(coach.id)) ?? coach;
+        const slotExists = localCoach.availability.some(slot => slot.id === session.timeSlot.id);
+        const updatedCoach: Coach = {
+          ...localCoach,
+          availability: slotExists
+            ? localCoach.availability.map(slot =>
+                slot.id === session.timeSlot.id ? takeSeat(slot) : slot
+              )
+            : [...localCoach.availability, takeSeat({ ...session.timeSlot, bookedCount: 0 })],
+        };
+        await offlineDataService.storeData(coach.id, 'coach', updatedCoach);
+        queued.tookSeat = true;
+      }
+
+      await offlineDataService.storeData(session.id, 'session', session);
+
+      if (!slotReserved) {
+        const reservation = await offlineDataService.queueAction({
+          type: 'update',
+          entity: 'coach',
+          entityId: coach.id,
+          data: { reserveSlot: session.timeSlot, userId: session.userId },
+        });
+        queued.actionIds.push(reservation.id);
+      }
+      const creation = await offlineDataService.queueAction({
+        type: 'create',
+        entity: 'session',
+        entityId: session.id,
+        data: session,
+      });
+      queued.actionIds.push(creation.id);
+    } catch (error) {
+      console.error('[BookingService] Failed to queue offline booking:', error);
+      throw new AppError('Failed to save your booking. Please try again.');
+    }
+  }
+
+  private async queueRescheduleOffline(session: BookedSession, slot: TimeSlot): Promise<BookedSession> {
+    const rescheduled: BookedSession = {
+      ...session,
+      timeSlot: { ...slot, available: false },
+      rescheduleCount: (session.rescheduleCount ?? 0) + 1,
+      rescheduledAt: new Date().toISOString(),
+    };
+
+    try {
+      const localCoach = await offlineDataService.getData<Coach>(session.coachId);
+      if (localCoach) {
+        // Group slots gain and lose a seat rather than opening or closing outright
+        const slotExists = localCoach.availability.some(s => s.id === slot.id);
+        const availability = localCoach.availability.map(s => {
+          if (s.id === slot.id) return takeSeat(s);
+          if (s.id === session.timeSlot.id) return releaseSeat(s);
+          return s;
+        });
+        await offlineDataService.storeData(localCoach.id, 'coach', {
+          ...localCoach,
+          availability: slotExists ? availability : [...availability, takeSeat({ ...slot, bookedCount: 0 })],
+        });
+      }
+
+      await offlineDataService.storeData(rescheduled.id, 'session', rescheduled);
+
+      // One action so the slot swap replays as a unit when we're back online
+      await offlineDataService.queueAction({
+        type: 'update',
+        entity: 'session',
+        entityId: session.id,
+        data: { reschedule: rescheduled.timeSlot },
+      });
+    } catch (error) {
+      console.error('[BookingService] Failed to queue offline reschedule:', error);
+      throw new AppError('Failed to reschedule your session. Please try again.');
+    }
+
+    return rescheduled;
+  }
+}
+
+export const bookingService = BookingService.getInstance();
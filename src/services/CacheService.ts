@@ -9,14 +9,83 @@ export interface CacheEntry<T> {
 export interface CacheOptions {
   ttl?: number; // Time to live in milliseconds
   prefix?: string;
+  // Labels for what the entry depends on, e.g. `coach:1`, so writes can invalidate it
+  tags?: string[];
 }
 
-class CacheService {
+export interface CacheConfig {
+  // Byte budget for each prefix without its own entry in `budgets`
+  defaultBudget?: number;
+  budgets?: Record<string, number>;
+  // Most recently used entries kept in memory in front of storage
+  maxMemoryEntries?: number;
+}
+
+export interface CacheStats {
+  totalKeys: number;
+  cacheKeys: number;
+  totalSize: string;
+  hits: number;
+  misses: number;
+  evictions: number;
+  memoryEntries: number;
+}
+
+// Size and recency of a stored entry, used to pick what to evict
+interface CacheIndexEntry {
+  prefix: string;
+  size: number;
+  lastAccess: number;
+  tags?: string[];
+}
+
+const DEFAULT_BUDGET = 2 * 1024 * 1024; // 2 MB per prefix
+const DEFAULT_MEMORY_ENTRIES = 100;
+// Kept outside the cache prefix so clearing the cache doesn't lose track of sizes
+export const CACHE_INDEX_KEY = 'cache_lru_index';
+
+/**
+ * UTF-8 byte length of a string, without needing Blob or TextEncoder
+ */
+function byteLength(value: string): number {
+  let bytes = 0;
+  for (let i = 0; i < value.length; i++) {
+    const code = value.charCodeAt(i);
+    if (code < 0x80) {
+      bytes += 1;
+    } else if (code < 0x800) {
+      bytes += 2;
+    } else if (code >= 0xd800 && code <= 0xdbff) {
+      // Surrogate pair: four bytes for the pair
+      bytes += 4;
+      i++;
+    } else {
+      bytes += 3;
+    }
+  }
+  return bytes;
+}
+
+function isExpired(entry: CacheEntry<unknown>): boolean {
+  return !!entry.expiry && Date.now() > entry.expiry;
+}
+
+/**
+ * Two-tier cache: a small in-memory LRU in front of persisted entries, with a
+ * byte budget per prefix. Writes that push a prefix over budget evict its
+ * least recently used entries.
+ */
+export class CacheService {
   private static instance: CacheService;
   private defaultTTL = 5 * 60 * 1000; // 5 minutes default
   private keyPrefix = 'lazycoach_cache_';
+  // Map order is recency order: the first key is the least recently used
+  private memory = new Map<string, CacheEntry<unknown>>();
+  private index: Record<string, CacheIndexEntry> = {};
+  private indexReady: Promise<void> | null = null;
+  private counters = { hits: 0, misses: 0, evictions: 0 };
 
-  private constructor() {}
+  constructor(private config: CacheConfig = {}) {}
 
   public static getInstance(): CacheService {
     if (!CacheService.instance) {
@@ -30,57 +99,39 @@ class CacheService {
     return `${finalPrefix}${key}`;
   }
 
+  /**
+   * Change the byte budget for a prefix; takes effect on the next write
+   */
+  setBudget(prefix: string, maxBytes: number): void {
+    this.config = { ...this.config, budgets: { ...this.config.budgets, [prefix]: maxBytes } };
+  }
+
+  private getBudget(prefix: string): number {
+    return this.config.budgets?.[prefix] ?? this.config.defaultBudget ?? DEFAULT_BUDGET;
+  }
+
   async set<T>(
     key: string, 
     data: T, 
     options: CacheOptions = {}
   ): Promise<void> {
-    try {
-      const { ttl = this.defaultTTL } = options;
-      const cacheEntry: CacheEntry<T> = {
-        data,
-        timestamp: Date.now(),
-        expiry: ttl > 0 ? Date.now() + ttl : undefined,
-      };
-
-      const cacheKey = this.buildKey(key, options.prefix);
-      await storage.setItem(cacheKey, JSON.stringify(cacheEntry));
-    } catch (error) {
-      console.error('CacheService: Failed to set cache entry', error);
-    }
+    await this.setMultiple([{ key, data }], options);
   }
 
   async get<T>(
     key: string, 
     options: CacheOptions = {}
   ): Promise<T | null> {
-    try {
-      const cacheKey = this.buildKey(key, options.prefix);
-      const cachedItem = await storage.getItem(cacheKey);
-      
-      if (!cachedItem) {
-        return null;
-      }
-
-      const cacheEntry: CacheEntry<T> = JSON.parse(cachedItem);
-      
-      // Check if cache entry has expired
-      if (cacheEntry.expiry && Date.now() > cacheEntry.expiry) {
-        await this.remove(key, options);
-        return null;
-      }
-
-      return cacheEntry.data;
-    } catch (error) {
-      console.error('CacheService: Failed to get cache entry', error);
-      return null;
-    }
+    const [data] = await this.getMultiple<T>([key], options);
+    return data;
   }
 
   async remove(key: string, options: CacheOptions = {}): Promise<void> {
     try {
       const cacheKey = this.buildKey(key, options.prefix);
+      await this.loadIndex();
       await storage.removeItem(cacheKey);
+      await this.forget([cacheKey]);
     } catch (error) {
       console.error('CacheService: Failed to remove cache entry', error);
     }
@@ -89,41 +140,100 @@ class CacheService {
   async clear(prefix?: string): Promise<void> {
     try {
       const finalPrefix = prefix || this.keyPrefix;
+      await this.loadIndex();
       const keys = await storage.getAllKeys();
       const cacheKeys = keys.filter(key => key.startsWith(finalPrefix));
       
       if (cacheKeys.length > 0) {
         await storage.multiRemove(cacheKeys);
       }
+      await this.forget(cacheKeys);
     } catch (error) {
       console.error('CacheService: Failed to clear cache', error);
     }
   }
 
+  /**
+   * Remove every entry carrying any of the tags. Returns the removed keys
+   * without their prefix, so callers can refetch the ones they still need.
+   */
+  async invalidateTags(tags: string[]): Promise<string[]> {
+    try {
+      await this.loadIndex();
+      const cacheKeys = Object.keys(this.index).filter(cacheKey =>
+        this.index[cacheKey].tags?.some(tag => tags.includes(tag))
+      );
+      if (cacheKeys.length === 0) {
+        return [];
+      }
+
+      const keys = cacheKeys.map(cacheKey => cacheKey.slice(this.index[cacheKey].prefix.length));
+      await storage.multiRemove(cacheKeys);
+      await this.forget(cacheKeys);
+      return keys;
+    } catch (error) {
+      console.error('CacheService: Failed to invalidate tags', error);
+      return [];
+    }
+  }
+
+  /**
+   * Read an entry even if it has expired, so callers can show stale data
+   * while they fetch a fresh copy. Expired entries are left in place.
+   */
+  async getEntry<T>(
+    key: string,
+    options: CacheOptions = {}
+  ): Promise<{ data: T; stale: boolean } | null> {
+    try {
+      await this.loadIndex();
+      const cacheKey = this.buildKey(key, options.prefix);
+      const [entry] = await this.readEntries<T>([cacheKey]);
+      if (!entry) {
+        this.counters.misses++;
+        return null;
+      }
+
+      this.counters.hits++;
+      this.touch(cacheKey, entry);
+      return { data: entry.data, stale: isExpired(entry) };
+    } catch (error) {
+      console.error('CacheService: Failed to get cache entry', error);
+      return null;
+    }
+  }
+
   async getMultiple<T>(
     keys: string[], 
     options: CacheOptions = {}
   ): Promise<Array<T | null>> {
     try {
+      await this.loadIndex();
       const cacheKeys = keys.map(key => this.buildKey(key, options.prefix));
-      const items = await storage.multiGet(cacheKeys);
-      
-      return items.map(([, value]: [string, string | null]) => {
-        if (!value) return null;
-        
-        try {
-          const cacheEntry: CacheEntry<T> = JSON.parse(value);
-          
-          // Check expiry
-          if (cacheEntry.expiry && Date.now() > cacheEntry.expiry) {
-            return null;
+      const entries = await this.readEntries<T>(cacheKeys);
+
+      const expired: string[] = [];
+      const data = cacheKeys.map((cacheKey, i) => {
+        const entry = entries[i];
+        if (!entry || isExpired(entry)) {
+          if (entry) {
+            expired.push(cacheKey);
           }
-          
-          return cacheEntry.data;
-        } catch {
+          this.counters.misses++;
           return null;
         }
+
+        this.counters.hits++;
+        this.touch(cacheKey, entry);
+        return entry.data;
       });
+
+      if (expired.length > 0) {
+        await storage.multiRemove(expired);
+        await this.forget(expired);
+      }
+
+      return data;
     } catch (error) {
       console.error('CacheService: Failed to get multiple cache entries', error);
       return keys.map(() => null);
@@ -135,8 +245,14 @@ class CacheService {
     options: CacheOptions = {}
   ): Promise<void> {
     try {
+      await this.loadIndex();
       const { ttl = this.defaultTTL } = options;
-      const keyValuePairs: Array<[string, string]> = entries.map(({ key, data }) => {
+      const prefix = options.prefix || this.keyPrefix;
+      const budget = this.getBudget(prefix);
+      const keyValuePairs: Array<[string, string]> = [];
+      const oversized: string[] = [];
+
+      entries.forEach(({ key, data }) => {
         const cacheEntry: CacheEntry<T> = {
           data,
           timestamp: Date.now(),
@@ -144,10 +260,33 @@ class CacheService {
         };
         
         const cacheKey = this.buildKey(key, options.prefix);
-        return [cacheKey, JSON.stringify(cacheEntry)];
+        const value = JSON.stringify(cacheEntry);
+        const size = byteLength(value);
+
+        // An entry that could never fit would only evict everything else
+        if (size > budget) {
+          console.warn(`CacheService: ${cacheKey} (${size} bytes) exceeds the ${prefix} budget, not caching`);
+          oversized.push(cacheKey);
+          return;
+        }
+
+        keyValuePairs.push([cacheKey, value]);
+        this.index[cacheKey] = { prefix, size, lastAccess: Date.now(), tags: options.tags };
+        this.touch(cacheKey, cacheEntry);
       });
 
+      // Don't leave an older copy behind to be served instead
+      if (oversized.length > 0) {
+        await storage.multiRemove(oversized);
+        await this.forget(oversized);
+      }
+
+      if (keyValuePairs.length === 0) {
+        return;
+      }
+
       await storage.multiSet(keyValuePairs);
+      await this.evict(prefix, keyValuePairs.map(([cacheKey]) => cacheKey));
     } catch (error) {
       console.error('CacheService: Failed to set multiple cache entries', error);
     }
@@ -162,11 +301,12 @@ class CacheService {
     }
   }
 
-  async getStats(): Promise<{
-    totalKeys: number;
-    cacheKeys: number;
-    totalSize: string;
-  }> {
+  async getStats(): Promise<CacheStats> {
+    const counters = {
+      ...this.counters,
+      memoryEntries: this.memory.size,
+    };
+
     try {
       const allKeys = await storage.getAllKeys();
       const cacheKeys = allKeys.filter((key: string) => key.startsWith(this.keyPrefix));
@@ -174,23 +314,25 @@ class CacheService {
       // Get all cache entries to calculate size
       const cacheEntries = await storage.multiGet(cacheKeys);
       const totalSize = cacheEntries.reduce((size: number, [, value]: [string, string | null]) => {
-        return size + (value ? new Blob([value]).size : 0);
+        return size + (value ? byteLength(value) : 0);
       }, 0);
 
       return {
         totalKeys: allKeys.length,
         cacheKeys: cacheKeys.length,
         totalSize: `${(totalSize / 1024).toFixed(2)} KB`,
+        ...counters,
       };
     } catch (error) {
       console.error('CacheService: Failed to get stats', error);
-      return { totalKeys: 0, cacheKeys: 0, totalSize: '0 KB' };
+      return { totalKeys: 0, cacheKeys: 0, totalSize: '0 KB', ...counters };
     }
   }
 
   // Cleanup expired entries
   async cleanup(): Promise<number> {
     try {
+      await this.loadIndex();
       const allKeys = await storage.getAllKeys();
       const cacheKeys = allKeys.filter((key: string) => key.startsWith(this.keyPrefix));
       
@@ -203,7 +345,7 @@ class CacheService {
         if (value) {
           try {
             const cacheEntry: CacheEntry<any> = JSON.parse(value);
-            if (cacheEntry.expiry && Date.now() > cacheEntry.expiry) {
+            if (isExpired(cacheEntry)) {
               expiredKeys.push(key);
             }
           } catch {
@@ -215,6 +357,7 @@ class CacheService {
 
       if (expiredKeys.length > 0) {
         await storage.multiRemove(expiredKeys);
+        await this.forget(expiredKeys);
       }
 
       return expiredKeys.length;
@@ -223,6 +366,124 @@ class CacheService {
       return 0;
     }
   }
+
+  /**
+   * Entries for the given keys, from memory where possible and storage otherwise
+   */
+  private async readEntries<T>(cacheKeys: string[]): Promise<Array<CacheEntry<T> | null>> {
+    const results = new Map<string, CacheEntry<T> | null>();
+
+    for (const cacheKey of cacheKeys) {
+      const entry = this.memory.get(cacheKey) as CacheEntry<T> | undefined;
+      if (entry) {
+        results.set(cacheKey, entry);
+      }
+    }
+
+    const missing = cacheKeys.filter(cacheKey => !results.has(cacheKey));
+    if (missing.length > 0) {
+      const items = await storage.multiGet(missing);
+      items.forEach(([cacheKey, value]) => {
+        try {
+          results.set(cacheKey, value ? JSON.parse(value) : null);
+        } catch {
+          results.set(cacheKey, null);
+        }
+      });
+    }
+
+    return cacheKeys.map(cacheKey => results.get(cacheKey) ?? null);
+  }
+
+  /**
+   * Mark an entry as most recently used and keep it in the memory tier
+   */
+  private touch(cacheKey: string, entry: CacheEntry<unknown>): void {
+    this.memory.delete(cacheKey);
+    this.memory.set(cacheKey, entry);
+    if (this.index[cacheKey]) {
+      this.index[cacheKey].lastAccess = Date.now();
+    }
+
+    const maxEntries = this.config.maxMemoryEntries ?? DEFAULT_MEMORY_ENTRIES;
+    while (this.memory.size > maxEntries) {
+      this.memory.delete(this.memory.keys().next().value!);
+    }
+  }
+
+  /**
+   * Drop removed keys from both tiers' bookkeeping
+   */
+  private async forget(cacheKeys: string[]): Promise<void> {
+    let changed = false;
+    cacheKeys.forEach(cacheKey => {
+      this.memory.delete(cacheKey);
+      if (this.index[cacheKey]) {
+        delete this.index[cacheKey];
+        changed = true;
+      }
+    });
+    if (changed) {
+      await this.saveIndex();
+    }
+  }
+
+  /**
+   * Remove least recently used entries until the prefix fits its budget.
+   * Entries just written are never the ones evicted.
+   */
+  private async evict(prefix: string, keep: string[]): Promise<void> {
+    const entries = Object.entries(this.index).filter(([, entry]) => entry.prefix === prefix);
+    let total = entries.reduce((sum, [, entry]) => sum + entry.size, 0);
+    const budget = this.getBudget(prefix);
+    const evicted: string[] = [];
+
+    const candidates = entries
+      .filter(([cacheKey]) => !keep.includes(cacheKey))
+      .sort(([, a], [, b]) => a.lastAccess - b.lastAccess);
+
+    for (const [cacheKey, entry] of candidates) {
+      if (total <= budget) break;
+      evicted.push(cacheKey);
+      total -= entry.size;
+    }
+
+    if (evicted.length > 0) {
+      this.counters.evictions += evicted.length;
+      await storage.multiRemove(evicted);
+      evicted.forEach(cacheKey => {
+        this.memory.delete(cacheKey);
+        delete this.index[cacheKey];
+      });
+    }
+
+    // Recency from reads is only persisted alongside writes, so gets stay in memory
+    await this.saveIndex();
+  }
+
+  private loadIndex(): Promise<void> {
+    if (!this.indexReady) {
+      this.indexReady = (async () => {
+        try {
+          const stored = await storage.getItem(CACHE_INDEX_KEY);
+          const index: Record<string, CacheIndexEntry> = stored ? JSON.parse(stored) : {};
+          // Entries can disappear without us, e.g. when a storage migration clears the cache
+          const existing = new Set(await storage.getAllKeys());
+          this.index = Object.fromEntries(
+            Object.entries(index).filter(([cacheKey]) => existing.has(cacheKey))
+          );
+        } catch (error) {
+          console.error('CacheService: Failed to load cache index', error);
+          this.index = {};
+        }
+      })();
+    }
+    return this.indexReady;
+  }
+
+  private async saveIndex(): Promise<void> {
+    await storage.setItem(CACHE_INDEX_KEY, JSON.stringify(this.index));
+  }
 }
 
-export default CacheService.getInstance();
\ No newline at end of file
+export default CacheService.getInstance();
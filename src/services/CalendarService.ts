@@ -0,0 +1,187 @@
+import { storage } from '../utils/storage';
+import { BookedSession } from '../types';
+import { BusyInterval, AvailabilityRange } from '../utils/availabilityEngine';
+import { getSlotEndDate, getSlotStartDate } from '../utils/timeSlots';
+import { getSessionDeepLink } from '../navigation/linking';
+import { ExpoCalendarAdapter } from './ExpoCalendarAdapter';
+
+export interface CalendarEventDetails {
+  title: string;
+  startDate: Date;
+  endDate: Date;
+  timeZone: string;
+  notes: string;
+  url: string;
+}
+
+/**
+ * Device calendar operations the app needs, so tests can swap in a fake
+ */
+export interface CalendarAdapter {
+  requestPermission(): Promise<boolean>;
+  findCalendar(title: string): Promise<string | null>;
+  createCalendar(title: string, color: string): Promise<string>;
+  createEvent(calendarId: string, details: CalendarEventDetails): Promise<string>;
+  updateEvent(eventId: string, details: CalendarEventDetails): Promise<void>;
+  deleteEvent(eventId: string): Promise<void>;
+  getBusyIntervals(from: Date, to: Date, excludeCalendarIds: string[]): Promise<BusyInterval[]>;
+}
+
+export const CALENDAR_TITLE = 'LazyCoach';
+const CALENDAR_COLOR = '#0066CC';
+
+const STORAGE_KEYS = {
+  EVENT_IDS: 'calendar_event_ids',
+  BLOCK_BUSY_TIMES: 'calendar_block_busy_times',
+};
+
+class CalendarService {
+  private static instance: CalendarService;
+  private adapter: CalendarAdapter = new ExpoCalendarAdapter();
+  private calendarId: string | null = null;
+
+  private constructor() {}
+
+  public static getInstance(): CalendarService {
+    if (!CalendarService.instance) {
+      CalendarService.instance = new CalendarService();
+    }
+    return CalendarService.instance;
+  }
+
+  /**
+   * Replace the device calendar implementation (used by tests)
+   */
+  setAdapter(adapter: CalendarAdapter): void {
+    this.adapter = adapter;
+    this.calendarId = null;
+  }
+
+  /**
+   * Create or update the calendar event for a booked session.
+   * Calendar problems never block a booking, so this resolves to false instead of throwing.
+   */
+  async syncSession(session: BookedSession): Promise<boolean> {
+    if (session.status === 'cancelled') {
+      return this.removeSession(session.id);
+    }
+
+    try {
+      const calendarId = await this.getCalendarId();
+      if (!calendarId) return false;
+
+      const eventIds = await this.getEventIds();
+      const details = this.buildEventDetails(session);
+      const existingEventId = eventIds[session.id];
+
+      if (existingEventId) {
+        try {
+          await this.adapter.updateEvent(existingEventId, details);
+          return true;
+        } catch (error) {
+          // The user may have deleted the event themselves; recreate it
+          console.warn('[CalendarService] Failed to update event, recreating:', error);
+        }
+      }
+
+      eventIds[session.id] = await this.adapter.createEvent(calendarId, details);
+      await this.saveEventIds(eventIds);
+      console.log(`[CalendarService] Synced session ${session.id} to calendar`);
+      return true;
+    } catch (error) {
+      console.error('[CalendarService] Failed to sync session to calendar:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Delete the calendar event for a session, if we created one
+   */
+  async removeSession(sessionId: string): Promise<boolean> {
+    try {
+      const eventIds = await this.getEventIds();
+      const eventId = eventIds[sessionId];
+      if (!eventId) return false;
+
+      try {
+        await this.adapter.deleteEvent(eventId);
+      } catch (error) {
+        console.warn('[CalendarService] Event already gone from calendar:', error);
+      }
+
+      delete eventIds[sessionId];
+      await this.saveEventIds(eventIds);
+      console.log(`[CalendarService] Removed calendar event for session ${sessionId}`);
+      return true;
+    } catch (error) {
+      console.error('[CalendarService] Failed to remove calendar event:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Times the user is busy in their other device calendars, ignoring LazyCoach's own
+   */
+  async getBusyIntervals(range: AvailabilityRange): Promise<BusyInterval[]> {
+    const calendarId = await this.getCalendarId();
+    if (!calendarId) return [];
+
+    return this.adapter.getBusyIntervals(range.from, range.to, [calendarId]);
+  }
+
+  /**
+   * Whether a coach has chosen to block out busy device-calendar times
+   */
+  async isBusyTimeBlockingEnabled(): Promise<boolean> {
+    return (await storage.getItem(STORAGE_KEYS.BLOCK_BUSY_TIMES)) === 'true';
+  }
+
+  async setBusyTimeBlockingEnabled(enabled: boolean): Promise<void> {
+    await storage.setItem(STORAGE_KEYS.BLOCK_BUSY_TIMES, String(enabled));
+  }
+
+  private buildEventDetails(session: BookedSession): CalendarEventDetails {
+    const url = getSessionDeepLink(session.id);
+    const notes = [
+      `Coach: ${session.coachName}`,
+      session.sessionType ? `Session: ${session.sessionType}` : null,
+      session.notes ? `Notes: ${session.notes}` : null,
+      `Open in LazyCoach: ${url}`,
+    ].filter(Boolean).join('\n');
+
+    return {
+      title: `${session.sessionType || 'Coaching session'} with ${session.coachName}`,
+      startDate: getSlotStartDate(session.timeSlot),
+      endDate: getSlotEndDate(session.timeSlot),
+      timeZone: session.timeSlot.timeZone,
+      notes,
+      url,
+    };
+  }
+
+  private async getCalendarId(): Promise<string | null> {
+    if (this.calendarId) return this.calendarId;
+
+    const granted = await this.adapter.requestPermission();
+    if (!granted) {
+      console.warn('[CalendarService] Calendar permission not granted');
+      return null;
+    }
+
+    this.calendarId =
+      (await this.adapter.findCalendar(CALENDAR_TITLE)) ??
+      (await this.adapter.createCalendar(CALENDAR_TITLE, CALENDAR_COLOR));
+    return this.calendarId;
+  }
+
+  private async getEventIds(): Promise<Record<string, string>> {
+    const stored = await storage.getItem(STORAGE_KEYS.EVENT_IDS);
+    return stored ? JSON.parse(stored) : {};
+  }
+
+  private async saveEventIds(eventIds: Record<string, string>): Promise<void> {
+    await storage.setItem(STORAGE_KEYS.EVENT_IDS, JSON.stringify(eventIds));
+  }
+}
+
+export const calendarService = CalendarService.getInstance();
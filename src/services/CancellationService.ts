@@ -0,0 +1,274 @@
+import DataService from './DataService';
+import NotificationService from './NotificationService';
+import { calendarService } from './CalendarService';
+import { offlineDataService } from './OfflineDataService';
+import { paymentService } from './PaymentService';
+import { analyticsService } from './AnalyticsService';
+import { BookedSession, CancellationPolicy } from '../types';
+import { createValidationError, handleApiError } from '../utils/errorHandling';
+import {
+  RefundQuote,
+  DEFAULT_CANCELLATION_POLICY,
+  calculateRefund,
+} from '../utils/cancellationPolicy';
+
+export interface CancellationResult {
+  session: BookedSession;
+  refund: RefundQuote;
+  refunded: boolean;
+  // The session was cancelled but its refund or credit didn't go through and is still owed
+  refundPending: boolean;
+  // Sessions paid from a package get their credit back instead of money
+  creditRestored: boolean;
+}
+
+class CancellationService {
+  private static instance: CancellationService;
+  private defaultPolicy: CancellationPolicy = DEFAULT_CANCELLATION_POLICY;
+  // Sessions whose refund is being given back right now, so a retry can't pay one out twice
+  private settling = new Set<string>();
+  private refundRetry: Promise<BookedSession[]> | null = null;
+
+  private constructor() {
+    // Syncs run at start-up, on reconnect and after queued changes, so owed refunds get retried with them
+    offlineDataService.addSyncListener(status => {
+      if (status === 'completed') {
+        this.retryPendingRefunds().catch(error =>
+          console.error('[CancellationService] Failed to retry pending refunds:', error)
+        );
+      }
+    });
+  }
+
+  public static getInstance(): CancellationService {
+    if (!CancellationService.instance) {
+      CancellationService.instance = new CancellationService();
+    }
+    return CancellationService.instance;
+  }
+
+  /**
+   * Override the policy used for coaches that don't define their own
+   */
+  setDefaultPolicy(policy: CancellationPolicy): void {
+    this.defaultPolicy = policy;
+  }
+
+  /**
+   * Resolve the policy that applies to a session's coach
+   */
+  async getPolicy(coachId: string): Promise<CancellationPolicy> {
+    try {
+      const coach = await DataService.getCoach(coachId);
+      return coach?.cancellationPolicy ?? this.defaultPolicy;
+    } catch (error) {
+      console.warn('[CancellationService] Could not load coach policy, using default:', error);
+      return this.defaultPolicy;
+    }
+  }
+
+  /**
+   * Preview the refund before the user confirms the cancellation
+   */
+  async quoteCancellation(session: BookedSession): Promise<{ refund: RefundQuote; policy: CancellationPolicy }> {
+    const policy = await this.getPolicy(session.coachId);
+    return { refund: calculateRefund(session, policy), policy };
+  }
+
+  /**
+   * Cancel an upcoming session: mark it cancelled, free the coach's slot,
+   * refund per policy once the cancellation is stored and remove its reminders
+   */
+  async cancelSession(session: BookedSession, reason: string): Promise<CancellationResult> {
+    if (session.status !== 'upcoming') {
+      throw createValidationError('Only upcoming sessions can be cancelled.');
+    }
+
+    const { refund } = await this.quoteCancellation(session);
+
+    // Package sessions get their credit back instead of money
+    const creditOwed = !!session.packageCreditId && refund.type === 'full';
+    const refundOwed = !session.packageCreditId && refund.amount > 0 && !!session.paymentIntentId;
+    let cancelledSession: BookedSession = {
+      ...session,
+      status: 'cancelled',
+      cancellationReason: reason,
+      cancelledAt: new Date().toISOString(),
+      refundAmount: refundOwed ? refund.amount : 0,
+      refundStatus: refundOwed || creditOwed ? 'pending' : undefined,
+      timeSlot: { ...session.timeSlot, available: true },
+    };
+
+    await this.persistCancellation(cancelledSession);
+
+    // Only give anything back once the cancellation is stored, so a session that's still booked is never refunded
+    const givenBack = refundOwed || creditOwed ? await this.settleRefund(cancelledSession) : null;
+    const refunded = givenBack === 'refunded';
+    const creditRestored = givenBack === 'credited';
+
+    if (refunded || creditRestored) {
+      cancelledSession = { ...cancelledSession, refundStatus: 'refunded' };
+      await this.persistRefund(cancelledSession);
+    }
+
+    await NotificationService.cancelSessionNotifications(session.id);
+    await calendarService.removeSession(session.id);
+
+    if (session.userId) {
+      await DataService.clearSessionCache(session.userId);
+    }
+
+    analyticsService.track('session_cancelled', {
+      sessionId: session.id,
+      coachId: session.coachId,
+      refundType: refund.type,
+      refundAmount: cancelledSession.refundAmount,
+      creditRestored,
+      hoursUntilStart: Math.round(refund.hoursUntilStart),
+      reason,
+    });
+
+    console.log(`[CancellationService] Cancelled session ${session.id} (${refund.type} refund)`);
+    const refundPending = (refundOwed && !refunded) || (creditOwed && !creditRestored);
+    return { session: cancelledSession, refund, refunded, refundPending, creditRestored };
+  }
+
+  /**
+   * Give back what's owed for cancellations the server has stored but whose refund or
+   * credit didn't go through. Returns the sessions settled.
+   */
+  async retryPendingRefunds(): Promise<BookedSession[]> {
+    if (!this.refundRetry) {
+      this.refundRetry = this.settlePendingRefunds().finally(() => {
+        this.refundRetry = null;
+      });
+    }
+    return this.refundRetry;
+  }
+
+  private async settlePendingRefunds(): Promise<BookedSession[]> {
+    if (!offlineDataService.getNetworkStatus().isConnected) {
+      return [];
+    }
+
+    // Cancellations still waiting to sync aren't on the server yet, so they wait too
+    const owed = await offlineDataService.getDataByType<BookedSession>('session', record =>
+      record.syncStatus === 'synced' && record.data.status === 'cancelled' && record.data.refundStatus === 'pending'
+    );
+
+    const settled: BookedSession[] = [];
+    for (const session of owed) {
+      if (await this.settleRefund(session)) {
+        const refundedSession: BookedSession = { ...session, refundStatus: 'refunded' };
+        await this.persistRefund(refundedSession);
+        settled.push(refundedSession);
+      }
+    }
+
+    if (settled.length > 0) {
+      console.log(`[CancellationService] Settled ${settled.length} pending refund(s)`);
+    }
+    return settled;
+  }
+
+  /**
+   * Refund a cancelled session's payment, or return its package credit. Failures are
+   * logged and leave the refund pending for the next retry.
+   */
+  private async settleRefund(session: BookedSession): Promise<'refunded' | 'credited' | null> {
+    if (this.settling.has(session.id)) {
+      return null;
+    }
+
+    this.settling.add(session.id);
+    try {
+      if (session.packageCreditId) {
+        await this.restoreCredit(session);
+        return 'credited';
+      }
+
+      const result = await paymentService.processRefund(session.paymentIntentId!, session.refundAmount);
+      if (!result.success) {
+        console.error(`[CancellationService] Refund failed for cancelled session ${session.id}:`, result.error);
+        return null;
+      }
+      return 'refunded';
+    } catch (error) {
+      console.error(`[CancellationService] Failed to give back payment for cancelled session ${session.id}:`, error);
+      return null;
+    } finally {
+      this.settling.delete(session.id);
+    }
+  }
+
+  private async restoreCredit(session: BookedSession): Promise<void> {
+    const credits = await DataService.getPackageCredits(session.userId ?? '', { forceRefresh: true });
+    const credit = credits.find(c => c.id === session.packageCreditId);
+    if (!credit) {
+      throw createValidationError('The package this session was booked with could not be found.');
+    }
+    await DataService.restorePackageCredit(credit, 1);
+  }
+
+  private async persistCancellation(session: BookedSession): Promise<void> {
+    if (offlineDataService.getNetworkStatus().isConnected) {
+      try {
+        await DataService.updateSession(session);
+        await DataService.releaseSlot(session.coachId, session.timeSlot.id);
+        return;
+      } catch (error) {
+        const appError = handleApiError(error);
+        if (appError.type !== 'network') {
+          throw appError;
+        }
+        console.warn('[CancellationService] Network error while cancelling, queueing offline:', appError.message);
+      }
+    }
+
+    await offlineDataService.storeData(session.id, 'session', session);
+    await offlineDataService.queueAction({
+      type: 'update',
+      entity: 'session',
+      entityId: session.id,
+      data: session,
+    });
+    await offlineDataService.queueAction({
+      type: 'update',
+      entity: 'coach',
+      entityId: session.coachId,
+      data: { releaseSlotId: session.timeSlot.id },
+    });
+  }
+
+  /**
+   * Record that a cancelled session's refund went through. A failure here only
+   * leaves the refund looking pending, so it's logged rather than thrown.
+   */
+  private async persistRefund(session: BookedSession): Promise<void> {
+    try {
+      if (offlineDataService.getNetworkStatus().isConnected) {
+        try {
+          await DataService.updateSession(session);
+          return;
+        } catch (error) {
+          const appError = handleApiError(error);
+          if (appError.type !== 'network') {
+            throw appError;
+          }
+        }
+      }
+
+      await offlineDataService.storeData(session.id, 'session', session);
+      await offlineDataService.queueAction({
+        type: 'update',
+        entity: 'session',
+        entityId: session.id,
+        data: session,
+      });
+    } catch (error) {
+      console.error(`[CancellationService] Failed to record refund for session ${session.id}:`, error);
+    }
+  }
+}
+
+export const cancellationService = CancellationService.getInstance();
@@ -1,21 +1,84 @@
 import CacheService from './CacheService';
 import { offlineDataService } from './OfflineDataService';
-import { Coach, BookedSession, Conversation, ChatMessage } from '../types';
-import { mockCoaches } from '../utils/mockData';
-import { handleApiError } from '../utils/errorHandling';
+import { apiClient, ApiClient, ApiWriteOptions } from './ApiClient';
+import {
+  Coach,
+  BookedSession,
+  Conversation,
+  ChatMessage,
+  TimeSlot,
+  BusyTime,
+  PackageCredit,
+  WaitlistEntry,
+  GroupRoster,
+  Review,
+  CoachProfileUpdate,
+  User,
+} from '../types';
+import { createValidationError, handleApiError } from '../utils/errorHandling';
+import type { ServerState } from '../utils/syncConflicts';
+import { AvailabilityRange, expandAvailability } from '../utils/availabilityEngine';
 
 export interface DataServiceOptions {
   useCache?: boolean;
   forceRefresh?: boolean;
   cacheTTL?: number;
   offlineFirst?: boolean;
+  // Told whether the result was served from the cache or local storage rather than the API
+  onCacheResult?: (hit: boolean) => void;
+}
+
+// Cache keys for each kind of data, shared by reads, invalidation and subscribers
+export const dataCacheKeys = {
+  coaches: () => 'coaches_list',
+  coach: (id: string) => `coach_${id}`,
+  search: (query: string, specialty?: string, priceRange?: [number, number], minRating?: number) =>
+    `search_${query}_${specialty}_${priceRange?.join('-')}_${minRating}`,
+  sessions: (userId: string) => `sessions_${userId}`,
+  credits: (userId: string) => `credits_${userId}`,
+  conversations: (userId: string) => `conversations_${userId}`,
+  messages: (conversationId: string) => `messages_${conversationId}`,
+};
+
+// Tags on cached reads, named after what they depend on. Lists are also tagged
+// with each entity they contain, so changing one coach refreshes every list showing it.
+export const cacheTags = {
+  coach: (id: string) => `coach:${id}`,
+  coaches: 'coaches',
+  search: 'search',
+  sessions: (userId: string) => `sessions:user:${userId}`,
+  credits: (userId: string) => `credits:user:${userId}`,
+  conversation: (id: string) => `conversation:${id}`,
+  conversations: (userId: string) => `conversations:user:${userId}`,
+};
+
+export type DataListener<T> = (data: T) => void;
+
+// A cached read: where it's stored, how to fetch it and what it depends on
+interface CachedQuery<T> {
+  key: string;
+  request: () => Promise<T>;
+  tags: (data: T) => string[];
+}
+
+export interface CoachAvailabilityOptions extends DataServiceOptions {
+  // Include slots held for this client from the coach's waitlist
+  holderId?: string;
 }
 
 class DataService {
   private static instance: DataService;
   private cache = CacheService;
-
-  private constructor() {}
+  // API requests currently running, so concurrent reads of a key share one
+  private inFlight = new Map<string, Promise<unknown>>();
+  private subscribers = new Map<string, Set<DataListener<any>>>();
+  // How to refetch each key read so far, for refreshing subscribers after invalidation
+  private refetchers = new Map<string, () => Promise<unknown>>();
+
+  private constructor(private api: ApiClient = apiClient) {
+    this.registerServerStateFetchers();
+    this.registerActionHandlers();
+  }
 
   public static getInstance(): DataService {
     if (!DataService.instance) {
@@ -24,15 +87,215 @@ class DataService {
     return DataService.instance;
   }
 
+  /**
+   * Let queued offline changes be checked against the server's current copy before replay
+   */
+  private registerServerStateFetchers(): void {
+    offlineDataService.registerServerStateFetcher('session', action =>
+      this.fetchServerState(() => this.api.getSession(action.entityId))
+    );
+
+    offlineDataService.registerServerStateFetcher('coach', action =>
+      this.fetchServerState(() => this.api.getCoach(action.entityId))
+    );
+
+    offlineDataService.registerServerStateFetcher('user', action =>
+      this.fetchServerState(() => this.api.getUser(action.entityId))
+    );
+
+    offlineDataService.registerServerStateFetcher('message', async action => {
+      const conversationId = action.data?.conversationId;
+      if (!conversationId) {
+        return null;
+      }
+      return { data: await this.api.getMessages(conversationId) };
+    });
+  }
+
+  /**
+   * The server's copy of a record and when it was last written, or null if it has none
+   */
+  private async fetchServerState<T extends { updatedAt?: string }>(
+    fetch: () => Promise<T>
+  ): Promise<ServerState<T> | null> {
+    try {
+      const record = await fetch();
+      return { data: record, lastModified: record.updatedAt };
+    } catch (error) {
+      const appError = handleApiError(error);
+      // A record the server has never seen can't conflict
+      if (appError.statusCode === 404) {
+        return null;
+      }
+      throw appError;
+    }
+  }
+
+  /**
+   * Replay queued offline changes through the same calls used online, keyed by action id
+   */
+  private registerActionHandlers(): void {
+    offlineDataService.registerActionHandler('session', 'create', async action => {
+      await this.createSession(action.data, { idempotencyKey: action.id });
+    });
+
+    offlineDataService.registerActionHandler('session', 'update', async action => {
+      if (action.data?.reschedule) {
+        const session = await offlineDataService.getData<BookedSession>(action.entityId);
+        if (!session) {
+          throw createValidationError(`Session ${action.entityId} is no longer stored on this device.`);
+        }
+        await this.rescheduleSession(session, action.data.reschedule, { idempotencyKey: action.id });
+        return;
+      }
+      await this.updateSession(action.data, { idempotencyKey: action.id });
+    });
+
+    offlineDataService.registerActionHandler('coach', 'update', async action => {
+      const { reserveSlot, releaseSlotId, userId, profile } = action.data ?? {};
+      if (reserveSlot) {
+        await this.reserveSlot(action.entityId, reserveSlot, userId, { idempotencyKey: action.id });
+      } else if (releaseSlotId) {
+        await this.releaseSlot(action.entityId, releaseSlotId, { idempotencyKey: action.id });
+      } else if (profile) {
+        await this.updateCoachProfile(action.entityId, profile);
+      } else {
+        throw createValidationError('Unsupported offline coach update.');
+      }
+    });
+
+    offlineDataService.registerActionHandler('user', 'update', async action => {
+      await this.updateUser(action.data, { idempotencyKey: action.id });
+    });
+
+    offlineDataService.registerActionHandler('message', 'create', async action => {
+      const { conversationId, ...message } = action.data ?? {};
+      if (!conversationId) {
+        throw createValidationError('Queued message is missing its conversation.');
+      }
+      await this.sendMessage(conversationId, message, { idempotencyKey: action.id });
+    });
+  }
+
+  /**
+   * Get told whenever fresh data for a cache key arrives from the API,
+   * including background revalidation. Returns a function that stops listening.
+   */
+  subscribe<T>(cacheKey: string, listener: DataListener<T>): () => void {
+    const listeners = this.subscribers.get(cacheKey) ?? new Set();
+    listeners.add(listener);
+    this.subscribers.set(cacheKey, listeners);
+    return () => {
+      listeners.delete(listener);
+      if (listeners.size === 0) {
+        this.subscribers.delete(cacheKey);
+      }
+    };
+  }
+
+  private notify<T>(cacheKey: string, data: T): void {
+    this.subscribers.get(cacheKey)?.forEach(listener => {
+      try {
+        listener(data);
+      } catch (error) {
+        console.error('DataService: Error in data listener', error);
+      }
+    });
+  }
+
+  /**
+   * Fetch, cache and publish fresh data. Callers asking for the same key while
+   * a request is running get that request's result instead of starting another.
+   */
+  private fetchFresh<T>(query: CachedQuery<T>, { useCache = true, cacheTTL }: DataServiceOptions): Promise<T> {
+    const running = this.inFlight.get(query.key);
+    if (running) {
+      return running as Promise<T>;
+    }
+
+    const promise = (async () => {
+      const data = await query.request();
+      if (useCache) {
+        await this.cache.set(query.key, data, { ttl: cacheTTL, tags: query.tags(data) });
+      }
+      this.notify(query.key, data);
+      return data;
+    })().finally(() => this.inFlight.delete(query.key));
+
+    this.inFlight.set(query.key, promise);
+    return promise;
+  }
+
+  private refetchInBackground<T>(query: CachedQuery<T>, options: DataServiceOptions): void {
+    this.fetchFresh(query, options).catch(error => {
+      console.warn(`DataService: Background refresh of ${query.key} failed`, error);
+    });
+  }
+
+  /**
+   * Stale-while-revalidate read: cached data is returned straight away, and if
+   * it has expired a fresh copy is fetched in the background for subscribers.
+   */
+  private async readThrough<T>(query: CachedQuery<T>, options: DataServiceOptions): Promise<T> {
+    const { useCache = true, forceRefresh = false, onCacheResult } = options;
+    this.refetchers.set(query.key, () => this.fetchFresh(query, options));
+
+    if (useCache && !forceRefresh) {
+      const cached = await this.cache.getEntry<T>(query.key);
+      if (cached) {
+        if (cached.stale) {
+          this.refetchInBackground(query, options);
+        }
+        onCacheResult?.(true);
+        return cached.data;
+      }
+    }
+
+    const data = await this.fetchFresh(query, options);
+    onCacheResult?.(false);
+    return data;
+  }
+
+  /**
+   * Drop cached data carrying any of the tags. Lists someone is subscribed to
+   * are fetched again straight away so screens showing them stay current.
+   */
+  async invalidate(tags: string[]): Promise<void> {
+    const keys = await this.cache.invalidateTags(tags);
+    keys.forEach(key => {
+      if (!this.subscribers.has(key)) {
+        // Nobody is watching, so the next read sets it again if it's still wanted
+        this.refetchers.delete(key);
+        return;
+      }
+      this.refetchers.get(key)?.().catch(error => {
+        console.warn(`DataService: Refresh of ${key} after invalidation failed`, error);
+      });
+    });
+  }
+
+  /**
+   * Last cached copy, however old, for when the API can't be reached
+   */
+  private async getFallback<T>(cacheKey: string, { useCache = true, onCacheResult }: DataServiceOptions): Promise<T | null> {
+    if (!useCache) {
+      return null;
+    }
+    const cached = await this.cache.getEntry<T>(cacheKey);
+    if (cached) {
+      onCacheResult?.(true);
+    }
+    return cached?.data ?? null;
+  }
+
   // Coach-related methods
   async getCoaches(options: DataServiceOptions = {}): Promise<Coach[]> {
     const { 
-      useCache = true, 
-      forceRefresh = false, 
       cacheTTL = 10 * 60 * 1000,
-      offlineFirst = false 
+      offlineFirst = false,
+      onCacheResult,
     } = options;
-    const cacheKey = 'coaches_list';
+    const cacheKey = dataCacheKeys.coaches();
 
     try {
       const networkStatus = offlineDataService.getNetworkStatus();
@@ -44,72 +307,43 @@ class DataService {
         
         if (offlineCoaches.length > 0) {
           console.log(`DataService: Returning ${offlineCoaches.length} offline coaches`);
+          onCacheResult?.(true);
           return offlineCoaches;
         }
         
         // If offline and no cached data, return empty array or fallback data
         if (!networkStatus.isConnected) {
           console.log('DataService: No offline data available, returning empty array');
+          onCacheResult?.(false);
           return [];
         }
       }
 
-      // Check cache first if enabled and not forcing refresh
-      if (useCache && !forceRefresh && networkStatus.isConnected) {
-        const cachedCoaches = await this.cache.get<Coach[]>(cacheKey);
-        if (cachedCoaches) {
-          console.log('DataService: Returning cached coaches');
-          // Also store in offline storage for future offline access
-          cachedCoaches.forEach(async (coach, index) => {
-            await offlineDataService.cacheServerData(coach.id, 'coach', coach);
-          });
-          return cachedCoaches;
-        }
-      }
-
-      // Only fetch from API if online
-      if (networkStatus.isConnected) {
-        // Simulate API call
-        console.log('DataService: Fetching coaches from API');
-        await new Promise(resolve => setTimeout(resolve, 1000));
-
-        // Simulate occasional network error
-        if (Math.random() < 0.05) {
-          throw new Error('Network request failed');
-        }
-
-        const coaches = [...mockCoaches];
+      return await this.readThrough({
+        key: cacheKey,
+        request: async () => {
+          console.log('DataService: Fetching coaches from API');
+          const coaches = await this.api.getCoaches();
 
-        // Cache the result if caching is enabled
-        if (useCache) {
-          await this.cache.set(cacheKey, coaches, { ttl: cacheTTL });
-        }
-
-        // Store in offline storage for future offline access
-        coaches.forEach(async (coach) => {
-          await offlineDataService.cacheServerData(coach.id, 'coach', coach);
-        });
-
-        return coaches;
-      } else {
-        // Not connected, try to get offline data
-        const offlineCoaches = await offlineDataService.getDataByType<Coach>('coach');
-        return offlineCoaches;
-      }
+          // Store in offline storage for future offline access
+          await offlineDataService.cacheServerDataMany('coach', coaches);
+          return coaches;
+        },
+        tags: coaches => [cacheTags.coaches, ...coaches.map(coach => cacheTags.coach(coach.id))],
+      }, { ...options, cacheTTL });
     } catch (error) {
       // Try to return offline/cached data if API fails
       const offlineCoaches = await offlineDataService.getDataByType<Coach>('coach');
       if (offlineCoaches.length > 0) {
         console.log('DataService: API failed, returning offline coaches');
+        onCacheResult?.(true);
         return offlineCoaches;
       }
 
-      if (useCache) {
-        const cachedCoaches = await this.cache.get<Coach[]>(cacheKey);
-        if (cachedCoaches) {
-          console.log('DataService: API failed, returning cached coaches');
-          return cachedCoaches;
-        }
+      const cachedCoaches = await this.getFallback<Coach[]>(cacheKey, options);
+      if (cachedCoaches) {
+        console.log('DataService: API failed, returning cached coaches');
+        return cachedCoaches;
       }
       
       throw handleApiError(error);
@@ -117,25 +351,26 @@ class DataService {
   }
 
   async getCoach(id: string, options: DataServiceOptions = {}): Promise<Coach | null> {
-    const { useCache = true, forceRefresh = false, cacheTTL = 15 * 60 * 1000 } = options;
-    const cacheKey = `coach_${id}`;
+    const { useCache = true, forceRefresh = false, cacheTTL = 15 * 60 * 1000, onCacheResult } = options;
+    const cacheKey = dataCacheKeys.coach(id);
 
     try {
       // Check cache first
       if (useCache && !forceRefresh) {
         const cachedCoach = await this.cache.get<Coach>(cacheKey);
         if (cachedCoach) {
+          onCacheResult?.(true);
           return cachedCoach;
         }
       }
 
       // Get from coaches list (simulate API call)
-      const coaches = await this.getCoaches({ useCache: false });
+      const coaches = await this.getCoaches({ useCache: false, onCacheResult });
       const coach = coaches.find(c => c.id === id) || null;
 
       // Cache individual coach
       if (coach && useCache) {
-        await this.cache.set(cacheKey, coach, { ttl: cacheTTL });
+        await this.cache.set(cacheKey, coach, { ttl: cacheTTL, tags: [cacheTags.coaches, cacheTags.coach(coach.id)] });
       }
 
       return coach;
@@ -144,6 +379,20 @@ class DataService {
     }
   }
 
+  /**
+   * Publish a new coach listing, e.g. for a coach who has just signed up
+   */
+  async createCoach(coach: Coach, options: ApiWriteOptions = {}): Promise<Coach> {
+    try {
+      const created = await this.api.createCoach(coach, options);
+      await offlineDataService.cacheServerData(created.id, 'coach', created);
+      await this.invalidate([cacheTags.coaches, cacheTags.search]);
+      return created;
+    } catch (error) {
+      throw handleApiError(error);
+    }
+  }
+
   async searchCoaches(
     query: string,
     specialty?: string,
@@ -151,230 +400,398 @@ class DataService {
     minRating?: number,
     options: DataServiceOptions = {}
   ): Promise<Coach[]> {
-    const searchKey = `search_${query}_${specialty}_${priceRange?.join('-')}_${minRating}`;
-    const { useCache = true, cacheTTL = 5 * 60 * 1000 } = options;
+    const searchKey = dataCacheKeys.search(query, specialty, priceRange, minRating);
+    const { cacheTTL = 5 * 60 * 1000 } = options;
 
     try {
-      // Check cache for search results
-      if (useCache) {
-        const cachedResults = await this.cache.get<Coach[]>(searchKey);
-        if (cachedResults) {
-          return cachedResults;
-        }
+      return await this.readThrough({
+        key: searchKey,
+        request: async () => {
+          // Get all coaches and filter; only the search result counts as a cache hit or miss
+          const allCoaches = await this.getCoaches({ ...options, onCacheResult: undefined });
+          return allCoaches.filter(coach => {
+            const matchesQuery = !query || 
+              coach.name.toLowerCase().includes(query.toLowerCase()) ||
+              coach.specialty.toLowerCase().includes(query.toLowerCase()) ||
+              coach.tags.some(tag => tag.toLowerCase().includes(query.toLowerCase()));
+
+            const matchesSpecialty = !specialty || coach.specialty === specialty;
+            const matchesPrice = !priceRange || 
+              (coach.price >= priceRange[0] && coach.price <= priceRange[1]);
+            const matchesRating = !minRating || coach.rating >= minRating;
+
+            return matchesQuery && matchesSpecialty && matchesPrice && matchesRating;
+          });
+        },
+        // Profile changes can move a coach in or out of the results; other changes to
+        // a listed coach, like a booked slot, only need its copy refreshed
+        tags: coaches => [cacheTags.search, ...coaches.map(coach => cacheTags.coach(coach.id))],
+      }, { ...options, cacheTTL });
+    } catch (error) {
+      throw handleApiError(error);
+    }
+  }
+
+  /**
+   * Bookable slots for a coach, expanded from their schedule (next 30 days by default)
+   */
+  async getCoachAvailability(
+    coachId: string,
+    range: AvailabilityRange = {
+      from: new Date(),
+      to: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000),
+    },
+    options: CoachAvailabilityOptions = {}
+  ): Promise<TimeSlot[]> {
+    const coach = await this.getCoach(coachId, options);
+    if (!coach) {
+      return [];
+    }
+    return expandAvailability(coach, range, { holderId: options.holderId });
+  }
+
+  // Session-related methods
+  async getSessions(userId: string, options: DataServiceOptions = {}): Promise<BookedSession[]> {
+    const { cacheTTL = 2 * 60 * 1000, onCacheResult } = options;
+    const cacheKey = dataCacheKeys.sessions(userId);
+
+    try {
+      // Offline: serve the sessions stored locally, including unsynced bookings
+      if (!offlineDataService.getNetworkStatus().isConnected) {
+        onCacheResult?.(true);
+        return await offlineDataService.getDataByType<BookedSession>(
+          'session',
+          item => !item.data.userId || item.data.userId === userId
+        );
       }
 
-      // Get all coaches and filter
-      const allCoaches = await this.getCoaches(options);
-      const filteredCoaches = allCoaches.filter(coach => {
-        const matchesQuery = !query || 
-          coach.name.toLowerCase().includes(query.toLowerCase()) ||
-          coach.specialty.toLowerCase().includes(query.toLowerCase()) ||
-          coach.tags.some(tag => tag.toLowerCase().includes(query.toLowerCase()));
+      return await this.readThrough({
+        key: cacheKey,
+        request: () => this.api.getSessions(userId),
+        tags: () => [cacheTags.sessions(userId)],
+      }, { ...options, cacheTTL });
+    } catch (error) {
+      const cachedSessions = await this.getFallback<BookedSession[]>(cacheKey, options);
+      if (cachedSessions) {
+        return cachedSessions;
+      }
+      
+      throw handleApiError(error);
+    }
+  }
 
-        const matchesSpecialty = !specialty || coach.specialty === specialty;
-        const matchesPrice = !priceRange || 
-          (coach.price >= priceRange[0] && coach.price <= priceRange[1]);
-        const matchesRating = !minRating || coach.rating >= minRating;
+  async createSession(session: BookedSession, options: ApiWriteOptions = {}): Promise<BookedSession> {
+    try {
+      const created = await this.api.createSession(session, options);
+      await offlineDataService.cacheServerData(created.id, 'session', created);
 
-        return matchesQuery && matchesSpecialty && matchesPrice && matchesRating;
-      });
+      if (created.userId) {
+        await this.invalidate([cacheTags.sessions(created.userId)]);
+      }
 
-      // Cache search results
-      if (useCache) {
-        await this.cache.set(searchKey, filteredCoaches, { ttl: cacheTTL });
+      return created;
+    } catch (error) {
+      throw handleApiError(error);
+    }
+  }
+
+  async updateSession(session: BookedSession, options: ApiWriteOptions = {}): Promise<BookedSession> {
+    try {
+      const updated = await this.api.updateSession(session, options);
+      await offlineDataService.cacheServerData(updated.id, 'session', updated);
+
+      if (updated.userId) {
+        await this.invalidate([cacheTags.sessions(updated.userId)]);
       }
 
-      return filteredCoaches;
+      return updated;
     } catch (error) {
       throw handleApiError(error);
     }
   }
 
-  // Session-related methods
-  async getSessions(userId: string, options: DataServiceOptions = {}): Promise<BookedSession[]> {
-    const { useCache = true, forceRefresh = false, cacheTTL = 2 * 60 * 1000 } = options;
-    const cacheKey = `sessions_${userId}`;
+  async rescheduleSession(
+    session: BookedSession,
+    slot: TimeSlot,
+    options: ApiWriteOptions = {}
+  ): Promise<BookedSession> {
+    try {
+      const rescheduled = await this.api.rescheduleSession(session.id, slot, options);
+      await offlineDataService.cacheServerData(rescheduled.id, 'session', rescheduled);
+      await this.invalidate([
+        cacheTags.coach(rescheduled.coachId),
+        ...(rescheduled.userId ? [cacheTags.sessions(rescheduled.userId)] : []),
+      ]);
 
+      return rescheduled;
+    } catch (error) {
+      throw handleApiError(error);
+    }
+  }
+
+  async reserveSlot(
+    coachId: string,
+    slot: TimeSlot,
+    userId?: string,
+    options: ApiWriteOptions = {}
+  ): Promise<Coach> {
     try {
-      if (useCache && !forceRefresh) {
-        const cachedSessions = await this.cache.get<BookedSession[]>(cacheKey);
-        if (cachedSessions) {
-          return cachedSessions;
-        }
-      }
+      const coach = await this.api.reserveSlot(coachId, slot, userId, options);
+      await offlineDataService.cacheServerData(coach.id, 'coach', coach);
+      await this.invalidate([cacheTags.coach(coach.id)]);
+      return coach;
+    } catch (error) {
+      throw handleApiError(error);
+    }
+  }
 
-      // Simulate API call
-      await new Promise(resolve => setTimeout(resolve, 800));
-
-      // Mock sessions data
-      const sessions: BookedSession[] = [
-        {
-          id: '1',
-          coachId: '1',
-          coachName: 'Sarah Johnson',
-          timeSlot: {
-            id: '1-1',
-            start: '09:00',
-            end: '10:00',
-            available: false,
-            date: '2025-01-20',
-          },
-          status: 'upcoming',
-          price: 80,
-          notes: 'Focus on career transition planning',
-        },
-        {
-          id: '2',
-          coachId: '2',
-          coachName: 'Michael Chen',
-          timeSlot: {
-            id: '2-1',
-            start: '16:00',
-            end: '17:00',
-            available: false,
-            date: '2025-01-18',
-          },
-          status: 'upcoming',
-          price: 120,
-          notes: 'Business strategy session',
-        },
-      ];
+  async releaseSlot(coachId: string, slotId: string, options: ApiWriteOptions = {}): Promise<Coach> {
+    try {
+      const coach = await this.api.releaseSlot(coachId, slotId, options);
+      await offlineDataService.cacheServerData(coach.id, 'coach', coach);
+      await this.invalidate([cacheTags.coach(coach.id)]);
+      return coach;
+    } catch (error) {
+      throw handleApiError(error);
+    }
+  }
 
-      if (useCache) {
-        await this.cache.set(cacheKey, sessions, { ttl: cacheTTL });
-      }
+  /**
+   * Publish the times a coach is busy elsewhere so they aren't offered to clients
+   */
+  async updateBusyTimes(coachId: string, busyTimes: BusyTime[]): Promise<Coach> {
+    try {
+      const coach = await this.api.updateBusyTimes(coachId, busyTimes);
+      await offlineDataService.cacheServerData(coach.id, 'coach', coach);
+      await this.invalidate([cacheTags.coach(coach.id)]);
+      return coach;
+    } catch (error) {
+      throw handleApiError(error);
+    }
+  }
 
-      return sessions;
+  /**
+   * Save changes a coach made to their profile. Search results are refreshed
+   * too, since the changes can affect which searches the coach matches.
+   */
+  async updateCoachProfile(coachId: string, changes: CoachProfileUpdate): Promise<Coach> {
+    try {
+      const coach = await this.api.updateCoachProfile(coachId, changes);
+      await offlineDataService.cacheServerData(coach.id, 'coach', coach);
+      await this.invalidate([cacheTags.coach(coach.id), cacheTags.search]);
+      return coach;
     } catch (error) {
-      if (useCache) {
-        const cachedSessions = await this.cache.get<BookedSession[]>(cacheKey);
-        if (cachedSessions) {
-          return cachedSessions;
-        }
-      }
-      
       throw handleApiError(error);
     }
   }
 
-  // Conversation-related methods
-  async getConversations(userId: string, options: DataServiceOptions = {}): Promise<Conversation[]> {
-    const { useCache = true, forceRefresh = false, cacheTTL = 1 * 60 * 1000 } = options;
-    const cacheKey = `conversations_${userId}`;
+  /**
+   * Leave a review for a coach; the coach's rating is recalculated by the server
+   */
+  async submitReview(coachId: string, review: Review, options: ApiWriteOptions = {}): Promise<Coach> {
+    try {
+      const coach = await this.api.submitReview(coachId, review, options);
+      await offlineDataService.cacheServerData(coach.id, 'coach', coach);
+      await this.invalidate([cacheTags.coach(coach.id), cacheTags.search]);
+      return coach;
+    } catch (error) {
+      throw handleApiError(error);
+    }
+  }
 
+  /**
+   * Save changes to the user's own profile
+   */
+  async updateUser(user: User, options: ApiWriteOptions = {}): Promise<User> {
     try {
-      if (useCache && !forceRefresh) {
-        const cached = await this.cache.get<Conversation[]>(cacheKey);
-        if (cached) {
-          return cached;
-        }
-      }
+      const updated = await this.api.updateUser(user, options);
+      await offlineDataService.cacheServerData(updated.id, 'user', updated);
+      return updated;
+    } catch (error) {
+      throw handleApiError(error);
+    }
+  }
 
-      // Simulate API call
-      await new Promise(resolve => setTimeout(resolve, 600));
-
-      const conversations: Conversation[] = [
-        {
-          id: '1',
-          coachId: '1',
-          coachName: 'Sarah Johnson',
-          lastMessage: 'Looking forward to our session tomorrow!',
-          lastMessageTime: '2025-01-11T14:30:00Z',
-          unreadCount: 2,
-          messages: [],
-        },
-        {
-          id: '2',
-          coachId: '2',
-          coachName: 'Michael Chen',
-          lastMessage: 'Here are the resources I mentioned...',
-          lastMessageTime: '2025-01-10T16:45:00Z',
-          unreadCount: 0,
-          messages: [],
-        },
-      ];
+  /**
+   * A coach's upcoming group sessions with the clients booked into each
+   */
+  async getGroupRosters(coachId: string): Promise<GroupRoster[]> {
+    try {
+      return await this.api.getGroupRosters(coachId);
+    } catch (error) {
+      throw handleApiError(error);
+    }
+  }
 
-      if (useCache) {
-        await this.cache.set(cacheKey, conversations, { ttl: cacheTTL });
-      }
+  // Package credit methods
+  async getPackageCredits(userId: string, options: DataServiceOptions = {}): Promise<PackageCredit[]> {
+    const { cacheTTL = 2 * 60 * 1000 } = options;
+    const cacheKey = dataCacheKeys.credits(userId);
 
-      return conversations;
+    try {
+      return await this.readThrough({
+        key: cacheKey,
+        request: () => this.api.getPackageCredits(userId),
+        tags: () => [cacheTags.credits(userId)],
+      }, { ...options, cacheTTL });
     } catch (error) {
-      if (useCache) {
-        const cached = await this.cache.get<Conversation[]>(cacheKey);
-        if (cached) {
-          return cached;
-        }
+      const cachedCredits = await this.getFallback<PackageCredit[]>(cacheKey, options);
+      if (cachedCredits) {
+        return cachedCredits;
       }
-      
+
       throw handleApiError(error);
     }
   }
 
-  async getMessages(conversationId: string, options: DataServiceOptions = {}): Promise<ChatMessage[]> {
-    const { useCache = true, forceRefresh = false, cacheTTL = 30 * 1000 } = options;
-    const cacheKey = `messages_${conversationId}`;
+  async createPackageCredit(credit: PackageCredit): Promise<PackageCredit> {
+    try {
+      const created = await this.api.createPackageCredit(credit);
+      await this.invalidate([cacheTags.credits(created.userId)]);
+      return created;
+    } catch (error) {
+      throw handleApiError(error);
+    }
+  }
 
+  /**
+   * Draw sessions down from a package; the server rejects expired or exhausted credits
+   */
+  async redeemPackageCredit(credit: PackageCredit, sessions: number): Promise<PackageCredit> {
     try {
-      if (useCache && !forceRefresh) {
-        const cached = await this.cache.get<ChatMessage[]>(cacheKey);
-        if (cached) {
-          return cached;
-        }
+      const updated = await this.api.redeemPackageCredit(credit.id, sessions);
+      await this.invalidate([cacheTags.credits(updated.userId)]);
+      return updated;
+    } catch (error) {
+      throw handleApiError(error);
+    }
+  }
+
+  async restorePackageCredit(credit: PackageCredit, sessions: number): Promise<PackageCredit> {
+    try {
+      const updated = await this.api.restorePackageCredit(credit.id, sessions);
+      await this.invalidate([cacheTags.credits(updated.userId)]);
+      return updated;
+    } catch (error) {
+      throw handleApiError(error);
+    }
+  }
+
+  // Waitlist methods
+  async getWaitlist(userId: string): Promise<WaitlistEntry[]> {
+    try {
+      return await this.api.getWaitlist(userId);
+    } catch (error) {
+      throw handleApiError(error);
+    }
+  }
+
+  async joinWaitlist(entry: WaitlistEntry): Promise<WaitlistEntry> {
+    try {
+      return await this.api.joinWaitlist(entry);
+    } catch (error) {
+      throw handleApiError(error);
+    }
+  }
+
+  /**
+   * Leave a waitlist; a slot held for the entry passes to the next client in line
+   */
+  async leaveWaitlist(entry: WaitlistEntry): Promise<WaitlistEntry> {
+    try {
+      const updated = await this.api.leaveWaitlist(entry.id);
+      if (entry.hold) {
+        await this.clearCoachCache();
       }
+      return updated;
+    } catch (error) {
+      throw handleApiError(error);
+    }
+  }
 
-      // Simulate API call
-      await new Promise(resolve => setTimeout(resolve, 400));
-
-      const messages: ChatMessage[] = [
-        {
-          id: '1',
-          senderId: '1',
-          senderName: 'Sarah Johnson',
-          message: 'Hi! Thanks for booking a session with me. Looking forward to working together!',
-          timestamp: '2025-01-10T10:00:00Z',
-          type: 'text',
-        },
-        {
-          id: '2',
-          senderId: 'user-1',
-          senderName: 'You',
-          message: 'Thanks Sarah! I\'m excited to get started on my career goals.',
-          timestamp: '2025-01-10T10:05:00Z',
-          type: 'text',
-        },
-      ];
+  // Conversation-related methods
+  async getConversations(userId: string, options: DataServiceOptions = {}): Promise<Conversation[]> {
+    const { cacheTTL = 1 * 60 * 1000 } = options;
+    const cacheKey = dataCacheKeys.conversations(userId);
 
-      if (useCache) {
-        await this.cache.set(cacheKey, messages, { ttl: cacheTTL });
+    try {
+      return await this.readThrough({
+        key: cacheKey,
+        request: () => this.api.getConversations(userId),
+        tags: conversations => [
+          cacheTags.conversations(userId),
+          ...conversations.map(conversation => cacheTags.conversation(conversation.id)),
+        ],
+      }, { ...options, cacheTTL });
+    } catch (error) {
+      const cached = await this.getFallback<Conversation[]>(cacheKey, options);
+      if (cached) {
+        return cached;
       }
+      
+      throw handleApiError(error);
+    }
+  }
 
-      return messages;
+  async getMessages(conversationId: string, options: DataServiceOptions = {}): Promise<ChatMessage[]> {
+    const { cacheTTL = 30 * 1000 } = options;
+    const cacheKey = dataCacheKeys.messages(conversationId);
+
+    try {
+      return await this.readThrough({
+        key: cacheKey,
+        request: () => this.api.getMessages(conversationId),
+        tags: () => [cacheTags.conversation(conversationId)],
+      }, { ...options, cacheTTL });
     } catch (error) {
-      if (useCache) {
-        const cached = await this.cache.get<ChatMessage[]>(cacheKey);
-        if (cached) {
-          return cached;
-        }
+      const cached = await this.getFallback<ChatMessage[]>(cacheKey, options);
+      if (cached) {
+        return cached;
       }
       
       throw handleApiError(error);
     }
   }
 
+  async sendMessage(
+    conversationId: string,
+    message: ChatMessage,
+    options: ApiWriteOptions = {}
+  ): Promise<ChatMessage> {
+    try {
+      const sent = await this.api.sendMessage(conversationId, message, options);
+      await offlineDataService.saveConversationMessages(conversationId, [sent]);
+      await this.invalidate([cacheTags.conversation(conversationId)]);
+      return sent;
+    } catch (error) {
+      throw handleApiError(error);
+    }
+  }
+
   // Cache management methods
   async clearCache(): Promise<void> {
     await this.cache.clear();
+    this.refetchers.clear();
   }
 
   async clearCoachCache(): Promise<void> {
-    await this.cache.clear('lazycoach_cache_coach');
-    await this.cache.remove('coaches_list');
+    await this.invalidate([cacheTags.coaches, cacheTags.search]);
+  }
+
+  async clearSessionCache(userId: string): Promise<void> {
+    await this.invalidate([cacheTags.sessions(userId)]);
+  }
+
+  async clearCreditCache(userId: string): Promise<void> {
+    await this.invalidate([cacheTags.credits(userId)]);
   }
 
   async clearUserCache(userId: string): Promise<void> {
-    await this.cache.remove(`sessions_${userId}`);
-    await this.cache.remove(`conversations_${userId}`);
+    await this.invalidate([
+      cacheTags.sessions(userId),
+      cacheTags.credits(userId),
+      cacheTags.conversations(userId),
+    ]);
   }
 
   async getCacheStats() {
@@ -0,0 +1,77 @@
+import * as Calendar from 'expo-calendar';
+import { Platform } from 'react-native';
+import type { CalendarAdapter, CalendarEventDetails } from './CalendarService';
+import { BusyInterval } from '../utils/availabilityEngine';
+
+/**
+ * Device calendar access through expo-calendar
+ */
+export class ExpoCalendarAdapter implements CalendarAdapter {
+  async requestPermission(): Promise<boolean> {
+    const { status } = await Calendar.requestCalendarPermissionsAsync();
+    return status === 'granted';
+  }
+
+  async findCalendar(title: string): Promise<string | null> {
+    const calendars = await Calendar.getCalendarsAsync(Calendar.EntityTypes.EVENT);
+    return calendars.find(calendar => calendar.title === title)?.id ?? null;
+  }
+
+  async createCalendar(title: string, color: string): Promise<string> {
+    // iOS calendars need a source; Android creates a local one
+    const source: Calendar.Source = Platform.OS === 'ios'
+      ? (await Calendar.getDefaultCalendarAsync()).source
+      : { isLocalAccount: true, name: title, type: Calendar.SourceType.LOCAL };
+
+    return Calendar.createCalendarAsync({
+      title,
+      name: title,
+      color,
+      entityType: Calendar.EntityTypes.EVENT,
+      sourceId: source.id,
+      source,
+      ownerAccount: 'personal',
+      accessLevel: Calendar.CalendarAccessLevel.OWNER,
+    });
+  }
+
+  async createEvent(calendarId: string, details: CalendarEventDetails): Promise<string> {
+    return Calendar.createEventAsync(calendarId, this.toEvent(details));
+  }
+
+  async updateEvent(eventId: string, details: CalendarEventDetails): Promise<void> {
+    await Calendar.updateEventAsync(eventId, this.toEvent(details));
+  }
+
+  async deleteEvent(eventId: string): Promise<void> {
+    await Calendar.deleteEventAsync(eventId);
+  }
+
+  async getBusyIntervals(from: Date, to: Date, excludeCalendarIds: string[]): Promise<BusyInterval[]> {
+    const calendars = await Calendar.getCalendarsAsync(Calendar.EntityTypes.EVENT);
+    const calendarIds = calendars
+      .map(calendar => calendar.id)
+      .filter(id => !excludeCalendarIds.includes(id));
+
+    if (calendarIds.length === 0) {
+      return [];
+    }
+
+    const events = await Calendar.getEventsAsync(calendarIds, from, to);
+    return events
+      .filter(event => !event.allDay && event.availability !== Calendar.Availability.FREE)
+      .map(event => ({ start: new Date(event.startDate), end: new Date(event.endDate) }));
+  }
+
+  private toEvent(details: CalendarEventDetails): Omit<Partial<Calendar.Event>, 'id' | 'organizer'> {
+    return {
+      title: details.title,
+      startDate: details.startDate,
+      endDate: details.endDate,
+      timeZone: details.timeZone,
+      notes: details.notes,
+      url: details.url,
+      availability: Calendar.Availability.BUSY,
+    };
+  }
+}
@@ -0,0 +1,96 @@
+import * as FileSystem from 'expo-file-system';
+import { BaseApiClient } from './BaseApiClient';
+import type { HttpMethod, UploadProgressListener } from './ApiClient';
+import { ChatAttachment } from '../types';
+import { createNetworkError, handleApiError } from '../utils/errorHandling';
+
+/**
+ * HTTP adapter that talks to a real (or locally stubbed) server with fetch
+ */
+export class FetchApiClient extends BaseApiClient {
+  protected async send(
+    method: HttpMethod,
+    path: string,
+    body: unknown,
+    headers: Record<string, string>,
+    timeoutMs: number
+  ): Promise<unknown> {
+    const url = `${this.config.baseUrl.replace(/\/$/, '')}${path}`;
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), timeoutMs);
+
+    try {
+      const response = await fetch(url, {
+        method,
+        headers,
+        body: body !== undefined ? JSON.stringify(body) : undefined,
+        signal: controller.signal,
+      });
+
+      const text = await response.text();
+      const json = text ? JSON.parse(text) : null;
+
+      if (!response.ok) {
+        throw handleApiError({
+          status: response.status,
+          message: json?.message || `Request failed with status ${response.status}`,
+        });
+      }
+
+      return json;
+    } catch (error) {
+      if ((error as Error)?.name === 'AbortError') {
+        throw createNetworkError(`Request to ${path} timed out after ${timeoutMs}ms`);
+      }
+      throw handleApiError(error);
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+
+  protected async sendFile(
+    path: string,
+    file: ChatAttachment,
+    headers: Record<string, string>,
+    onProgress: UploadProgressListener
+  ): Promise<unknown> {
+    const url = `${this.config.baseUrl.replace(/\/$/, '')}${path}`;
+    // fetch can't report upload progress, so files go through the native upload task
+    const task = FileSystem.createUploadTask(
+      url,
+      file.uri,
+      {
+        httpMethod: 'POST',
+        uploadType: FileSystem.FileSystemUploadType.MULTIPART,
+        fieldName: 'file',
+        mimeType: file.mimeType,
+        parameters: { id: file.id, kind: file.kind, ...(file.name && { name: file.name }) },
+        headers,
+      },
+      ({ totalBytesSent, totalBytesExpectedToSend }) => {
+        if (totalBytesExpectedToSend > 0) {
+          onProgress(totalBytesSent / totalBytesExpectedToSend);
+        }
+      }
+    );
+
+    try {
+      const response = await task.uploadAsync();
+      if (!response) {
+        throw createNetworkError(`Upload to ${path} was cancelled`);
+      }
+
+      const json = response.body ? JSON.parse(response.body) : null;
+      if (response.status < 200 || response.status >= 300) {
+        throw handleApiError({
+          status: response.status,
+          message: json?.message || `Upload failed with status ${response.status}`,
+        });
+      }
+
+      return json;
+    } catch (error) {
+      throw handleApiError(error);
+    }
+  }
+}
@@ -0,0 +1,279 @@
+import { storage } from '../utils/storage';
+import type { SyncableData } from './OfflineDataService';
+
+export type LocalIndex = 'type' | 'conversation' | 'specialty';
+
+export interface PageOptions {
+  offset?: number;
+  limit?: number;
+  // Page back from the end of the index, returning items newest first
+  newestFirst?: boolean;
+}
+
+export interface Page<T> {
+  items: T[];
+  total: number;
+  // Offset of the next page, or null on the last one
+  nextOffset: number | null;
+}
+
+const RECORD_PREFIX = 'offline_record:';
+const INDEX_PREFIX = 'offline_index:';
+// Everything used to live in this one record before entities got their own keys
+const LEGACY_BLOB_KEY = 'offline_data';
+
+function recordKey(id: string): string {
+  return `${RECORD_PREFIX}${id}`;
+}
+
+function indexKey(index: LocalIndex, value: string): string {
+  return `${INDEX_PREFIX}${index}:${value}`;
+}
+
+/**
+ * When a message was sent, which orders conversation indexes; null for anything else
+ */
+function getMessageTime(record: SyncableData | undefined): number | null {
+  if (record?.type !== 'message') {
+    return null;
+  }
+  const time = Date.parse(record.data?.timestamp);
+  return Number.isNaN(time) ? null : time;
+}
+
+/**
+ * The index entries a record belongs to
+ */
+function getIndexKeys(record: SyncableData): string[] {
+  const keys = [indexKey('type', record.type)];
+  if (record.type === 'message' && record.data?.conversationId) {
+    keys.push(indexKey('conversation', record.data.conversationId));
+  }
+  if (record.type === 'coach' && record.data?.specialty) {
+    keys.push(indexKey('specialty', String(record.data.specialty).toLowerCase()));
+  }
+  return keys;
+}
+
+/**
+ * Offline records stored one per key, with id lists kept as secondary
+ * indexes so lookups by type, conversation or coach specialty only read the
+ * records they return. Writes are batched and applied one batch at a time.
+ */
+export class LocalDataStore {
+  private static instance: LocalDataStore;
+  // Index id lists, loaded on first use and kept in step with storage
+  private indexes = new Map<string, string[]>();
+  private writeQueue: Promise<unknown> = Promise.resolve();
+  private readyPromise: Promise<void> | null = null;
+
+  public static getInstance(): LocalDataStore {
+    if (!LocalDataStore.instance) {
+      LocalDataStore.instance = new LocalDataStore();
+    }
+    return LocalDataStore.instance;
+  }
+
+  /**
+   * Get a record by id
+   */
+  async get(id: string): Promise<SyncableData | null> {
+    await this.ready();
+    const stored = await storage.getItem(recordKey(id));
+    return stored ? JSON.parse(stored) : null;
+  }
+
+  async getMany(ids: string[]): Promise<SyncableData[]> {
+    await this.ready();
+    return this.readRecords(ids);
+  }
+
+  private async readRecords(ids: string[]): Promise<SyncableData[]> {
+    if (ids.length === 0) {
+      return [];
+    }
+    const entries = await storage.multiGet(ids.map(recordKey));
+    return entries
+      .map(([, value]) => (value ? JSON.parse(value) as SyncableData : null))
+      .filter((record): record is SyncableData => record !== null);
+  }
+
+  /**
+   * Records in an index, in the order they were first stored (or the reverse with `newestFirst`).
+   * Conversation indexes are kept in message time order instead.
+   */
+  async query(index: LocalIndex, value: string, options: PageOptions = {}): Promise<Page<SyncableData>> {
+    await this.ready();
+    const indexIds = await this.getIndex(indexKey(index, index === 'specialty' ? value.toLowerCase() : value));
+    const ids = options.newestFirst ? [...indexIds].reverse() : indexIds;
+    const { offset = 0, limit = ids.length } = options;
+    const pageIds = ids.slice(offset, offset + limit);
+    const end = offset + pageIds.length;
+
+    return {
+      items: await this.readRecords(pageIds),
+      total: ids.length,
+      nextOffset: end < ids.length ? end : null,
+    };
+  }
+
+  /**
+   * Write records and their index entries in a single batch
+   */
+  async put(records: SyncableData[]): Promise<void> {
+    if (records.length === 0) {
+      return;
+    }
+    await this.ready();
+    await this.enqueueWrite(() => this.writeRecords(records));
+  }
+
+  async remove(ids: string[]): Promise<void> {
+    await this.ready();
+    await this.enqueueWrite(async () => {
+      const existing = await this.readRecords(ids);
+      const changedIndexes = new Map<string, string[]>();
+
+      for (const record of existing) {
+        for (const key of getIndexKeys(record)) {
+          const list = changedIndexes.get(key) ?? [...(await this.getIndex(key))];
+          changedIndexes.set(key, list.filter(id => id !== record.id));
+        }
+      }
+
+      await storage.multiRemove(ids.map(recordKey));
+      await this.saveIndexes(changedIndexes);
+    });
+  }
+
+  /**
+   * Drop every record and index
+   */
+  async clear(): Promise<void> {
+    await this.enqueueWrite(async () => {
+      const keys = (await storage.getAllKeys()).filter(
+        key => key.startsWith(RECORD_PREFIX) || key.startsWith(INDEX_PREFIX)
+      );
+      await storage.multiRemove([...keys, LEGACY_BLOB_KEY]);
+      this.indexes.clear();
+    });
+  }
+
+  private async writeRecords(records: SyncableData[]): Promise<void> {
+    // Only the last write for an id in a batch counts
+    const latest = new Map(records.map(record => [record.id, record]));
+    const previous = new Map((await this.readRecords([...latest.keys()])).map(record => [record.id, record]));
+    const changedIndexes = new Map<string, string[]>();
+    const listFor = async (key: string) => changedIndexes.get(key) ?? [...(await this.getIndex(key))];
+
+    for (const record of latest.values()) {
+      const newKeys = getIndexKeys(record);
+      const oldRecord = previous.get(record.id);
+
+      // A record can move between indexes, e.g. a coach whose specialty changed
+      for (const key of oldRecord ? getIndexKeys(oldRecord) : []) {
+        if (!newKeys.includes(key)) {
+          changedIndexes.set(key, (await listFor(key)).filter(id => id !== record.id));
+        }
+      }
+      for (const key of newKeys) {
+        const list = await listFor(key);
+        if (!list.includes(record.id)) {
+          changedIndexes.set(key, key.startsWith(indexKey('conversation', ''))
+            ? await this.insertByMessageTime(list, record, latest)
+            : [...list, record.id]);
+        }
+      }
+    }
+
+    await storage.multiSet([
+      ...[...latest.values()].map((record): [string, string] => [recordKey(record.id), JSON.stringify(record)]),
+      ...[...changedIndexes].map(([key, ids]): [string, string] => [key, JSON.stringify(ids)]),
+    ]);
+    changedIndexes.forEach((ids, key) => this.indexes.set(key, ids));
+  }
+
+  /**
+   * Add a message to a conversation index after every message sent no later than it.
+   * Messages can be stored out of order, e.g. when a sync fills in older history.
+   */
+  private async insertByMessageTime(
+    list: string[],
+    record: SyncableData,
+    batch: Map<string, SyncableData>
+  ): Promise<string[]> {
+    const time = getMessageTime(record);
+    if (time === null) {
+      return [...list, record.id];
+    }
+
+    const timeOf = async (id: string) =>
+      getMessageTime(batch.get(id) ?? (await this.readRecords([id]))[0]);
+    let low = 0;
+    let high = list.length;
+    while (low < high) {
+      const middle = Math.floor((low + high) / 2);
+      const middleTime = await timeOf(list[middle]);
+      if (middleTime !== null && middleTime > time) {
+        high = middle;
+      } else {
+        low = middle + 1;
+      }
+    }
+    return [...list.slice(0, low), record.id, ...list.slice(low)];
+  }
+
+  private async getIndex(key: string): Promise<string[]> {
+    const cached = this.indexes.get(key);
+    if (cached) {
+      return cached;
+    }
+    const stored = await storage.getItem(key);
+    const ids: string[] = stored ? JSON.parse(stored) : [];
+    this.indexes.set(key, ids);
+    return ids;
+  }
+
+  private async saveIndexes(changedIndexes: Map<string, string[]>): Promise<void> {
+    if (changedIndexes.size === 0) {
+      return;
+    }
+    await storage.multiSet([...changedIndexes].map(([key, ids]): [string, string] => [key, JSON.stringify(ids)]));
+    changedIndexes.forEach((ids, key) => this.indexes.set(key, ids));
+  }
+
+  private enqueueWrite<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.writeQueue.then(task);
+    this.writeQueue = result.catch(() => undefined);
+    return result;
+  }
+
+  private ready(): Promise<void> {
+    if (!this.readyPromise) {
+      this.readyPromise = this.enqueueWrite(() => this.migrateLegacyBlob());
+    }
+    return this.readyPromise;
+  }
+
+  /**
+   * Move records out of the single JSON blob used by older versions
+   */
+  private async migrateLegacyBlob(): Promise<void> {
+    try {
+      const blob = await storage.getItem(LEGACY_BLOB_KEY);
+      if (!blob) {
+        return;
+      }
+
+      const records = Object.values(JSON.parse(blob) as Record<string, SyncableData>);
+      await this.writeRecords(records);
+      await storage.removeItem(LEGACY_BLOB_KEY);
+      console.log(`[LocalDataStore] Migrated ${records.length} records from the legacy offline blob`);
+    } catch (error) {
+      // Leave the blob in place so the next launch can try again
+      console.error('[LocalDataStore] Failed to migrate legacy offline data:', error);
+    }
+  }
+}
+
+export const localDataStore = LocalDataStore.getInstance();
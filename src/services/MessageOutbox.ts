@@ -0,0 +1,327 @@
+import { randomUUID } from 'expo-crypto';
+import { ChatMessage, MessageStatus } from '../types';
+import { storage, SimpleStorage } from '../utils/storage';
+import { getBackoffDelay } from '../utils/syncQueue';
+import { hasPendingUploads, replaceAttachment, validateAttachment } from '../utils/attachments';
+import { apiClient, ApiClient } from './ApiClient';
+import { offlineDataService, OfflineDataService } from './OfflineDataService';
+import { realtimeMessagingService, RealtimeMessagingService } from './RealtimeMessagingService';
+
+export interface OutboxEntry {
+  conversationId: string;
+  message: ChatMessage;
+  // Send attempts made while connected; time spent offline doesn't count
+  attempts: number;
+  lastError?: string;
+}
+
+export type OutboxListener = (conversationId: string, message: ChatMessage) => void;
+
+type OutboxMessaging = Pick<RealtimeMessagingService, 'sendMessage' | 'getConnectionStatus' | 'addConnectionListener'>;
+type OutboxHistory = Pick<OfflineDataService, 'saveConversationMessages'>;
+type OutboxStorage = Pick<SimpleStorage, 'getItem' | 'setItem'>;
+type OutboxUploader = Pick<ApiClient, 'uploadAttachment'>;
+
+export const OUTBOX_STORAGE_KEY = 'message_outbox';
+// A message is marked failed, and left for the user to retry or delete, after this many attempts
+export const MAX_SEND_ATTEMPTS = 3;
+
+/**
+ * Ids are generated on the device, so a message resent after a lost ack is
+ * recognised as the same message by the server and by every history it lands in
+ */
+export function createClientMessageId(): string {
+  return `msg_${randomUUID()}`;
+}
+
+// Messages with files still to upload show as uploading until they're up
+function getQueuedStatus(message: ChatMessage): MessageStatus {
+  return hasPendingUploads(message) ? 'uploading' : 'sending';
+}
+
+/**
+ * Per-conversation queues of chat messages waiting to reach the server. Each
+ * queue is sent in order whenever the connection is up, and kept in storage
+ * so unsent messages survive a restart. Attachments are uploaded first, then
+ * a message stays sending until the server acks it as sent. Status changes
+ * are written to the conversation's history and passed to listeners.
+ */
+export class MessageOutbox {
+  private queues: Promise<Record<string, OutboxEntry[]>> | null = null;
+  private listeners = new Set<OutboxListener>();
+  // Conversations being flushed, and those that need another pass when it ends
+  private flushing = new Set<string>();
+  private flushAgain = new Set<string>();
+  private retryTimers = new Map<string, ReturnType<typeof setTimeout>>();
+  private storageLock: Promise<unknown> = Promise.resolve();
+  private stopListening: () => void;
+
+  constructor(
+    private messaging: OutboxMessaging = realtimeMessagingService,
+    private history: OutboxHistory = offlineDataService,
+    private store: OutboxStorage = storage,
+    private random: () => number = Math.random,
+    private uploader: OutboxUploader = apiClient
+  ) {
+    this.stopListening = this.messaging.addConnectionListener(status => {
+      if (status === 'connected') {
+        this.flushAll();
+      }
+    });
+  }
+
+  /**
+   * Queue a message and send it as soon as the connection allows. Throws a
+   * validation error, without queueing, if an attachment is over its limits.
+   */
+  async send(conversationId: string, message: ChatMessage): Promise<void> {
+    message.attachments?.forEach(validateAttachment);
+    const queued: ChatMessage = { ...message, status: getQueuedStatus(message) };
+    await this.updateQueues(queues => {
+      const queue = queues[conversationId] ?? [];
+      if (!queue.some(entry => entry.message.id === message.id)) {
+        queues[conversationId] = [...queue, { conversationId, message: queued, attempts: 0 }];
+      }
+    });
+    await this.publish(conversationId, queued);
+    this.flush(conversationId);
+  }
+
+  /**
+   * Put a failed message back in line with a fresh set of attempts
+   */
+  async retry(conversationId: string, messageId: string): Promise<void> {
+    const retried = await this.updateQueues(queues => {
+      const queue = queues[conversationId] ?? [];
+      const entry = queue.find(queued => queued.message.id === messageId);
+      if (!entry) return null;
+
+      const message: ChatMessage = { ...entry.message, status: getQueuedStatus(entry.message) };
+      queues[conversationId] = queue.map(queued =>
+        queued === entry ? { ...entry, message, attempts: 0, lastError: undefined } : queued
+      );
+      return message;
+    });
+
+    if (retried) {
+      await this.publish(conversationId, retried);
+      this.flush(conversationId);
+    }
+  }
+
+  /**
+   * Drop a message that hasn't been sent. Returns false if it was no longer queued.
+   */
+  async remove(conversationId: string, messageId: string): Promise<boolean> {
+    return this.updateQueues(queues => {
+      const queue = queues[conversationId] ?? [];
+      queues[conversationId] = queue.filter(entry => entry.message.id !== messageId);
+      return queue.length !== queues[conversationId].length;
+    });
+  }
+
+  async getEntries(conversationId: string): Promise<OutboxEntry[]> {
+    return (await this.getQueues())[conversationId] ?? [];
+  }
+
+  /**
+   * Get told whenever a queued message changes status. Returns a function that stops listening.
+   */
+  subscribe(listener: OutboxListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Send every conversation's queue
+   */
+  async flushAll(): Promise<void> {
+    const queues = await this.getQueues();
+    await Promise.all(Object.keys(queues).map(conversationId => this.flush(conversationId)));
+  }
+
+  /**
+   * Send a conversation's queue in order, stopping at the first message that
+   * can't be sent yet so later ones don't overtake it
+   */
+  async flush(conversationId: string): Promise<void> {
+    if (this.flushing.has(conversationId)) {
+      this.flushAgain.add(conversationId);
+      return;
+    }
+
+    this.flushing.add(conversationId);
+    this.clearRetryTimer(conversationId);
+    try {
+      do {
+        this.flushAgain.delete(conversationId);
+        await this.sendQueued(conversationId);
+      } while (this.flushAgain.has(conversationId));
+    } finally {
+      this.flushing.delete(conversationId);
+    }
+  }
+
+  /**
+   * Stop reacting to the connection and cancel scheduled retries
+   */
+  dispose(): void {
+    this.stopListening();
+    this.retryTimers.forEach(timer => clearTimeout(timer));
+    this.retryTimers.clear();
+  }
+
+  private async sendQueued(conversationId: string): Promise<void> {
+    for (const entry of await this.getEntries(conversationId)) {
+      // Failed messages wait for the user instead of holding up the rest
+      if (entry.message.status === 'failed') continue;
+      if (this.messaging.getConnectionStatus() !== 'connected') return;
+
+      let message = entry.message;
+      try {
+        message = await this.uploadAttachments(conversationId, message);
+        await this.messaging.sendMessage(conversationId, { ...message, status: 'sent' });
+      } catch (error) {
+        const failed = await this.recordFailure(conversationId, entry.message.id, (error as Error).message);
+        if (failed) continue;
+
+        // Back off, unless the connection dropped, in which case reconnecting triggers the next flush
+        if (this.messaging.getConnectionStatus() === 'connected') {
+          this.scheduleRetry(conversationId, entry.attempts + 1);
+        }
+        return;
+      }
+
+      await this.updateQueues(queues => {
+        queues[conversationId] = (queues[conversationId] ?? []).filter(queued => queued.message.id !== entry.message.id);
+      });
+      // The server has it; delivered and read come later as receipts from the recipient
+      await this.publish(conversationId, { ...message, status: 'sent' });
+    }
+  }
+
+  /**
+   * Upload the attachments that aren't up yet, saving each to the queue as it
+   * finishes so a retry doesn't upload it again. Returns the message pointing
+   * at the uploaded files.
+   */
+  private async uploadAttachments(conversationId: string, message: ChatMessage): Promise<ChatMessage> {
+    if (!hasPendingUploads(message)) {
+      return message;
+    }
+
+    let current: ChatMessage = { ...message, status: 'uploading' };
+    await this.publish(conversationId, current);
+
+    for (const attachment of message.attachments ?? []) {
+      if (attachment.uploaded) continue;
+
+      const uploaded = await this.uploader.uploadAttachment(attachment, uploadProgress => {
+        current = replaceAttachment(current, { ...attachment, uploadProgress });
+        // Progress is only shown, not stored; the finished upload is
+        this.notify(conversationId, current);
+      });
+      current = replaceAttachment(current, uploaded);
+      await this.updateQueues(queues => {
+        queues[conversationId] = (queues[conversationId] ?? []).map(entry =>
+          entry.message.id === message.id
+            ? { ...entry, message: replaceAttachment(entry.message, uploaded) }
+            : entry
+        );
+      });
+    }
+
+    current = { ...current, status: 'sending' };
+    await this.publish(conversationId, current);
+    return current;
+  }
+
+  /**
+   * Count a failed attempt. Returns true if the message has now run out of attempts.
+   */
+  private async recordFailure(conversationId: string, messageId: string, error: string): Promise<boolean> {
+    const updated = await this.updateQueues(queues => {
+      const queue = queues[conversationId] ?? [];
+      const entry = queue.find(queued => queued.message.id === messageId);
+      if (!entry) return null;
+
+      const attempts = entry.attempts + 1;
+      const status: MessageStatus = attempts >= MAX_SEND_ATTEMPTS ? 'failed' : 'sending';
+      const failed: OutboxEntry = { ...entry, attempts, lastError: error, message: { ...entry.message, status } };
+      queues[conversationId] = queue.map(queued => (queued === entry ? failed : queued));
+      return failed;
+    });
+
+    if (!updated) {
+      return false;
+    }
+    const { message } = updated;
+    console.warn(`[MessageOutbox] Failed to send ${messageId} (${message.status === 'failed' ? 'giving up' : 'will retry'}):`, error);
+    await this.publish(conversationId, message);
+    return message.status === 'failed';
+  }
+
+  private scheduleRetry(conversationId: string, attempts: number): void {
+    this.clearRetryTimer(conversationId);
+    const delay = getBackoffDelay(attempts, this.random);
+    this.retryTimers.set(conversationId, setTimeout(() => {
+      this.retryTimers.delete(conversationId);
+      this.flush(conversationId);
+    }, delay));
+  }
+
+  private clearRetryTimer(conversationId: string): void {
+    const timer = this.retryTimers.get(conversationId);
+    if (timer) {
+      clearTimeout(timer);
+      this.retryTimers.delete(conversationId);
+    }
+  }
+
+  /**
+   * Write the new status into the conversation's history and tell listeners
+   */
+  private async publish(conversationId: string, message: ChatMessage): Promise<void> {
+    await this.history.saveConversationMessages(conversationId, [message]);
+    this.notify(conversationId, message);
+  }
+
+  private notify(conversationId: string, message: ChatMessage): void {
+    this.listeners.forEach(listener => listener(conversationId, message));
+  }
+
+  private getQueues(): Promise<Record<string, OutboxEntry[]>> {
+    if (!this.queues) {
+      this.queues = this.store.getItem(OUTBOX_STORAGE_KEY).then(
+        stored => (stored ? JSON.parse(stored) : {}),
+        error => {
+          console.error('[MessageOutbox] Failed to load outbox:', error);
+          return {};
+        }
+      );
+    }
+    return this.queues;
+  }
+
+  /**
+   * Change the queues and persist them, one change at a time
+   */
+  private updateQueues<T = void>(change: (queues: Record<string, OutboxEntry[]>) => T): Promise<T> {
+    const result = this.storageLock.then(async () => {
+      const queues = await this.getQueues();
+      const changed = change(queues);
+      Object.keys(queues).forEach(conversationId => {
+        if (queues[conversationId].length === 0) delete queues[conversationId];
+      });
+      await this.store.setItem(OUTBOX_STORAGE_KEY, JSON.stringify(queues));
+      return changed;
+    });
+    this.storageLock = result.catch(() => undefined);
+    return result;
+  }
+}
+
+export const messageOutbox = new MessageOutbox();
+export default messageOutbox;
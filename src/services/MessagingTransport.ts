@@ -0,0 +1,64 @@
+import { ChatMessage } from '../types';
+
+/**
+ * Frames exchanged with the realtime messaging server. Every frame is a JSON
+ * object with a `type`; `userId` on incoming frames is stamped by the server
+ * from the authenticated connection. An `ack` means the server has the
+ * message; the receipts come back from the recipient's device.
+ */
+export type RealtimeFrame =
+  | { type: 'message'; conversationId: string; message: ChatMessage }
+  | { type: 'ack'; conversationId: string; messageId: string }
+  | { type: 'typing'; conversationId: string; isTyping: boolean; userId?: string }
+  | { type: 'delivery_receipt'; conversationId: string; messageIds: string[]; deliveredAt: string; userId?: string }
+  | { type: 'read_receipt'; conversationId: string; messageIds: string[]; readAt: string; userId?: string }
+  | { type: 'presence'; userId: string; isOnline: boolean }
+  | { type: 'ping'; sentAt: number }
+  | { type: 'pong'; sentAt: number };
+
+export type RealtimeFrameType = RealtimeFrame['type'];
+
+export interface MessagingTransportHandlers {
+  onOpen: () => void;
+  onFrame: (frame: RealtimeFrame) => void;
+  // Called when the connection drops or could not be opened; not after close()
+  onClose: (reason: string) => void;
+}
+
+/**
+ * Connection to the realtime messaging server. RealtimeMessagingService owns
+ * reconnection and heartbeats; a transport only moves frames.
+ */
+export interface MessagingTransport {
+  readonly name: string;
+  open(handlers: MessagingTransportHandlers): void;
+  send(frame: RealtimeFrame): void;
+  close(): void;
+}
+
+const FRAME_TYPES: RealtimeFrameType[] = [
+  'message',
+  'ack',
+  'typing',
+  'delivery_receipt',
+  'read_receipt',
+  'presence',
+  'ping',
+  'pong',
+];
+
+export function encodeFrame(frame: RealtimeFrame): string {
+  return JSON.stringify(frame);
+}
+
+/**
+ * Parse a raw frame, returning null for anything that isn't a known frame type
+ */
+export function decodeFrame(raw: string): RealtimeFrame | null {
+  try {
+    const frame = JSON.parse(raw);
+    return frame && FRAME_TYPES.includes(frame.type) ? (frame as RealtimeFrame) : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,581 @@
+import { BaseApiClient } from './BaseApiClient';
+import type { ApiClientConfig, HttpMethod, UploadProgressListener } from './ApiClient';
+import {
+  Coach,
+  BookedSession,
+  Conversation,
+  ChatMessage,
+  TimeSlot,
+  BusyTime,
+  PackageCredit,
+  WaitlistEntry,
+  GroupRoster,
+  Review,
+  CoachProfileUpdate,
+  ChatAttachment,
+  User,
+} from '../types';
+import { storage } from '../utils/storage';
+import {
+  createNetworkError,
+  createServerError,
+  createValidationError,
+} from '../utils/errorHandling';
+import {
+  mockCoaches,
+  mockSessions,
+  mockConversations,
+  mockMessages,
+} from '../utils/mockData';
+import { applyConversationSummary, getMessageText } from '../utils/chatHistory';
+import { getRemainingReschedules } from '../utils/reschedulePolicy';
+import { getSlotCapacity, isGroupSlot } from '../utils/groupSessions';
+import {
+  findNextInLine,
+  getHoldExpiry,
+  isHeldForSomeoneElse,
+  isHoldExpired,
+} from '../utils/waitlist';
+
+type RouteHandler = (params: Record<string, string>, body: unknown) => unknown;
+
+interface Route {
+  method: HttpMethod;
+  pattern: RegExp;
+  paramNames: string[];
+  handler: RouteHandler;
+}
+
+interface MockDatabase {
+  coaches: Coach[];
+  sessions: BookedSession[];
+  conversations: Conversation[];
+  messages: Record<string, ChatMessage[]>;
+  credits: PackageCredit[];
+  waitlist: WaitlistEntry[];
+  users: User[];
+  // Responses to writes sent with an idempotency key, replayed when the key is seen again
+  idempotentResponses: Record<string, unknown>;
+}
+
+const MOCK_DB_STORAGE_KEY = 'mock_api_db';
+const MOCK_UPLOAD_STEPS = 5;
+
+/**
+ * In-process adapter that serves fixture data through the same request
+ * pipeline as the fetch adapter, so the app runs without any server.
+ * Writes are kept in a small database seeded from the fixtures and
+ * persisted to storage, so bookings survive an app restart.
+ */
+export class MockApiClient extends BaseApiClient {
+  private routes: Route[] = [];
+  private db: MockDatabase | null = null;
+
+  constructor(config: ApiClientConfig) {
+    super(config);
+    this.registerRoutes();
+  }
+
+  private registerRoutes(): void {
+    this.route('GET', '/coaches', () => this.getDb().coaches);
+    this.route('GET', '/coaches/:coachId', ({ coachId }) => this.findCoach(coachId));
+    this.route('POST', '/coaches', (_, body) => {
+      const coaches = this.getDb().coaches;
+      const requested = body as Coach;
+      // A retried sign-up gets the listing it already created
+      const existing = coaches.find(c => c.id === requested.id);
+      if (existing) {
+        return existing;
+      }
+      const coach = this.touch({ ...requested });
+      coaches.push(coach);
+      return coach;
+    });
+    this.route('POST', '/coaches/:coachId/slots/:slotId/reserve', ({ coachId, slotId }, body) => {
+      const { slot: requested, userId } = body as { slot: TimeSlot; userId?: string };
+      const coach = this.findCoach(coachId);
+      const alreadyBooked = userId && this.getDb().sessions.some(session =>
+        session.userId === userId &&
+        session.status === 'upcoming' &&
+        session.coachId === coachId &&
+        session.timeSlot.id === slotId
+      );
+      if (alreadyBooked) {
+        throw createValidationError('You already have a seat in this session.');
+      }
+      this.claimSlot(coach, { ...requested, id: slotId }, userId);
+      return this.touch(coach);
+    });
+    this.route('GET', '/coaches/:coachId/rosters', ({ coachId }) => {
+      const coach = this.findCoach(coachId);
+      const sessions = this.getDb().sessions.filter(session =>
+        session.coachId === coachId && session.status === 'upcoming'
+      );
+      return coach.availability
+        .filter(slot => isGroupSlot(slot) && new Date(slot.endsAt).getTime() > Date.now())
+        .map((slot): GroupRoster => ({
+          slot,
+          attendees: sessions
+            .filter(session => session.timeSlot.id === slot.id)
+            .map(session => ({
+              sessionId: session.id,
+              userId: session.userId,
+              userName: session.userName ?? 'Client',
+              bookedAt: session.bookedAt,
+            })),
+        }))
+        .sort((a, b) => new Date(a.slot.startsAt).getTime() - new Date(b.slot.startsAt).getTime());
+    });
+    this.route('POST', '/coaches/:coachId/slots/:slotId/release', ({ coachId, slotId }) => {
+      const coach = this.findCoach(coachId);
+      const slot = coach.availability.find(s => s.id === slotId);
+      if (slot) {
+        this.freeSlot(coach, slot);
+      }
+      return this.touch(coach);
+    });
+    this.route('PUT', '/coaches/:coachId/busy-times', ({ coachId }, body) => {
+      const coach = this.findCoach(coachId);
+      coach.busyTimes = (body as { busyTimes: BusyTime[] }).busyTimes;
+      return this.touch(coach);
+    });
+    this.route('PUT', '/coaches/:coachId', ({ coachId }, body) => {
+      const coach = this.findCoach(coachId);
+      Object.assign(coach, body as CoachProfileUpdate);
+      return this.touch(coach);
+    });
+    this.route('POST', '/coaches/:coachId/reviews', ({ coachId }, body) => {
+      const coach = this.findCoach(coachId);
+      const review = body as Review;
+      if (!coach.reviews.some(r => r.id === review.id)) {
+        coach.reviews.push(review);
+        const total = coach.reviews.reduce((sum, r) => sum + r.rating, 0);
+        coach.rating = Math.round((total / coach.reviews.length) * 10) / 10;
+        this.touch(coach);
+      }
+      return coach;
+    });
+
+    this.route('GET', '/users/:userId', ({ userId }) => {
+      const user = this.getDb().users.find(u => u.id === userId);
+      if (!user) {
+        throw createServerError('The requested resource was not found.', 404);
+      }
+      return user;
+    });
+    this.route('PUT', '/users/:userId', ({ userId }, body) => {
+      const users = this.getDb().users;
+      const user = this.touch({ ...(body as User), id: userId });
+      const index = users.findIndex(u => u.id === userId);
+      if (index >= 0) {
+        users[index] = user;
+      } else {
+        users.push(user);
+      }
+      return user;
+    });
+
+    this.route('GET', '/users/:userId/sessions', ({ userId }) =>
+      // Seed sessions carry no owner and are visible to every user
+      this.getDb().sessions.filter(session => !session.userId || session.userId === userId)
+    );
+    this.route('GET', '/sessions/:sessionId', ({ sessionId }) => {
+      const session = this.getDb().sessions.find(s => s.id === sessionId);
+      if (!session) {
+        throw createServerError('The requested resource was not found.', 404);
+      }
+      return session;
+    });
+    this.route('POST', '/sessions', (_, body) => {
+      const session = { ...(body as BookedSession), updatedAt: new Date().toISOString() };
+      const sessions = this.getDb().sessions;
+      const existing = sessions.find(s => s.id === session.id);
+      if (existing) {
+        return existing;
+      }
+      sessions.push(session);
+      return session;
+    });
+    this.route('PUT', '/sessions/:sessionId', ({ sessionId }, body) => {
+      const sessions = this.getDb().sessions;
+      const index = sessions.findIndex(s => s.id === sessionId);
+      if (index === -1) {
+        throw createServerError('The requested resource was not found.', 404);
+      }
+      sessions[index] = {
+        ...sessions[index],
+        ...(body as BookedSession),
+        id: sessionId,
+        updatedAt: new Date().toISOString(),
+      };
+      return sessions[index];
+    });
+    this.route('POST', '/sessions/:sessionId/reschedule', ({ sessionId }, body) => {
+      const { slot } = body as { slot: TimeSlot };
+      const session = this.getDb().sessions.find(s => s.id === sessionId);
+      if (!session) {
+        throw createServerError('The requested resource was not found.', 404);
+      }
+      if (session.status !== 'upcoming') {
+        throw createValidationError('Only upcoming sessions can be rescheduled.');
+      }
+
+      const coach = this.findCoach(session.coachId);
+      if (getRemainingReschedules(session, coach) <= 0) {
+        throw createValidationError('This session has reached its reschedule limit.');
+      }
+
+      // The claim validates the new slot before anything changes, so the swap happens together
+      const newSlot = this.claimSlot(coach, slot, session.userId);
+      const oldSlot = coach.availability.find(s => s.id === session.timeSlot.id);
+      if (oldSlot) {
+        this.freeSlot(coach, oldSlot);
+      }
+
+      session.timeSlot = { ...newSlot, available: false };
+      session.rescheduleCount = (session.rescheduleCount ?? 0) + 1;
+      session.rescheduledAt = new Date().toISOString();
+      session.updatedAt = session.rescheduledAt;
+      return session;
+    });
+
+    this.route('GET', '/users/:userId/credits', ({ userId }) =>
+      this.getDb().credits.filter(credit => credit.userId === userId)
+    );
+    this.route('POST', '/credits', (_, body) => {
+      const credit = body as PackageCredit;
+      const credits = this.getDb().credits;
+      const existing = credits.find(c => c.id === credit.id);
+      if (existing) {
+        return existing;
+      }
+      credits.push(credit);
+      return credit;
+    });
+    this.route('POST', '/credits/:creditId/redeem', ({ creditId }, body) => {
+      const { sessions } = body as { sessions: number };
+      const credit = this.findCredit(creditId);
+      if (new Date(credit.expiresAt).getTime() <= Date.now()) {
+        throw createValidationError('This package has expired.');
+      }
+      if (credit.remainingSessions < sessions) {
+        throw createValidationError('Not enough sessions left in this package.');
+      }
+      credit.remainingSessions -= sessions;
+      return credit;
+    });
+    this.route('POST', '/credits/:creditId/restore', ({ creditId }, body) => {
+      const { sessions } = body as { sessions: number };
+      const credit = this.findCredit(creditId);
+      credit.remainingSessions = Math.min(credit.remainingSessions + sessions, credit.totalSessions);
+      return credit;
+    });
+
+    this.route('GET', '/users/:userId/waitlist', ({ userId }) =>
+      this.getDb().waitlist.filter(entry => entry.userId === userId)
+    );
+    this.route('POST', '/coaches/:coachId/waitlist', ({ coachId }, body) => {
+      const entry = body as WaitlistEntry;
+      const waitlist = this.getDb().waitlist;
+      const existing = waitlist.find(e =>
+        e.coachId === coachId &&
+        e.userId === entry.userId &&
+        (e.status === 'waiting' || e.status === 'offered')
+      );
+      if (existing) {
+        throw createValidationError("You're already on this coach's waitlist.");
+      }
+      waitlist.push({ ...entry, coachId, status: 'waiting' });
+      return entry;
+    });
+    this.route('POST', '/waitlist/:entryId/leave', ({ entryId }) => {
+      const entry = this.getDb().waitlist.find(e => e.id === entryId);
+      if (!entry) {
+        throw createServerError('The requested resource was not found.', 404);
+      }
+
+      const heldSlotId = entry.hold?.slot.id;
+      entry.status = 'left';
+      entry.hold = undefined;
+
+      // Leaving with a hold passes the slot straight on
+      const coach = this.findCoach(entry.coachId);
+      const slot = coach.availability.find(s => s.id === heldSlotId && s.heldFor === entry.userId);
+      if (slot) {
+        this.freeSlot(coach, slot);
+      }
+      return entry;
+    });
+
+    // Unread counts come from the read flags on each conversation's messages, not a stored number
+    this.route('GET', '/users/:userId/conversations', ({ userId }) => {
+      const db = this.getDb();
+      return db.conversations.map(conversation =>
+        applyConversationSummary(conversation, db.messages[conversation.id] ?? [], userId)
+      );
+    });
+    this.route('GET', '/conversations/:conversationId/messages', ({ conversationId }) =>
+      this.getDb().messages[conversationId] ?? []
+    );
+    this.route('POST', '/conversations/:conversationId/messages', ({ conversationId }, body) => {
+      const message = body as ChatMessage;
+      const db = this.getDb();
+      const messages = (db.messages[conversationId] ??= []);
+      const existing = messages.find(m => m.id === message.id);
+      if (existing) {
+        return existing;
+      }
+
+      const sent: ChatMessage = { ...message, status: 'sent' };
+      messages.push(sent);
+      const conversation = db.conversations.find(c => c.id === conversationId);
+      if (conversation) {
+        conversation.lastMessage = getMessageText(sent);
+        conversation.lastMessageTime = sent.timestamp;
+      }
+      return sent;
+    });
+    // Nothing leaves the device, so the "uploaded" file is the one that was picked
+    this.route('POST', '/attachments', (_, body) => ({ url: (body as ChatAttachment).uri }));
+  }
+
+  private route(method: HttpMethod, path: string, handler: RouteHandler): void {
+    const paramNames: string[] = [];
+    const pattern = new RegExp(
+      `^${path.replace(/:(\w+)/g, (_, name: string) => {
+        paramNames.push(name);
+        return '([^/]+)';
+      })}$`
+    );
+    this.routes.push({ method, pattern, paramNames, handler });
+  }
+
+  private getDb(): MockDatabase {
+    if (!this.db) {
+      throw new Error('Mock database not loaded');
+    }
+    return this.db;
+  }
+
+  private findCoach(coachId: string): Coach {
+    const coach = this.getDb().coaches.find(c => c.id === coachId);
+    if (!coach) {
+      throw createServerError('The requested resource was not found.', 404);
+    }
+    return coach;
+  }
+
+  /**
+   * Stamp a record with the time of this write, as the server does
+   */
+  private touch<T extends { updatedAt?: string }>(record: T): T {
+    record.updatedAt = new Date().toISOString();
+    return record;
+  }
+
+  /**
+   * Mark a slot as booked, refusing it if it's taken or held for another client
+   */
+  private claimSlot(coach: Coach, requested: TimeSlot, userId?: string): TimeSlot {
+    const slot = coach.availability.find(s => s.id === requested.id);
+
+    if (slot && isHeldForSomeoneElse(slot, userId)) {
+      throw createValidationError('This time slot is being held for someone on the waitlist.');
+    }
+    if (slot && !slot.available && !slot.heldFor) {
+      throw createValidationError('This time slot is no longer available.');
+    }
+
+    if (slot?.heldFor) {
+      const entry = this.getDb().waitlist.find(e => e.userId === slot.heldFor && e.hold?.slot.id === slot.id);
+      if (entry) {
+        entry.status = 'booked';
+        entry.hold = undefined;
+      }
+    }
+
+    // Group slots stay open until every seat is taken
+    const target: TimeSlot = slot ?? { ...requested, bookedCount: 0 };
+    if (isGroupSlot(target)) {
+      target.bookedCount = (target.bookedCount ?? 0) + 1;
+      target.available = target.bookedCount < getSlotCapacity(target);
+    } else {
+      target.available = false;
+    }
+    target.heldFor = undefined;
+    target.holdExpiresAt = undefined;
+
+    if (!slot) {
+      // Slots the client generated itself are recorded on first reservation
+      coach.availability.push(target);
+    }
+    return target;
+  }
+
+  /**
+   * Open a slot back up, holding it for the next waitlisted client if there is one
+   */
+  private freeSlot(coach: Coach, slot: TimeSlot): void {
+    slot.heldFor = undefined;
+    slot.holdExpiresAt = undefined;
+
+    // A freed seat in a group session just goes back on offer; holds are for one-on-one slots
+    if (isGroupSlot(slot)) {
+      slot.bookedCount = Math.max((slot.bookedCount ?? 0) - 1, 0);
+      slot.available = true;
+      return;
+    }
+
+    const next = findNextInLine(this.getDb().waitlist, coach.id, slot);
+    if (!next) {
+      slot.available = true;
+      return;
+    }
+
+    slot.available = false;
+    slot.heldFor = next.userId;
+    slot.holdExpiresAt = getHoldExpiry().toISOString();
+    next.status = 'offered';
+    next.hold = { slot: { ...slot }, expiresAt: slot.holdExpiresAt };
+  }
+
+  /**
+   * Move lapsed holds on to the next client in line. Returns true if anything changed.
+   */
+  private expireHolds(): boolean {
+    let changed = false;
+    for (const coach of this.getDb().coaches) {
+      for (const slot of coach.availability.filter(s => isHoldExpired(s))) {
+        const entry = this.getDb().waitlist.find(e => e.userId === slot.heldFor && e.hold?.slot.id === slot.id);
+        if (entry) {
+          entry.status = 'waiting';
+          entry.hold = undefined;
+          entry.passedSlotIds = [...(entry.passedSlotIds ?? []), slot.id];
+        }
+        this.freeSlot(coach, slot);
+        changed = true;
+      }
+    }
+    return changed;
+  }
+
+  private findCredit(creditId: string): PackageCredit {
+    const credit = this.getDb().credits.find(c => c.id === creditId);
+    if (!credit) {
+      throw createServerError('The requested resource was not found.', 404);
+    }
+    return credit;
+  }
+
+  private async loadDb(): Promise<void> {
+    if (this.db) return;
+
+    try {
+      const stored = await storage.getItem(MOCK_DB_STORAGE_KEY);
+      if (stored) {
+        // Databases saved by older versions may lack newer collections
+        this.db = { credits: [], waitlist: [], users: [], idempotentResponses: {}, ...JSON.parse(stored) };
+        return;
+      }
+    } catch (error) {
+      console.error('[MockApiClient] Failed to load mock database, reseeding:', error);
+    }
+
+    this.db = JSON.parse(JSON.stringify({
+      coaches: mockCoaches,
+      sessions: mockSessions,
+      conversations: mockConversations,
+      messages: mockMessages,
+      credits: [],
+      waitlist: [],
+      users: [],
+      idempotentResponses: {},
+    }));
+  }
+
+  private async saveDb(): Promise<void> {
+    try {
+      await storage.setItem(MOCK_DB_STORAGE_KEY, JSON.stringify(this.db));
+    } catch (error) {
+      console.error('[MockApiClient] Failed to persist mock database:', error);
+    }
+  }
+
+  /**
+   * Drop all writes and start again from the fixtures
+   */
+  async reset(): Promise<void> {
+    this.db = null;
+    await storage.removeItem(MOCK_DB_STORAGE_KEY);
+  }
+
+  protected async send(
+    method: HttpMethod,
+    path: string,
+    body: unknown,
+    headers: Record<string, string>
+  ): Promise<unknown> {
+    const { latencyMs = 0, failureRate = 0 } = this.config;
+
+    // Simulate network latency
+    await new Promise(resolve => setTimeout(resolve, latencyMs * (0.5 + Math.random())));
+
+    if (Math.random() < failureRate) {
+      throw createNetworkError('Network request failed');
+    }
+
+    await this.loadDb();
+    const holdsExpired = this.expireHolds();
+
+    const [pathname] = path.split('?');
+    const idempotencyKey = method !== 'GET' ? headers['Idempotency-Key'] : undefined;
+    if (idempotencyKey && idempotencyKey in this.getDb().idempotentResponses) {
+      return JSON.parse(JSON.stringify(this.getDb().idempotentResponses[idempotencyKey]));
+    }
+
+    for (const route of this.routes) {
+      const match = route.method === method ? route.pattern.exec(pathname) : null;
+      if (!match) continue;
+
+      const params: Record<string, string> = {};
+      route.paramNames.forEach((name, index) => {
+        params[name] = decodeURIComponent(match[index + 1]);
+      });
+
+      // Round-trip through JSON so callers never share references with the database
+      const requestBody = body === undefined ? undefined : JSON.parse(JSON.stringify(body));
+      const result = route.handler(params, requestBody);
+      if (idempotencyKey) {
+        this.getDb().idempotentResponses[idempotencyKey] = JSON.parse(JSON.stringify(result ?? null));
+      }
+
+      if (method !== 'GET' || holdsExpired) {
+        await this.saveDb();
+      }
+
+      return result === undefined ? null : JSON.parse(JSON.stringify(result));
+    }
+
+    throw createServerError(`No mock route for ${method} ${pathname}`, 404);
+  }
+
+  /**
+   * Report progress in steps over the simulated latency, then record the upload like any other write
+   */
+  protected async sendFile(
+    path: string,
+    file: ChatAttachment,
+    headers: Record<string, string>,
+    onProgress: UploadProgressListener
+  ): Promise<unknown> {
+    const { latencyMs = 0 } = this.config;
+    for (let step = 1; step < MOCK_UPLOAD_STEPS; step++) {
+      await new Promise(resolve => setTimeout(resolve, latencyMs / MOCK_UPLOAD_STEPS));
+      onProgress(step / MOCK_UPLOAD_STEPS);
+    }
+
+    const result = await this.send('POST', path, file, headers);
+    onProgress(1);
+    return result;
+  }
+}
@@ -10,6 +10,12 @@ try {
   console.warn('[NotificationService] expo-device not available, using fallback');
 }
 import { storage } from '../utils/storage';
+import {
+  formatInTimeZone,
+  getDeviceTimeZone,
+  getTimeZoneAbbreviation,
+  getTimeZoneOffsetMinutes,
+} from '../utils/timeSlots';
 
 // Configure notification behavior
 Notifications.setNotificationHandler({
@@ -24,9 +30,12 @@ export interface NotificationData {
   sessionId: string;
   coachName: string;
   sessionTime: string;
-  type: 'session_reminder' | 'session_starting' | 'session_cancelled' | 'message_received';
+  type: 'session_reminder' | 'session_starting' | 'session_cancelled' | 'message_received' | 'waitlist_offer';
   senderId?: string;
   conversationId?: string;
+  coachId?: string;
+  waitlistEntryId?: string;
+  slotId?: string;
 }
 
 class NotificationService {
@@ -142,7 +151,8 @@ class NotificationService {
     sessionId: string,
     coachName: string,
     sessionDateTime: Date,
-    reminderMinutes: number = 60
+    reminderMinutes: number = 60,
+    coachTimeZone?: string
   ): Promise<string | null> {
     const initialized = await this.ensureInitialized();
     if (!initialized) {
@@ -162,7 +172,7 @@ class NotificationService {
       const notificationId = await Notifications.scheduleNotificationAsync({
         content: {
           title: '📅 Session Reminder',
-          body: `Your session with ${coachName} starts in ${reminderMinutes} minutes!`,
+          body: `Your session with ${coachName} starts in ${reminderMinutes} minutes, at ${this.formatSessionTime(sessionDateTime, coachTimeZone)}!`,
           sound: 'default',
           data: {
             sessionId,
@@ -185,6 +195,26 @@ class NotificationService {
     }
   }
 
+  /**
+   * Session time in the viewer's zone, with the coach's local time when it differs
+   */
+  private formatSessionTime(sessionDateTime: Date, coachTimeZone?: string): string {
+    const options: Intl.DateTimeFormatOptions = { hour: 'numeric', minute: '2-digit' };
+    const viewerTimeZone = getDeviceTimeZone();
+    const localTime = formatInTimeZone(sessionDateTime, options, viewerTimeZone);
+
+    if (
+      !coachTimeZone ||
+      getTimeZoneOffsetMinutes(sessionDateTime, coachTimeZone) ===
+        getTimeZoneOffsetMinutes(sessionDateTime, viewerTimeZone)
+    ) {
+      return localTime;
+    }
+
+    const coachTime = formatInTimeZone(sessionDateTime, options, coachTimeZone);
+    return `${localTime} (${coachTime} ${getTimeZoneAbbreviation(sessionDateTime, coachTimeZone)} for your coach)`;
+  }
+
   async scheduleSessionStartingNotification(
     sessionId: string,
     coachName: string,
@@ -291,6 +321,50 @@ class NotificationService {
     }
   }
 
+  /**
+   * Tell a waitlisted client a slot opened up and how long it's held for them
+   */
+  async sendWaitlistOfferNotification(
+    waitlistEntryId: string,
+    coachId: string,
+    coachName: string,
+    slotId: string,
+    slotStart: Date,
+    holdExpiresAt: Date,
+    coachTimeZone?: string
+  ): Promise<void> {
+    const initialized = await this.ensureInitialized();
+    if (!initialized) {
+      console.warn('[NotificationService] Service not initialized, skipping waitlist notification');
+      return;
+    }
+
+    try {
+      const day = formatInTimeZone(slotStart, { weekday: 'short', month: 'short', day: 'numeric' });
+      const holdUntil = formatInTimeZone(holdExpiresAt, { hour: 'numeric', minute: '2-digit' });
+
+      await Notifications.scheduleNotificationAsync({
+        content: {
+          title: `🎉 A slot with ${coachName} opened up`,
+          body: `${day} at ${this.formatSessionTime(slotStart, coachTimeZone)} is held for you until ${holdUntil}. Book it before then!`,
+          sound: 'default',
+          data: {
+            type: 'waitlist_offer',
+            sessionId: '',
+            coachName,
+            sessionTime: slotStart.toISOString(),
+            coachId,
+            waitlistEntryId,
+            slotId,
+          } as NotificationData & Record<string, unknown>,
+        },
+        trigger: null, // Show immediately
+      });
+    } catch (error) {
+      console.error('Error sending waitlist notification:', error);
+    }
+  }
+
   async getScheduledNotifications(): Promise<Notifications.NotificationRequest[]> {
     const initialized = await this.ensureInitialized();
     if (!initialized) {
@@ -1,39 +1,91 @@
 import { storage } from '../utils/storage';
 import { netInfo } from '../utils/netInfo';
 import { Coach, User, ChatMessage, Conversation, BookedSession } from '../types';
+import { AppError, createValidationError, handleApiError, isRetryableError } from '../utils/errorHandling';
+import { SyncStatusStore, syncStatusStore } from './SyncStatusStore';
+import { LocalDataStore, localDataStore, Page, PageOptions } from './LocalDataStore';
+import { getBackoffDelay, getOrderingKeys, planSyncBatches } from '../utils/syncQueue';
+import {
+  MERGE_STRATEGIES,
+  ServerState,
+  SyncConflict,
+  getLocalEntity,
+  hasServerChanged,
+  resolveConflict,
+} from '../utils/syncConflicts';
+import { mergeMessage, sortMessages } from '../utils/chatHistory';
 
 export interface SyncableData {
   id: string;
-  type: 'coach' | 'user' | 'message' | 'conversation' | 'session';
+  type: 'coach' | 'user' | 'message' | 'conversation' | 'session' | 'payment';
   data: any;
   lastModified: string;
   syncStatus: 'pending' | 'synced' | 'conflict' | 'failed';
   retryCount?: number;
+  // Server's last-modified time for the version this copy is based on
+  serverLastModified?: string;
 }
 
 export interface OfflineAction {
   id: string;
   type: 'create' | 'update' | 'delete';
-  entity: 'coach' | 'user' | 'message' | 'conversation' | 'session';
+  entity: 'coach' | 'user' | 'message' | 'conversation' | 'session' | 'payment';
   entityId: string;
   data?: any;
   timestamp: string;
   retryCount: number;
+  // Earliest time to try again after a failure, persisted so backoff survives a restart
+  nextAttemptAt?: string;
+  // Server version the change was made against, used to detect conflicts on replay
+  baseLastModified?: string;
+}
+
+/**
+ * Loads the server's current copy of the entity an action touches, or null if it has none
+ */
+export type ServerStateFetcher = (action: OfflineAction) => Promise<ServerState | null>;
+
+/**
+ * Replays one kind of queued action against the server. Handlers send the
+ * action id as an idempotency key, so a replay after a lost response is safe.
+ */
+export type OfflineActionHandler = (action: OfflineAction) => Promise<void>;
+
+// An action that failed permanently or ran out of retries, kept for inspection
+export interface DeadLetterAction {
+  action: OfflineAction;
+  error: string;
+  errorType: AppError['type'];
+  failedAt: string;
+}
+
+const MAX_SYNC_RETRIES = 5;
+
+// Message ids are only unique within a conversation and share the record keyspace with other entities
+function messageRecordId(conversationId: string, messageId: string): string {
+  return `message:${conversationId}:${messageId}`;
 }
 
 export class OfflineDataService {
   private static readonly KEYS = {
-    OFFLINE_DATA: 'offline_data',
     PENDING_ACTIONS: 'pending_actions',
     LAST_SYNC: 'last_sync',
     SYNC_CONFLICTS: 'sync_conflicts',
+    DEAD_LETTER_ACTIONS: 'dead_letter_actions',
   };
 
   private syncInProgress = false;
   private syncListeners: Array<(status: 'started' | 'completed' | 'failed') => void> = [];
+  private serverStateFetchers = new Map<OfflineAction['entity'], ServerStateFetcher>();
+  private actionHandlers = new Map<string, OfflineActionHandler>();
   private networkState = { isConnected: false, type: 'unknown' };
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private storageLock: Promise<unknown> = Promise.resolve();
 
-  constructor() {
+  constructor(
+    private statusStore: SyncStatusStore = syncStatusStore,
+    private dataStore: LocalDataStore = localDataStore
+  ) {
     this.initializeNetworkMonitoring();
   }
 
@@ -48,6 +100,7 @@ export class OfflineDataService {
         isConnected: state.isConnected ?? false,
         type: state.type,
       };
+      this.statusStore.update({ isOnline: this.networkState.isConnected, networkType: this.networkState.type });
 
       // Auto-sync when coming back online
       if (wasOffline && this.networkState.isConnected) {
@@ -62,6 +115,32 @@ export class OfflineDataService {
       isConnected: state.isConnected ?? false,
       type: state.type,
     };
+    this.statusStore.update({ isOnline: this.networkState.isConnected, networkType: this.networkState.type });
+    await this.loadPersistedStatus();
+
+    // Pick up actions left over from the last run, honouring their backoff
+    if (this.networkState.isConnected) {
+      this.syncPendingActions();
+    }
+  }
+
+  /**
+   * Publish what's left over in storage from the last run
+   */
+  private async loadPersistedStatus(): Promise<void> {
+    const [pendingActions, conflicts, deadLetters, lastSyncAt] = await Promise.all([
+      this.getPendingActions(),
+      this.getConflicts(),
+      this.getDeadLetters(),
+      storage.getItem(OfflineDataService.KEYS.LAST_SYNC).catch(() => null),
+    ]);
+
+    this.statusStore.update({
+      pendingCount: pendingActions.length,
+      conflicts,
+      deadLetterCount: deadLetters.length,
+      lastSyncAt,
+    });
   }
 
   /**
@@ -71,26 +150,11 @@ export class OfflineDataService {
     id: string,
     type: SyncableData['type'],
     data: T,
-    syncStatus: SyncableData['syncStatus'] = 'pending'
+    syncStatus: SyncableData['syncStatus'] = 'pending',
+    serverLastModified?: string
   ): Promise<void> {
     try {
-      const existingData = await this.getOfflineData();
-      
-      const syncableData: SyncableData = {
-        id,
-        type,
-        data,
-        lastModified: new Date().toISOString(),
-        syncStatus,
-      };
-
-      existingData[id] = syncableData;
-      
-      await storage.setItem(
-        OfflineDataService.KEYS.OFFLINE_DATA,
-        JSON.stringify(existingData)
-      );
-
+      await this.withStorageLock(() => this.writeOfflineData(id, type, data, syncStatus, serverLastModified));
       console.log(`[OfflineData] Stored ${type} data for ID: ${id}`);
     } catch (error) {
       console.error('[OfflineData] Failed to store data:', error);
@@ -98,14 +162,33 @@ export class OfflineDataService {
     }
   }
 
+  private async writeOfflineData<T>(
+    id: string,
+    type: SyncableData['type'],
+    data: T,
+    syncStatus: SyncableData['syncStatus'],
+    serverLastModified?: string
+  ): Promise<void> {
+    const existing = await this.dataStore.get(id);
+
+    await this.dataStore.put([{
+      id,
+      type,
+      data,
+      lastModified: new Date().toISOString(),
+      syncStatus,
+      // Local edits keep pointing at the server version they started from
+      serverLastModified: serverLastModified ?? existing?.serverLastModified,
+    }]);
+  }
+
   /**
    * Retrieve data from local storage
    */
   async getData<T>(id: string): Promise<T | null> {
     try {
-      const offlineData = await this.getOfflineData();
-      const data = offlineData[id];
-      return data ? data.data : null;
+      const record = await this.dataStore.get(id);
+      return record ? record.data : null;
     } catch (error) {
       console.error('[OfflineData] Failed to retrieve data:', error);
       return null;
@@ -113,38 +196,49 @@ export class OfflineDataService {
   }
 
   /**
-   * Get all offline data
+   * Drop stored records, e.g. ones written for a change that was undone before it synced
    */
-  private async getOfflineData(): Promise<Record<string, SyncableData>> {
+  async removeData(ids: string[]): Promise<void> {
     try {
-      const data = await storage.getItem(OfflineDataService.KEYS.OFFLINE_DATA);
-      return data ? JSON.parse(data) : {};
+      await this.withStorageLock(() => this.dataStore.remove(ids));
+      console.log(`[OfflineData] Removed ${ids.length} stored record(s)`);
     } catch (error) {
-      console.error('[OfflineData] Failed to get offline data:', error);
-      return {};
+      console.error('[OfflineData] Failed to remove data:', error);
+      throw new Error('Failed to remove offline data');
     }
   }
 
   /**
-   * Queue an action for later sync
+   * Queue an action for later sync. Returns the queued action, so the caller can take it back.
    */
-  async queueAction(action: Omit<OfflineAction, 'id' | 'timestamp' | 'retryCount'>): Promise<void> {
-    try {
-      const existingActions = await this.getPendingActions();
-      
-      const newAction: OfflineAction = {
-        ...action,
-        id: `action_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-        timestamp: new Date().toISOString(),
-        retryCount: 0,
-      };
+  async queueAction(action: Omit<OfflineAction, 'id' | 'timestamp' | 'retryCount'>): Promise<OfflineAction> {
+    // Refuse now rather than dead-letter the action on its first sync
+    if (!this.actionHandlers.has(`${action.entity}:${action.type}`)) {
+      throw createValidationError(`Offline ${action.type} of ${action.entity} records isn't supported.`);
+    }
 
-      existingActions.push(newAction);
-      
-      await storage.setItem(
-        OfflineDataService.KEYS.PENDING_ACTIONS,
-        JSON.stringify(existingActions)
-      );
+    try {
+      const queued = await this.withStorageLock(async () => {
+        const existingActions = await this.getPendingActions();
+        const localCopy = await this.dataStore.get(action.entityId);
+
+        const newAction: OfflineAction = {
+          ...action,
+          id: `action_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+          timestamp: new Date().toISOString(),
+          retryCount: 0,
+          baseLastModified: action.baseLastModified ?? localCopy?.serverLastModified,
+        };
+
+        existingActions.push(newAction);
+
+        await storage.setItem(
+          OfflineDataService.KEYS.PENDING_ACTIONS,
+          JSON.stringify(existingActions)
+        );
+        this.statusStore.update({ pendingCount: existingActions.length });
+        return newAction;
+      });
 
       console.log(`[OfflineData] Queued ${action.type} action for ${action.entity}:${action.entityId}`);
 
@@ -152,12 +246,31 @@ export class OfflineDataService {
       if (this.networkState.isConnected) {
         this.syncPendingActions();
       }
+      return queued;
     } catch (error) {
       console.error('[OfflineData] Failed to queue action:', error);
       throw new Error('Failed to queue offline action');
     }
   }
 
+  /**
+   * Take back queued actions that haven't synced yet. Ones already replayed are unaffected.
+   */
+  async removePendingActions(actionIds: string[]): Promise<void> {
+    const removedIds = new Set(actionIds);
+    try {
+      await this.withStorageLock(async () => {
+        const pendingActions = (await this.getPendingActions()).filter(action => !removedIds.has(action.id));
+        await storage.setItem(OfflineDataService.KEYS.PENDING_ACTIONS, JSON.stringify(pendingActions));
+        this.statusStore.update({ pendingCount: pendingActions.length });
+      });
+      console.log(`[OfflineData] Removed ${actionIds.length} pending action(s)`);
+    } catch (error) {
+      console.error('[OfflineData] Failed to remove pending actions:', error);
+      throw new Error('Failed to remove offline actions');
+    }
+  }
+
   /**
    * Get pending actions
    */
@@ -172,14 +285,17 @@ export class OfflineDataService {
   }
 
   /**
-   * Sync pending actions with server
+   * Sync pending actions with server. Actions replay in queue order per record,
+   * and failed ones back off before they're tried again.
    */
-  async syncPendingActions(): Promise<void> {
+  async syncPendingActions(options: { ignoreBackoff?: boolean } = {}): Promise<void> {
     if (this.syncInProgress || !this.networkState.isConnected) {
       return;
     }
 
     this.syncInProgress = true;
+    this.clearRetryTimer();
+    this.statusStore.update({ isSyncing: true });
     this.notifySyncListeners('started');
 
     try {
@@ -187,76 +303,375 @@ export class OfflineDataService {
       
       if (pendingActions.length === 0) {
         console.log('[OfflineData] No pending actions to sync');
+        this.statusStore.update({ isSyncing: false, pendingCount: 0 });
         this.notifySyncListeners('completed');
         return;
       }
 
-      console.log(`[OfflineData] Syncing ${pendingActions.length} pending actions...`);
-
-      const syncResults: Array<{ action: OfflineAction; success: boolean; error?: string }> = [];
-
-      for (const action of pendingActions) {
-        try {
-          await this.executeSyncAction(action);
-          syncResults.push({ action, success: true });
-          console.log(`[OfflineData] Successfully synced action: ${action.id}`);
-        } catch (error) {
-          const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-          syncResults.push({ action, success: false, error: errorMessage });
-          console.error(`[OfflineData] Failed to sync action ${action.id}:`, error);
-        }
+      const { batches, deferred } = planSyncBatches(
+        pendingActions,
+        options.ignoreBackoff ? Infinity : Date.now()
+      );
+      const total = pendingActions.length - deferred.length;
+      let completed = 0;
+      this.statusStore.update({ progress: { completed, total } });
+      console.log(`[OfflineData] Syncing ${total} of ${pendingActions.length} pending actions...`);
+
+      const succeededIds = new Set<string>();
+      const retriedActions = new Map<string, OfflineAction>();
+      const deadLetters: DeadLetterAction[] = [];
+      // Records whose action failed this round; later actions on them wait for the retry
+      const failedKeys = new Set<string>();
+
+      for (const batch of batches) {
+        // Actions in a batch touch different records, so they can go out together
+        await Promise.all(batch.map(async action => {
+          const keys = getOrderingKeys(action);
+          if (keys.some(key => failedKeys.has(key))) {
+            // It waits for the retry, but this round is done with it
+            completed++;
+            this.statusStore.update({ progress: { completed, total } });
+            return;
+          }
+
+          try {
+            this.statusStore.update({ progress: { completed, total, currentActionId: action.id } });
+            const reconciled = await this.reconcileWithServer(action);
+            if (reconciled) {
+              await this.executeSyncAction(reconciled);
+            }
+            succeededIds.add(action.id);
+            console.log(`[OfflineData] Successfully synced action: ${action.id}`);
+          } catch (error) {
+            const appError = handleApiError(error);
+            keys.forEach(key => failedKeys.add(key));
+            console.error(`[OfflineData] Failed to sync action ${action.id} (${appError.type}):`, appError.message);
+
+            // Retry transient failures; permanent ones and those out of retries go to the dead-letter list
+            const retried = { ...action, retryCount: action.retryCount + 1 };
+            if (isRetryableError(appError) && retried.retryCount < MAX_SYNC_RETRIES) {
+              const delay = getBackoffDelay(retried.retryCount);
+              retriedActions.set(action.id, { ...retried, nextAttemptAt: new Date(Date.now() + delay).toISOString() });
+            } else {
+              deadLetters.push({
+                action: retried,
+                error: appError.message,
+                errorType: appError.type,
+                failedAt: new Date().toISOString(),
+              });
+            }
+          } finally {
+            completed++;
+            this.statusStore.update({ progress: { completed, total } });
+          }
+        }));
       }
 
-      // Update pending actions list (remove successful ones, increment retry count for failed ones)
-      const failedActions = syncResults
-        .filter(result => !result.success)
-        .map(result => ({
-          ...result.action,
-          retryCount: result.action.retryCount + 1,
-        }))
-        .filter(action => action.retryCount < 3); // Max 3 retries
-
-      await storage.setItem(
-        OfflineDataService.KEYS.PENDING_ACTIONS,
-        JSON.stringify(failedActions)
-      );
+      const deadIds = new Set(deadLetters.map(letter => letter.action.id));
+      const remaining = await this.withStorageLock(async () => {
+        // Keep the queue's order, so retried actions stay ahead of what depends on them,
+        // and keep anything queued while this sync was running
+        const processedIds = new Set(pendingActions.map(action => action.id));
+        const queuedDuringSync = (await this.getPendingActions()).filter(action => !processedIds.has(action.id));
+        const stillPending = [
+          ...pendingActions
+            .filter(action => !succeededIds.has(action.id) && !deadIds.has(action.id))
+            .map(action => retriedActions.get(action.id) ?? action),
+          ...queuedDuringSync,
+        ];
+
+        await storage.setItem(
+          OfflineDataService.KEYS.PENDING_ACTIONS,
+          JSON.stringify(stillPending)
+        );
+        return stillPending;
+      });
+
+      if (deadLetters.length > 0) {
+        await this.updateDeadLetters(existing => [...existing, ...deadLetters]);
+        console.warn(`[OfflineData] Moved ${deadLetters.length} action(s) to the dead-letter list`);
+      }
 
       // Update last sync timestamp
-      await storage.setItem(
-        OfflineDataService.KEYS.LAST_SYNC,
-        new Date().toISOString()
-      );
-
-      const successful = syncResults.filter(r => r.success).length;
-      const failed = syncResults.filter(r => !r.success).length;
-      
-      console.log(`[OfflineData] Sync completed: ${successful} successful, ${failed} failed`);
+      const lastSyncAt = new Date().toISOString();
+      await storage.setItem(OfflineDataService.KEYS.LAST_SYNC, lastSyncAt);
+
+      console.log(`[OfflineData] Sync completed: ${succeededIds.size} successful, ${retriedActions.size + deadLetters.length} failed, ${remaining.length} pending`);
+      this.scheduleRetry(remaining);
+      this.statusStore.update({
+        isSyncing: false,
+        progress: null,
+        pendingCount: remaining.length,
+        lastSyncAt,
+        lastSyncResult: 'completed',
+      });
       this.notifySyncListeners('completed');
 
     } catch (error) {
       console.error('[OfflineData] Sync failed:', error);
+      this.statusStore.update({ isSyncing: false, progress: null, lastSyncResult: 'failed' });
       this.notifySyncListeners('failed');
     } finally {
       this.syncInProgress = false;
     }
   }
 
+  /**
+   * Wake up for the next action that becomes due. The schedule lives on the
+   * persisted actions, so a restart picks it up again on the first sync.
+   */
+  private scheduleRetry(pendingActions: OfflineAction[]): void {
+    this.clearRetryTimer();
+    if (pendingActions.length === 0) {
+      return;
+    }
+
+    const now = Date.now();
+    const { batches, deferred } = planSyncBatches(pendingActions, now);
+    const nextAttempt = batches.length > 0
+      ? now
+      : Math.min(...deferred.map(action => new Date(action.nextAttemptAt ?? now).getTime()));
+    const delay = Math.max(0, nextAttempt - now);
+
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      this.syncPendingActions();
+    }, delay);
+    console.log(`[OfflineData] Next sync attempt in ${Math.round(delay / 1000)}s`);
+  }
+
+  private clearRetryTimer(): void {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+  }
+
+  /**
+   * Stop waiting to retry; queued actions still sync on the next reconnect or explicit sync
+   */
+  stopRetryScheduler(): void {
+    this.clearRetryTimer();
+  }
+
+  /**
+   * Run storage read-modify-writes one at a time so concurrent callers don't lose each other's changes
+   */
+  private withStorageLock<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.storageLock.then(task);
+    this.storageLock = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * Register how to load server state for an entity, enabling conflict checks for its actions
+   */
+  registerServerStateFetcher(entity: OfflineAction['entity'], fetcher: ServerStateFetcher): void {
+    this.serverStateFetchers.set(entity, fetcher);
+  }
+
+  /**
+   * Compare a queued action with the server's current state and merge per the entity's
+   * strategy. Returns the action to replay, or null when it should be dropped.
+   */
+  private async reconcileWithServer(action: OfflineAction): Promise<OfflineAction | null> {
+    const fetcher = this.serverStateFetchers.get(action.entity);
+    if (!fetcher) {
+      return action;
+    }
+
+    const server = await fetcher(action);
+    const strategy = MERGE_STRATEGIES[action.entity];
+    // Unions also dedupe items the server already has, so they run even without a newer version
+    if (!server || (strategy !== 'union' && !hasServerChanged(action.baseLastModified, server))) {
+      return action;
+    }
+
+    const resolution = resolveConflict(strategy, action, server);
+    console.log(`[OfflineData] Reconciled ${action.entity}:${action.entityId} (${strategy}, ${resolution.outcome})`);
+
+    if (resolution.needsReview) {
+      await this.recordConflict({
+        id: `conflict_${action.id}`,
+        entity: action.entity,
+        entityId: action.entityId,
+        action,
+        strategy,
+        localData: action.data,
+        serverData: server.data,
+        serverLastModified: server.lastModified,
+        overwrittenFields: resolution.overwrittenFields,
+        detectedAt: new Date().toISOString(),
+      });
+    }
+
+    if (resolution.outcome === 'discard') {
+      if (Array.isArray(resolution.data)) {
+        // Server lists come back without the parent id the local indexes need
+        const conversationId = action.data?.conversationId;
+        await this.cacheServerDataMany(
+          action.entity,
+          resolution.data.map((item: { id: string }) => (conversationId ? { ...item, conversationId } : item))
+        );
+      } else {
+        await this.storeData(
+          action.entityId,
+          action.entity,
+          resolution.data,
+          resolution.needsReview ? 'conflict' : 'synced',
+          server.lastModified
+        );
+      }
+      return null;
+    }
+
+    return { ...action, data: resolution.data, baseLastModified: server.lastModified };
+  }
+
+  private async recordConflict(conflict: SyncConflict): Promise<void> {
+    await this.updateConflicts(conflicts => [
+      ...conflicts.filter(existing => existing.id !== conflict.id),
+      conflict,
+    ]);
+  }
+
+  /**
+   * Read, change and save the conflict list under the storage lock, as actions sync in parallel
+   */
+  private updateConflicts(update: (conflicts: SyncConflict[]) => SyncConflict[]): Promise<void> {
+    return this.withStorageLock(async () => {
+      const conflicts = update(await this.getConflicts());
+      await storage.setItem(OfflineDataService.KEYS.SYNC_CONFLICTS, JSON.stringify(conflicts));
+      this.statusStore.update({ conflicts });
+    });
+  }
+
+  /**
+   * Conflicts waiting for the user to pick a side
+   */
+  async getConflicts(): Promise<SyncConflict[]> {
+    try {
+      const data = await storage.getItem(OfflineDataService.KEYS.SYNC_CONFLICTS);
+      return data ? JSON.parse(data) : [];
+    } catch (error) {
+      console.error('[OfflineData] Failed to get sync conflicts:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Settle a conflict: keep the server's version, or send the local change again on top of it
+   */
+  async resolveConflict(conflictId: string, choice: 'local' | 'server'): Promise<void> {
+    const conflicts = await this.getConflicts();
+    const conflict = conflicts.find(c => c.id === conflictId);
+    if (!conflict) {
+      return;
+    }
+
+    if (choice === 'server') {
+      await this.storeData(conflict.entityId, conflict.entity, conflict.serverData, 'synced', conflict.serverLastModified);
+    } else {
+      // Commands leave the stored copy alone until the server has applied them
+      const localEntity = getLocalEntity(conflict);
+      if (localEntity) {
+        await this.storeData(conflict.entityId, conflict.entity, localEntity, 'pending', conflict.serverLastModified);
+      }
+    }
+
+    await this.updateConflicts(current => current.filter(c => c.id !== conflictId));
+
+    if (choice === 'local') {
+      await this.queueAction({
+        type: conflict.action.type,
+        entity: conflict.entity,
+        entityId: conflict.entityId,
+        data: conflict.localData,
+        baseLastModified: conflict.serverLastModified,
+      });
+    }
+    console.log(`[OfflineData] Resolved conflict ${conflictId} with the ${choice} version`);
+  }
+
+  /**
+   * Register the handler that replays one action type for an entity
+   */
+  registerActionHandler(
+    entity: OfflineAction['entity'],
+    type: OfflineAction['type'],
+    handler: OfflineActionHandler
+  ): void {
+    this.actionHandlers.set(`${entity}:${type}`, handler);
+  }
+
   /**
    * Execute a single sync action
    */
   private async executeSyncAction(action: OfflineAction): Promise<void> {
-    // Simulate API calls with different delays and occasional failures
-    const delay = 500 + Math.random() * 1000;
-    await new Promise(resolve => setTimeout(resolve, delay));
-
-    // Simulate 10% failure rate for testing
-    if (Math.random() < 0.1) {
-      throw new Error(`Simulated sync failure for ${action.type} ${action.entity}`);
+    const handler = this.actionHandlers.get(`${action.entity}:${action.type}`);
+    if (!handler) {
+      // Nothing can ever replay it, so retrying would only delay the dead letter
+      throw new AppError(`No sync handler for ${action.type} ${action.entity}`, 'validation');
     }
 
+    await handler(action);
     console.log(`[OfflineData] Executed ${action.type} ${action.entity} action successfully`);
   }
 
+  /**
+   * Actions that could not be synced and need attention
+   */
+  async getDeadLetters(): Promise<DeadLetterAction[]> {
+    try {
+      const data = await storage.getItem(OfflineDataService.KEYS.DEAD_LETTER_ACTIONS);
+      return data ? JSON.parse(data) : [];
+    } catch (error) {
+      console.error('[OfflineData] Failed to get dead-letter actions:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Read, change and save the dead-letter list under the storage lock
+   */
+  private updateDeadLetters(update: (deadLetters: DeadLetterAction[]) => DeadLetterAction[]): Promise<void> {
+    return this.withStorageLock(async () => {
+      const deadLetters = update(await this.getDeadLetters());
+      await storage.setItem(OfflineDataService.KEYS.DEAD_LETTER_ACTIONS, JSON.stringify(deadLetters));
+      this.statusStore.update({ deadLetterCount: deadLetters.length });
+    });
+  }
+
+  /**
+   * Put a dead-lettered action back in the queue with a fresh set of retries.
+   * It keeps its id, so the server still recognises it if an earlier attempt landed.
+   */
+  async retryDeadLetter(actionId: string): Promise<void> {
+    const deadLetter = (await this.getDeadLetters()).find(letter => letter.action.id === actionId);
+    if (!deadLetter) {
+      return;
+    }
+
+    await this.withStorageLock(async () => {
+      const pendingActions = await this.getPendingActions();
+      pendingActions.push({ ...deadLetter.action, retryCount: 0, nextAttemptAt: undefined });
+      await storage.setItem(OfflineDataService.KEYS.PENDING_ACTIONS, JSON.stringify(pendingActions));
+      this.statusStore.update({ pendingCount: pendingActions.length });
+    });
+    await this.updateDeadLetters(deadLetters => deadLetters.filter(letter => letter.action.id !== actionId));
+
+    if (this.networkState.isConnected) {
+      this.syncPendingActions();
+    }
+  }
+
+  /**
+   * Give up on a dead-lettered action for good
+   */
+  async discardDeadLetter(actionId: string): Promise<void> {
+    await this.updateDeadLetters(deadLetters => deadLetters.filter(letter => letter.action.id !== actionId));
+  }
+
   /**
    * Get data by type and filters
    */
@@ -265,13 +680,8 @@ export class OfflineDataService {
     filter?: (data: SyncableData) => boolean
   ): Promise<T[]> {
     try {
-      const offlineData = await this.getOfflineData();
-      const filteredData = Object.values(offlineData)
-        .filter(item => item.type === type)
-        .filter(filter || (() => true))
-        .map(item => item.data);
-
-      return filteredData;
+      const { items } = await this.dataStore.query('type', type);
+      return items.filter(filter || (() => true)).map(item => item.data);
     } catch (error) {
       console.error('[OfflineData] Failed to get data by type:', error);
       return [];
@@ -286,7 +696,10 @@ export class OfflineDataService {
     specialty?: string,
     priceRange?: [number, number]
   ): Promise<Coach[]> {
-    const coaches = await this.getDataByType<Coach>('coach');
+    // The specialty index narrows the read to matching coaches
+    const coaches = specialty
+      ? (await this.dataStore.query('specialty', specialty)).items.map(item => item.data as Coach)
+      : await this.getDataByType<Coach>('coach');
     
     return coaches.filter(coach => {
       const matchesQuery = !query || 
@@ -308,24 +721,150 @@ export class OfflineDataService {
    * Get offline messages for a conversation
    */
   async getConversationMessages(conversationId: string): Promise<ChatMessage[]> {
-    const messages = await this.getDataByType<ChatMessage>('message', 
-      data => data.data.conversationId === conversationId
-    );
-    
+    const { items } = await this.dataStore.query('conversation', conversationId);
+    const messages = items.map(item => item.data as ChatMessage);
+
     return messages.sort((a, b) => 
       new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
     );
   }
 
+  /**
+   * A page of a conversation's stored history, newest messages first
+   */
+  async getConversationMessagesPage(conversationId: string, options: PageOptions = {}): Promise<Page<ChatMessage>> {
+    try {
+      const page = await this.dataStore.query('conversation', conversationId, { ...options, newestFirst: true });
+      return { ...page, items: page.items.map(item => item.data as ChatMessage) };
+    } catch (error) {
+      console.error('[OfflineData] Failed to get conversation messages:', error);
+      return { items: [], total: 0, nextOffset: null };
+    }
+  }
+
+  /**
+   * Store messages in a conversation's history, merged over any stored copy
+   * with the same id. A stored delivery status is never moved backwards.
+   * Returns the messages that weren't stored before.
+   */
+  async saveConversationMessages(conversationId: string, messages: ChatMessage[]): Promise<ChatMessage[]> {
+    try {
+      return await this.withStorageLock(async () => {
+        const stored = await this.getStoredMessages(conversationId, messages.map(message => message.id));
+        await this.putConversationMessages(conversationId, messages.map(message => {
+          const current = stored.get(message.id);
+          return current ? mergeMessage(current, message) : message;
+        }));
+        return messages.filter(message => !stored.has(message.id));
+      });
+    } catch (error) {
+      console.error('[OfflineData] Failed to save conversation messages:', error);
+      // Treat them as new, so callers still let the user know about them
+      return messages;
+    }
+  }
+
+  /**
+   * Apply changes to stored messages, skipping ids that aren't stored. Returns the updated messages.
+   */
+  async updateConversationMessages(
+    conversationId: string,
+    messageIds: string[],
+    changes: Partial<ChatMessage>
+  ): Promise<ChatMessage[]> {
+    try {
+      return await this.withStorageLock(async () => {
+        const stored = await this.getStoredMessages(conversationId, messageIds);
+        const updated = [...stored.values()].map(message => mergeMessage(message, { ...message, ...changes }));
+        await this.putConversationMessages(conversationId, updated);
+        return updated;
+      });
+    } catch (error) {
+      console.error('[OfflineData] Failed to update conversation messages:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Remove messages from a conversation's history
+   */
+  async removeConversationMessages(conversationId: string, messageIds: string[]): Promise<void> {
+    try {
+      await this.withStorageLock(() =>
+        this.dataStore.remove(messageIds.map(messageId => messageRecordId(conversationId, messageId)))
+      );
+    } catch (error) {
+      console.error('[OfflineData] Failed to remove conversation messages:', error);
+    }
+  }
+
+  /**
+   * Store the messages from a server copy of a conversation that this device
+   * doesn't have yet. Stored copies are left alone, so local changes such as
+   * read flags survive. Returns the messages that were added.
+   */
+  async addMissingConversationMessages(conversationId: string, messages: ChatMessage[]): Promise<ChatMessage[]> {
+    try {
+      const stored = await this.dataStore.getMany(messages.map(message => messageRecordId(conversationId, message.id)));
+      const storedIds = new Set(stored.map(record => record.id));
+      const missing = messages.filter(message => !storedIds.has(messageRecordId(conversationId, message.id)));
+      await this.saveConversationMessages(conversationId, missing);
+      return missing;
+    } catch (error) {
+      console.error('[OfflineData] Failed to merge conversation messages:', error);
+      return [];
+    }
+  }
+
+  private async getStoredMessages(conversationId: string, messageIds: string[]): Promise<Map<string, ChatMessage>> {
+    const records = await this.dataStore.getMany(messageIds.map(messageId => messageRecordId(conversationId, messageId)));
+    return new Map(records.map(record => [(record.data as ChatMessage).id, record.data as ChatMessage]));
+  }
+
+  private putConversationMessages(conversationId: string, messages: ChatMessage[]): Promise<void> {
+    // Oldest first, so the conversation index stays in the order messages were sent
+    return this.dataStore.put(sortMessages(messages).map(message => ({
+      id: messageRecordId(conversationId, message.id),
+      type: 'message',
+      data: { ...message, conversationId },
+      lastModified: new Date().toISOString(),
+      syncStatus: 'synced',
+    })));
+  }
+
   /**
    * Cache server data locally
    */
   async cacheServerData<T>(
     id: string,
     type: SyncableData['type'],
-    data: T
+    data: T,
+    serverLastModified?: string
   ): Promise<void> {
-    await this.storeData(id, type, data, 'synced');
+    const updatedAt = (data as { updatedAt?: string } | null)?.updatedAt;
+    await this.storeData(id, type, data, 'synced', serverLastModified ?? updatedAt);
+  }
+
+  /**
+   * Cache a list of server records in one batched write
+   */
+  async cacheServerDataMany<T extends { id: string; updatedAt?: string }>(
+    type: SyncableData['type'],
+    items: T[]
+  ): Promise<void> {
+    try {
+      await this.withStorageLock(() => this.dataStore.put(items.map(item => ({
+        id: item.id,
+        type,
+        data: item,
+        lastModified: new Date().toISOString(),
+        syncStatus: 'synced',
+        serverLastModified: item.updatedAt,
+      }))));
+      console.log(`[OfflineData] Cached ${items.length} ${type} records`);
+    } catch (error) {
+      console.error('[OfflineData] Failed to cache server data:', error);
+    }
   }
 
   /**
@@ -343,7 +882,8 @@ export class OfflineDataService {
       throw new Error('No internet connection');
     }
 
-    await this.syncPendingActions();
+    // Someone asked for it, so don't make them wait out the backoff
+    await this.syncPendingActions({ ignoreBackoff: true });
   }
 
   /**
@@ -351,12 +891,15 @@ export class OfflineDataService {
    */
   async clearOfflineData(): Promise<void> {
     try {
+      this.clearRetryTimer();
+      await this.dataStore.clear();
       await storage.multiRemove([
-        OfflineDataService.KEYS.OFFLINE_DATA,
         OfflineDataService.KEYS.PENDING_ACTIONS,
         OfflineDataService.KEYS.LAST_SYNC,
         OfflineDataService.KEYS.SYNC_CONFLICTS,
+        OfflineDataService.KEYS.DEAD_LETTER_ACTIONS,
       ]);
+      this.statusStore.update({ pendingCount: 0, conflicts: [], deadLetterCount: 0, lastSyncAt: null });
       console.log('[OfflineData] Cleared all offline data');
     } catch (error) {
       console.error('[OfflineData] Failed to clear offline data:', error);
@@ -372,10 +915,11 @@ export class OfflineDataService {
     lastSync: string | null;
     pendingActionsCount: number;
   } {
+    const status = this.statusStore.getSnapshot();
     return {
       inProgress: this.syncInProgress,
-      lastSync: null, // Could be retrieved from storage
-      pendingActionsCount: 0, // Could be calculated from storage
+      lastSync: status.lastSyncAt,
+      pendingActionsCount: status.pendingCount,
     };
   }
 
@@ -0,0 +1,113 @@
+import DataService from './DataService';
+import { analyticsService } from './AnalyticsService';
+import { SessionPayment } from './PaymentService';
+import { Coach, PackageCredit, SessionPackage } from '../types';
+import { createValidationError } from '../utils/errorHandling';
+import {
+  getCreditExpiry,
+  getPackagePricePerSession,
+  isCreditExpired,
+  selectCreditForBooking,
+} from '../utils/packageCredits';
+
+class PackageService {
+  private static instance: PackageService;
+
+  private constructor() {}
+
+  public static getInstance(): PackageService {
+    if (!PackageService.instance) {
+      PackageService.instance = new PackageService();
+    }
+    return PackageService.instance;
+  }
+
+  /**
+   * Packages a coach sells, smallest first
+   */
+  getPackages(coach: Coach): SessionPackage[] {
+    return [...(coach.packages ?? [])].sort((a, b) => a.sessionCount - b.sessionCount);
+  }
+
+  /**
+   * Payment details for buying a package, handed to the payment sheet
+   */
+  buildPackagePayment(coach: Coach, pkg: SessionPackage): SessionPayment {
+    return {
+      sessionId: `package_${pkg.id}_${Date.now()}`,
+      coachId: coach.id,
+      amount: pkg.price,
+      currency: 'USD',
+      sessionType: pkg.name,
+      description: `${pkg.name} with ${coach.name} (${pkg.sessionCount} sessions)`,
+      scheduledDate: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Record a paid package as credits the user can book against
+   */
+  async purchasePackage(
+    userId: string,
+    coach: Coach,
+    pkg: SessionPackage,
+    paymentIntentId: string
+  ): Promise<PackageCredit> {
+    if (pkg.coachId !== coach.id) {
+      throw createValidationError('This package is not offered by this coach.');
+    }
+
+    const purchasedAt = new Date();
+    const credit = await DataService.createPackageCredit({
+      id: `credit_${paymentIntentId}`,
+      packageId: pkg.id,
+      packageName: pkg.name,
+      coachId: coach.id,
+      coachName: coach.name,
+      userId,
+      totalSessions: pkg.sessionCount,
+      remainingSessions: pkg.sessionCount,
+      pricePerSession: getPackagePricePerSession(pkg),
+      paymentIntentId,
+      purchasedAt: purchasedAt.toISOString(),
+      expiresAt: getCreditExpiry(purchasedAt, pkg.validityDays).toISOString(),
+    });
+
+    analyticsService.track('package_purchased', {
+      coachId: coach.id,
+      packageId: pkg.id,
+      sessionCount: pkg.sessionCount,
+      amount: pkg.price,
+      paymentIntentId,
+    });
+
+    console.log(`[PackageService] Purchased ${pkg.name} with ${coach.name}`);
+    return credit;
+  }
+
+  /**
+   * A user's package credits, soonest to expire first
+   */
+  async getCredits(userId: string, options: { includeExpired?: boolean; forceRefresh?: boolean } = {}): Promise<PackageCredit[]> {
+    const { includeExpired = false, forceRefresh = false } = options;
+    const credits = await DataService.getPackageCredits(userId, { forceRefresh });
+    return credits
+      .filter(credit => includeExpired || (!isCreditExpired(credit) && credit.remainingSessions > 0))
+      .sort((a, b) => new Date(a.expiresAt).getTime() - new Date(b.expiresAt).getTime());
+  }
+
+  /**
+   * The credit that would pay for booking a number of sessions with a coach, if any
+   */
+  async getCreditForBooking(userId: string, coachId: string, sessions: number): Promise<PackageCredit | null> {
+    try {
+      const credits = await DataService.getPackageCredits(userId, { forceRefresh: true });
+      return selectCreditForBooking(credits, coachId, sessions);
+    } catch (error) {
+      console.warn('[PackageService] Could not load package credits:', error);
+      return null;
+    }
+  }
+}
+
+export const packageService = PackageService.getInstance();
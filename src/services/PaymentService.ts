@@ -1,4 +1,5 @@
 import { analyticsService } from './AnalyticsService';
+import { secureStorage } from '../utils/secureStorage';
 
 export interface PaymentMethod {
   id: string;
@@ -11,6 +12,9 @@ export interface PaymentMethod {
   name: string;
 }
 
+export const PAYMENT_METHODS_STORAGE_KEY = 'payment_methods';
+secureStorage.markSensitive(PAYMENT_METHODS_STORAGE_KEY);
+
 export interface PaymentIntent {
   id: string;
   amount: number;
@@ -40,9 +44,7 @@ class PaymentService {
   private paymentMethods: PaymentMethod[] = [];
   private isInitialized = false;
 
-  private constructor() {
-    this.initializeMockData();
-  }
+  private constructor() {}
 
   public static getInstance(): PaymentService {
     if (!PaymentService.instance) {
@@ -51,8 +53,8 @@ class PaymentService {
     return PaymentService.instance;
   }
 
-  private initializeMockData(): void {
-    this.paymentMethods = [
+  private getMockPaymentMethods(): PaymentMethod[] {
+    return [
       {
         id: 'pm_1',
         type: 'card',
@@ -70,7 +72,10 @@ class PaymentService {
         name: 'Apple Pay',
       },
     ];
-    this.isInitialized = true;
+  }
+
+  private async savePaymentMethods(): Promise<void> {
+    await secureStorage.setItem(PAYMENT_METHODS_STORAGE_KEY, JSON.stringify(this.paymentMethods));
   }
 
   async initialize(): Promise<void> {
@@ -78,7 +83,9 @@ class PaymentService {
     
     try {
       console.log('[PaymentService] Initializing...');
-      this.initializeMockData();
+      const stored = await secureStorage.getItem(PAYMENT_METHODS_STORAGE_KEY);
+      this.paymentMethods = stored ? JSON.parse(stored) : this.getMockPaymentMethods();
+      this.isInitialized = true;
       console.log('[PaymentService] Initialized successfully');
     } catch (error) {
       console.error('[PaymentService] Failed to initialize:', error);
@@ -104,6 +111,7 @@ class PaymentService {
     }
 
     this.paymentMethods.push(newMethod);
+    await this.savePaymentMethods();
     
     analyticsService.track('payment_method_added', {
       type: newMethod.type,
@@ -128,6 +136,7 @@ class PaymentService {
     if (removedMethod.isDefault && this.paymentMethods.length > 0) {
       this.paymentMethods[0].isDefault = true;
     }
+    await this.savePaymentMethods();
 
     analyticsService.track('payment_method_removed', {
       type: removedMethod.type,
@@ -146,6 +155,7 @@ class PaymentService {
     }
 
     this.paymentMethods.forEach(pm => pm.isDefault = pm.id === paymentMethodId);
+    await this.savePaymentMethods();
 
     analyticsService.track('payment_method_set_default', {
       type: method.type,
@@ -177,9 +187,14 @@ class PaymentService {
     return paymentIntent;
   }
 
+  /**
+   * Charge the payment method, or with captureLater only place a hold on it
+   * until capturePayment or cancelPayment settles the purchase
+   */
   async confirmPayment(
     paymentIntentId: string,
-    paymentMethodId: string
+    paymentMethodId: string,
+    options: { captureLater?: boolean } = {}
   ): Promise<PaymentResult> {
     await this.initialize();
     
@@ -196,13 +211,13 @@ class PaymentService {
       const isSuccess = Math.random() > 0.1; // 90% success rate
 
       if (isSuccess) {
-        analyticsService.track('payment_succeeded', {
+        analyticsService.track(options.captureLater ? 'payment_authorized' : 'payment_succeeded', {
           paymentIntentId,
           paymentMethodType: paymentMethod.type,
           paymentMethodId,
         });
 
-        console.log('[PaymentService] Payment succeeded:', paymentIntentId);
+        console.log(`[PaymentService] Payment ${options.captureLater ? 'authorized' : 'succeeded'}:`, paymentIntentId);
         return {
           success: true,
           paymentIntentId,
@@ -240,6 +255,77 @@ class PaymentService {
     }
   }
 
+  /**
+   * Charge a payment that was only authorized
+   */
+  async capturePayment(paymentIntentId: string, amount?: number): Promise<PaymentResult> {
+    await this.initialize();
+
+    try {
+      // Simulate capture processing
+      await new Promise(resolve => setTimeout(resolve, 1000));
+
+      analyticsService.track('payment_captured', {
+        paymentIntentId,
+        amount,
+      });
+
+      console.log('[PaymentService] Payment captured:', paymentIntentId);
+      return {
+        success: true,
+        paymentIntentId,
+      };
+    } catch (error) {
+      const errorMessage = (error as Error).message;
+
+      analyticsService.track('payment_capture_failed', {
+        paymentIntentId,
+        error: errorMessage,
+      });
+
+      console.error('[PaymentService] Capture failed:', errorMessage);
+      return {
+        success: false,
+        error: errorMessage,
+      };
+    }
+  }
+
+  /**
+   * Release the hold on an authorized payment without charging it
+   */
+  async cancelPayment(paymentIntentId: string): Promise<PaymentResult> {
+    await this.initialize();
+
+    try {
+      // Simulate cancellation processing
+      await new Promise(resolve => setTimeout(resolve, 1000));
+
+      analyticsService.track('payment_canceled', {
+        paymentIntentId,
+      });
+
+      console.log('[PaymentService] Payment canceled:', paymentIntentId);
+      return {
+        success: true,
+        paymentIntentId,
+      };
+    } catch (error) {
+      const errorMessage = (error as Error).message;
+
+      analyticsService.track('payment_cancel_failed', {
+        paymentIntentId,
+        error: errorMessage,
+      });
+
+      console.error('[PaymentService] Cancel failed:', errorMessage);
+      return {
+        success: false,
+        error: errorMessage,
+      };
+    }
+  }
+
   async processRefund(paymentIntentId: string, amount?: number): Promise<PaymentResult> {
     await this.initialize();
     
@@ -1,11 +1,22 @@
-import { ChatMessage, Conversation } from '../types';
+import Constants from 'expo-constants';
+import { ChatMessage, Conversation, MessageStatus } from '../types';
 import NotificationService from './NotificationService';
+import { offlineDataService } from './OfflineDataService';
+import { AUTH_TOKEN_STORAGE_KEY } from '../utils/storageKeys';
+import { MessagingTransport, RealtimeFrame } from './MessagingTransport';
+import { SimulatedTransport } from './SimulatedTransport';
+import { WebSocketTransport } from './WebSocketTransport';
+import { secureStorage } from '../utils/secureStorage';
+import { getMessageText } from '../utils/chatHistory';
 
 export interface MessageListener {
   onMessageReceived: (message: ChatMessage, conversationId: string) => void;
   onTypingStart: (conversationId: string, userId: string) => void;
   onTypingStop: (conversationId: string, userId: string) => void;
   onUserOnlineStatus: (userId: string, isOnline: boolean) => void;
+  onReadReceipt?: (conversationId: string, userId: string, messageIds: string[], readAt: string) => void;
+  // A recipient's device has received or read messages this user sent; the stored history is already updated
+  onMessageStatusChanged?: (conversationId: string, messageIds: string[], status: MessageStatus) => void;
 }
 
 export interface TypingIndicator {
@@ -15,59 +26,153 @@ export interface TypingIndicator {
   timestamp: number;
 }
 
+export type ConnectionStatus = 'connected' | 'disconnected' | 'connecting';
+
+export type ConnectionListener = (status: ConnectionStatus) => void;
+
+export type RealtimeAdapter = 'simulated' | 'websocket';
+
+export interface RealtimeConfig {
+  adapter: RealtimeAdapter;
+  url: string;
+  heartbeatIntervalMs: number;
+  // How long to wait for a pong before treating the connection as dead
+  heartbeatTimeoutMs: number;
+  // How long to wait for the server to acknowledge a sent message
+  ackTimeoutMs: number;
+  // First reconnection delay; doubles on each attempt up to 10 seconds
+  reconnectBaseDelayMs: number;
+}
+
+const DEFAULT_REALTIME_CONFIG: RealtimeConfig = {
+  adapter: 'simulated',
+  url: 'ws://localhost:4001',
+  heartbeatIntervalMs: 30000,
+  heartbeatTimeoutMs: 10000,
+  ackTimeoutMs: 10000,
+  reconnectBaseDelayMs: 1000,
+};
+
+/**
+ * Read the messaging configuration from the `realtime` block of app.json extras
+ */
+export function getRealtimeConfig(): RealtimeConfig {
+  const extra = (Constants.expoConfig?.extra ?? {}) as { realtime?: Partial<RealtimeConfig> };
+  return { ...DEFAULT_REALTIME_CONFIG, ...(extra.realtime ?? {}) };
+}
+
+/**
+ * Create the transport for the adapter selected in app.json extras
+ */
+export function createMessagingTransport(config: RealtimeConfig = getRealtimeConfig()): MessagingTransport {
+  return config.adapter === 'websocket'
+    ? new WebSocketTransport({
+        url: config.url,
+        getAuthToken: () => secureStorage.getItem(AUTH_TOKEN_STORAGE_KEY),
+      })
+    : new SimulatedTransport();
+}
+
+type ReceiptStatus = Extract<MessageStatus, 'delivered' | 'read'>;
+
+interface PendingReadReceipt {
+  messageIds: Set<string>;
+  readAt: string;
+}
+
+interface PendingAck {
+  resolve: () => void;
+  reject: (error: Error) => void;
+  timeout: NodeJS.Timeout;
+}
+
 export class RealtimeMessagingService {
   private listeners: MessageListener[] = [];
-  private connectionStatus: 'connected' | 'disconnected' | 'connecting' = 'disconnected';
+  private connectionListeners = new Set<ConnectionListener>();
+  private connectionStatus: ConnectionStatus = 'disconnected';
   private reconnectAttempts = 0;
   private maxReconnectAttempts = 5;
   private reconnectTimeout: NodeJS.Timeout | null = null;
   private heartbeatInterval: NodeJS.Timeout | null = null;
+  private heartbeatTimeout: NodeJS.Timeout | null = null;
   private typingTimeouts: Map<string, NodeJS.Timeout> = new Map();
-  
-  private mockActiveUsers = new Set<string>(['1', '2', '3']); // Mock online users
+  private pendingAcks: Map<string, PendingAck> = new Map();
+  private onlineUsers = new Set<string>();
+  // Read receipts made while offline, by conversation, sent once the connection is back
+  private pendingReadReceipts = new Map<string, PendingReadReceipt>();
 
-  constructor() {
+  constructor(
+    private config: RealtimeConfig = getRealtimeConfig(),
+    private transport: MessagingTransport = createMessagingTransport(config)
+  ) {
     this.connect();
   }
 
   /**
-   * Simulate WebSocket connection
+   * Open the transport and wire its events into the service
    */
-  private async connect(): Promise<void> {
-    this.connectionStatus = 'connecting';
-    
+  private connect(): void {
+    this.setConnectionStatus('connecting');
+
     try {
-      // Simulate connection delay
-      await new Promise(resolve => setTimeout(resolve, 1000 + Math.random() * 2000));
-      
-      this.connectionStatus = 'connected';
-      this.reconnectAttempts = 0;
-      
-      // Start heartbeat to maintain connection
-      this.startHeartbeat();
-      
-      console.log('[RealtimeMessaging] Connected to messaging service');
-      
-      // Simulate receiving messages periodically
-      this.startMockMessageSimulation();
-      
+      this.transport.open({
+        onOpen: () => {
+          this.setConnectionStatus('connected');
+          this.reconnectAttempts = 0;
+
+          // Start heartbeat to maintain connection
+          this.startHeartbeat();
+          this.sendPendingReadReceipts();
+
+          console.log('[RealtimeMessaging] Connected to messaging service');
+        },
+        onFrame: frame => this.handleFrame(frame),
+        onClose: reason => {
+          console.warn('[RealtimeMessaging] Connection lost:', reason);
+          this.handleConnectionLost();
+        },
+      });
     } catch (error) {
-      this.connectionStatus = 'disconnected';
-      this.handleConnectionError();
+      console.error('[RealtimeMessaging] Failed to open connection:', error);
+      this.handleConnectionLost();
     }
   }
 
+  /**
+   * Record a new connection status and tell connection listeners if it changed
+   */
+  private setConnectionStatus(status: ConnectionStatus): void {
+    if (this.connectionStatus === status) return;
+    this.connectionStatus = status;
+    this.connectionListeners.forEach(listener => listener(status));
+  }
+
+  /**
+   * Tear down per-connection state after the connection drops unexpectedly
+   */
+  private handleConnectionLost(): void {
+    this.setConnectionStatus('disconnected');
+    this.stopHeartbeat();
+    this.rejectPendingAcks('Connection lost before the message was acknowledged');
+    this.handleConnectionError();
+  }
+
   /**
    * Handle connection errors and attempt reconnection
    */
   private handleConnectionError(): void {
+    if (this.reconnectTimeout) {
+      return;
+    }
+
     if (this.reconnectAttempts < this.maxReconnectAttempts) {
       this.reconnectAttempts++;
-      const delay = Math.min(1000 * Math.pow(2, this.reconnectAttempts), 10000);
-      
+      const delay = Math.min(this.config.reconnectBaseDelayMs * Math.pow(2, this.reconnectAttempts), 10000);
+
       console.log(`[RealtimeMessaging] Reconnecting in ${delay}ms (attempt ${this.reconnectAttempts})`);
-      
+
       this.reconnectTimeout = setTimeout(() => {
+        this.reconnectTimeout = null;
         this.connect();
       }, delay);
     } else {
@@ -79,73 +184,161 @@ export class RealtimeMessagingService {
    * Start heartbeat to maintain connection
    */
   private startHeartbeat(): void {
+    this.stopHeartbeat();
     this.heartbeatInterval = setInterval(() => {
-      if (this.connectionStatus === 'connected') {
-        // Simulate heartbeat
-        console.log('[RealtimeMessaging] Heartbeat sent');
+      if (this.connectionStatus !== 'connected' || this.heartbeatTimeout) return;
+
+      try {
+        this.transport.send({ type: 'ping', sentAt: Date.now() });
+      } catch (error) {
+        console.warn('[RealtimeMessaging] Failed to send heartbeat:', error);
       }
-    }, 30000); // Every 30 seconds
+
+      this.heartbeatTimeout = setTimeout(() => {
+        this.heartbeatTimeout = null;
+        console.warn('[RealtimeMessaging] Heartbeat timed out');
+        this.transport.close();
+        this.handleConnectionLost();
+      }, this.config.heartbeatTimeoutMs);
+    }, this.config.heartbeatIntervalMs);
+  }
+
+  /**
+   * Stop the heartbeat and any outstanding pong wait
+   */
+  private stopHeartbeat(): void {
+    if (this.heartbeatInterval) {
+      clearInterval(this.heartbeatInterval);
+      this.heartbeatInterval = null;
+    }
+    if (this.heartbeatTimeout) {
+      clearTimeout(this.heartbeatTimeout);
+      this.heartbeatTimeout = null;
+    }
   }
 
   /**
-   * Simulate receiving messages for testing
+   * Dispatch a frame received from the server
    */
-  private startMockMessageSimulation(): void {
-    // Simulate receiving a message every 30-60 seconds
-    const simulateMessage = async () => {
-      if (this.connectionStatus === 'connected' && Math.random() > 0.7) {
-        const mockMessage: ChatMessage = {
-          id: Date.now().toString(),
-          text: this.getRandomMessage(),
-          senderId: 'coach1',
-          timestamp: new Date().toISOString(),
-          isRead: false,
-        };
-        
-        this.listeners.forEach(listener => {
-          listener.onMessageReceived(mockMessage, 'conv1');
-        });
-        
-        // Send push notification for new message
-        try {
-          await NotificationService.sendMessageNotification(
-            'Coach Sarah',
-            mockMessage.text || 'New message',
-            mockMessage.senderId,
-            'conv1'
-          );
-        } catch (error) {
-          console.error('[RealtimeMessaging] Failed to send notification:', (error as Error).message || error);
-          // Continue execution even if notifications fail
+  private handleFrame(frame: RealtimeFrame): void {
+    switch (frame.type) {
+      case 'message':
+        this.receiveMessage(frame.message, frame.conversationId);
+        break;
+      case 'ack': {
+        const pending = this.pendingAcks.get(frame.messageId);
+        if (pending) {
+          clearTimeout(pending.timeout);
+          this.pendingAcks.delete(frame.messageId);
+          pending.resolve();
         }
+        break;
       }
-      
-      // Schedule next simulation
-      setTimeout(simulateMessage, 30000 + Math.random() * 30000);
-    };
+      case 'typing':
+        if (!frame.userId) break;
+        this.listeners.forEach(listener =>
+          frame.isTyping
+            ? listener.onTypingStart(frame.conversationId, frame.userId!)
+            : listener.onTypingStop(frame.conversationId, frame.userId!)
+        );
+        break;
+      case 'delivery_receipt':
+        if (!frame.userId) break;
+        this.receiveReceipt(frame.conversationId, frame.userId, frame.messageIds, 'delivered', frame.deliveredAt);
+        break;
+      case 'read_receipt':
+        if (!frame.userId) break;
+        this.receiveReceipt(frame.conversationId, frame.userId, frame.messageIds, 'read', frame.readAt);
+        break;
+      case 'presence':
+        this.setUserOnline(frame.userId, frame.isOnline);
+        break;
+      case 'ping':
+        this.trySend({ type: 'pong', sentAt: frame.sentAt });
+        break;
+      case 'pong':
+        if (this.heartbeatTimeout) {
+          clearTimeout(this.heartbeatTimeout);
+          this.heartbeatTimeout = null;
+        }
+        break;
+    }
+  }
+
+  /**
+   * Add an incoming message to its conversation's history, then pass it on.
+   * Storing it here keeps history and unread counts right for conversations
+   * that aren't open. A message already stored is not passed on again.
+   */
+  private async receiveMessage(message: ChatMessage, conversationId: string): Promise<void> {
+    const added = await offlineDataService.saveConversationMessages(conversationId, [
+      { ...message, isRead: message.isRead ?? false },
+    ]);
+    // Let the sender know it reached this device; reading it is a separate receipt
+    this.trySend({
+      type: 'delivery_receipt',
+      conversationId,
+      messageIds: [message.id],
+      deliveredAt: new Date().toISOString(),
+    });
+    // A resend after a lost ack: the user has already been told about it
+    if (added.length === 0) {
+      return;
+    }
+    this.listeners.forEach(listener => listener.onMessageReceived(message, conversationId));
+    this.notifyIncomingMessage(message, conversationId);
+  }
+
+  /**
+   * Move the messages a recipient's receipt covers to its status in the
+   * stored history, then tell listeners
+   */
+  private async receiveReceipt(
+    conversationId: string,
+    userId: string,
+    messageIds: string[],
+    status: ReceiptStatus,
+    at: string
+  ): Promise<void> {
+    await offlineDataService.updateConversationMessages(conversationId, messageIds, { status });
+    this.listeners.forEach(listener => {
+      listener.onMessageStatusChanged?.(conversationId, messageIds, status);
+      if (status === 'read') {
+        listener.onReadReceipt?.(conversationId, userId, messageIds, at);
+      }
+    });
+  }
 
-    // Start simulation after 10 seconds
-    setTimeout(simulateMessage, 10000);
+  /**
+   * Show a push notification for a message from someone else
+   */
+  private async notifyIncomingMessage(message: ChatMessage, conversationId: string): Promise<void> {
+    try {
+      await NotificationService.sendMessageNotification(
+        message.senderName || 'New message',
+        getMessageText(message) || 'New message',
+        message.senderId,
+        conversationId
+      );
+    } catch (error) {
+      console.error('[RealtimeMessaging] Failed to send notification:', (error as Error).message || error);
+      // Continue execution even if notifications fail
+    }
   }
 
   /**
-   * Get random message for simulation
+   * Send a frame, logging instead of throwing if the connection is gone
    */
-  private getRandomMessage(): string {
-    const messages = [
-      "How's your progress going?",
-      "Great job on completing today's session!",
-      "Remember to practice the techniques we discussed.",
-      "Looking forward to our next meeting!",
-      "Any questions about the homework?",
-      "You're making excellent progress!",
-      "Don't forget about our session tomorrow.",
-    ];
-    return messages[Math.floor(Math.random() * messages.length)];
+  private trySend(frame: RealtimeFrame): void {
+    try {
+      this.transport.send(frame);
+    } catch (error) {
+      console.warn(`[RealtimeMessaging] Failed to send ${frame.type} frame:`, error);
+    }
   }
 
   /**
-   * Send a message
+   * Send a message and wait for the server to acknowledge it
    */
   async sendMessage(conversationId: string, message: ChatMessage, skipNotification: boolean = false): Promise<void> {
     if (this.connectionStatus !== 'connected') {
@@ -153,20 +346,33 @@ export class RealtimeMessagingService {
     }
 
     try {
-      // Simulate sending message to server
-      await new Promise(resolve => setTimeout(resolve, 200 + Math.random() * 300));
-      
-      console.log('[RealtimeMessaging] Message sent:', message);
-      
-      // Simulate message delivery confirmation
-      // In a real implementation, this would come from the server
-      
+      const acknowledged = new Promise<void>((resolve, reject) => {
+        const timeout = setTimeout(() => {
+          this.pendingAcks.delete(message.id);
+          reject(new Error('Timed out waiting for the server to acknowledge the message'));
+        }, this.config.ackTimeoutMs);
+        this.pendingAcks.set(message.id, { resolve, reject, timeout });
+      });
+
+      try {
+        this.transport.send({ type: 'message', conversationId, message });
+      } catch (error) {
+        const pending = this.pendingAcks.get(message.id);
+        if (pending) {
+          clearTimeout(pending.timeout);
+          this.pendingAcks.delete(message.id);
+        }
+        throw error;
+      }
+
+      await acknowledged;
+      console.log('[RealtimeMessaging] Message sent:', message.id);
+
       // Send push notification for sent message (if configured for delivery confirmations)
       if (!skipNotification) {
         // This would typically be sent to other participants in the conversation
         // For now, we'll skip since it's our own message
       }
-      
     } catch (error) {
       console.error('[RealtimeMessaging] Failed to send message:', error);
       throw new Error('Failed to send message');
@@ -184,16 +390,15 @@ export class RealtimeMessagingService {
     const existingTimeout = this.typingTimeouts.get(timeoutKey);
     if (existingTimeout) {
       clearTimeout(existingTimeout);
+    } else {
+      this.trySend({ type: 'typing', conversationId, isTyping: true });
     }
 
-    // Simulate sending typing indicator
-    console.log('[RealtimeMessaging] Started typing in conversation:', conversationId);
-    
     // Auto-stop typing after 3 seconds
     const timeout = setTimeout(() => {
       this.stopTyping(conversationId);
     }, 3000);
-    
+
     this.typingTimeouts.set(timeoutKey, timeout);
   }
 
@@ -208,36 +413,46 @@ export class RealtimeMessagingService {
     if (existingTimeout) {
       clearTimeout(existingTimeout);
       this.typingTimeouts.delete(timeoutKey);
+      this.trySend({ type: 'typing', conversationId, isTyping: false });
     }
-
-    console.log('[RealtimeMessaging] Stopped typing in conversation:', conversationId);
   }
 
   /**
-   * Mark messages as read
+   * Send a read receipt for messages the user has seen. Receipts made while
+   * offline are held and sent once the connection is back.
    */
   async markMessagesAsRead(conversationId: string, messageIds: string[]): Promise<void> {
-    if (this.connectionStatus !== 'connected') {
-      throw new Error('Not connected to messaging service');
-    }
+    if (messageIds.length === 0) return;
 
-    try {
-      // Simulate API call
-      await new Promise(resolve => setTimeout(resolve, 100 + Math.random() * 200));
-      
-      console.log('[RealtimeMessaging] Messages marked as read:', messageIds);
-      
-    } catch (error) {
-      console.error('[RealtimeMessaging] Failed to mark messages as read:', error);
-      throw new Error('Failed to mark messages as read');
+    const pending = this.pendingReadReceipts.get(conversationId)?.messageIds ?? new Set<string>();
+    messageIds.forEach(messageId => pending.add(messageId));
+    this.pendingReadReceipts.set(conversationId, { messageIds: pending, readAt: new Date().toISOString() });
+
+    if (this.connectionStatus === 'connected') {
+      this.sendPendingReadReceipts();
     }
   }
 
+  /**
+   * Send the read receipts held while offline, keeping any that fail for the next connection
+   */
+  private sendPendingReadReceipts(): void {
+    this.pendingReadReceipts.forEach(({ messageIds, readAt }, conversationId) => {
+      try {
+        this.transport.send({ type: 'read_receipt', conversationId, messageIds: [...messageIds], readAt });
+        this.pendingReadReceipts.delete(conversationId);
+        console.log('[RealtimeMessaging] Messages marked as read:', [...messageIds]);
+      } catch (error) {
+        console.warn('[RealtimeMessaging] Failed to send read receipt:', error);
+      }
+    });
+  }
+
   /**
    * Get online status for users
    */
   getUserOnlineStatus(userId: string): boolean {
-    return this.mockActiveUsers.has(userId);
+    return this.onlineUsers.has(userId);
   }
 
   /**
@@ -260,15 +475,26 @@ export class RealtimeMessagingService {
   /**
    * Get current connection status
    */
-  getConnectionStatus(): 'connected' | 'disconnected' | 'connecting' | null {
+  getConnectionStatus(): ConnectionStatus {
     return this.connectionStatus;
   }
 
+  /**
+   * Get told when the connection status changes. Returns a function that stops listening.
+   */
+  addConnectionListener(listener: ConnectionListener): () => void {
+    this.connectionListeners.add(listener);
+    return () => {
+      this.connectionListeners.delete(listener);
+    };
+  }
+
   /**
    * Force reconnection
    */
   reconnect(): void {
     this.disconnect();
+    this.reconnectAttempts = 0;
     this.connect();
   }
 
@@ -276,22 +502,22 @@ export class RealtimeMessagingService {
    * Disconnect from the service
    */
   disconnect(): void {
-    this.connectionStatus = 'disconnected';
-    
+    this.setConnectionStatus('disconnected');
+    this.transport.close();
+
     if (this.reconnectTimeout) {
       clearTimeout(this.reconnectTimeout);
       this.reconnectTimeout = null;
     }
-    
-    if (this.heartbeatInterval) {
-      clearInterval(this.heartbeatInterval);
-      this.heartbeatInterval = null;
-    }
-    
+
+    this.stopHeartbeat();
+    this.rejectPendingAcks('Disconnected before the message was acknowledged');
+
     // Clear all typing timeouts
     this.typingTimeouts.forEach(timeout => clearTimeout(timeout));
     this.typingTimeouts.clear();
-    
+    this.onlineUsers.clear();
+
     console.log('[RealtimeMessaging] Disconnected from messaging service');
   }
 
@@ -299,17 +525,35 @@ export class RealtimeMessagingService {
    * Simulate user going online/offline
    */
   simulateUserStatusChange(userId: string, isOnline: boolean): void {
+    this.setUserOnline(userId, isOnline);
+  }
+
+  /**
+   * Record a presence change and tell listeners about it
+   */
+  private setUserOnline(userId: string, isOnline: boolean): void {
     if (isOnline) {
-      this.mockActiveUsers.add(userId);
+      this.onlineUsers.add(userId);
     } else {
-      this.mockActiveUsers.delete(userId);
+      this.onlineUsers.delete(userId);
     }
-    
+
     this.listeners.forEach(listener => {
       listener.onUserOnlineStatus(userId, isOnline);
     });
   }
+
+  /**
+   * Fail every send still waiting for an ack
+   */
+  private rejectPendingAcks(reason: string): void {
+    this.pendingAcks.forEach(pending => {
+      clearTimeout(pending.timeout);
+      pending.reject(new Error(reason));
+    });
+    this.pendingAcks.clear();
+  }
 }
 
 // Singleton instance
-export const realtimeMessagingService = new RealtimeMessagingService();
\ No newline at end of file
+export const realtimeMessagingService = new RealtimeMessagingService();
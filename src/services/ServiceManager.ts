@@ -7,6 +7,7 @@ import { analyticsService } from './AnalyticsService';
 import { performanceService } from './PerformanceService';
 import { realtimeMessagingService } from './RealtimeMessagingService';
 import NotificationService from './NotificationService';
+import { StorageMigrationRunner } from './StorageMigrations';
 import { storage } from '../utils/storage';
 import { netInfo } from '../utils/netInfo';
 
@@ -70,6 +71,21 @@ class ServiceManager {
         },
         isRequired: true,
       },
+      {
+        name: 'StorageMigrations',
+        initialize: async () => {
+          try {
+            // Runs before anything reads persisted data, so readers only see the current schema
+            const result = await new StorageMigrationRunner(storage).run();
+            return result.failed.length === 0;
+          } catch (error) {
+            console.error('[ServiceManager] Storage migrations failed:', error);
+            return false;
+          }
+        },
+        isRequired: false,
+        dependencies: ['Storage'],
+      },
       {
         name: 'NetInfo',
         initialize: async () => {
@@ -0,0 +1,114 @@
+import { ChatMessage } from '../types';
+import { MessagingTransport, MessagingTransportHandlers, RealtimeFrame } from './MessagingTransport';
+
+const SIMULATED_CONVERSATION_ID = 'conv1';
+const SIMULATED_ONLINE_USERS = ['1', '2', '3'];
+const SIMULATED_COACH_ID = 'coach1';
+
+const MOCK_COACH_MESSAGES = [
+  "How's your progress going?",
+  "Great job on completing today's session!",
+  'Remember to practice the techniques we discussed.',
+  'Looking forward to our next meeting!',
+  'Any questions about the homework?',
+  "You're making excellent progress!",
+  "Don't forget about our session tomorrow.",
+];
+
+/**
+ * In-process stand-in for the messaging server. Answers pings and sends with
+ * pongs and acks, follows each send with the coach's delivery and read
+ * receipts, reports a few users as online and has a coach drop a message into
+ * `conv1` every so often.
+ */
+export class SimulatedTransport implements MessagingTransport {
+  readonly name = 'simulated';
+  private handlers: MessagingTransportHandlers | null = null;
+  private timers = new Set<NodeJS.Timeout>();
+
+  open(handlers: MessagingTransportHandlers): void {
+    this.close();
+    this.handlers = handlers;
+
+    // Simulate connection delay
+    this.schedule(() => {
+      handlers.onOpen();
+      SIMULATED_ONLINE_USERS.forEach(userId => this.emit({ type: 'presence', userId, isOnline: true }));
+      // Start simulation after 10 seconds
+      this.schedule(() => this.simulateMessage(), 10000);
+    }, 1000 + Math.random() * 2000);
+  }
+
+  send(frame: RealtimeFrame): void {
+    if (!this.handlers) {
+      throw new Error('Simulated transport is not open');
+    }
+
+    switch (frame.type) {
+      case 'ping':
+        this.schedule(() => this.emit({ type: 'pong', sentAt: frame.sentAt }), 50);
+        break;
+      case 'message': {
+        const { conversationId } = frame;
+        const messageIds = [frame.message.id];
+        // Simulate the server taking the message, then the coach's device receiving it and the coach reading it
+        this.schedule(
+          () => this.emit({ type: 'ack', conversationId, messageId: frame.message.id }),
+          200 + Math.random() * 300
+        );
+        this.schedule(() => this.emit({
+          type: 'delivery_receipt',
+          conversationId,
+          messageIds,
+          deliveredAt: new Date().toISOString(),
+          userId: SIMULATED_COACH_ID,
+        }), 1000 + Math.random() * 1000);
+        this.schedule(() => this.emit({
+          type: 'read_receipt',
+          conversationId,
+          messageIds,
+          readAt: new Date().toISOString(),
+          userId: SIMULATED_COACH_ID,
+        }), 4000 + Math.random() * 4000);
+        break;
+      }
+      default:
+        break;
+    }
+  }
+
+  close(): void {
+    this.timers.forEach(timer => clearTimeout(timer));
+    this.timers.clear();
+    this.handlers = null;
+  }
+
+  private simulateMessage(): void {
+    // Simulate receiving a message every 30-60 seconds
+    if (Math.random() > 0.7) {
+      const message: ChatMessage = {
+        id: Date.now().toString(),
+        text: MOCK_COACH_MESSAGES[Math.floor(Math.random() * MOCK_COACH_MESSAGES.length)],
+        senderId: SIMULATED_COACH_ID,
+        senderName: 'Coach Sarah',
+        timestamp: new Date().toISOString(),
+        isRead: false,
+      };
+      this.emit({ type: 'message', conversationId: SIMULATED_CONVERSATION_ID, message });
+    }
+
+    this.schedule(() => this.simulateMessage(), 30000 + Math.random() * 30000);
+  }
+
+  private emit(frame: RealtimeFrame): void {
+    this.handlers?.onFrame(frame);
+  }
+
+  private schedule(callback: () => void, delay: number): void {
+    const timer = setTimeout(() => {
+      this.timers.delete(timer);
+      callback();
+    }, delay);
+    this.timers.add(timer);
+  }
+}
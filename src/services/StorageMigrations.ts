@@ -0,0 +1,187 @@
+import { storage as defaultStorage, SimpleStorage } from '../utils/storage';
+import {
+  AUTH_TOKEN_STORAGE_KEY,
+  AUTO_THEME_STORAGE_KEY,
+  THEME_STORAGE_KEY,
+  USER_STORAGE_KEY,
+} from '../utils/storageKeys';
+import { themes } from '../theme/colors';
+import { secureStorage } from '../utils/secureStorage';
+
+export type MigrationStorage = Pick<
+  SimpleStorage,
+  'getItem' | 'setItem' | 'removeItem' | 'getAllKeys' | 'multiRemove'
+>;
+
+// Groups of persisted keys that are versioned together
+export type StorageNamespace = 'auth' | 'verification' | 'cache' | 'theme' | 'secure';
+
+export interface StorageMigration {
+  namespace: StorageNamespace;
+  // Schema version the namespace is at once this migration has run
+  version: number;
+  description: string;
+  migrate: (storage: MigrationStorage) => Promise<void>;
+}
+
+export type SchemaVersions = Partial<Record<StorageNamespace, number>>;
+
+export interface MigrationRunResult {
+  applied: string[];
+  failed: Array<{ migration: string; error: string }>;
+  versions: SchemaVersions;
+}
+
+export const SCHEMA_VERSIONS_KEY = 'storage_schema_versions';
+
+const VERIFICATION_KEY_PREFIX = 'coach_verification_';
+const CACHE_KEY_PREFIX = 'lazycoach_cache_';
+
+function parseJson<T>(value: string | null): T | null {
+  if (!value) return null;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return null;
+  }
+}
+
+export const storageMigrations: StorageMigration[] = [
+  {
+    namespace: 'auth',
+    version: 1,
+    description: 'Fill in user fields added since launch and sign out unreadable sessions',
+    migrate: async storage => {
+      const stored = await storage.getItem(USER_STORAGE_KEY);
+      if (!stored) return;
+
+      const user = parseJson<Record<string, any>>(stored);
+      if (!user?.id || !user.email) {
+        await storage.multiRemove([USER_STORAGE_KEY, AUTH_TOKEN_STORAGE_KEY]);
+        return;
+      }
+
+      await storage.setItem(USER_STORAGE_KEY, JSON.stringify({
+        ...user,
+        name: user.name ?? user.email,
+        userType: user.userType ?? 'client',
+        preferences: {
+          specialty: [],
+          priceRange: [0, 500],
+          location: '',
+          ...user.preferences,
+        },
+        bookedSessions: user.bookedSessions ?? [],
+      }));
+    },
+  },
+  {
+    namespace: 'verification',
+    version: 1,
+    description: 'Drop unreadable coach verifications and fill in missing progress fields',
+    migrate: async storage => {
+      const keys = (await storage.getAllKeys()).filter(key => key.startsWith(VERIFICATION_KEY_PREFIX));
+
+      for (const key of keys) {
+        const verification = parseJson<Record<string, any>>(await storage.getItem(key));
+        if (!verification?.coachId || !verification.verificationDetails) {
+          await storage.removeItem(key);
+          continue;
+        }
+
+        await storage.setItem(key, JSON.stringify({
+          ...verification,
+          status: verification.status ?? 'not_started',
+          completionPercentage: verification.completionPercentage ?? 0,
+        }));
+      }
+    },
+  },
+  {
+    namespace: 'cache',
+    version: 1,
+    description: 'Clear cache entries written before cached shapes were versioned',
+    migrate: async storage => {
+      const keys = (await storage.getAllKeys()).filter(key => key.startsWith(CACHE_KEY_PREFIX));
+      await storage.multiRemove(keys);
+    },
+  },
+  {
+    namespace: 'theme',
+    version: 1,
+    description: 'Reset theme settings that no longer name a theme',
+    migrate: async storage => {
+      const themeName = await storage.getItem(THEME_STORAGE_KEY);
+      if (themeName && !(themeName in themes)) {
+        await storage.removeItem(THEME_STORAGE_KEY);
+      }
+
+      const autoTheme = await storage.getItem(AUTO_THEME_STORAGE_KEY);
+      if (autoTheme && autoTheme !== 'true' && autoTheme !== 'false') {
+        await storage.removeItem(AUTO_THEME_STORAGE_KEY);
+      }
+    },
+  },
+  {
+    // Runs after the namespaces above, which still expect these records in plain storage
+    namespace: 'secure',
+    version: 1,
+    description: 'Move the user, auth token and coach verifications out of plain storage',
+    migrate: async () => {
+      // The services owning these keys mark them too, but may not have loaded yet
+      secureStorage.markSensitive(USER_STORAGE_KEY, AUTH_TOKEN_STORAGE_KEY);
+      secureStorage.markSensitivePrefix(VERIFICATION_KEY_PREFIX);
+      await secureStorage.secureExistingRecords();
+    },
+  },
+];
+
+/**
+ * Brings persisted data up to the current schema. Each namespace keeps its
+ * own version, migrations run in version order, and the version is saved after
+ * every step so an interrupted run picks up where it stopped.
+ */
+export class StorageMigrationRunner {
+  constructor(
+    private storage: MigrationStorage = defaultStorage,
+    private migrations: StorageMigration[] = storageMigrations
+  ) {}
+
+  async getVersions(): Promise<SchemaVersions> {
+    return parseJson<SchemaVersions>(await this.storage.getItem(SCHEMA_VERSIONS_KEY)) ?? {};
+  }
+
+  /**
+   * Apply every migration newer than its namespace's stored version. A failed
+   * migration stops later ones in the same namespace but not in others.
+   */
+  async run(): Promise<MigrationRunResult> {
+    const versions = await this.getVersions();
+    const result: MigrationRunResult = { applied: [], failed: [], versions };
+    const namespaces = [...new Set(this.migrations.map(migration => migration.namespace))];
+
+    for (const namespace of namespaces) {
+      const pending = this.migrations
+        .filter(migration => migration.namespace === namespace && migration.version > (versions[namespace] ?? 0))
+        .sort((a, b) => a.version - b.version);
+
+      for (const migration of pending) {
+        const name = `${namespace}@${migration.version}`;
+        try {
+          await migration.migrate(this.storage);
+          versions[namespace] = migration.version;
+          await this.storage.setItem(SCHEMA_VERSIONS_KEY, JSON.stringify(versions));
+          result.applied.push(name);
+          console.log(`[StorageMigrations] Applied ${name}: ${migration.description}`);
+        } catch (error) {
+          const message = (error as Error)?.message || 'Unknown error';
+          result.failed.push({ migration: name, error: message });
+          console.error(`[StorageMigrations] ${name} failed:`, message);
+          break;
+        }
+      }
+    }
+
+    return result;
+  }
+}
@@ -0,0 +1,103 @@
+import type { SyncConflict } from '../utils/syncConflicts';
+
+export interface SyncProgress {
+  completed: number;
+  total: number;
+  currentActionId?: string;
+}
+
+export interface SyncStatus {
+  isOnline: boolean;
+  networkType: string;
+  isSyncing: boolean;
+  // Queued changes not yet on the server, including ones backing off
+  pendingCount: number;
+  // Set while a sync is running
+  progress: SyncProgress | null;
+  lastSyncAt: string | null;
+  lastSyncResult: 'completed' | 'failed' | null;
+  conflicts: SyncConflict[];
+  deadLetterCount: number;
+}
+
+export type SyncStatusListener = (status: SyncStatus) => void;
+
+const INITIAL_STATUS: SyncStatus = {
+  isOnline: false,
+  networkType: 'unknown',
+  isSyncing: false,
+  pendingCount: 0,
+  progress: null,
+  lastSyncAt: null,
+  lastSyncResult: null,
+  conflicts: [],
+  deadLetterCount: 0,
+};
+
+/**
+ * Single source of truth for network and sync state. The offline data service
+ * writes to it as things happen and the UI subscribes, so nothing has to poll.
+ * Snapshots are immutable, so they can be compared by reference.
+ */
+export class SyncStatusStore {
+  private static instance: SyncStatusStore;
+  private status: SyncStatus = INITIAL_STATUS;
+  private listeners = new Set<SyncStatusListener>();
+
+  public static getInstance(): SyncStatusStore {
+    if (!SyncStatusStore.instance) {
+      SyncStatusStore.instance = new SyncStatusStore();
+    }
+    return SyncStatusStore.instance;
+  }
+
+  getSnapshot = (): SyncStatus => this.status;
+
+  /**
+   * Listen for status changes. Returns a function that stops listening.
+   */
+  subscribe = (listener: SyncStatusListener): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  /**
+   * Merge in changed fields and notify subscribers if anything actually changed
+   */
+  update(changes: Partial<SyncStatus>): void {
+    const changed = (Object.keys(changes) as Array<keyof SyncStatus>).some(
+      key => changes[key] !== this.status[key]
+    );
+    if (!changed) {
+      return;
+    }
+
+    this.status = { ...this.status, ...changes };
+    this.listeners.forEach(listener => {
+      try {
+        listener(this.status);
+      } catch (error) {
+        console.error('[SyncStatusStore] Error in listener:', error);
+      }
+    });
+  }
+}
+
+export const syncStatusStore = SyncStatusStore.getInstance();
+
+/**
+ * Short description of queued work, e.g. "3 changes waiting to sync"
+ */
+export function describePendingChanges(status: Pick<SyncStatus, 'pendingCount' | 'progress'>): string | null {
+  if (status.progress) {
+    return `Syncing ${Math.min(status.progress.completed + 1, status.progress.total)} of ${status.progress.total} changes...`;
+  }
+  if (status.pendingCount === 0) {
+    return null;
+  }
+  return status.pendingCount === 1
+    ? '1 change waiting to sync'
+    : `${status.pendingCount} changes waiting to sync`;
+}
@@ -7,14 +7,17 @@ import {
   VerificationDetails,
   BiometricData,
 } from '../types/verification';
-import { storage } from '../utils/storage';
+import { secureStorage } from '../utils/secureStorage';
 import { analyticsService } from './AnalyticsService';
 
+// Verification records hold personal details such as date of birth, address and phone
+const VERIFICATION_STORAGE_PREFIX = 'coach_verification_';
+secureStorage.markSensitivePrefix(VERIFICATION_STORAGE_PREFIX);
+
 export class VerificationService {
   private static instance: VerificationService;
   
   private readonly STORAGE_KEYS = {
-    VERIFICATION: 'coach_verification',
     DOCUMENTS: 'verification_documents',
     BIOMETRIC_DATA: 'biometric_data',
   };
@@ -70,7 +73,7 @@ export class VerificationService {
    */
   async getVerification(coachId: string): Promise<CoachVerification | null> {
     try {
-      const stored = await storage.getItem(`${this.STORAGE_KEYS.VERIFICATION}_${coachId}`);
+      const stored = await secureStorage.getItem(`${VERIFICATION_STORAGE_PREFIX}${coachId}`);
       return stored ? JSON.parse(stored) : null;
     } catch (error) {
       console.error('[VerificationService] Failed to get verification:', error);
@@ -83,8 +86,8 @@ export class VerificationService {
    */
   async saveVerification(verification: CoachVerification): Promise<void> {
     try {
-      await storage.setItem(
-        `${this.STORAGE_KEYS.VERIFICATION}_${verification.coachId}`,
+      await secureStorage.setItem(
+        `${VERIFICATION_STORAGE_PREFIX}${verification.coachId}`,
         JSON.stringify(verification)
       );
     } catch (error) {
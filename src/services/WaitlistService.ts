@@ -0,0 +1,145 @@
+import DataService, { cacheTags } from './DataService';
+import NotificationService from './NotificationService';
+import { offlineDataService } from './OfflineDataService';
+import { analyticsService } from './AnalyticsService';
+import { Coach, WaitlistEntry } from '../types';
+import { AppError, createValidationError } from '../utils/errorHandling';
+import { storage } from '../utils/storage';
+import { getSlotStartDate } from '../utils/timeSlots';
+
+const NOTIFIED_HOLDS_KEY = 'waitlist_notified_holds';
+
+export interface WaitlistDateRange {
+  fromDate?: string;
+  toDate?: string;
+}
+
+class WaitlistService {
+  private static instance: WaitlistService;
+
+  private constructor() {}
+
+  public static getInstance(): WaitlistService {
+    if (!WaitlistService.instance) {
+      WaitlistService.instance = new WaitlistService();
+    }
+    return WaitlistService.instance;
+  }
+
+  /**
+   * Join a coach's waitlist, optionally only for slots within a range of dates
+   */
+  async joinWaitlist(userId: string, coach: Coach, range: WaitlistDateRange = {}): Promise<WaitlistEntry> {
+    const { fromDate, toDate } = range;
+    if (fromDate && toDate && fromDate > toDate) {
+      throw createValidationError('The end date must be on or after the start date.');
+    }
+    // Places in line are kept by the server, so joining needs a connection
+    if (!offlineDataService.getNetworkStatus().isConnected) {
+      throw new AppError('Connect to the internet to join the waitlist.', 'network');
+    }
+
+    const entry = await DataService.joinWaitlist({
+      id: `waitlist_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      coachId: coach.id,
+      coachName: coach.name,
+      userId,
+      fromDate,
+      toDate,
+      status: 'waiting',
+      joinedAt: new Date().toISOString(),
+    });
+
+    analyticsService.track('waitlist_joined', {
+      coachId: coach.id,
+      fromDate,
+      toDate,
+    });
+
+    console.log(`[WaitlistService] Joined waitlist for ${coach.name}`);
+    return entry;
+  }
+
+  /**
+   * Leave a waitlist, giving up any slot currently held
+   */
+  async leaveWaitlist(entry: WaitlistEntry): Promise<WaitlistEntry> {
+    const updated = await DataService.leaveWaitlist(entry);
+
+    analyticsService.track('waitlist_left', {
+      coachId: entry.coachId,
+      hadHold: !!entry.hold,
+    });
+
+    return updated;
+  }
+
+  /**
+   * A user's waitlist entries that are still waiting or holding a slot
+   */
+  async getActiveEntries(userId: string, coachId?: string): Promise<WaitlistEntry[]> {
+    const entries = await DataService.getWaitlist(userId);
+    return entries.filter(entry =>
+      (entry.status === 'waiting' || entry.status === 'offered') &&
+      (!coachId || entry.coachId === coachId)
+    );
+  }
+
+  /**
+   * Look for slots held for the user and notify them about each new one.
+   * Returns the entries that currently hold a slot.
+   */
+  async checkForOffers(userId: string): Promise<WaitlistEntry[]> {
+    let offers: WaitlistEntry[];
+    try {
+      offers = (await this.getActiveEntries(userId)).filter(
+        entry => entry.status === 'offered' && entry.hold && new Date(entry.hold.expiresAt) > new Date()
+      );
+    } catch (error) {
+      console.warn('[WaitlistService] Could not check waitlist offers:', error);
+      return [];
+    }
+
+    const notified = await this.getNotifiedHolds();
+    const newOffers = offers.filter(entry => !notified.includes(this.getHoldKey(entry)));
+
+    for (const entry of newOffers) {
+      const hold = entry.hold!;
+      await NotificationService.sendWaitlistOfferNotification(
+        entry.id,
+        entry.coachId,
+        entry.coachName,
+        hold.slot.id,
+        getSlotStartDate(hold.slot),
+        new Date(hold.expiresAt),
+        hold.slot.timeZone
+      );
+    }
+
+    if (newOffers.length > 0) {
+      await DataService.invalidate(newOffers.map(entry => cacheTags.coach(entry.coachId)));
+      // Only remember holds that are still live, so the list doesn't grow forever
+      const liveKeys = offers.map(entry => this.getHoldKey(entry));
+      await storage.setItem(NOTIFIED_HOLDS_KEY, JSON.stringify(liveKeys));
+      console.log(`[WaitlistService] Notified about ${newOffers.length} held slot(s)`);
+    }
+
+    return offers;
+  }
+
+  private getHoldKey(entry: WaitlistEntry): string {
+    return `${entry.id}:${entry.hold?.slot.id}`;
+  }
+
+  private async getNotifiedHolds(): Promise<string[]> {
+    try {
+      const stored = await storage.getItem(NOTIFIED_HOLDS_KEY);
+      return stored ? JSON.parse(stored) : [];
+    } catch (error) {
+      console.error('[WaitlistService] Failed to load notified holds:', error);
+      return [];
+    }
+  }
+}
+
+export const waitlistService = WaitlistService.getInstance();
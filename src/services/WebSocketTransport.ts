@@ -0,0 +1,107 @@
+import {
+  decodeFrame,
+  encodeFrame,
+  MessagingTransport,
+  MessagingTransportHandlers,
+  RealtimeFrame,
+} from './MessagingTransport';
+
+const SOCKET_OPEN = 1;
+
+/**
+ * The parts of the WebSocket API the transport uses, so React Native's global
+ * WebSocket and Node's `ws` client can both be plugged in
+ */
+export interface WebSocketLike {
+  readonly readyState: number;
+  onopen: ((event: any) => void) | null;
+  onmessage: ((event: { data: any }) => void) | null;
+  onclose: ((event: { code: number; reason: string }) => void) | null;
+  onerror: ((event: any) => void) | null;
+  send(data: string): void;
+  close(code?: number, reason?: string): void;
+}
+
+export interface WebSocketTransportOptions {
+  url: string;
+  // Sent as the `token` query parameter so the server can identify the user
+  getAuthToken?: () => Promise<string | null>;
+  createSocket?: (url: string) => WebSocketLike;
+}
+
+/**
+ * Transport that speaks the JSON frame protocol over a WebSocket
+ */
+export class WebSocketTransport implements MessagingTransport {
+  readonly name = 'websocket';
+  private socket: WebSocketLike | null = null;
+  // Bumped on every open/close so events from a superseded socket are ignored
+  private generation = 0;
+
+  constructor(private options: WebSocketTransportOptions) {}
+
+  open(handlers: MessagingTransportHandlers): void {
+    this.close();
+    const generation = ++this.generation;
+
+    this.buildUrl()
+      .then(url => {
+        if (generation !== this.generation) return;
+
+        const socket = (this.options.createSocket ?? (socketUrl => new WebSocket(socketUrl) as WebSocketLike))(url);
+        this.socket = socket;
+
+        socket.onopen = () => {
+          if (generation === this.generation) handlers.onOpen();
+        };
+        socket.onmessage = event => {
+          if (generation !== this.generation) return;
+          const frame = typeof event.data === 'string' ? decodeFrame(event.data) : null;
+          if (frame) {
+            handlers.onFrame(frame);
+          } else {
+            console.warn('[WebSocketTransport] Ignoring malformed frame');
+          }
+        };
+        socket.onerror = () => {
+          // A close event always follows, which is where reconnection is handled
+          console.warn('[WebSocketTransport] Socket error');
+        };
+        socket.onclose = event => {
+          if (generation !== this.generation) return;
+          this.socket = null;
+          handlers.onClose(event.reason || `closed with code ${event.code}`);
+        };
+      })
+      .catch(error => {
+        if (generation === this.generation) {
+          handlers.onClose((error as Error).message || 'failed to open socket');
+        }
+      });
+  }
+
+  send(frame: RealtimeFrame): void {
+    if (!this.socket || this.socket.readyState !== SOCKET_OPEN) {
+      throw new Error('WebSocket is not open');
+    }
+    this.socket.send(encodeFrame(frame));
+  }
+
+  close(): void {
+    this.generation++;
+    if (this.socket) {
+      const socket = this.socket;
+      this.socket = null;
+      socket.close(1000, 'client closed');
+    }
+  }
+
+  private async buildUrl(): Promise<string> {
+    const token = this.options.getAuthToken ? await this.options.getAuthToken() : null;
+    if (!token) {
+      return this.options.url;
+    }
+    const separator = this.options.url.includes('?') ? '&' : '?';
+    return `${this.options.url}${separator}token=${encodeURIComponent(token)}`;
+  }
+}
@@ -10,20 +10,161 @@ export interface Coach {
   image?: string;
   availability: TimeSlot[];
   location: string;
+  timeZone: string;
   experience: number;
   languages: string[];
   tags: string[];
   reviews: Review[];
+  cancellationPolicy?: CancellationPolicy;
+  // How many times a client may move a booked session; unlimited when negative
+  maxReschedules?: number;
+  // Recurring availability; when set, bookable slots are generated from it
+  schedule?: AvailabilitySchedule;
+  // Times blocked in the coach's own device calendar
+  busyTimes?: BusyTime[];
+  packages?: SessionPackage[];
+  updatedAt?: string;
+}
+
+// A prepaid bundle of sessions a coach sells at a discount
+export interface SessionPackage {
+  id: string;
+  coachId: string;
+  name: string;
+  sessionCount: number;
+  price: number;
+  // Days the credits stay valid after purchase
+  validityDays: number;
+}
+
+// A client's purchased package and what is left of it
+export interface PackageCredit {
+  id: string;
+  packageId: string;
+  packageName: string;
+  coachId: string;
+  coachName: string;
+  userId: string;
+  totalSessions: number;
+  remainingSessions: number;
+  pricePerSession: number;
+  paymentIntentId: string;
+  purchasedAt: string;
+  expiresAt: string;
+}
+
+export interface BusyTime {
+  startsAt: string;
+  endsAt: string;
+}
+
+// 0 = Sunday ... 6 = Saturday
+export type Weekday = 0 | 1 | 2 | 3 | 4 | 5 | 6;
+
+export interface AvailabilityRule {
+  id: string;
+  weekdays: Weekday[];
+  // Wall-clock "HH:mm" in the schedule's timezone
+  start: string;
+  end: string;
+  slotMinutes: number;
+  // Optional "YYYY-MM-DD" bounds for when the rule applies
+  validFrom?: string;
+  validUntil?: string;
+  // Set for group workshops; the generated slots carry these along
+  capacity?: number;
+  seatPrice?: number;
+  title?: string;
+}
+
+export interface AvailabilityException {
+  id: string;
+  date: string;
+  // 'unavailable' blocks time (the whole day without start/end), 'extra' opens it
+  type: 'unavailable' | 'extra';
+  start?: string;
+  end?: string;
+  slotMinutes?: number;
+  reason?: string;
+}
+
+export interface AvailabilitySchedule {
+  rules: AvailabilityRule[];
+  exceptions: AvailabilityException[];
+  // Gap kept free after every session
+  bufferMinutes: number;
+}
+
+export interface CancellationPolicy {
+  // Cancelling at least this many hours before the start is fully refunded
+  fullRefundWindowHours: number;
+  // Share of the price refunded when cancelling inside the window, before the start
+  partialRefundPercent: number;
 }
 
 export interface TimeSlot {
   id: string;
+  // Wall-clock date and times in the coach's timezone
   start: string;
   end: string;
   available: boolean;
   date: string;
+  // UTC instants (ISO 8601) that the slot actually starts and ends at
+  startsAt: string;
+  endsAt: string;
+  // IANA timezone of the coach, e.g. "America/New_York"
+  timeZone: string;
+  // Set while the slot is held for a waitlisted client; held slots stay unavailable to everyone else
+  heldFor?: string;
+  holdExpiresAt?: string;
+  // Group sessions: seats on offer and seats taken. One-on-one slots leave these unset.
+  capacity?: number;
+  bookedCount?: number;
+  // Price of one seat and the workshop's name, for group slots
+  seatPrice?: number;
+  title?: string;
+}
+
+// Someone booked into a group session
+export interface RosterAttendee {
+  sessionId: string;
+  userId?: string;
+  userName: string;
+  bookedAt?: string;
+}
+
+export interface GroupRoster {
+  slot: TimeSlot;
+  attendees: RosterAttendee[];
+}
+
+export type WaitlistStatus = 'waiting' | 'offered' | 'booked' | 'left';
+
+// A client waiting for a fully booked coach, optionally only for a range of dates
+export interface WaitlistEntry {
+  id: string;
+  coachId: string;
+  coachName: string;
+  userId: string;
+  // Coach-local calendar dates ("YYYY-MM-DD"), both inclusive
+  fromDate?: string;
+  toDate?: string;
+  status: WaitlistStatus;
+  joinedAt: string;
+  // The freed slot currently held for this client
+  hold?: {
+    slot: TimeSlot;
+    expiresAt: string;
+  };
+  // Slots whose hold lapsed, so they aren't offered to this client again
+  passedSlotIds?: string[];
 }
 
+// Fields a coach can change on their own profile
+export type CoachProfileUpdate = Partial<
+  Pick<Coach, 'name' | 'specialty' | 'description' | 'price' | 'priceDisplay' | 'location' | 'languages' | 'tags' | 'image'>
+>;
+
 export interface Review {
   id: string;
   userId: string;
@@ -41,9 +182,53 @@ export interface BookedSession {
   status: 'upcoming' | 'completed' | 'cancelled';
   price: number;
   notes?: string;
+  sessionType?: string;
+  packageCreditId?: string;
+  userId?: string;
+  // Shown on the coach's roster for group sessions
+  userName?: string;
+  paymentIntentId?: string;
+  bookedAt?: string;
+  cancellationReason?: string;
+  cancelledAt?: string;
+  refundAmount?: number;
+  // A cancellation is stored before its refund or package credit is given back, so a failed one stays on record as pending
+  refundStatus?: 'pending' | 'refunded';
+  rescheduleCount?: number;
+  rescheduledAt?: string;
+  updatedAt?: string;
+}
+
+// Uploading comes first for messages with attachments; the message itself goes out once they're up
+export type MessageStatus = 'uploading' | 'sending' | 'sent' | 'delivered' | 'read' | 'failed';
+
+export type AttachmentKind = 'image' | 'document' | 'audio';
+
+export interface ChatAttachment {
+  id: string;
+  kind: AttachmentKind;
+  // A local file until the upload finishes, then the server's copy
+  uri: string;
+  mimeType: string;
+  sizeBytes: number;
+  name?: string;
+  // Voice notes only
+  durationMs?: number;
+  // Images only, so the thumbnail can be sized before it loads
+  width?: number;
+  height?: number;
+  uploaded?: boolean;
+  // 0 to 1 while the upload is in progress
+  uploadProgress?: number;
 }
 
-export type MessageStatus = 'sending' | 'sent' | 'delivered' | 'read' | 'failed';
+export interface AttachmentRequirement {
+  kind: AttachmentKind;
+  description: string;
+  acceptedMimeTypes: string[];
+  maxSizeBytes: number;
+  maxDurationMs?: number;
+}
 
 export interface ChatMessage {
   id: string;
@@ -52,7 +237,9 @@ export interface ChatMessage {
   text?: string;
   message?: string;
   timestamp: string;
-  type?: 'text' | 'system';
+  type?: 'text' | 'system' | 'attachment';
+  // Text, if any, is the caption
+  attachments?: ChatAttachment[];
   status?: MessageStatus;
   isRead?: boolean;
 }
@@ -63,6 +250,7 @@ export interface Conversation {
   coachName: string;
   lastMessage: string;
   lastMessageTime: string;
+  // Messages from others that no read receipt has gone back for, counted from the history
   unreadCount: number;
   messages: ChatMessage[];
 }
@@ -83,6 +271,8 @@ export interface User {
   bookedSessions: BookedSession[];
   // Coach-specific fields
   coachProfile?: {
+    // The public coach listing this account manages, once it has been linked
+    coachId?: string;
     specialties: string[];
     hourlyRate: number;
     bio: string;
@@ -96,4 +286,5 @@ export interface User {
       uploadDate: string;
     };
   };
+  updatedAt?: string;
 }
\ No newline at end of file
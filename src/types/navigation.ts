@@ -4,16 +4,17 @@ export type RootStackParamList = {
   Login: undefined;
   Register: undefined;
   Home: undefined;
-  CoachDetail: {
-    coach: Coach;
-  };
-  MySessions: undefined;
+  // Opened with the coach, or by id from a waitlist offer link, optionally on a slot
+  CoachDetail: { coach: Coach; slotId?: string } | { coachId: string; slotId?: string };
+  // Opened from a session deep link, e.g. a calendar event
+  MySessions: { sessionId?: string } | undefined;
   Messages: undefined;
   Chat: {
     conversation: Conversation;
   };
   UserProfile: undefined;
   CoachVerification: undefined;
+  GroupRoster: undefined;
 };
 
 export type AuthStackParamList = {
@@ -23,14 +24,15 @@ export type AuthStackParamList = {
 
 export type MainStackParamList = {
   Home: undefined;
-  CoachDetail: {
-    coach: Coach;
-  };
-  MySessions: undefined;
+  // Opened with the coach, or by id from a waitlist offer link, optionally on a slot
+  CoachDetail: { coach: Coach; slotId?: string } | { coachId: string; slotId?: string };
+  // Opened from a session deep link, e.g. a calendar event
+  MySessions: { sessionId?: string } | undefined;
   Messages: undefined;
   Chat: {
     conversation: Conversation;
   };
   UserProfile: undefined;
   CoachVerification: undefined;
+  GroupRoster: undefined;
 };
\ No newline at end of file
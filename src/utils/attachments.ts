@@ -0,0 +1,143 @@
+import { randomUUID } from 'expo-crypto';
+import { AttachmentKind, AttachmentRequirement, ChatAttachment, ChatMessage } from '../types';
+import { createValidationError } from './errorHandling';
+
+export const ATTACHMENT_REQUIREMENTS: Record<AttachmentKind, AttachmentRequirement> = {
+  image: {
+    kind: 'image',
+    description: 'Photo',
+    acceptedMimeTypes: ['image/jpeg', 'image/png', 'image/heic', 'image/webp'],
+    maxSizeBytes: 10 * 1024 * 1024, // 10MB
+  },
+  document: {
+    kind: 'document',
+    description: 'Document',
+    acceptedMimeTypes: [
+      'application/pdf',
+      'application/msword',
+      'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+      'text/plain',
+    ],
+    maxSizeBytes: 15 * 1024 * 1024, // 15MB
+  },
+  audio: {
+    kind: 'audio',
+    description: 'Voice note',
+    acceptedMimeTypes: ['audio/m4a', 'audio/x-m4a', 'audio/mp4', 'audio/aac', 'audio/mpeg', 'audio/webm'],
+    maxSizeBytes: 5 * 1024 * 1024, // 5MB
+    maxDurationMs: 5 * 60 * 1000, // 5 minutes
+  },
+};
+
+const MIME_TYPES_BY_EXTENSION: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  heic: 'image/heic',
+  webp: 'image/webp',
+  pdf: 'application/pdf',
+  doc: 'application/msword',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  txt: 'text/plain',
+  m4a: 'audio/m4a',
+  mp4: 'audio/mp4',
+  aac: 'audio/aac',
+  mp3: 'audio/mpeg',
+  webm: 'audio/webm',
+};
+
+/**
+ * Best guess at a file's MIME type from its name, for pickers that don't report one
+ */
+export function guessMimeType(fileName: string): string {
+  const extension = fileName.split(/[?#]/)[0].split('.').pop()?.toLowerCase() ?? '';
+  return MIME_TYPES_BY_EXTENSION[extension] ?? 'application/octet-stream';
+}
+
+/**
+ * A new attachment for a file on the device, not yet uploaded
+ */
+export function createAttachment(
+  kind: AttachmentKind,
+  file: Omit<ChatAttachment, 'id' | 'kind' | 'uploaded' | 'uploadProgress'>
+): ChatAttachment {
+  return { ...file, id: `att_${randomUUID()}`, kind, uploaded: false, uploadProgress: 0 };
+}
+
+/**
+ * Check an attachment against the limits for its kind, throwing a validation error if it breaks one
+ */
+export function validateAttachment(attachment: ChatAttachment): void {
+  const requirement = ATTACHMENT_REQUIREMENTS[attachment.kind];
+
+  if (!requirement.acceptedMimeTypes.includes(attachment.mimeType.toLowerCase())) {
+    throw createValidationError(`This file type can't be sent as a ${requirement.description.toLowerCase()}.`);
+  }
+  if (attachment.sizeBytes > requirement.maxSizeBytes) {
+    throw createValidationError(
+      `${requirement.description}s can be up to ${formatFileSize(requirement.maxSizeBytes)}; this one is ${formatFileSize(attachment.sizeBytes)}.`
+    );
+  }
+  if (requirement.maxDurationMs && (attachment.durationMs ?? 0) > requirement.maxDurationMs) {
+    throw createValidationError(
+      `${requirement.description}s can be up to ${formatDuration(requirement.maxDurationMs)} long.`
+    );
+  }
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1).replace(/\.0$/, '')} MB`;
+}
+
+/**
+ * Minutes and seconds, e.g. 1:05
+ */
+export function formatDuration(ms: number): string {
+  const totalSeconds = Math.round(ms / 1000);
+  return `${Math.floor(totalSeconds / 60)}:${String(totalSeconds % 60).padStart(2, '0')}`;
+}
+
+/**
+ * Short text standing in for an attachment in previews and notifications
+ */
+export function describeAttachment(attachment: ChatAttachment): string {
+  switch (attachment.kind) {
+    case 'image':
+      return 'Photo';
+    case 'audio':
+      return attachment.durationMs ? `Voice note (${formatDuration(attachment.durationMs)})` : 'Voice note';
+    case 'document':
+      return attachment.name ?? 'Document';
+  }
+}
+
+export function hasPendingUploads(message: ChatMessage): boolean {
+  return (message.attachments ?? []).some(attachment => !attachment.uploaded);
+}
+
+/**
+ * Overall upload progress for a message's attachments, weighted by size, from 0 to 1
+ */
+export function getUploadProgress(message: ChatMessage): number {
+  const attachments = message.attachments ?? [];
+  const totalBytes = attachments.reduce((sum, attachment) => sum + attachment.sizeBytes, 0);
+  if (totalBytes === 0) {
+    return attachments.every(attachment => attachment.uploaded) ? 1 : 0;
+  }
+
+  const sentBytes = attachments.reduce((sum, attachment) =>
+    sum + attachment.sizeBytes * (attachment.uploaded ? 1 : attachment.uploadProgress ?? 0), 0);
+  return sentBytes / totalBytes;
+}
+
+/**
+ * Swap in a new copy of one of a message's attachments
+ */
+export function replaceAttachment(message: ChatMessage, attachment: ChatAttachment): ChatMessage {
+  return {
+    ...message,
+    attachments: (message.attachments ?? []).map(current => (current.id === attachment.id ? attachment : current)),
+  };
+}
@@ -0,0 +1,219 @@
+import {
+  AvailabilityException,
+  AvailabilityRule,
+  AvailabilitySchedule,
+  Coach,
+  TimeSlot,
+  Weekday,
+} from '../types';
+import {
+  createTimeSlot,
+  getDateInTimeZone,
+  getSlotEndDate,
+  getSlotStartDate,
+  zonedTimeToUtc,
+} from './timeSlots';
+
+export interface AvailabilityRange {
+  from: Date;
+  to: Date;
+}
+
+export interface BusyInterval {
+  start: Date;
+  end: Date;
+}
+
+export interface ExpandAvailabilityOptions {
+  // Extra times the coach can't be booked, on top of their reserved slots
+  busy?: BusyInterval[];
+  now?: Date;
+  // Client whose waitlist holds should be offered to them as open slots
+  holderId?: string;
+}
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+function toTime(totalMinutes: number): string {
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`;
+}
+
+// Calendar dates are handled as UTC midnights so stepping never crosses a DST change
+function addDays(date: string, days: number): string {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY).toISOString().split('T')[0];
+}
+
+function getWeekday(date: string): Weekday {
+  return new Date(`${date}T00:00:00Z`).getUTCDay() as Weekday;
+}
+
+function overlaps(a: BusyInterval, b: BusyInterval): boolean {
+  return a.start < b.end && b.start < a.end;
+}
+
+/**
+ * Stable id for a generated slot, so a reservation made on it can be matched later
+ */
+export function getGeneratedSlotId(coachId: string, date: string, start: string): string {
+  return `${coachId}-${date}-${start.replace(':', '')}`;
+}
+
+/**
+ * Cut a working block into back-to-back slots, leaving the buffer after each one
+ */
+function splitBlock(
+  coach: Pick<Coach, 'id' | 'timeZone'>,
+  date: string,
+  start: string,
+  end: string,
+  slotMinutes: number,
+  bufferMinutes: number,
+  group: Pick<AvailabilityRule, 'capacity' | 'seatPrice' | 'title'> = {}
+): TimeSlot[] {
+  const slots: TimeSlot[] = [];
+  const blockEnd = toMinutes(end);
+  const step = slotMinutes + bufferMinutes;
+
+  if (slotMinutes <= 0) return slots;
+
+  for (let minutes = toMinutes(start); minutes + slotMinutes <= blockEnd; minutes += step) {
+    const slotStart = toTime(minutes);
+    const slot = createTimeSlot(
+      getGeneratedSlotId(coach.id, date, slotStart),
+      date,
+      slotStart,
+      toTime(minutes + slotMinutes),
+      coach.timeZone
+    );
+    slots.push(group.capacity && group.capacity > 1
+      ? { ...slot, capacity: group.capacity, bookedCount: 0, seatPrice: group.seatPrice, title: group.title }
+      : slot);
+  }
+  return slots;
+}
+
+function isRuleActive(date: string, validFrom?: string, validUntil?: string): boolean {
+  return (!validFrom || date >= validFrom) && (!validUntil || date <= validUntil);
+}
+
+function getSlotsForDate(
+  coach: Pick<Coach, 'id' | 'timeZone'>,
+  schedule: AvailabilitySchedule,
+  date: string
+): TimeSlot[] {
+  const weekday = getWeekday(date);
+  const exceptions = schedule.exceptions.filter(exception => exception.date === date);
+
+  if (exceptions.some(exception => exception.type === 'unavailable' && !exception.start && !exception.end)) {
+    return [];
+  }
+
+  const defaultSlotMinutes = schedule.rules[0]?.slotMinutes ?? 60;
+  const slots = [
+    ...schedule.rules
+      .filter(rule => rule.weekdays.includes(weekday) && isRuleActive(date, rule.validFrom, rule.validUntil))
+      .flatMap(rule => splitBlock(coach, date, rule.start, rule.end, rule.slotMinutes, schedule.bufferMinutes, rule)),
+    ...exceptions
+      .filter((exception): exception is AvailabilityException & { start: string; end: string } =>
+        exception.type === 'extra' && !!exception.start && !!exception.end
+      )
+      .flatMap(exception =>
+        splitBlock(
+          coach,
+          date,
+          exception.start,
+          exception.end,
+          exception.slotMinutes ?? defaultSlotMinutes,
+          schedule.bufferMinutes
+        )
+      ),
+  ];
+
+  const blocked = exceptions
+    .filter(exception => exception.type === 'unavailable' && exception.start && exception.end)
+    .map(exception => ({
+      start: zonedTimeToUtc(date, exception.start!, coach.timeZone),
+      end: zonedTimeToUtc(date, exception.end!, coach.timeZone),
+    }));
+
+  return slots.filter(slot => {
+    const interval = { start: getSlotStartDate(slot), end: getSlotEndDate(slot) };
+    return !blocked.some(block => overlaps(interval, block));
+  });
+}
+
+/**
+ * Expand a coach's availability into bookable slots starting within a range.
+ *
+ * Coaches with a recurring schedule get slots generated from their rules and
+ * exceptions; others keep their flat `availability` list. Either way, slots
+ * that clash with a reserved slot (plus the buffer), the coach's calendar
+ * busy times or a busy interval, or that have already started, are left out.
+ */
+export function expandAvailability(
+  coach: Pick<Coach, 'id' | 'timeZone' | 'availability' | 'schedule' | 'busyTimes'>,
+  range: AvailabilityRange,
+  options: ExpandAvailabilityOptions = {}
+): TimeSlot[] {
+  const { busy = [], now = new Date(), holderId } = options;
+  const { schedule } = coach;
+  const bufferMs = (schedule?.bufferMinutes ?? 0) * MINUTE;
+
+  const isHeldForHolder = (slot: TimeSlot): boolean => !!holderId && slot.heldFor === holderId;
+  const reserved = coach.availability.filter(slot => !slot.available && !isHeldForHolder(slot));
+  const blocked: BusyInterval[] = [
+    ...reserved.map(slot => ({
+      start: new Date(getSlotStartDate(slot).getTime() - bufferMs),
+      end: new Date(getSlotEndDate(slot).getTime() + bufferMs),
+    })),
+    ...(coach.busyTimes ?? []).map(busyTime => ({
+      start: new Date(busyTime.startsAt),
+      end: new Date(busyTime.endsAt),
+    })),
+    ...busy,
+  ];
+
+  const candidates: TimeSlot[] = [];
+  if (schedule) {
+    const lastDate = getDateInTimeZone(range.to, coach.timeZone);
+    for (let date = getDateInTimeZone(range.from, coach.timeZone); date <= lastDate; date = addDays(date, 1)) {
+      candidates.push(...getSlotsForDate(coach, schedule, date));
+    }
+  }
+
+  // Group slots already recorded on the coach carry their seat count
+  const recorded = new Map(coach.availability.map(slot => [slot.id, slot]));
+  candidates.forEach((slot, index) => {
+    const bookedCount = recorded.get(slot.id)?.bookedCount;
+    if (bookedCount) {
+      candidates[index] = { ...slot, bookedCount };
+    }
+  });
+
+  // Open slots listed on the coach directly (e.g. a released reservation) still count
+  const generatedIds = new Set(candidates.map(slot => slot.id));
+  candidates.push(
+    ...coach.availability
+      .filter(slot => (slot.available || isHeldForHolder(slot)) && !generatedIds.has(slot.id))
+      .map(slot => (slot.available ? slot : { ...slot, available: true }))
+  );
+
+  const earliest = Math.max(range.from.getTime(), now.getTime());
+  return candidates
+    .filter(slot => {
+      const start = getSlotStartDate(slot);
+      if (start.getTime() < earliest || start >= range.to) return false;
+
+      const interval = { start, end: getSlotEndDate(slot) };
+      return !blocked.some(block => overlaps(interval, block));
+    })
+    .sort((a, b) => getSlotStartDate(a).getTime() - getSlotStartDate(b).getTime());
+}
@@ -0,0 +1,77 @@
+import { BookedSession, CancellationPolicy } from '../types';
+import { getSlotStartDate } from './timeSlots';
+
+export type RefundType = 'full' | 'partial' | 'none';
+
+export interface RefundQuote {
+  type: RefundType;
+  amount: number;
+  percent: number;
+  hoursUntilStart: number;
+}
+
+export const DEFAULT_CANCELLATION_POLICY: CancellationPolicy = {
+  fullRefundWindowHours: 24,
+  partialRefundPercent: 50,
+};
+
+/**
+ * Work out what cancelling a session right now would refund under a policy
+ */
+export function calculateRefund(
+  session: BookedSession,
+  policy: CancellationPolicy = DEFAULT_CANCELLATION_POLICY,
+  now: Date = new Date()
+): RefundQuote {
+  const startTime = getSlotStartDate(session.timeSlot).getTime();
+  const hoursUntilStart = (startTime - now.getTime()) / (60 * 60 * 1000);
+
+  let type: RefundType;
+  let percent: number;
+
+  if (hoursUntilStart >= policy.fullRefundWindowHours) {
+    type = 'full';
+    percent = 100;
+  } else if (hoursUntilStart > 0) {
+    type = policy.partialRefundPercent > 0 ? 'partial' : 'none';
+    percent = Math.min(Math.max(policy.partialRefundPercent, 0), 100);
+  } else {
+    type = 'none';
+    percent = 0;
+  }
+
+  return {
+    type,
+    percent,
+    amount: Math.round(session.price * percent) / 100,
+    hoursUntilStart,
+  };
+}
+
+/**
+ * Human-readable summary of a refund quote for confirmation dialogs
+ */
+export function describeRefund(quote: RefundQuote, policy: CancellationPolicy = DEFAULT_CANCELLATION_POLICY): string {
+  switch (quote.type) {
+    case 'full':
+      return `You will receive a full refund of $${quote.amount.toFixed(2)}.`;
+    case 'partial':
+      return `This session starts in less than ${policy.fullRefundWindowHours} hours, so you will receive a ${quote.percent}% refund of $${quote.amount.toFixed(2)}.`;
+    default:
+      return quote.hoursUntilStart > 0
+        ? `This session starts in less than ${policy.fullRefundWindowHours} hours and is not eligible for a refund.`
+        : 'This session has already started and is not eligible for a refund.';
+  }
+}
+
+/**
+ * Summary for sessions paid from a package, where only a full refund returns the credit
+ */
+export function describeCreditReturn(quote: RefundQuote, policy: CancellationPolicy = DEFAULT_CANCELLATION_POLICY): string {
+  if (quote.type === 'full') {
+    return 'The session will be returned to your package.';
+  }
+  return quote.hoursUntilStart > 0
+    ? `This session starts in less than ${policy.fullRefundWindowHours} hours, so it will not be returned to your package.`
+    : 'This session has already started and will not be returned to your package.';
+}
@@ -0,0 +1,112 @@
+import { ChatMessage, Conversation, MessageStatus } from '../types';
+import { describeAttachment } from './attachments';
+
+export const CHAT_HISTORY_PAGE_SIZE = 30;
+
+export interface ConversationSummary {
+  lastMessage: string;
+  lastMessageTime: string;
+  unreadCount: number;
+}
+
+/**
+ * Oldest first, keeping arrival order for messages with the same timestamp
+ */
+export function sortMessages(messages: ChatMessage[]): ChatMessage[] {
+  return messages
+    .map((message, index) => ({ message, index }))
+    .sort((a, b) =>
+      new Date(a.message.timestamp).getTime() - new Date(b.message.timestamp).getTime() || a.index - b.index
+    )
+    .map(({ message }) => message);
+}
+
+// Everything before the ack shares a rank, so a failed send can be retried and a retry can fail
+const STATUS_RANK: Record<MessageStatus, number> = {
+  uploading: 0,
+  sending: 0,
+  failed: 0,
+  sent: 1,
+  delivered: 2,
+  read: 3,
+};
+
+/**
+ * The later of two delivery states. Acks and receipts can arrive out of
+ * order, and a late one must not move a message back.
+ */
+export function advanceStatus(current: MessageStatus | undefined, next: MessageStatus | undefined): MessageStatus | undefined {
+  if (!current || !next) {
+    return next ?? current;
+  }
+  return STATUS_RANK[next] >= STATUS_RANK[current] ? next : current;
+}
+
+/**
+ * Apply a newer copy of a message on top of the one already held. A message
+ * the user has read stays read, even if a resend of it arrives unread.
+ */
+export function mergeMessage(current: ChatMessage, incoming: ChatMessage): ChatMessage {
+  return {
+    ...current,
+    ...incoming,
+    status: advanceStatus(current.status, incoming.status),
+    isRead: current.isRead ? true : incoming.isRead ?? current.isRead,
+  };
+}
+
+/**
+ * Merge messages into a history, de-duplicated by id. A message seen again
+ * (an echo of our own send, a replayed page) updates the copy already held.
+ */
+export function mergeMessages(existing: ChatMessage[], incoming: ChatMessage[]): ChatMessage[] {
+  const byId = new Map(existing.map(message => [message.id, message]));
+  for (const message of incoming) {
+    const current = byId.get(message.id);
+    byId.set(message.id, current ? mergeMessage(current, message) : message);
+  }
+  return sortMessages([...byId.values()]);
+}
+
+/**
+ * A message's text, or a description of its attachment if it has no caption
+ */
+export function getMessageText(message: ChatMessage): string {
+  const attachment = message.attachments?.[0];
+  return message.text || message.message || (attachment ? describeAttachment(attachment) : '');
+}
+
+/**
+ * Whether a message came from someone else and no read receipt has gone back for it
+ */
+export function isUnread(message: ChatMessage, currentUserId: string): boolean {
+  return message.senderId !== currentUserId && message.type !== 'system' && message.isRead === false;
+}
+
+/**
+ * The conversation list fields derived from a history, or null if it's empty
+ */
+export function summarizeMessages(messages: ChatMessage[], currentUserId: string): ConversationSummary | null {
+  if (messages.length === 0) {
+    return null;
+  }
+
+  const last = sortMessages(messages)[messages.length - 1];
+  return {
+    lastMessage: getMessageText(last),
+    lastMessageTime: last.timestamp,
+    unreadCount: messages.filter(message => isUnread(message, currentUserId)).length,
+  };
+}
+
+/**
+ * Overwrite a conversation's list fields with those from its stored history
+ */
+export function applyConversationSummary(
+  conversation: Conversation,
+  messages: ChatMessage[],
+  currentUserId: string
+): Conversation {
+  const summary = summarizeMessages(messages, currentUserId);
+  return summary ? { ...conversation, ...summary } : conversation;
+}
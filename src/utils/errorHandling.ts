@@ -41,11 +41,21 @@ export function handleApiError(error: any): AppError {
   }
 
   if (error?.status === 404 || error?.statusCode === 404) {
-    return createServerError('The requested resource was not found.');
+    return createServerError('The requested resource was not found.', 404);
+  }
+
+  const status = error?.status ?? error?.statusCode;
+  if (status === 408 || status === 429) {
+    return createServerError('The server is busy. Please try again shortly.', status);
+  }
+
+  // Any other 4xx means the request itself was rejected and won't succeed as is
+  if (status >= 400 && status < 500) {
+    return new AppError(error.message || 'The request could not be completed.', 'validation', status);
   }
 
   if (error?.status >= 500 || error?.statusCode >= 500) {
-    return createServerError('Server is temporarily unavailable. Please try again later.');
+    return createServerError('Server is temporarily unavailable. Please try again later.', error.status ?? error.statusCode);
   }
 
   if (error?.message) {
@@ -91,4 +101,21 @@ export function getRetryMessage(error: AppError): string {
 
 export function shouldShowRetry(error: AppError): boolean {
   return error.type !== 'authentication';
-}
\ No newline at end of file
+}
+
+/**
+ * Whether an operation that failed with this error may succeed if tried again.
+ * Rejections of the request itself (bad input, missing or conflicting records) won't,
+ * and neither will requests the user isn't signed in to make.
+ */
+export function isRetryableError(error: AppError): boolean {
+  switch (error.type) {
+    case 'validation':
+    case 'authentication':
+      return false;
+    case 'server':
+      return !error.statusCode || error.statusCode >= 500 || error.statusCode === 408 || error.statusCode === 429;
+    default:
+      return true;
+  }
+}
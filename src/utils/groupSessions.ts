@@ -0,0 +1,34 @@
+import { Coach, TimeSlot } from '../types';
+
+/**
+ * Seats a slot offers; one-on-one slots have a single seat
+ */
+export function getSlotCapacity(slot: Pick<TimeSlot, 'capacity'>): number {
+  return Math.max(slot.capacity ?? 1, 1);
+}
+
+export function isGroupSlot(slot: Pick<TimeSlot, 'capacity'>): boolean {
+  return getSlotCapacity(slot) > 1;
+}
+
+export function getSeatsLeft(slot: Pick<TimeSlot, 'capacity' | 'bookedCount'>): number {
+  return Math.max(getSlotCapacity(slot) - (slot.bookedCount ?? 0), 0);
+}
+
+/**
+ * Seat availability for a group slot, e.g. "3 of 10 seats left"
+ */
+export function formatSeatsLeft(slot: Pick<TimeSlot, 'capacity' | 'bookedCount'>): string {
+  const seatsLeft = getSeatsLeft(slot);
+  if (seatsLeft === 0) {
+    return 'Fully booked';
+  }
+  return `${seatsLeft} of ${getSlotCapacity(slot)} seats left`;
+}
+
+/**
+ * What booking a slot costs: a seat for group slots, the coach's rate otherwise
+ */
+export function getSlotPrice(slot: TimeSlot, coach: Pick<Coach, 'price'>): number {
+  return isGroupSlot(slot) ? slot.seatPrice ?? coach.price : coach.price;
+}
@@ -1,4 +1,9 @@
-import { Coach, Review } from '../types';
+import { Coach, Review, BookedSession, Conversation, ChatMessage } from '../types';
+import { createTimeSlot } from './timeSlots';
+
+const NEW_YORK = 'America/New_York';
+const LOS_ANGELES = 'America/Los_Angeles';
+const CHICAGO = 'America/Chicago';
 
 const reviews: Review[] = [
   { id: '1', userId: '1', userName: 'Alex Smith', rating: 5, comment: 'Amazing coach! Really helped me find direction.', date: '2025-01-01' },
@@ -17,14 +22,24 @@ export const mockCoaches: Coach[] = [
     priceDisplay: '$80/hour',
     description: 'Specialized in career transitions and personal development with 8 years of experience helping professionals find their path.',
     location: 'New York, NY',
+    timeZone: NEW_YORK,
+    schedule: {
+      rules: [{ id: 'weekday-mornings', weekdays: [1, 2, 3, 4], start: '09:00', end: '12:00', slotMinutes: 60 }],
+      exceptions: [],
+      bufferMinutes: 15,
+    },
     experience: 8,
     languages: ['English', 'Spanish'],
     tags: ['Career Change', 'Leadership', 'Goal Setting', 'Work-Life Balance'],
     reviews: reviews.slice(0, 2),
+    packages: [
+      { id: '1-pack-5', coachId: '1', name: '5-Session Pack', sessionCount: 5, price: 360, validityDays: 90 },
+      { id: '1-pack-10', coachId: '1', name: '10-Session Pack', sessionCount: 10, price: 680, validityDays: 180 },
+    ],
     availability: [
-      { id: '1-1', start: '09:00', end: '10:00', available: true, date: '2025-01-15' },
-      { id: '1-2', start: '10:00', end: '11:00', available: true, date: '2025-01-15' },
-      { id: '1-3', start: '14:00', end: '15:00', available: false, date: '2025-01-15' },
+      createTimeSlot('1-1', '2025-01-15', '09:00', '10:00', NEW_YORK, true),
+      createTimeSlot('1-2', '2025-01-15', '10:00', '11:00', NEW_YORK, true),
+      createTimeSlot('1-3', '2025-01-15', '14:00', '15:00', NEW_YORK, false),
     ]
   },
   {
@@ -37,13 +52,26 @@ export const mockCoaches: Coach[] = [
     priceDisplay: '$120/hour',
     description: 'Expert in startup growth and leadership development. Former VP at tech companies, now helping entrepreneurs scale their businesses.',
     location: 'San Francisco, CA',
+    timeZone: LOS_ANGELES,
+    schedule: {
+      rules: [
+        { id: 'early', weekdays: [1, 2, 3, 4, 5], start: '08:00', end: '10:00', slotMinutes: 60 },
+        { id: 'afternoon', weekdays: [2, 4], start: '16:00', end: '18:00', slotMinutes: 60 },
+      ],
+      exceptions: [],
+      bufferMinutes: 0,
+    },
     experience: 12,
     languages: ['English', 'Mandarin'],
     tags: ['Startup Growth', 'Leadership', 'Strategic Planning', 'Team Building'],
     reviews: reviews.slice(1, 3),
+    maxReschedules: 1,
+    packages: [
+      { id: '2-pack-5', coachId: '2', name: '5-Session Pack', sessionCount: 5, price: 540, validityDays: 60 },
+    ],
     availability: [
-      { id: '2-1', start: '08:00', end: '09:00', available: true, date: '2025-01-15' },
-      { id: '2-2', start: '16:00', end: '17:00', available: true, date: '2025-01-15' },
+      createTimeSlot('2-1', '2025-01-15', '08:00', '09:00', LOS_ANGELES, true),
+      createTimeSlot('2-2', '2025-01-15', '16:00', '17:00', LOS_ANGELES, true),
     ]
   },
   {
@@ -56,13 +84,32 @@ export const mockCoaches: Coach[] = [
     priceDisplay: '$90/hour',
     description: 'Focus on work-life balance and stress management. Certified in mindfulness and holistic wellness approaches.',
     location: 'Austin, TX',
+    timeZone: CHICAGO,
+    schedule: {
+      rules: [
+        { id: 'sunrise', weekdays: [1, 3, 5], start: '07:00', end: '08:00', slotMinutes: 60 },
+        { id: 'evening', weekdays: [1, 2, 3, 4], start: '18:00', end: '20:00', slotMinutes: 45 },
+        {
+          id: 'mindfulness-workshop',
+          weekdays: [6],
+          start: '10:00',
+          end: '11:30',
+          slotMinutes: 90,
+          capacity: 10,
+          seatPrice: 35,
+          title: 'Mindfulness Workshop',
+        },
+      ],
+      exceptions: [],
+      bufferMinutes: 15,
+    },
     experience: 6,
     languages: ['English'],
     tags: ['Stress Management', 'Mindfulness', 'Work-Life Balance', 'Wellness'],
     reviews: [reviews[0]],
     availability: [
-      { id: '3-1', start: '07:00', end: '08:00', available: true, date: '2025-01-15' },
-      { id: '3-2', start: '18:00', end: '19:00', available: true, date: '2025-01-15' },
+      createTimeSlot('3-1', '2025-01-15', '07:00', '08:00', CHICAGO, true),
+      createTimeSlot('3-2', '2025-01-15', '18:00', '19:00', CHICAGO, true),
     ]
   },
   {
@@ -75,13 +122,19 @@ export const mockCoaches: Coach[] = [
     priceDisplay: '$150/hour',
     description: 'Executive coaching for C-level leaders. Specializes in leadership transformation and organizational change.',
     location: 'Chicago, IL',
+    timeZone: CHICAGO,
+    schedule: {
+      rules: [{ id: 'executive', weekdays: [1, 2, 3, 4, 5], start: '09:00', end: '17:00', slotMinutes: 60 }],
+      exceptions: [],
+      bufferMinutes: 30,
+    },
     experience: 15,
     languages: ['English', 'Spanish', 'French'],
     tags: ['Executive Leadership', 'Change Management', 'Team Performance', 'Strategic Vision'],
     reviews: reviews,
     availability: [
-      { id: '4-1', start: '09:00', end: '10:00', available: true, date: '2025-01-15' },
-      { id: '4-2', start: '15:00', end: '16:00', available: true, date: '2025-01-15' },
+      createTimeSlot('4-1', '2025-01-15', '09:00', '10:00', CHICAGO, true),
+      createTimeSlot('4-2', '2025-01-15', '15:00', '16:00', CHICAGO, true),
     ]
   },
   {
@@ -94,17 +147,158 @@ export const mockCoaches: Coach[] = [
     priceDisplay: '$70/hour',
     description: 'Helping individuals and couples build stronger, more fulfilling relationships through effective communication and understanding.',
     location: 'Los Angeles, CA',
+    timeZone: LOS_ANGELES,
+    schedule: {
+      rules: [
+        { id: 'midday', weekdays: [2, 3, 4], start: '11:00', end: '13:00', slotMinutes: 60 },
+        { id: 'weekend', weekdays: [6], start: '10:00', end: '14:00', slotMinutes: 60 },
+      ],
+      exceptions: [],
+      bufferMinutes: 0,
+    },
     experience: 5,
     languages: ['English'],
     tags: ['Relationship Building', 'Communication', 'Conflict Resolution', 'Personal Growth'],
     reviews: reviews.slice(0, 1),
     availability: [
-      { id: '5-1', start: '11:00', end: '12:00', available: true, date: '2025-01-15' },
-      { id: '5-2', start: '17:00', end: '18:00', available: true, date: '2025-01-15' },
+      createTimeSlot('5-1', '2025-01-15', '11:00', '12:00', LOS_ANGELES, true),
+      createTimeSlot('5-2', '2025-01-15', '17:00', '18:00', LOS_ANGELES, true),
     ]
   }
 ];
 
+export const mockSessions: BookedSession[] = [
+  {
+    id: '1',
+    coachId: '1',
+    coachName: 'Sarah Johnson',
+    timeSlot: { ...createTimeSlot('1-1', '2025-01-20', '09:00', '10:00', NEW_YORK), available: false },
+    status: 'upcoming',
+    price: 80,
+    notes: 'Focus on career transition planning',
+  },
+  {
+    id: '2',
+    coachId: '2',
+    coachName: 'Michael Chen',
+    timeSlot: { ...createTimeSlot('2-1', '2025-01-18', '16:00', '17:00', LOS_ANGELES), available: false },
+    status: 'upcoming',
+    price: 120,
+    notes: 'Business strategy session',
+  },
+];
+
+export const mockConversations: Conversation[] = [
+  {
+    id: '1',
+    coachId: '1',
+    coachName: 'Sarah Johnson',
+    lastMessage: 'Looking forward to our session tomorrow!',
+    lastMessageTime: '2025-01-11T14:30:00Z',
+    unreadCount: 2,
+    messages: [],
+  },
+  {
+    id: '2',
+    coachId: '2',
+    coachName: 'Michael Chen',
+    lastMessage: 'Here are the resources I mentioned...',
+    lastMessageTime: '2025-01-10T16:45:00Z',
+    unreadCount: 0,
+    messages: [],
+  },
+  {
+    id: '3',
+    coachId: '3',
+    coachName: 'Emily Rodriguez',
+    lastMessage: 'Thanks for the great session!',
+    lastMessageTime: '2025-01-09T11:20:00Z',
+    unreadCount: 1,
+    messages: [],
+  },
+];
+
+// Messages keyed by conversation id; each list matches its conversation's summary above
+export const mockMessages: Record<string, ChatMessage[]> = {
+  '1': [
+    {
+      id: '1',
+      senderId: '1',
+      senderName: 'Sarah Johnson',
+      message: 'Hi! Thanks for booking a session with me. Looking forward to working together!',
+      timestamp: '2025-01-10T10:00:00Z',
+      type: 'text',
+      isRead: true,
+    },
+    {
+      id: '2',
+      senderId: 'user-1',
+      senderName: 'You',
+      message: 'Thanks Sarah! I\'m excited to get started on my career goals.',
+      timestamp: '2025-01-10T10:05:00Z',
+      type: 'text',
+      isRead: true,
+    },
+    {
+      id: '3',
+      senderId: '1',
+      senderName: 'Sarah Johnson',
+      message: 'Perfect! I\'ve prepared some questions for our session tomorrow. We\'ll focus on identifying your core strengths and mapping out a clear path forward.',
+      timestamp: '2025-01-10T10:10:00Z',
+      type: 'text',
+      isRead: false,
+    },
+    {
+      id: '4',
+      senderId: 'system',
+      senderName: 'System',
+      message: 'Session scheduled for January 20, 2025 at 9:00 AM',
+      timestamp: '2025-01-10T10:11:00Z',
+      type: 'system',
+    },
+    {
+      id: '5',
+      senderId: '1',
+      senderName: 'Sarah Johnson',
+      message: 'Looking forward to our session tomorrow!',
+      timestamp: '2025-01-11T14:30:00Z',
+      type: 'text',
+      isRead: false,
+    },
+  ],
+  '2': [
+    {
+      id: '1',
+      senderId: 'user-1',
+      senderName: 'You',
+      message: 'Could you send over the reading list from today?',
+      timestamp: '2025-01-10T16:30:00Z',
+      type: 'text',
+      isRead: true,
+    },
+    {
+      id: '2',
+      senderId: '2',
+      senderName: 'Michael Chen',
+      message: 'Here are the resources I mentioned...',
+      timestamp: '2025-01-10T16:45:00Z',
+      type: 'text',
+      isRead: true,
+    },
+  ],
+  '3': [
+    {
+      id: '1',
+      senderId: '3',
+      senderName: 'Emily Rodriguez',
+      message: 'Thanks for the great session!',
+      timestamp: '2025-01-09T11:20:00Z',
+      type: 'text',
+      isRead: false,
+    },
+  ],
+};
+
 export const getCoaches = (): Coach[] => mockCoaches;
 
 export const getCoachById = (id: string): Coach | undefined => {
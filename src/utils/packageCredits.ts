@@ -0,0 +1,55 @@
+import { PackageCredit, SessionPackage } from '../types';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * What each session in a package effectively costs, rounded to cents
+ */
+export function getPackagePricePerSession(pkg: Pick<SessionPackage, 'price' | 'sessionCount'>): number {
+  return Math.round((pkg.price / pkg.sessionCount) * 100) / 100;
+}
+
+/**
+ * Percentage saved against booking the same number of sessions one by one
+ */
+export function getPackageSavingsPercent(
+  pkg: Pick<SessionPackage, 'price' | 'sessionCount'>,
+  sessionPrice: number
+): number {
+  const fullPrice = sessionPrice * pkg.sessionCount;
+  if (fullPrice <= 0) return 0;
+  return Math.max(Math.round((1 - pkg.price / fullPrice) * 100), 0);
+}
+
+/**
+ * When credits bought at a given moment stop being valid
+ */
+export function getCreditExpiry(purchasedAt: Date, validityDays: number): Date {
+  return new Date(purchasedAt.getTime() + validityDays * DAY);
+}
+
+export function isCreditExpired(credit: Pick<PackageCredit, 'expiresAt'>, now: Date = new Date()): boolean {
+  return new Date(credit.expiresAt).getTime() <= now.getTime();
+}
+
+/**
+ * Whether a credit can pay for a number of sessions right now
+ */
+export function canRedeemCredit(credit: PackageCredit, sessions: number, now: Date = new Date()): boolean {
+  return !isCreditExpired(credit, now) && credit.remainingSessions >= sessions;
+}
+
+/**
+ * The credit to draw a booking from: the one expiring soonest that still
+ * covers every session, so older packages are used up first
+ */
+export function selectCreditForBooking(
+  credits: PackageCredit[],
+  coachId: string,
+  sessions: number,
+  now: Date = new Date()
+): PackageCredit | null {
+  return credits
+    .filter(credit => credit.coachId === coachId && canRedeemCredit(credit, sessions, now))
+    .sort((a, b) => new Date(a.expiresAt).getTime() - new Date(b.expiresAt).getTime())[0] ?? null;
+}
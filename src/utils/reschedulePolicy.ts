@@ -0,0 +1,24 @@
+import { BookedSession, Coach } from '../types';
+
+export const DEFAULT_MAX_RESCHEDULES = 2;
+
+/**
+ * Number of reschedules a coach allows per session
+ */
+export function getRescheduleLimit(coach?: Pick<Coach, 'maxReschedules'> | null): number {
+  return coach?.maxReschedules ?? DEFAULT_MAX_RESCHEDULES;
+}
+
+/**
+ * Reschedules left for a session, or Infinity when the coach sets no limit
+ */
+export function getRemainingReschedules(
+  session: BookedSession,
+  coach?: Pick<Coach, 'maxReschedules'> | null
+): number {
+  const limit = getRescheduleLimit(coach);
+  if (limit < 0) {
+    return Infinity;
+  }
+  return Math.max(limit - (session.rescheduleCount ?? 0), 0);
+}
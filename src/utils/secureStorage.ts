@@ -0,0 +1,252 @@
+import * as SecureStore from 'expo-secure-store';
+import { getRandomBytes } from 'expo-crypto';
+import { xchacha20poly1305 } from '@noble/ciphers/chacha';
+import { bytesToHex, bytesToUtf8, concatBytes, hexToBytes, utf8ToBytes } from '@noble/ciphers/utils';
+import { storage as defaultStorage, SimpleStorage } from './storage';
+
+export type SecureStoreBackend = Pick<
+  typeof SecureStore,
+  'isAvailableAsync' | 'getItemAsync' | 'setItemAsync' | 'deleteItemAsync'
+>;
+
+type PlainStorage = Pick<SimpleStorage, 'getItem' | 'setItem' | 'removeItem' | 'getAllKeys' | 'clear'>;
+
+export interface SecureStorageOptions {
+  // Where non-sensitive values and encrypted large values are kept
+  plainStorage?: PlainStorage;
+  secureStore?: SecureStoreBackend;
+  randomBytes?: (length: number) => Uint8Array;
+}
+
+// Values above this go to plain storage encrypted, as SecureStore can reject them
+export const SECURE_STORE_VALUE_LIMIT = 2048;
+const ENCRYPTED_PREFIX = 'enc:v1:';
+const ENCRYPTION_KEY_NAME = 'storage_encryption_key';
+// SecureStore can't list its keys, so the names of records kept there are tracked here
+const SECURE_KEYS_INDEX = 'secure_store_keys';
+const NONCE_LENGTH = 24;
+
+export function isEncryptedValue(value: string | null): boolean {
+  return !!value && value.startsWith(ENCRYPTED_PREFIX);
+}
+
+/**
+ * Drop-in replacement for `storage` that keeps keys marked as sensitive out of
+ * plain AsyncStorage. Small values go to SecureStore; larger ones are encrypted
+ * with XChaCha20-Poly1305 under a key held in SecureStore. Other keys pass
+ * straight through to `storage`.
+ */
+export class SecureStorage {
+  private sensitiveKeys = new Set<string>();
+  private sensitivePrefixes: string[] = [];
+  private plain: PlainStorage;
+  private secureStore: SecureStoreBackend;
+  private randomBytes: (length: number) => Uint8Array;
+  private availablePromise: Promise<boolean> | null = null;
+  private encryptionKeyPromise: Promise<Uint8Array> | null = null;
+  private secureKeys: Promise<Set<string>> | null = null;
+
+  constructor(options: SecureStorageOptions = {}) {
+    this.plain = options.plainStorage ?? defaultStorage;
+    this.secureStore = options.secureStore ?? SecureStore;
+    this.randomBytes = options.randomBytes ?? getRandomBytes;
+  }
+
+  /**
+   * Route these keys through secure storage
+   */
+  markSensitive(...keys: string[]): void {
+    keys.forEach(key => this.sensitiveKeys.add(key));
+  }
+
+  /**
+   * Route every key starting with this prefix through secure storage
+   */
+  markSensitivePrefix(prefix: string): void {
+    if (!this.sensitivePrefixes.includes(prefix)) {
+      this.sensitivePrefixes.push(prefix);
+    }
+  }
+
+  isSensitive(key: string): boolean {
+    return this.sensitiveKeys.has(key) || this.sensitivePrefixes.some(prefix => key.startsWith(prefix));
+  }
+
+  async getItem(key: string): Promise<string | null> {
+    if (!this.isSensitive(key) || !(await this.isAvailable())) {
+      return this.plain.getItem(key);
+    }
+
+    if ((await this.getSecureKeys()).has(key)) {
+      return this.secureStore.getItemAsync(key);
+    }
+
+    const stored = await this.plain.getItem(key);
+    // Plaintext left from before the key was marked sensitive is still readable until migrated
+    return isEncryptedValue(stored) ? this.decrypt(key, stored!) : stored;
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    if (!this.isSensitive(key) || !(await this.isAvailable())) {
+      await this.plain.setItem(key, value);
+      return;
+    }
+
+    if (utf8ToBytes(value).length <= SECURE_STORE_VALUE_LIMIT) {
+      await this.secureStore.setItemAsync(key, value);
+      await this.trackSecureKey(key, true);
+      await this.plain.removeItem(key);
+      return;
+    }
+
+    await this.plain.setItem(key, await this.encrypt(key, value));
+    if ((await this.getSecureKeys()).has(key)) {
+      await this.secureStore.deleteItemAsync(key);
+      await this.trackSecureKey(key, false);
+    }
+  }
+
+  async removeItem(key: string): Promise<void> {
+    await this.plain.removeItem(key);
+    if (this.isSensitive(key) && (await this.getSecureKeys()).has(key)) {
+      await this.secureStore.deleteItemAsync(key);
+      await this.trackSecureKey(key, false);
+    }
+  }
+
+  async multiGet(keys: string[]): Promise<Array<[string, string | null]>> {
+    return Promise.all(keys.map(async (key): Promise<[string, string | null]> => [key, await this.getItem(key)]));
+  }
+
+  async multiSet(keyValuePairs: Array<[string, string]>): Promise<void> {
+    for (const [key, value] of keyValuePairs) {
+      await this.setItem(key, value);
+    }
+  }
+
+  async multiRemove(keys: string[]): Promise<void> {
+    for (const key of keys) {
+      await this.removeItem(key);
+    }
+  }
+
+  async getAllKeys(): Promise<string[]> {
+    const plainKeys = (await this.plain.getAllKeys()).filter(key => key !== SECURE_KEYS_INDEX);
+    return [...new Set([...plainKeys, ...(await this.getSecureKeys())])];
+  }
+
+  async clear(): Promise<void> {
+    if (await this.isAvailable()) {
+      for (const key of await this.getSecureKeys()) {
+        await this.secureStore.deleteItemAsync(key);
+      }
+      await this.secureStore.deleteItemAsync(ENCRYPTION_KEY_NAME);
+    }
+    await this.plain.clear();
+    this.secureKeys = null;
+    this.encryptionKeyPromise = null;
+  }
+
+  /**
+   * Move sensitive records still stored as plaintext into secure storage.
+   * Returns how many were moved.
+   */
+  async secureExistingRecords(): Promise<number> {
+    if (!(await this.isAvailable())) {
+      return 0;
+    }
+
+    let moved = 0;
+    for (const key of await this.plain.getAllKeys()) {
+      if (!this.isSensitive(key)) continue;
+
+      const value = await this.plain.getItem(key);
+      if (value !== null && !isEncryptedValue(value)) {
+        await this.setItem(key, value);
+        moved++;
+      }
+    }
+    return moved;
+  }
+
+  private isAvailable(): Promise<boolean> {
+    if (!this.availablePromise) {
+      this.availablePromise = this.secureStore.isAvailableAsync().then(
+        available => {
+          if (!available) {
+            console.warn('[SecureStorage] SecureStore not available, sensitive data will be stored in plain storage');
+          }
+          return available;
+        },
+        () => false
+      );
+    }
+    return this.availablePromise;
+  }
+
+  private getEncryptionKey(): Promise<Uint8Array> {
+    if (!this.encryptionKeyPromise) {
+      this.encryptionKeyPromise = (async () => {
+        const stored = await this.secureStore.getItemAsync(ENCRYPTION_KEY_NAME);
+        if (stored) {
+          return hexToBytes(stored);
+        }
+        const key = this.randomBytes(32);
+        await this.secureStore.setItemAsync(ENCRYPTION_KEY_NAME, bytesToHex(key));
+        return key;
+      })();
+      this.encryptionKeyPromise.catch(() => {
+        this.encryptionKeyPromise = null;
+      });
+    }
+    return this.encryptionKeyPromise;
+  }
+
+  private async encrypt(key: string, value: string): Promise<string> {
+    const nonce = this.randomBytes(NONCE_LENGTH);
+    // The storage key is authenticated too, so ciphertext can't be moved to another key
+    const cipher = xchacha20poly1305(await this.getEncryptionKey(), nonce, utf8ToBytes(key));
+    return `${ENCRYPTED_PREFIX}${bytesToHex(concatBytes(nonce, cipher.encrypt(utf8ToBytes(value))))}`;
+  }
+
+  private async decrypt(key: string, value: string): Promise<string | null> {
+    try {
+      const bytes = hexToBytes(value.slice(ENCRYPTED_PREFIX.length));
+      const cipher = xchacha20poly1305(
+        await this.getEncryptionKey(),
+        bytes.subarray(0, NONCE_LENGTH),
+        utf8ToBytes(key)
+      );
+      return bytesToUtf8(cipher.decrypt(bytes.subarray(NONCE_LENGTH)));
+    } catch (error) {
+      console.error(`[SecureStorage] Failed to decrypt ${key}:`, error);
+      return null;
+    }
+  }
+
+  private getSecureKeys(): Promise<Set<string>> {
+    if (!this.secureKeys) {
+      this.secureKeys = this.plain.getItem(SECURE_KEYS_INDEX).then(
+        stored => new Set<string>(stored ? JSON.parse(stored) : []),
+        () => new Set<string>()
+      );
+    }
+    return this.secureKeys;
+  }
+
+  private async trackSecureKey(key: string, stored: boolean): Promise<void> {
+    const keys = await this.getSecureKeys();
+    if (keys.has(key) === stored) {
+      return;
+    }
+    if (stored) {
+      keys.add(key);
+    } else {
+      keys.delete(key);
+    }
+    await this.plain.setItem(SECURE_KEYS_INDEX, JSON.stringify([...keys]));
+  }
+}
+
+export const secureStorage = new SecureStorage();
+export default secureStorage;
@@ -1,15 +1,24 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
 
-class SimpleStorage {
+export interface SimpleStorageOptions {
+  // Keep everything in memory, e.g. for tests
+  memoryOnly?: boolean;
+}
+
+export class SimpleStorage {
   private memoryStorage = new Map<string, string>();
   private isAsyncStorageAvailable = false;
   private initializationPromise: Promise<void> | null = null;
 
-  constructor() {
+  constructor(private options: SimpleStorageOptions = {}) {
     this.initializationPromise = this.checkAsyncStorage();
   }
 
   private async checkAsyncStorage(): Promise<void> {
+    if (this.options.memoryOnly) {
+      return;
+    }
+
     try {
       await AsyncStorage.setItem('test', 'test');
       await AsyncStorage.removeItem('test');
@@ -67,17 +76,25 @@ class SimpleStorage {
   }
 
   async multiGet(keys: string[]): Promise<Array<[string, string | null]>> {
-    const results: Array<[string, string | null]> = [];
-    for (const key of keys) {
-      const value = await this.getItem(key);
-      results.push([key, value]);
+    try {
+      if (this.isAsyncStorageAvailable) {
+        const results = await AsyncStorage.multiGet(keys);
+        return results.map(([key, value]) => [key, value]);
+      }
+      return keys.map(key => [key, this.memoryStorage.get(key) || null]);
+    } catch (error) {
+      return keys.map(key => [key, this.memoryStorage.get(key) || null]);
     }
-    return results;
   }
 
   async multiSet(keyValuePairs: Array<[string, string]>): Promise<void> {
-    for (const [key, value] of keyValuePairs) {
-      await this.setItem(key, value);
+    try {
+      if (this.isAsyncStorageAvailable) {
+        await AsyncStorage.multiSet(keyValuePairs);
+      }
+      keyValuePairs.forEach(([key, value]) => this.memoryStorage.set(key, value));
+    } catch (error) {
+      keyValuePairs.forEach(([key, value]) => this.memoryStorage.set(key, value));
     }
   }
 
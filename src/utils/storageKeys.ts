@@ -0,0 +1,8 @@
+/**
+ * Storage keys shared between the code that owns a value and the migrations that rewrite it
+ */
+
+export const AUTH_TOKEN_STORAGE_KEY = 'auth_token';
+export const USER_STORAGE_KEY = 'user';
+export const THEME_STORAGE_KEY = 'lazycoach_theme';
+export const AUTO_THEME_STORAGE_KEY = 'lazycoach_auto_theme';
@@ -0,0 +1,183 @@
+import type { OfflineAction, SyncableData } from '../services/OfflineDataService';
+import type { BookedSession, ChatMessage, Coach, Conversation, TimeSlot, User } from '../types';
+
+export type MergeStrategy = 'last-writer-wins' | 'union' | 'server-wins';
+
+// How each entity's offline edits are reconciled with newer server state
+export const MERGE_STRATEGIES: Record<SyncableData['type'], MergeStrategy> = {
+  user: 'last-writer-wins',
+  coach: 'last-writer-wins',
+  message: 'union',
+  conversation: 'union',
+  session: 'server-wins',
+  payment: 'server-wins',
+};
+
+// The records offline changes are made to and merged against
+export type SyncEntity = Coach | User | BookedSession | ChatMessage | Conversation;
+
+// Merges go field by field, so either side may only hold some of an entity's fields
+export type SyncEntityFields = Partial<SyncEntity>;
+
+// Lists, like a conversation's messages, are merged item by item on their ids
+export type SyncListItem = SyncEntityFields & { id: string };
+
+// Commands queued for the server to carry out, e.g. moving a session to another slot
+export interface SyncCommand {
+  reschedule?: TimeSlot;
+  reserveSlot?: TimeSlot;
+  releaseSlotId?: string;
+}
+
+// What an offline change carries: an edit to an entity, a batch of list items, or a command
+export type SyncPayload = SyncEntityFields | SyncListItem[] | SyncCommand;
+
+export interface ServerState<T = SyncEntityFields | SyncListItem[]> {
+  data: T;
+  // When the server last changed the entity; absent if it doesn't track it. Entities carry it
+  // as `updatedAt`, which the server sets on every write, so offline edits can tell when they're stale.
+  lastModified?: string;
+}
+
+export interface SyncConflict {
+  id: string;
+  entity: OfflineAction['entity'];
+  entityId: string;
+  action: OfflineAction;
+  strategy: MergeStrategy;
+  localData: SyncPayload;
+  serverData: SyncEntityFields | SyncListItem[];
+  serverLastModified?: string;
+  // Fields whose local value lost to the server's, for last-writer-wins merges
+  overwrittenFields?: string[];
+  detectedAt: string;
+}
+
+export interface ConflictResolution {
+  // 'apply' replays the action with `data`; 'discard' drops it and keeps `data` as the local copy
+  outcome: 'apply' | 'discard';
+  data: SyncPayload;
+  // Set when the user lost a change and should get a say
+  needsReview: boolean;
+  overwrittenFields?: string[];
+}
+
+// Fields that mark a queued payload as a command for the server rather than a copy of the entity
+const COMMAND_FIELDS: Array<keyof SyncCommand> = ['reschedule', 'reserveSlot', 'releaseSlotId'];
+
+function toTime(timestamp?: string): number {
+  return timestamp ? new Date(timestamp).getTime() : 0;
+}
+
+/**
+ * Whether the server changed an entity after the version a local edit was based on.
+ * Without both versions there's nothing to compare, so the edit is let through.
+ */
+export function hasServerChanged(baseLastModified: string | undefined, server: ServerState | null): boolean {
+  if (!baseLastModified || !server?.lastModified) return false;
+  return toTime(server.lastModified) > toTime(baseLastModified);
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Field-by-field merge where the newer side wins each field the local edit touched
+ */
+export function mergeLastWriterWins(
+  local: Record<string, any>,
+  server: Record<string, any>,
+  localModified: string,
+  serverModified?: string
+): { merged: Record<string, any>; overwrittenFields: string[] } {
+  const localIsNewer = toTime(localModified) >= toTime(serverModified);
+  const merged = { ...server };
+  const overwrittenFields: string[] = [];
+
+  for (const [field, value] of Object.entries(local)) {
+    if (localIsNewer || !(field in server)) {
+      merged[field] = value;
+    } else if (!isEqual(server[field], value)) {
+      overwrittenFields.push(field);
+    }
+  }
+  return { merged, overwrittenFields };
+}
+
+/**
+ * Union of two lists keyed by id, oldest first; the server's copy wins for shared ids
+ */
+export function mergeUnion<T extends { id: string; timestamp?: string }>(local: T[], server: T[]): T[] {
+  const byId = new Map<string, T>();
+  local.forEach(item => byId.set(item.id, item));
+  server.forEach(item => byId.set(item.id, item));
+  return [...byId.values()].sort((a, b) => toTime(a.timestamp) - toTime(b.timestamp));
+}
+
+/**
+ * Reconcile a queued action with server state that changed underneath it
+ */
+export function resolveConflict(
+  strategy: MergeStrategy,
+  action: OfflineAction,
+  server: ServerState
+): ConflictResolution {
+  switch (strategy) {
+    case 'server-wins':
+      return { outcome: 'discard', data: server.data, needsReview: !isEqual(action.data, server.data) };
+
+    case 'union': {
+      // A list on the server absorbs the local items; a single local item is only sent if missing
+      if (Array.isArray(server.data)) {
+        const localItems = Array.isArray(action.data) ? action.data : [action.data];
+        const serverIds = new Set(server.data.map((item: { id: string }) => item.id));
+        const merged = mergeUnion(localItems, server.data);
+        const missing = localItems.filter(item => !serverIds.has(item.id));
+        return missing.length > 0
+          ? { outcome: 'apply', data: Array.isArray(action.data) ? missing : missing[0], needsReview: false }
+          : { outcome: 'discard', data: merged, needsReview: false };
+      }
+      return { outcome: 'apply', data: action.data, needsReview: false };
+    }
+
+    case 'last-writer-wins':
+    default: {
+      const { merged, overwrittenFields } = mergeLastWriterWins(
+        action.data ?? {},
+        server.data ?? {},
+        action.timestamp,
+        server.lastModified
+      );
+      return overwrittenFields.length === 0
+        ? { outcome: 'apply', data: merged, needsReview: false }
+        : { outcome: 'apply', data: merged, needsReview: true, overwrittenFields };
+    }
+  }
+}
+
+/**
+ * The local version of a conflicted entity: the user's change laid over the server's copy.
+ * Null when the change was a command (e.g. a reschedule), which only the server can apply.
+ */
+export function getLocalEntity(conflict: Pick<SyncConflict, 'localData' | 'serverData'>): SyncEntity | null {
+  const { localData, serverData } = conflict;
+  if (!localData || typeof localData !== 'object' || Array.isArray(localData)) {
+    return null;
+  }
+  if (COMMAND_FIELDS.some(field => field in localData)) {
+    return null;
+  }
+  const base = serverData && !Array.isArray(serverData) ? serverData : {};
+  return { ...base, ...localData } as SyncEntity;
+}
+
+/**
+ * One-line summary of a conflict for the user choosing how to settle it
+ */
+export function describeConflict(conflict: SyncConflict): string {
+  const fields = conflict.overwrittenFields ?? [];
+  return fields.length > 0
+    ? `Your change to this ${conflict.entity}'s ${fields.join(', ')} was made before a newer update.`
+    : `Your change to this ${conflict.entity} was made before a newer update.`;
+}
@@ -0,0 +1,81 @@
+import type { OfflineAction } from '../services/OfflineDataService';
+
+// First retry waits around this long; each further retry doubles it
+export const SYNC_BACKOFF_BASE_MS = 2000;
+export const SYNC_BACKOFF_MAX_MS = 5 * 60 * 1000;
+
+/**
+ * How long to wait before retry number `retryCount`. Exponential with jitter
+ * in the upper half of the window, so clients that failed together don't retry together.
+ */
+export function getBackoffDelay(
+  retryCount: number,
+  random: () => number = Math.random,
+  baseMs: number = SYNC_BACKOFF_BASE_MS,
+  maxMs: number = SYNC_BACKOFF_MAX_MS
+): number {
+  const window = Math.min(maxMs, baseMs * 2 ** Math.max(0, retryCount - 1));
+  return Math.round(window / 2 + random() * (window / 2));
+}
+
+export function isActionDue(action: OfflineAction, now: number = Date.now()): boolean {
+  return !action.nextAttemptAt || new Date(action.nextAttemptAt).getTime() <= now;
+}
+
+/**
+ * The records an action reads or writes. Actions sharing a key must reach the
+ * server in the order they were queued.
+ */
+export function getOrderingKeys(action: OfflineAction): string[] {
+  const keys = [`${action.entity}:${action.entityId}`];
+  const data = action.data ?? {};
+
+  // A message needs its conversation to exist first
+  if (action.entity === 'message' && data.conversationId) {
+    keys.push(`conversation:${data.conversationId}`);
+  }
+  // A session is booked into, and cancelled out of, a slot on its coach
+  if (action.entity === 'session' && data.coachId) {
+    keys.push(`coach:${data.coachId}`);
+  }
+  // A payment is captured only once the sessions it pays for have been booked
+  if (action.entity === 'payment' && Array.isArray(data.sessionIds)) {
+    data.sessionIds.forEach((sessionId: string) => keys.push(`session:${sessionId}`));
+  }
+  return keys;
+}
+
+export interface SyncPlan {
+  // Each batch only depends on earlier batches, never on actions in the same batch
+  batches: OfflineAction[][];
+  // Not due yet, or waiting on something that isn't
+  deferred: OfflineAction[];
+}
+
+/**
+ * Split a queue into batches that are safe to replay in order. Actions still
+ * backing off hold back every later action that shares a key with them.
+ */
+export function planSyncBatches(actions: OfflineAction[], now: number = Date.now()): SyncPlan {
+  const batches: OfflineAction[][] = [];
+  const deferred: OfflineAction[] = [];
+  // The batch after the last action seen for each key, or -1 if that key is held back
+  const nextBatchForKey = new Map<string, number>();
+
+  for (const action of actions) {
+    const keys = getOrderingKeys(action);
+    const blocked = !isActionDue(action, now) || keys.some(key => nextBatchForKey.get(key) === -1);
+
+    if (blocked) {
+      deferred.push(action);
+      keys.forEach(key => nextBatchForKey.set(key, -1));
+      continue;
+    }
+
+    const batchIndex = Math.max(0, ...keys.map(key => nextBatchForKey.get(key) ?? 0));
+    (batches[batchIndex] ??= []).push(action);
+    keys.forEach(key => nextBatchForKey.set(key, batchIndex + 1));
+  }
+
+  return { batches, deferred };
+}
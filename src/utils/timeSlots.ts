@@ -0,0 +1,166 @@
+import { TimeSlot } from '../types';
+
+const FALLBACK_TIME_ZONE = 'UTC';
+
+/**
+ * IANA timezone of the device, e.g. "America/Los_Angeles"
+ */
+export function getDeviceTimeZone(): string {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || FALLBACK_TIME_ZONE;
+  } catch {
+    return FALLBACK_TIME_ZONE;
+  }
+}
+
+/**
+ * Offset of a timezone from UTC at a given instant, in minutes (east positive)
+ */
+export function getTimeZoneOffsetMinutes(instant: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(instant);
+
+  const get = (type: Intl.DateTimeFormatPartTypes): number =>
+    parseInt(parts.find(part => part.type === type)?.value ?? '0', 10);
+
+  const asUtc = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+  return Math.round((asUtc - Math.floor(instant.getTime() / 1000) * 1000) / 60000);
+}
+
+/**
+ * Convert a wall-clock date ("2025-01-15") and time ("09:00") in a timezone to a UTC instant
+ */
+export function zonedTimeToUtc(date: string, time: string, timeZone: string): Date {
+  const [year, month, day] = date.split('-').map(Number);
+  const [hour, minute] = time.split(':').map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+
+  // Guess with the offset at the wall-clock time, then correct once for DST transitions
+  const firstGuess = wallClock - getTimeZoneOffsetMinutes(new Date(wallClock), timeZone) * 60000;
+  const offset = getTimeZoneOffsetMinutes(new Date(firstGuess), timeZone);
+  return new Date(wallClock - offset * 60000);
+}
+
+/**
+ * Calendar date ("YYYY-MM-DD") of an instant in a timezone
+ */
+export function getDateInTimeZone(instant: Date, timeZone: string = getDeviceTimeZone()): string {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).formatToParts(instant);
+  const get = (type: Intl.DateTimeFormatPartTypes): string =>
+    parts.find(part => part.type === type)?.value ?? '';
+  return `${get('year')}-${get('month')}-${get('day')}`;
+}
+
+/**
+ * Format an instant in a timezone, defaulting to the viewer's own zone
+ */
+export function formatInTimeZone(
+  instant: Date,
+  options: Intl.DateTimeFormatOptions,
+  timeZone: string = getDeviceTimeZone()
+): string {
+  return instant.toLocaleString('en-US', { ...options, timeZone });
+}
+
+/**
+ * Short zone label for an instant, e.g. "EST" or "GMT+1"
+ */
+export function getTimeZoneAbbreviation(instant: Date, timeZone: string): string {
+  const parts = new Intl.DateTimeFormat('en-US', { timeZone, timeZoneName: 'short' }).formatToParts(instant);
+  return parts.find(part => part.type === 'timeZoneName')?.value ?? timeZone;
+}
+
+/**
+ * Build a slot from a coach's wall-clock date and times in their timezone
+ */
+export function createTimeSlot(
+  id: string,
+  date: string,
+  start: string,
+  end: string,
+  timeZone: string,
+  available: boolean = true
+): TimeSlot {
+  return {
+    id,
+    date,
+    start,
+    end,
+    available,
+    timeZone,
+    startsAt: zonedTimeToUtc(date, start, timeZone).toISOString(),
+    endsAt: zonedTimeToUtc(date, end, timeZone).toISOString(),
+  };
+}
+
+/**
+ * Fill in the UTC instants for slots stored before they carried them.
+ * Those slots were read as the device's local time, so that stays the default.
+ */
+export function normalizeTimeSlot(
+  slot: Omit<TimeSlot, 'startsAt' | 'endsAt' | 'timeZone'> & Partial<TimeSlot>,
+  fallbackTimeZone: string = getDeviceTimeZone()
+): TimeSlot {
+  if (slot.startsAt && slot.endsAt && slot.timeZone) {
+    return slot as TimeSlot;
+  }
+  const timeZone = slot.timeZone ?? fallbackTimeZone;
+  return {
+    ...slot,
+    ...createTimeSlot(slot.id, slot.date, slot.start, slot.end, timeZone, slot.available),
+  };
+}
+
+/**
+ * Start of a slot as a Date
+ */
+export function getSlotStartDate(slot: TimeSlot): Date {
+  return new Date(slot.startsAt);
+}
+
+/**
+ * End of a slot as a Date
+ */
+export function getSlotEndDate(slot: TimeSlot): Date {
+  return new Date(slot.endsAt);
+}
+
+/**
+ * Calendar date of a slot's start for the viewer, used to group slots by day
+ */
+export function getSlotLocalDate(slot: TimeSlot, timeZone: string = getDeviceTimeZone()): string {
+  return getDateInTimeZone(getSlotStartDate(slot), timeZone);
+}
+
+/**
+ * Time range of a slot in a timezone, e.g. "6:00 AM - 7:00 AM"
+ */
+export function formatSlotTimeRange(slot: TimeSlot, timeZone: string = getDeviceTimeZone()): string {
+  const options: Intl.DateTimeFormatOptions = { hour: 'numeric', minute: '2-digit' };
+  return `${formatInTimeZone(getSlotStartDate(slot), options, timeZone)} - ${formatInTimeZone(getSlotEndDate(slot), options, timeZone)}`;
+}
+
+/**
+ * A slot's time range in the coach's timezone, e.g. "9:00 AM - 10:00 AM EST",
+ * or null when the viewer is on the same clock and it would add nothing
+ */
+export function formatCoachLocalTime(slot: TimeSlot, viewerTimeZone: string = getDeviceTimeZone()): string | null {
+  const start = getSlotStartDate(slot);
+  if (getTimeZoneOffsetMinutes(start, slot.timeZone) === getTimeZoneOffsetMinutes(start, viewerTimeZone)) {
+    return null;
+  }
+  return `${formatSlotTimeRange(slot, slot.timeZone)} ${getTimeZoneAbbreviation(start, slot.timeZone)}`;
+}
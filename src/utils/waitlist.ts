@@ -0,0 +1,49 @@
+import { TimeSlot, WaitlistEntry } from '../types';
+
+// How long a freed slot is held for a waitlisted client before it moves on
+export const WAITLIST_HOLD_MINUTES = 30;
+
+/**
+ * Whether a slot falls in the dates a waitlist entry asked for
+ */
+export function isSlotInEntryRange(entry: Pick<WaitlistEntry, 'fromDate' | 'toDate'>, slot: TimeSlot): boolean {
+  return (!entry.fromDate || slot.date >= entry.fromDate) && (!entry.toDate || slot.date <= entry.toDate);
+}
+
+/**
+ * The client a freed slot should be offered to: the earliest to join among
+ * those still waiting for this coach, whose dates cover the slot and who
+ * haven't already let a hold on it lapse
+ */
+export function findNextInLine(
+  entries: WaitlistEntry[],
+  coachId: string,
+  slot: TimeSlot
+): WaitlistEntry | null {
+  return entries
+    .filter(entry =>
+      entry.coachId === coachId &&
+      entry.status === 'waiting' &&
+      isSlotInEntryRange(entry, slot) &&
+      !(entry.passedSlotIds ?? []).includes(slot.id)
+    )
+    .sort((a, b) => new Date(a.joinedAt).getTime() - new Date(b.joinedAt).getTime())[0] ?? null;
+}
+
+/**
+ * When a hold placed now should lapse
+ */
+export function getHoldExpiry(now: Date = new Date(), holdMinutes: number = WAITLIST_HOLD_MINUTES): Date {
+  return new Date(now.getTime() + holdMinutes * 60 * 1000);
+}
+
+export function isHoldExpired(slot: Pick<TimeSlot, 'heldFor' | 'holdExpiresAt'>, now: Date = new Date()): boolean {
+  return !!slot.heldFor && !!slot.holdExpiresAt && new Date(slot.holdExpiresAt).getTime() <= now.getTime();
+}
+
+/**
+ * Whether a slot is held for someone other than the given user
+ */
+export function isHeldForSomeoneElse(slot: TimeSlot, userId?: string, now: Date = new Date()): boolean {
+  return !!slot.heldFor && slot.heldFor !== userId && !isHoldExpired(slot, now);
+}